@@ -0,0 +1,147 @@
+'use strict';
+
+// Main-process side of the attempts' tamper-evident hash chain. The renderer sends the
+// payloads to append (one per answer, integrity event or seal); each link's hash is
+// HMAC-SHA256(device secret, prevHash + "\n" + payload). The secret is created once per
+// install under userData and never leaves this process.
+//
+// This process also keeps every attempt's chain head (link count and last hash) and only
+// ever appends after it, so the page cannot re-sign links it has edited, and nothing can
+// be added once an attempt is sealed. Chains are verified here too: the page gets a
+// verdict back, never a hash for links it chose.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const SECRET_BYTES = 32;
+
+function loadDeviceSecret(filePath) {
+  if (fs.existsSync(filePath)) {
+    const secret = Buffer.from(fs.readFileSync(filePath, 'utf8').trim(), 'hex');
+    if (secret.length === SECRET_BYTES) return secret;
+    throw new Error('Device secret is corrupt; refusing to replace it');
+  }
+  const secret = crypto.randomBytes(SECRET_BYTES);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, secret.toString('hex'), { encoding: 'utf8', mode: 0o600 });
+  return secret;
+}
+
+// Short public fingerprint of the secret, stored on each link so a chain from
+// another install can be told apart from one signed here.
+function getKeyId(secret) {
+  return crypto.createHash('sha256').update(secret).digest('hex').slice(0, 16);
+}
+
+function signChain(secret, prevHash, payloads) {
+  let prev = typeof prevHash === 'string' ? prevHash : '';
+  return payloads.map((payload) => {
+    prev = crypto.createHmac('sha256', secret).update(`${prev}\n${payload}`, 'utf8').digest('hex');
+    return prev;
+  });
+}
+
+function loadHeads(filePath) {
+  if (!fs.existsSync(filePath)) return {};
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Attempt chain heads are corrupt; refusing to replace them');
+  }
+  return parsed;
+}
+
+function saveHeads(filePath, heads) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(heads), { encoding: 'utf8', mode: 0o600 });
+  fs.renameSync(tmp, filePath);
+}
+
+function assertStrings(values, name) {
+  if (!Array.isArray(values) || values.some((v) => typeof v !== 'string')) {
+    throw new Error(`${name} must be an array of strings`);
+  }
+}
+
+// Payload lines are attemptId, seq, kind, recordKey, digest (see linkPayload in src/lib/attemptChain.ts).
+function createAttemptChainService(options) {
+  let secret = null;
+  let heads = null;
+  const getSecret = () => {
+    if (!secret) secret = loadDeviceSecret(options.getSecretPath());
+    return secret;
+  };
+  const getHeads = () => {
+    if (!heads) heads = loadHeads(options.getHeadsPath());
+    return heads;
+  };
+
+  // Appends after the recorded head; returns the new links' hashes and the hash before them.
+  function append(attemptId, payloads) {
+    if (typeof attemptId !== 'string' || !attemptId) throw new Error('attemptId is required');
+    assertStrings(payloads, 'payloads');
+    const all = getHeads();
+    const head = all[attemptId] || { count: 0, hash: '', sealed: false };
+    if (head.sealed) throw new Error('Attempt chain is sealed');
+    let sealed = false;
+    payloads.forEach((payload, i) => {
+      const [id, seq, kind] = payload.split('\n');
+      if (id !== attemptId || seq !== String(head.count + i)) {
+        throw new Error(`Link ${i} does not continue the chain at ${head.count}`);
+      }
+      if (sealed) throw new Error('Nothing can follow the seal');
+      if (kind === 'seal') sealed = true;
+    });
+    const key = getSecret();
+    const hashes = signChain(key, head.hash, payloads);
+    if (hashes.length) {
+      all[attemptId] = { count: head.count + hashes.length, hash: hashes[hashes.length - 1], sealed };
+      saveHeads(options.getHeadsPath(), all);
+    }
+    return { keyId: getKeyId(key), prevHash: head.hash, hashes };
+  }
+
+  // `links` are the stored links in seq order. Verdicts:
+  //   valid    - every hash recomputes and the chain ends at the recorded head
+  //   broken   - link `brokenAt` no longer matches its signature
+  //   mismatch - links were removed or added (count or last hash differ from the head)
+  //   unknown  - this device has no record of signing a chain for the attempt
+  function verify(attemptId, links) {
+    if (typeof attemptId !== 'string' || !attemptId) throw new Error('attemptId is required');
+    if (!Array.isArray(links)) throw new Error('links must be an array');
+    assertStrings(links.map((l) => l && l.payload), 'link payloads');
+    const key = getSecret();
+    const keyId = getKeyId(key);
+    const head = getHeads()[attemptId];
+    if (!head) return { keyId, verdict: 'unknown', brokenAt: -1, recordedLinks: 0 };
+    const hashes = signChain(key, '', links.map((l) => l.payload));
+    const brokenAt = links.findIndex((l, i) => l.hash !== hashes[i]);
+    let verdict = 'valid';
+    if (brokenAt >= 0) verdict = 'broken';
+    else if (links.length !== head.count || (hashes[hashes.length - 1] || '') !== head.hash) verdict = 'mismatch';
+    return { keyId, verdict, brokenAt, recordedLinks: head.count };
+  }
+
+  return { append, verify };
+}
+
+function registerAttemptChainIpc(ipcMain, options) {
+  const service = createAttemptChainService(options);
+
+  ipcMain.handle('attemptChain:append', async (_event, payload) => {
+    return service.append(payload && payload.attemptId, payload && payload.payloads);
+  });
+
+  ipcMain.handle('attemptChain:verify', async (_event, payload) => {
+    return service.verify(payload && payload.attemptId, payload && payload.links);
+  });
+}
+
+module.exports = {
+  loadDeviceSecret,
+  getKeyId,
+  signChain,
+  createAttemptChainService,
+  registerAttemptChainIpc,
+};
@@ -0,0 +1,59 @@
+'use strict';
+
+// Streams a backup export to disk. The renderer opens a file (save dialog), appends
+// text chunks as it reads the database and closes it, so a backup full of audio and
+// images never has to cross IPC as one string. Chunks go to "<file>.partial", which
+// is renamed into place on close and removed if the export is aborted.
+
+const fs = require('fs');
+const crypto = require('crypto');
+
+function registerBackupFileIpc(ipcMain, options) {
+  const open = new Map(); // token -> { handle, filePath, tempPath }
+
+  const take = (payload) => {
+    const entry = payload && typeof payload.token === 'string' ? open.get(payload.token) : null;
+    if (!entry) throw new Error('Export file is not open');
+    return entry;
+  };
+
+  ipcMain.handle('data:openExportFile', async (_event, payload) => {
+    const win = options.getWindow();
+    if (!win || win.isDestroyed()) throw new Error('Main window is not available');
+    const defaultFileName = payload && typeof payload.defaultFileName === 'string' ? payload.defaultFileName : 'Limit-backup.json';
+    const pick = await options.dialog.showSaveDialog(win, {
+      title: 'Export data',
+      defaultPath: defaultFileName,
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+    if (pick.canceled || !pick.filePath) return { canceled: true };
+    const tempPath = `${pick.filePath}.partial`;
+    const handle = await fs.promises.open(tempPath, 'w');
+    const token = crypto.randomUUID();
+    open.set(token, { handle, filePath: pick.filePath, tempPath });
+    return { canceled: false, token, filePath: pick.filePath };
+  });
+
+  ipcMain.handle('data:appendExportFile', async (_event, payload) => {
+    const entry = take(payload);
+    if (typeof payload.chunk !== 'string') throw new Error('chunk must be a string');
+    await entry.handle.write(payload.chunk, null, 'utf8');
+    return { ok: true };
+  });
+
+  ipcMain.handle('data:closeExportFile', async (_event, payload) => {
+    const entry = take(payload);
+    open.delete(payload.token);
+    await entry.handle.close();
+    if (payload.abort) {
+      await fs.promises.rm(entry.tempPath, { force: true });
+      return { ok: true, aborted: true };
+    }
+    await fs.promises.rename(entry.tempPath, entry.filePath);
+    return { ok: true, filePath: entry.filePath };
+  });
+}
+
+module.exports = {
+  registerBackupFileIpc,
+};
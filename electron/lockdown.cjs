@@ -0,0 +1,125 @@
+'use strict';
+
+// Main-process exam lockdown. While an exam attempt is running the window goes
+// kiosk + always-on-top, OS/browser shortcuts are swallowed in before-input-event
+// and the window refuses to close. Every blocked attempt is sent to the renderer
+// ('lockdown:blocked') so it can be logged as an integrity event for the attempt.
+// The renderer's own checks stay in place; this is what a student can't bypass
+// by pressing keys the page never sees.
+
+// Shortcuts that leave, close, reload or inspect the exam window.
+// Each rule: predicate on the Electron input, label reported to the renderer.
+const BLOCKED_SHORTCUTS = [
+  { label: 'Alt+Tab', match: (i, key) => key === 'tab' && i.alt },
+  { label: 'Alt+F4', match: (i, key) => key === 'f4' && i.alt },
+  { label: 'Ctrl+Tab', match: (i, key) => key === 'tab' && (i.control || i.meta) },
+  { label: 'Ctrl+W', match: (i, key) => key === 'w' && (i.control || i.meta) },
+  { label: 'Ctrl+Q', match: (i, key) => key === 'q' && (i.control || i.meta) },
+  { label: 'Ctrl+N', match: (i, key) => key === 'n' && (i.control || i.meta) },
+  { label: 'Ctrl+T', match: (i, key) => key === 't' && (i.control || i.meta) },
+  { label: 'Reload', match: (i, key) => key === 'f5' || (key === 'r' && (i.control || i.meta)) },
+  { label: 'DevTools', match: (i, key) => key === 'f12' || (key === 'i' && (i.control || i.meta) && (i.shift || i.alt)) },
+  { label: 'DevTools', match: (i, key) => key === 'j' && (i.control || i.meta) && i.shift },
+  { label: 'Exit fullscreen', match: (i, key) => key === 'f11' },
+];
+
+/** Label of the lockdown rule the key press breaks, or null when it is allowed. */
+function getBlockedShortcut(input) {
+  if (!input || input.type === 'keyUp') return null;
+  const key = String(input.key || '').toLowerCase();
+  const rule = BLOCKED_SHORTCUTS.find((r) => r.match(input, key));
+  return rule ? rule.label : null;
+}
+
+function createLockdownController(options) {
+  let state = null; // { attemptId, kiosk, blockShortcuts, previous: { alwaysOnTop, fullScreen } }
+
+  const getWindow = () => {
+    const win = options.getWindow();
+    return win && !win.isDestroyed() ? win : null;
+  };
+
+  const report = (kind, detail) => {
+    const win = getWindow();
+    if (!state || !win) return;
+    win.webContents.send('lockdown:blocked', { attemptId: state.attemptId, kind, detail, ts: Date.now() });
+  };
+
+  return {
+    isActive: () => !!state,
+
+    enter(attemptId, settings) {
+      const win = getWindow();
+      if (!win) throw new Error('Main window is not available');
+      if (state && state.attemptId === attemptId) return { active: true };
+      const kiosk = !settings || settings.kiosk !== false;
+      state = {
+        attemptId,
+        kiosk,
+        blockShortcuts: !settings || settings.blockShortcuts !== false,
+        previous: { alwaysOnTop: win.isAlwaysOnTop(), fullScreen: win.isFullScreen() },
+      };
+      if (kiosk) {
+        win.setKiosk(true);
+        win.setAlwaysOnTop(true, 'screen-saver');
+      }
+      win.focus();
+      return { active: true };
+    },
+
+    exit(attemptId) {
+      if (!state || (attemptId && state.attemptId !== attemptId)) return { active: !!state };
+      const { kiosk, previous } = state;
+      state = null;
+      const win = getWindow();
+      if (win && kiosk) {
+        win.setKiosk(false);
+        win.setAlwaysOnTop(previous.alwaysOnTop);
+        win.setFullScreen(previous.fullScreen);
+      }
+      return { active: false };
+    },
+
+    // before-input-event: returns true when the key was swallowed.
+    handleInput(event, input) {
+      if (!state || !state.blockShortcuts) return false;
+      const label = getBlockedShortcut(input);
+      if (!label) return false;
+      event.preventDefault();
+      report('shortcut', label);
+      return true;
+    },
+
+    // Window 'close': kept open until the attempt is submitted.
+    handleClose(event) {
+      if (!state) return false;
+      event.preventDefault();
+      report('close', 'Window close');
+      return true;
+    },
+
+    // Window 'blur' in kiosk mode: take focus back. The renderer logs the blur itself.
+    handleBlur() {
+      const win = getWindow();
+      if (!state || !state.kiosk || !win) return;
+      win.focus();
+    },
+  };
+}
+
+function registerLockdownIpc(ipcMain, controller) {
+  ipcMain.handle('lockdown:enter', async (_event, payload) => {
+    const attemptId = payload && typeof payload.attemptId === 'string' ? payload.attemptId : '';
+    if (!attemptId) throw new Error('attemptId is required');
+    return controller.enter(attemptId, payload);
+  });
+  ipcMain.handle('lockdown:exit', async (_event, payload) => {
+    return controller.exit(payload && payload.attemptId);
+  });
+}
+
+module.exports = {
+  getBlockedShortcut,
+  createLockdownController,
+  registerLockdownIpc,
+};
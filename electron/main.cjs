@@ -1,9 +1,15 @@
 'use strict';
 
-const { app, BrowserWindow, Menu, ipcMain, dialog, session, shell } = require('electron');
+const { app, BrowserWindow, Menu, ipcMain, dialog, session, shell, nativeImage } = require('electron');
 const path = require('path');
 const fs = require('fs');
 const { pathToFileURL } = require('url');
+const { createOfflineAiService, registerOfflineAiIpc } = require('./offlineAi.cjs');
+const { createOcrImportService, registerOcrImportIpc } = require('./ocrImport.cjs');
+const { canCapture, recordAttemptRetention, registerProctoringIpc } = require('./proctoring.cjs');
+const { createLockdownController, registerLockdownIpc } = require('./lockdown.cjs');
+const { registerAttemptChainIpc } = require('./attemptChain.cjs');
+const { registerBackupFileIpc } = require('./backupFiles.cjs');
 
 // Improve wheel/trackpad feel across the app (Chromium)
 app.commandLine.appendSwitch('enable-smooth-scrolling');
@@ -28,29 +34,20 @@ function canWriteToDir(dirPath) {
 
 let mainWindow;
 const isDev = !app.isPackaged;
-function clampRect(rect, maxW, maxH) {
-	const x = Math.max(0, Math.min(maxW - 1, Math.floor(rect.x)));
-	const y = Math.max(0, Math.min(maxH - 1, Math.floor(rect.y)));
-	const w = Math.max(1, Math.min(maxW - x, Math.floor(rect.width)));
-	const h = Math.max(1, Math.min(maxH - y, Math.floor(rect.height)));
-	return { x, y, width: w, height: h };
-}
 
-function isQuestionStartLine(text) {
-	const t = String(text || '').trim();
-	return /^\d{1,3}\s*[\).]/.test(t);
+// OFFLINE_AI_DIR points the service at another bundle, e.g. the stub from scripts/setup-offline-ai-stub.cjs.
+function getOfflineAiRoot() {
+	if (process.env.OFFLINE_AI_DIR) return path.resolve(process.env.OFFLINE_AI_DIR);
+	if (app.isPackaged) return path.join(process.resourcesPath, 'native', 'offline-ai');
+	return path.join(__dirname, '..', 'native', 'offline-ai');
 }
 
-function isOptionStartLine(text) {
-	const t = String(text || '').trim();
-	return /^[A-Ea-e]\s*[\).]/.test(t);
+function getProctoringRoot() {
+	return path.join(app.getPath('userData'), 'proctoring');
 }
 
-function normalizeOptionLabel(text) {
-	const t = String(text || '').trim();
-	const m = t.match(/^([A-Ea-e])\s*[\).]/);
-	return m ? m[1].toUpperCase() : null;
-}
+let offlineAi = null;
+const lockdown = createLockdownController({ getWindow: () => mainWindow });
 
 function createWindow() {
   mainWindow = new BrowserWindow({
@@ -75,10 +72,13 @@ function createWindow() {
 
   mainWindow.webContents.on('render-process-gone', (_event, details) => {
     console.error('[render-process-gone]', details);
+    // Nothing is left to submit the exam, so don't keep the student locked in.
+    lockdown.exit();
   });
 
 	mainWindow.webContents.on('before-input-event', (_event, input) => {
 		try {
+			if (lockdown.handleInput(_event, input)) return;
 			const key = String(input.key || '').toLowerCase();
 			if (key === 'i' && input.control && input.shift && !input.alt && !input.meta) {
 				if (mainWindow && !mainWindow.isDestroyed()) {
@@ -116,6 +116,15 @@ function createWindow() {
     mainWindow.webContents.openDevTools();
   }
 
+  // During an exam the window stays open until the attempt is submitted.
+  mainWindow.on('close', (event) => {
+    lockdown.handleClose(event);
+  });
+
+  mainWindow.on('blur', () => {
+    lockdown.handleBlur();
+  });
+
   mainWindow.on('closed', () => {
     mainWindow = null;
   });
@@ -154,6 +163,21 @@ app.on('ready', () => {
 
   createWindow();
 
+	offlineAi = createOfflineAiService({ rootDir: getOfflineAiRoot() });
+	registerOfflineAiIpc(ipcMain, offlineAi);
+	registerOcrImportIpc(
+		ipcMain,
+		createOcrImportService({ rootDir: getOfflineAiRoot(), nativeImage, tempDir: app.getPath('temp') }),
+		{ dialog, getWindow: () => mainWindow },
+	);
+	registerProctoringIpc(ipcMain, { getRootDir: getProctoringRoot, dialog, getWindow: () => mainWindow });
+	registerLockdownIpc(ipcMain, lockdown);
+	registerAttemptChainIpc(ipcMain, {
+		getSecretPath: () => path.join(app.getPath('userData'), 'device-secret'),
+		getHeadsPath: () => path.join(app.getPath('userData'), 'attempt-chain-heads.json'),
+	});
+	registerBackupFileIpc(ipcMain, { dialog, getWindow: () => mainWindow });
+
 	ipcMain.handle('songs:saveAudioFile', async (_event, payload) => {
 		const fileName = payload && typeof payload.fileName === 'string' ? payload.fileName : '';
 		const dataBase64 = payload && typeof payload.dataBase64 === 'string' ? payload.dataBase64 : '';
@@ -238,8 +262,15 @@ app.on('ready', () => {
     const rect = payload && payload.rect && typeof payload.rect === 'object' ? payload.rect : undefined;
     const ts = Date.now();
 
-    const baseDir = path.join(app.getPath('userData'), 'proctoring', attemptId);
+    // Per-attempt count and disk quota from the module's proctoring policy.
+    if (!canCapture(getProctoringRoot(), attemptId, payload && payload.limits)) {
+      return { skipped: true, ts, attemptId, questionId };
+    }
+
+    const baseDir = path.join(getProctoringRoot(), attemptId);
     fs.mkdirSync(baseDir, { recursive: true });
+    // Fixed at the first screenshot; pruning later goes by these, not by what the page asks.
+    recordAttemptRetention(getProctoringRoot(), attemptId, payload && payload.limits);
 
     const fileName = questionId ? `${ts}-${questionId}.png` : `${ts}.png`;
     const filePath = path.join(baseDir, fileName);
@@ -284,6 +315,10 @@ app.on('ready', () => {
 
 });
 
+app.on('before-quit', () => {
+	if (offlineAi) offlineAi.dispose();
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
@@ -0,0 +1,373 @@
+'use strict';
+
+// Main-process side of window.ocrImport: turns scanned papers into draft questions.
+// PDFs are rasterized with pdftoppm, every page image goes through tesseract (TSV
+// output, so we keep line boxes), and the lines are split into numbered questions
+// with A-E options. Each question comes back with a crop of its source region so
+// the admin can check the OCR against the original.
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { spawn } = require('child_process');
+const { getPlatformArchDir } = require('./offlineAi.cjs');
+
+const DEFAULT_DPI = 200;
+const DEFAULT_TIMEOUT_MS = 2 * 60 * 1000;
+const STDERR_TAIL_CHARS = 2000;
+const CROP_PADDING_PX = 12;
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+function isFile(p) {
+  try {
+    return fs.existsSync(p) && fs.statSync(p).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function clampRect(rect, maxW, maxH) {
+  const x = Math.max(0, Math.min(maxW - 1, Math.floor(rect.x)));
+  const y = Math.max(0, Math.min(maxH - 1, Math.floor(rect.y)));
+  const w = Math.max(1, Math.min(maxW - x, Math.floor(rect.width)));
+  const h = Math.max(1, Math.min(maxH - y, Math.floor(rect.height)));
+  return { x, y, width: w, height: h };
+}
+
+function isQuestionStartLine(text) {
+  const t = String(text || '').trim();
+  return /^\d{1,3}\s*[\).]/.test(t);
+}
+
+function isOptionStartLine(text) {
+  const t = String(text || '').trim();
+  return /^[A-Ea-e]\s*[\).]/.test(t);
+}
+
+function normalizeOptionLabel(text) {
+  const t = String(text || '').trim();
+  const m = t.match(/^([A-Ea-e])\s*[\).]/);
+  return m ? m[1].toUpperCase() : null;
+}
+
+function unionRect(a, b) {
+  if (!a) return { ...b };
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// Tesseract TSV: level page_num block_num par_num line_num word_num left top width height conf text.
+// Words (level 5) are joined back into lines in the order tesseract read them.
+function parseTesseractTsv(tsv) {
+  const lines = [];
+  const byKey = new Map();
+  for (const row of String(tsv || '').split(/\r?\n/).slice(1)) {
+    const cols = row.split('\t');
+    if (cols.length < 12 || cols[0] !== '5') continue;
+    const text = cols.slice(11).join('\t').trim();
+    if (!text) continue;
+    const key = `${cols[2]}:${cols[3]}:${cols[4]}`;
+    const rect = { x: Number(cols[6]), y: Number(cols[7]), width: Number(cols[8]), height: Number(cols[9]) };
+    let line = byKey.get(key);
+    if (!line) {
+      line = { text: '', rect: null };
+      byKey.set(key, line);
+      lines.push(line);
+    }
+    line.text = line.text ? `${line.text} ${text}` : text;
+    line.rect = unionRect(line.rect, rect);
+  }
+  return lines;
+}
+
+// "A) 12  B) 14  C. 16" on one line becomes three options.
+function splitInlineOptions(text) {
+  const parts = [];
+  const re = /(?:^|\s)([A-Ea-e])\s*[\).]\s*/g;
+  let match;
+  let last = null;
+  while ((match = re.exec(text))) {
+    const label = match[1].toUpperCase();
+    // Only accept the next letter in sequence so words like "a." inside an option don't split it.
+    if (last && label.charCodeAt(0) !== last.label.charCodeAt(0) + 1) continue;
+    if (last) last.text = text.slice(last.start, match.index).trim();
+    last = { label, start: match.index + match[0].length, text: '' };
+    parts.push(last);
+  }
+  if (last) last.text = text.slice(last.start).trim();
+  return parts.map((p) => ({ label: p.label, text: p.text }));
+}
+
+/**
+ * Groups OCR lines (`{ page, text, rect }`, in reading order) into questions.
+ * Text before the first numbered line (paper headers, instructions) is dropped.
+ */
+function parseQuestionsFromLines(lines) {
+  const questions = [];
+  let current = null;
+  let currentOption = null;
+
+  for (const line of lines) {
+    const text = String(line.text || '').trim();
+    if (!text) continue;
+
+    if (isQuestionStartLine(text)) {
+      current = {
+        number: parseInt(text, 10),
+        text: text.replace(/^\d{1,3}\s*[\).]\s*/, ''),
+        options: [],
+        page: line.page,
+        rect: line.rect ? { ...line.rect } : null,
+      };
+      currentOption = null;
+      questions.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.rect && line.page === current.page) current.rect = unionRect(current.rect, line.rect);
+
+    if (isOptionStartLine(text)) {
+      for (const opt of splitInlineOptions(text)) {
+        currentOption = { label: opt.label, text: opt.text };
+        current.options.push(currentOption);
+      }
+      continue;
+    }
+
+    if (currentOption) {
+      currentOption.text = currentOption.text ? `${currentOption.text} ${text}` : text;
+    } else {
+      current.text = current.text ? `${current.text}\n${text}` : text;
+    }
+  }
+  return questions;
+}
+
+function createOcrImportService(options) {
+  const rootDir = options.rootDir;
+  const platform = options.platform || process.platform;
+  const binDir = path.join(rootDir, getPlatformArchDir(platform, options.arch || process.arch));
+  const spawnProcess = options.spawn || spawn;
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const nativeImage = options.nativeImage || null;
+  const tempRoot = options.tempDir || os.tmpdir();
+
+  let busy = false;
+
+  function tools() {
+    const exe = (name) => path.join(binDir, platform === 'win32' ? `${name}.exe` : name);
+    return {
+      pdftoppm: exe('pdftoppm'),
+      tesseract: exe('tesseract'),
+      tessdataDir: path.join(binDir, 'tessdata'),
+    };
+  }
+
+  function status() {
+    const t = tools();
+    if (!isFile(t.pdftoppm) || !isFile(t.tesseract)) return { available: false, reason: 'missing_binary' };
+    if (!isFile(path.join(t.tessdataDir, 'eng.traineddata'))) return { available: false, reason: 'missing_tessdata' };
+    return { available: true, reason: 'ok' };
+  }
+
+  function run(exePath, args) {
+    return new Promise((resolve, reject) => {
+      let stdout = '';
+      let stderr = '';
+      let settled = false;
+      const child = spawnProcess(exePath, args, { cwd: binDir, windowsHide: true, stdio: ['ignore', 'pipe', 'pipe'] });
+      const finish = (err, value) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (err) reject(err);
+        else resolve(value);
+      };
+      const timer = setTimeout(() => {
+        try { child.kill(); } catch {}
+        finish(new Error(`${path.basename(exePath)} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+      child.stdout.setEncoding('utf8');
+      child.stderr.setEncoding('utf8');
+      child.stdout.on('data', (d) => { stdout += d; });
+      child.stderr.on('data', (d) => {
+        stderr = (stderr + d).slice(-STDERR_TAIL_CHARS);
+      });
+      child.on('error', (err) => finish(err));
+      child.on('close', (code) => {
+        if (code !== 0) finish(new Error(`${path.basename(exePath)} exited with code ${code}: ${stderr.trim()}`));
+        else finish(null, stdout);
+      });
+    });
+  }
+
+  async function rasterizePdf(pdfPath, outDir, dpi) {
+    const prefix = path.join(outDir, 'page');
+    await run(tools().pdftoppm, ['-r', String(dpi), '-png', pdfPath, prefix]);
+    // pdftoppm zero-pads page numbers to the page count, so a plain sort keeps page order.
+    return fs
+      .readdirSync(outDir)
+      .filter((f) => f.startsWith('page') && f.endsWith('.png'))
+      .sort()
+      .map((f) => path.join(outDir, f));
+  }
+
+  async function ocrImage(imagePath) {
+    const t = tools();
+    const tsv = await run(t.tesseract, [imagePath, 'stdout', '--tessdata-dir', t.tessdataDir, '-l', 'eng', 'tsv']);
+    return parseTesseractTsv(tsv);
+  }
+
+  function cropToDataUrl(imagePath, rect) {
+    if (!nativeImage || !rect) return undefined;
+    try {
+      const image = nativeImage.createFromPath(imagePath);
+      if (image.isEmpty()) return undefined;
+      const size = image.getSize();
+      const padded = {
+        x: rect.x - CROP_PADDING_PX,
+        y: rect.y - CROP_PADDING_PX,
+        width: rect.width + CROP_PADDING_PX * 2,
+        height: rect.height + CROP_PADDING_PX * 2,
+      };
+      const png = image.crop(clampRect(padded, size.width, size.height)).toPNG();
+      return `data:image/png;base64,${png.toString('base64')}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * OCRs the given PDFs/images and returns the parsed questions.
+   * `onProgress({ done, total })` is called after each page.
+   */
+  async function importFiles(filePaths, opts) {
+    const st = status();
+    if (!st.available) throw new Error(`OCR unavailable: ${st.reason}`);
+    if (busy) throw new Error('An OCR import is already running');
+    const files = (Array.isArray(filePaths) ? filePaths : []).filter((p) => typeof p === 'string' && isFile(p));
+    if (!files.length) throw new Error('No readable files selected');
+    const dpi = Math.max(72, Math.min(600, Math.floor(Number(opts && opts.dpi) || DEFAULT_DPI)));
+    const onProgress = opts && typeof opts.onProgress === 'function' ? opts.onProgress : () => {};
+
+    busy = true;
+    const workDir = fs.mkdtempSync(path.join(tempRoot, 'limit-ocr-'));
+    try {
+      const pages = [];
+      const warnings = [];
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        const ext = path.extname(file).toLowerCase();
+        if (ext === '.pdf') {
+          const outDir = path.join(workDir, String(i));
+          fs.mkdirSync(outDir);
+          const images = await rasterizePdf(file, outDir, dpi);
+          if (!images.length) warnings.push(`${path.basename(file)}: no pages rendered`);
+          images.forEach((imagePath, pageIndex) => pages.push({ fileName: path.basename(file), page: pageIndex + 1, imagePath }));
+        } else if (IMAGE_EXTENSIONS.includes(ext)) {
+          pages.push({ fileName: path.basename(file), page: 1, imagePath: file });
+        } else {
+          warnings.push(`${path.basename(file)}: unsupported file type`);
+        }
+      }
+
+      const items = [];
+      for (let p = 0; p < pages.length; p++) {
+        onProgress({ done: p, total: pages.length });
+        const lines = (await ocrImage(pages[p].imagePath)).map((line) => ({ ...line, page: p }));
+        // Questions never continue across files, but do across pages of the same file.
+        const prev = items.length ? items[items.length - 1] : null;
+        const carry = prev && p > 0 && pages[p - 1].fileName === pages[p].fileName ? prev : null;
+        const parsed = parseQuestionsFromLines(
+          carry ? [{ page: p, text: `${carry.number}. ` }, ...lines] : lines,
+        );
+        if (carry && parsed.length) {
+          const head = parsed.shift();
+          // Text before any new option continues whatever the page broke in: the last
+          // option when the question had reached its options, otherwise the stem.
+          const lastOption = carry.options[carry.options.length - 1];
+          if (head.text && lastOption) {
+            const continued = head.text.replace(/\n/g, ' ');
+            lastOption.text = lastOption.text ? `${lastOption.text} ${continued}` : continued;
+          } else if (head.text) {
+            carry.text = carry.text ? `${carry.text}\n${head.text}` : head.text;
+          }
+          carry.options.push(...head.options);
+          const crop = cropToDataUrl(pages[p].imagePath, head.rect);
+          if (crop) carry.continuationImageDataUrls = [...(carry.continuationImageDataUrls || []), crop];
+        }
+        for (const q of parsed) {
+          items.push({
+            number: q.number,
+            text: q.text,
+            options: q.options,
+            fileName: pages[p].fileName,
+            page: pages[p].page,
+            pageIndex: p,
+            imageDataUrl: cropToDataUrl(pages[p].imagePath, q.rect),
+          });
+        }
+      }
+      onProgress({ done: pages.length, total: pages.length });
+      if (pages.length && !items.length) warnings.push('No numbered questions were found');
+      return {
+        pages: pages.length,
+        warnings,
+        items: items.map(({ pageIndex, ...item }) => item),
+      };
+    } finally {
+      busy = false;
+      try {
+        fs.rmSync(workDir, { recursive: true, force: true });
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  return { status, importFiles };
+}
+
+function registerOcrImportIpc(ipcMain, service, options) {
+  ipcMain.handle('ocrImport:status', async () => service.status());
+  ipcMain.handle('ocrImport:chooseAndImport', async (event, payload) => {
+    const win = options.getWindow();
+    if (!win || win.isDestroyed()) {
+      throw new Error('Main window is not available');
+    }
+    const pick = await options.dialog.showOpenDialog(win, {
+      title: 'Import questions from PDF or images',
+      properties: ['openFile', 'multiSelections'],
+      filters: [{ name: 'Papers', extensions: ['pdf', 'png', 'jpg', 'jpeg'] }],
+    });
+    if (pick.canceled || !pick.filePaths.length) {
+      return { canceled: true };
+    }
+    const result = await service.importFiles(pick.filePaths, {
+      dpi: payload && payload.dpi,
+      onProgress: (progress) => {
+        if (!event.sender.isDestroyed()) event.sender.send('ocrImport:progress', progress);
+      },
+    });
+    return { canceled: false, ...result };
+  });
+}
+
+module.exports = {
+  clampRect,
+  isQuestionStartLine,
+  isOptionStartLine,
+  normalizeOptionLabel,
+  parseTesseractTsv,
+  splitInlineOptions,
+  parseQuestionsFromLines,
+  createOcrImportService,
+  registerOcrImportIpc,
+};
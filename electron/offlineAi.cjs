@@ -0,0 +1,282 @@
+'use strict';
+
+// Main-process side of window.offlineAi: runs the bundled llama.cpp binaries
+// from native/offline-ai/<platform>/ against the models in native/offline-ai/models/.
+// Requests run one at a time through a FIFO queue so a slow chat reply can't
+// starve the machine; any queued or running request can be cancelled by id.
+
+const fs = require('fs');
+const path = require('path');
+const { spawn } = require('child_process');
+
+const EMBED_BINARY = 'llama-embedding';
+const CHAT_BINARY = 'llama-cli';
+const EMBED_MODEL = 'embedding.gguf';
+const CHAT_MODEL = 'reasoning.gguf';
+
+const DEFAULT_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_EMBED_TEXT_CHARS = 8000;
+const MAX_CHAT_PROMPT_CHARS = 24000;
+const MAX_CHAT_TOKENS = 2048;
+const STDERR_TAIL_CHARS = 2000;
+
+const CANCELLED_MESSAGE = 'offline_ai_cancelled';
+
+function getPlatformArchDir(platform = process.platform, arch = process.arch) {
+  if (platform === 'win32') return arch === 'x64' ? 'windows-x64' : `windows-${arch}`;
+  if (platform === 'linux') return arch === 'x64' ? 'linux-x64' : `linux-${arch}`;
+  if (platform === 'darwin') return arch === 'arm64' ? 'macos-arm64' : arch === 'x64' ? 'macos-x64' : `macos-${arch}`;
+  return `${platform}-${arch}`;
+}
+
+function isFile(p) {
+  try {
+    return fs.existsSync(p) && fs.statSync(p).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function toInt(value, fallback, min, max) {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+function toNumber(value, fallback, min, max) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+// llama-embedding may print log lines around the JSON document.
+function parseEmbeddingOutput(stdout) {
+  const start = stdout.indexOf('{');
+  const end = stdout.lastIndexOf('}');
+  if (start < 0 || end <= start) throw new Error('Embedding output did not contain JSON');
+  const parsed = JSON.parse(stdout.slice(start, end + 1));
+  const vector = parsed && Array.isArray(parsed.data) && parsed.data[0] ? parsed.data[0].embedding : null;
+  if (!Array.isArray(vector) || !vector.length || !vector.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+    throw new Error('Embedding output had no usable vector');
+  }
+  return vector;
+}
+
+// ChatML works with the instruction-tuned GGUF models we ship.
+function buildChatPrompt(system, messages) {
+  const parts = [];
+  if (system) parts.push(`<|im_start|>system\n${system}<|im_end|>`);
+  for (const m of messages) {
+    parts.push(`<|im_start|>${m.role}\n${m.content}<|im_end|>`);
+  }
+  parts.push('<|im_start|>assistant\n');
+  return parts.join('\n');
+}
+
+function createOfflineAiService(options) {
+  const rootDir = options.rootDir;
+  const platform = options.platform || process.platform;
+  const binDir = path.join(rootDir, getPlatformArchDir(platform, options.arch || process.arch));
+  const modelsDir = path.join(rootDir, 'models');
+  const spawnProcess = options.spawn || spawn;
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+  const pending = [];
+  let running = null;
+  let nextId = 1;
+
+  function resolveTool(binary, model) {
+    const exePath = path.join(binDir, platform === 'win32' ? `${binary}.exe` : binary);
+    const modelPath = path.join(modelsDir, model);
+    if (!isFile(exePath)) return { available: false, reason: 'missing_binary' };
+    if (!isFile(modelPath)) return { available: false, reason: 'missing_model' };
+    return { available: true, reason: 'ok', exePath, modelPath };
+  }
+
+  function queueState() {
+    return {
+      running: running ? { requestId: running.requestId, kind: running.kind } : null,
+      pending: pending.length,
+    };
+  }
+
+  function runProcess(job, exePath, args) {
+    return new Promise((resolve, reject) => {
+      if (job.cancelled) {
+        reject(new Error(CANCELLED_MESSAGE));
+        return;
+      }
+      let stdout = '';
+      let stderr = '';
+      let settled = false;
+      const child = spawnProcess(exePath, args, { cwd: binDir, windowsHide: true, stdio: ['ignore', 'pipe', 'pipe'] });
+      job.child = child;
+
+      const finish = (err, value) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        job.child = null;
+        if (err) reject(err);
+        else resolve(value);
+      };
+
+      const timer = setTimeout(() => {
+        try { child.kill(); } catch {}
+        finish(new Error(`${path.basename(exePath)} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      child.stdout.setEncoding('utf8');
+      child.stderr.setEncoding('utf8');
+      child.stdout.on('data', (d) => { stdout += d; });
+      child.stderr.on('data', (d) => {
+        stderr = (stderr + d).slice(-STDERR_TAIL_CHARS);
+      });
+      child.on('error', (err) => finish(err));
+      child.on('close', (code) => {
+        if (job.cancelled) {
+          finish(new Error(CANCELLED_MESSAGE));
+        } else if (code !== 0) {
+          finish(new Error(`${path.basename(exePath)} exited with code ${code}: ${stderr.trim()}`));
+        } else {
+          finish(null, stdout);
+        }
+      });
+    });
+  }
+
+  function pump() {
+    if (running || !pending.length) return;
+    const job = pending.shift();
+    running = job;
+    // Free the slot before settling so callers see an idle queue once their promise resolves.
+    const settle = (fn, value) => {
+      running = null;
+      fn(value);
+      pump();
+    };
+    Promise.resolve()
+      .then(() => job.work(job))
+      .then((value) => settle(job.resolve, value), (err) => settle(job.reject, err));
+  }
+
+  function enqueue(kind, requestId, work) {
+    return new Promise((resolve, reject) => {
+      const id = typeof requestId === 'string' && requestId ? requestId : `req-${nextId++}`;
+      pending.push({ requestId: id, kind, work, resolve, reject, cancelled: false, child: null });
+      pump();
+    });
+  }
+
+  function status() {
+    return { ...resolveTool(EMBED_BINARY, EMBED_MODEL), queue: queueState() };
+  }
+
+  function reasoningStatus() {
+    return { ...resolveTool(CHAT_BINARY, CHAT_MODEL), queue: queueState() };
+  }
+
+  function embedText(payload) {
+    const text = payload && typeof payload.text === 'string' ? payload.text.slice(0, MAX_EMBED_TEXT_CHARS) : '';
+    if (!text.trim()) return Promise.reject(new Error('Missing text'));
+    const modelId = payload && typeof payload.modelId === 'string' && payload.modelId ? payload.modelId : EMBED_MODEL;
+    const seed = toInt(payload && payload.seed, 0, 0, 2 ** 31 - 1);
+    const threads = toInt(payload && payload.threads, 1, 1, 16);
+
+    return enqueue('embed', payload && payload.requestId, async (job) => {
+      const tool = resolveTool(EMBED_BINARY, EMBED_MODEL);
+      if (!tool.available) throw new Error(`Offline AI unavailable: ${tool.reason}`);
+      const stdout = await runProcess(job, tool.exePath, [
+        '-m', tool.modelPath,
+        '-p', text,
+        '--embd-output-format', 'json',
+        '--embd-normalize', '2',
+        '--seed', String(seed),
+        '-t', String(threads),
+      ]);
+      const vector = parseEmbeddingOutput(stdout);
+      return { modelId, dims: vector.length, vector };
+    });
+  }
+
+  function chat(payload) {
+    const system = payload && typeof payload.system === 'string' ? payload.system : '';
+    const messages = (payload && Array.isArray(payload.messages) ? payload.messages : [])
+      .filter((m) => m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+      .map((m) => ({ role: m.role, content: m.content }));
+    if (!messages.length) return Promise.reject(new Error('Missing messages'));
+    // Keep the most recent turns when the conversation outgrows the prompt budget.
+    let prompt = buildChatPrompt(system, messages);
+    while (prompt.length > MAX_CHAT_PROMPT_CHARS && messages.length > 1) {
+      messages.shift();
+      prompt = buildChatPrompt(system, messages);
+    }
+    const maxTokens = toInt(payload && payload.maxTokens, 512, 1, MAX_CHAT_TOKENS);
+    const temperature = toNumber(payload && payload.temperature, 0.7, 0, 2);
+    const seed = toInt(payload && payload.seed, 0, 0, 2 ** 31 - 1);
+    const threads = toInt(payload && payload.threads, 2, 1, 16);
+
+    return enqueue('chat', payload && payload.requestId, async (job) => {
+      const tool = resolveTool(CHAT_BINARY, CHAT_MODEL);
+      if (!tool.available) throw new Error(`Offline AI unavailable: ${tool.reason}`);
+      const stdout = await runProcess(job, tool.exePath, [
+        '-m', tool.modelPath,
+        '-p', prompt,
+        '-n', String(maxTokens),
+        '--temp', String(temperature),
+        '--seed', String(seed),
+        '-t', String(threads),
+        '-no-cnv',
+        '--no-display-prompt',
+        '--simple-io',
+      ]);
+      return { text: stdout.replace(/<\|im_end\|>[\s\S]*$/, '').trim() };
+    });
+  }
+
+  function cancel(payload) {
+    const requestId = payload && typeof payload.requestId === 'string' ? payload.requestId : '';
+    if (!requestId) return { cancelled: false };
+    const idx = pending.findIndex((job) => job.requestId === requestId);
+    if (idx >= 0) {
+      const [job] = pending.splice(idx, 1);
+      job.reject(new Error(CANCELLED_MESSAGE));
+      return { cancelled: true };
+    }
+    if (running && running.requestId === requestId) {
+      running.cancelled = true;
+      if (running.child) {
+        try { running.child.kill(); } catch {}
+      }
+      return { cancelled: true };
+    }
+    return { cancelled: false };
+  }
+
+  // Rejects everything queued and stops the running process, e.g. on app quit.
+  function dispose() {
+    while (pending.length) {
+      pending.shift().reject(new Error(CANCELLED_MESSAGE));
+    }
+    if (running) cancel({ requestId: running.requestId });
+  }
+
+  return { status, reasoningStatus, embedText, chat, cancel, dispose, queueState };
+}
+
+function registerOfflineAiIpc(ipcMain, service) {
+  ipcMain.handle('offlineAi:status', async () => service.status());
+  ipcMain.handle('offlineAi:reasoningStatus', async () => service.reasoningStatus());
+  ipcMain.handle('offlineAi:embedText', async (_event, payload) => service.embedText(payload));
+  ipcMain.handle('offlineAi:chat', async (_event, payload) => service.chat(payload));
+  ipcMain.handle('offlineAi:cancel', async (_event, payload) => service.cancel(payload));
+}
+
+module.exports = {
+  CANCELLED_MESSAGE,
+  getPlatformArchDir,
+  parseEmbeddingOutput,
+  buildChatPrompt,
+  createOfflineAiService,
+  registerOfflineAiIpc,
+};
@@ -12,6 +12,41 @@ contextBridge.exposeInMainWorld('examProctor', {
   captureViewportScreenshot: async () => {
     return ipcRenderer.invoke('exam:captureViewportScreenshot');
   },
+  listScreenshots: async (payload) => {
+    return ipcRenderer.invoke('exam:listProctoringScreenshots', payload);
+  },
+  readScreenshot: async (payload) => {
+    return ipcRenderer.invoke('exam:readProctoringScreenshot', payload);
+  },
+  pruneScreenshots: async (payload) => {
+    return ipcRenderer.invoke('exam:pruneProctoring', payload);
+  },
+  exportEvidenceBundle: async (payload) => {
+    return ipcRenderer.invoke('exam:exportEvidenceBundle', payload);
+  },
+});
+
+contextBridge.exposeInMainWorld('examLockdown', {
+  enter: async (payload) => {
+    return ipcRenderer.invoke('lockdown:enter', payload);
+  },
+  exit: async (payload) => {
+    return ipcRenderer.invoke('lockdown:exit', payload);
+  },
+  onBlocked: (callback) => {
+    const listener = (_event, blocked) => callback(blocked);
+    ipcRenderer.on('lockdown:blocked', listener);
+    return () => ipcRenderer.removeListener('lockdown:blocked', listener);
+  },
+});
+
+contextBridge.exposeInMainWorld('attemptChain', {
+  append: async (payload) => {
+    return ipcRenderer.invoke('attemptChain:append', payload);
+  },
+  verify: async (payload) => {
+    return ipcRenderer.invoke('attemptChain:verify', payload);
+  },
 });
 
 contextBridge.exposeInMainWorld('songs', {
@@ -30,4 +65,45 @@ contextBridge.exposeInMainWorld('data', {
   exportJsonToFile: async (payload) => {
     return ipcRenderer.invoke('data:exportJsonToFile', payload);
   },
+  openExportFile: async (payload) => {
+    return ipcRenderer.invoke('data:openExportFile', payload);
+  },
+  appendExportFile: async (payload) => {
+    return ipcRenderer.invoke('data:appendExportFile', payload);
+  },
+  closeExportFile: async (payload) => {
+    return ipcRenderer.invoke('data:closeExportFile', payload);
+  },
+});
+
+contextBridge.exposeInMainWorld('offlineAi', {
+  status: async () => {
+    return ipcRenderer.invoke('offlineAi:status');
+  },
+  reasoningStatus: async () => {
+    return ipcRenderer.invoke('offlineAi:reasoningStatus');
+  },
+  embedText: async (payload) => {
+    return ipcRenderer.invoke('offlineAi:embedText', payload);
+  },
+  chat: async (payload) => {
+    return ipcRenderer.invoke('offlineAi:chat', payload);
+  },
+  cancel: async (payload) => {
+    return ipcRenderer.invoke('offlineAi:cancel', payload);
+  },
+});
+
+contextBridge.exposeInMainWorld('ocrImport', {
+  status: async () => {
+    return ipcRenderer.invoke('ocrImport:status');
+  },
+  chooseAndImport: async (payload) => {
+    return ipcRenderer.invoke('ocrImport:chooseAndImport', payload);
+  },
+  onProgress: (callback) => {
+    const listener = (_event, progress) => callback(progress);
+    ipcRenderer.on('ocrImport:progress', listener);
+    return () => ipcRenderer.removeListener('ocrImport:progress', listener);
+  },
 });
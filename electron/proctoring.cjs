@@ -0,0 +1,334 @@
+'use strict';
+
+// Main-process side of exam proctoring storage. Screenshots live in
+// userData/proctoring/<attemptId>/<ts>[-<questionId>].png; this module lists them,
+// keeps each attempt inside its own module's retention and disk quota, and packs an
+// attempt's screenshots plus the records sent by the renderer into an evidence
+// zip with a SHA-256 manifest.
+//
+// The limits an attempt is pruned by are recorded next to its screenshots when the
+// first one is taken, and exports are recorded when the bundle is written, so the
+// page can never widen what gets deleted: it can only hold more attempts back.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const zlib = require('zlib');
+
+const MANIFEST_NAME = 'manifest.json';
+const RETENTION_NAME = 'retention.json';
+const SCREENSHOT_NAME = /^(\d+)(?:-(.+))?\.png$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isValidAttemptId(attemptId) {
+  return typeof attemptId === 'string' && /^[\w-]+$/.test(attemptId);
+}
+
+function getAttemptDir(rootDir, attemptId) {
+  if (!isValidAttemptId(attemptId)) {
+    throw new Error('Invalid attemptId');
+  }
+  return path.join(rootDir, attemptId);
+}
+
+function listAttemptScreenshots(rootDir, attemptId) {
+  const baseDir = getAttemptDir(rootDir, attemptId);
+  if (!fs.existsSync(baseDir)) return [];
+  return fs
+    .readdirSync(baseDir)
+    .map((fileName) => {
+      const match = SCREENSHOT_NAME.exec(fileName);
+      if (!match) return null;
+      const filePath = path.join(baseDir, fileName);
+      return { fileName, filePath, ts: Number(match[1]), questionId: match[2], bytes: fs.statSync(filePath).size };
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.ts - b.ts);
+}
+
+// Every screenshot under rootDir, oldest first.
+function listAllScreenshots(rootDir) {
+  if (!fs.existsSync(rootDir)) return [];
+  return fs
+    .readdirSync(rootDir)
+    .filter((name) => isValidAttemptId(name) && fs.statSync(path.join(rootDir, name)).isDirectory())
+    .flatMap((attemptId) => listAttemptScreenshots(rootDir, attemptId).map((s) => ({ ...s, attemptId })))
+    .sort((a, b) => a.ts - b.ts);
+}
+
+function readAttemptRetention(rootDir, attemptId) {
+  const filePath = path.join(getAttemptDir(rootDir, attemptId), RETENTION_NAME);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeAttemptRetention(rootDir, attemptId, record) {
+  const baseDir = getAttemptDir(rootDir, attemptId);
+  fs.mkdirSync(baseDir, { recursive: true });
+  fs.writeFileSync(path.join(baseDir, RETENTION_NAME), JSON.stringify(record), 'utf8');
+}
+
+/**
+ * Records the module's retention limits for an attempt when its first screenshot is
+ * taken. Later calls never change them. limits: { retentionDays?, maxTotalMb? }.
+ */
+function recordAttemptRetention(rootDir, attemptId, limits, now = Date.now()) {
+  if (readAttemptRetention(rootDir, attemptId)) return;
+  writeAttemptRetention(rootDir, attemptId, {
+    retentionDays: limits && limits.retentionDays > 0 ? limits.retentionDays : 0,
+    maxTotalMb: limits && limits.maxTotalMb > 0 ? limits.maxTotalMb : 0,
+    recordedAt: now,
+    exports: [],
+  });
+}
+
+// Screenshots of an attempt may only be pruned once its evidence has been exported.
+function recordEvidenceExport(rootDir, attemptId, manifestSha256, now = Date.now()) {
+  const record = readAttemptRetention(rootDir, attemptId) || { retentionDays: 0, maxTotalMb: 0, recordedAt: now, exports: [] };
+  record.exports = [...(Array.isArray(record.exports) ? record.exports : []), { exportedAt: now, manifestSha256 }];
+  writeAttemptRetention(rootDir, attemptId, record);
+}
+
+function getUsageBytes(rootDir) {
+  return listAllScreenshots(rootDir).reduce((sum, s) => sum + s.bytes, 0);
+}
+
+/**
+ * Whether another screenshot may be written for this attempt.
+ * limits: { maxPerAttempt?, maxTotalMb? }; missing or non-positive values mean no limit.
+ */
+function canCapture(rootDir, attemptId, limits) {
+  const maxPerAttempt = limits && limits.maxPerAttempt > 0 ? limits.maxPerAttempt : 0;
+  const maxTotalMb = limits && limits.maxTotalMb > 0 ? limits.maxTotalMb : 0;
+  if (maxPerAttempt && listAttemptScreenshots(rootDir, attemptId).length >= maxPerAttempt) return false;
+  if (maxTotalMb && getUsageBytes(rootDir) >= maxTotalMb * 1024 * 1024) return false;
+  return true;
+}
+
+/**
+ * Deletes screenshots older than each attempt's recorded retentionDays, then the oldest
+ * ones while the folder is over an attempt's recorded maxTotalMb. Only attempts whose
+ * evidence was exported are touched; holdAttemptIds (the running exam, attempts under
+ * review) and attempts without recorded limits are never pruned.
+ */
+function pruneScreenshots(rootDir, options, now = Date.now()) {
+  const hold = new Set((options && options.holdAttemptIds) || []);
+  const limitsByAttempt = new Map();
+  const limitsOf = (attemptId) => {
+    if (!limitsByAttempt.has(attemptId)) {
+      const record = hold.has(attemptId) ? null : readAttemptRetention(rootDir, attemptId);
+      const exported = !!record && Array.isArray(record.exports) && record.exports.length > 0;
+      limitsByAttempt.set(attemptId, exported ? record : null);
+    }
+    return limitsByAttempt.get(attemptId);
+  };
+  let removedFiles = 0;
+  let freedBytes = 0;
+
+  const remove = (shot) => {
+    fs.rmSync(shot.filePath, { force: true });
+    removedFiles += 1;
+    freedBytes += shot.bytes;
+  };
+
+  const shots = listAllScreenshots(rootDir).filter((shot) => {
+    const limits = limitsOf(shot.attemptId);
+    if (!limits || !(limits.retentionDays > 0) || shot.ts >= now - limits.retentionDays * DAY_MS) return true;
+    remove(shot);
+    return false;
+  });
+  let total = shots.reduce((sum, s) => sum + s.bytes, 0);
+  for (const shot of shots) {
+    const limits = limitsOf(shot.attemptId);
+    if (!limits || !(limits.maxTotalMb > 0) || total <= limits.maxTotalMb * 1024 * 1024) continue;
+    remove(shot);
+    total -= shot.bytes;
+  }
+
+  // Drop attempt folders that no longer hold screenshots.
+  if (fs.existsSync(rootDir)) {
+    for (const name of fs.readdirSync(rootDir)) {
+      const dir = path.join(rootDir, name);
+      if (!isValidAttemptId(name) || !fs.statSync(dir).isDirectory()) continue;
+      const files = fs.readdirSync(dir);
+      if (!files.length || (limitsOf(name) && !files.some((f) => SCREENSHOT_NAME.test(f)))) {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    }
+  }
+  return { removedFiles, freedBytes };
+}
+
+function sha256(buffer) {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+let crcTable = null;
+function crc32(buffer) {
+  if (typeof zlib.crc32 === 'function') return zlib.crc32(buffer) >>> 0;
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) crc = crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/**
+ * Minimal zip writer (no zip64, UTF-8 names). PNGs are stored as-is since they are
+ * already compressed; everything else is deflated.
+ * entries: [{ name, data: Buffer, mtime?: Date }]
+ */
+function createZip(entries) {
+  const parts = [];
+  const central = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const store = entry.name.endsWith('.png');
+    const body = store ? entry.data : zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+    const { time, day } = dosDateTime(entry.mtime || new Date());
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(store ? 0 : 8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    parts.push(local, name, body);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(store ? 0 : 8, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(day, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(body.length, 20);
+    header.writeUInt32LE(entry.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDir = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, centralDir, end]);
+}
+
+/**
+ * Evidence bundle for one attempt: records from the renderer (JSON text keyed by file
+ * name), every screenshot under screenshots/, and manifest.json with the size and
+ * SHA-256 of each file. The manifest hash identifies the bundle as a whole.
+ */
+function buildEvidenceBundle(rootDir, attemptId, records, now = new Date()) {
+  const entries = [];
+  for (const record of records || []) {
+    const name = String(record.name || '');
+    if (!/^[\w.-]+$/.test(name) || name === MANIFEST_NAME) {
+      throw new Error(`Invalid evidence file name: ${name}`);
+    }
+    entries.push({ name, data: Buffer.from(String(record.content ?? ''), 'utf8') });
+  }
+  for (const shot of listAttemptScreenshots(rootDir, attemptId)) {
+    entries.push({ name: `screenshots/${shot.fileName}`, data: fs.readFileSync(shot.filePath), mtime: new Date(shot.ts) });
+  }
+
+  const manifest = {
+    attemptId,
+    createdAt: now.toISOString(),
+    algorithm: 'sha256',
+    files: entries.map((e) => ({ name: e.name, bytes: e.data.length, sha256: sha256(e.data) })),
+  };
+  const manifestData = Buffer.from(JSON.stringify(manifest, null, 2), 'utf8');
+  const zip = createZip([...entries, { name: MANIFEST_NAME, data: manifestData, mtime: now }]);
+  return { zip, manifest, manifestSha256: sha256(manifestData) };
+}
+
+function registerProctoringIpc(ipcMain, options) {
+  const rootDir = () => options.getRootDir();
+
+  ipcMain.handle('exam:listProctoringScreenshots', async (_event, payload) => {
+    return listAttemptScreenshots(rootDir(), payload && payload.attemptId).map(({ bytes, ...shot }) => shot);
+  });
+
+  ipcMain.handle('exam:readProctoringScreenshot', async (_event, payload) => {
+    const baseDir = getAttemptDir(rootDir(), payload && payload.attemptId);
+    const fileName = payload && typeof payload.fileName === 'string' ? payload.fileName : '';
+    const resolved = path.resolve(baseDir, fileName);
+    if (path.dirname(resolved) !== path.resolve(baseDir) || !SCREENSHOT_NAME.test(fileName)) {
+      throw new Error('Refusing to read file outside proctoring directory');
+    }
+    const data = fs.readFileSync(resolved);
+    return { dataUrl: `data:image/png;base64,${data.toString('base64')}` };
+  });
+
+  // The page can only name attempts to hold back; the limits come from the attempts' own records.
+  ipcMain.handle('exam:pruneProctoring', async (_event, payload) => {
+    const holdAttemptIds = payload && Array.isArray(payload.holdAttemptIds) ? payload.holdAttemptIds.filter(isValidAttemptId) : [];
+    return pruneScreenshots(rootDir(), { holdAttemptIds });
+  });
+
+  ipcMain.handle('exam:exportEvidenceBundle', async (_event, payload) => {
+    const attemptId = payload && payload.attemptId;
+    getAttemptDir(rootDir(), attemptId);
+    const win = options.getWindow();
+    const pick = await options.dialog.showSaveDialog(win && !win.isDestroyed() ? win : undefined, {
+      title: 'Export evidence bundle',
+      defaultPath: `evidence-${attemptId}.zip`,
+      filters: [{ name: 'Zip archive', extensions: ['zip'] }],
+    });
+    if (pick.canceled || !pick.filePath) {
+      return { canceled: true };
+    }
+    const { zip, manifest, manifestSha256 } = buildEvidenceBundle(rootDir(), attemptId, payload.files);
+    fs.writeFileSync(pick.filePath, zip);
+    if (fs.existsSync(getAttemptDir(rootDir(), attemptId))) recordEvidenceExport(rootDir(), attemptId, manifestSha256);
+    return { canceled: false, filePath: pick.filePath, manifestSha256, fileCount: manifest.files.length };
+  });
+}
+
+module.exports = {
+  listAttemptScreenshots,
+  canCapture,
+  recordAttemptRetention,
+  recordEvidenceExport,
+  pruneScreenshots,
+  crc32,
+  createZip,
+  buildEvidenceBundle,
+  registerProctoringIpc,
+};
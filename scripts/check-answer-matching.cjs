@@ -0,0 +1,57 @@
+'use strict';
+
+// Checks typed-answer matching: numeric tolerances, symbolic math and how the two
+// combine. src/lib/answerMatching.ts only imports types from ./db and the math
+// evaluator, so both are transpiled and loaded directly.
+//
+//   node scripts/check-answer-matching.cjs
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+const LIB = path.join(__dirname, '..', 'src', 'lib');
+
+function loadLib(name, deps = {}) {
+  const file = path.join(LIB, `${name}.ts`);
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: file,
+  });
+  const mod = new Module(file);
+  mod.require = (id) => {
+    if (id in deps) return deps[id];
+    throw new Error(`${name}.ts: unexpected import ${id}`);
+  };
+  mod._compile(outputText, file);
+  return mod.exports;
+}
+
+function main() {
+  const mathEquivalence = loadLib('mathEquivalence');
+  const { matchesAnswer } = loadLib('answerMatching', { './mathEquivalence': mathEquivalence });
+
+  // Plain numbers.
+  assert.ok(matchesAnswer('0.50', '1/2'));
+  assert.ok(!matchesAnswer('15', '16', { maxTypos: 1 }), 'numbers are never typo-matched');
+  assert.ok(matchesAnswer('0.501', '0.5', { numeric: { absTolerance: 0.01 } }));
+  assert.ok(!matchesAnswer('0.52', '0.5', { numeric: { absTolerance: 0.01 } }));
+  assert.ok(matchesAnswer('101', '100', { numeric: { relTolerance: 0.02 } }));
+
+  // Math on its own.
+  assert.ok(matchesAnswer('1+2*x', '2x+1', { math: true }));
+  assert.ok(!matchesAnswer('x+2', 'x+1', { math: true, maxTypos: 1 }), 'non-equivalent math is not typo-matched');
+
+  // Math plus tolerance: a number outside exact equality still gets the tolerance.
+  const both = { math: true, numeric: { absTolerance: 0.01 } };
+  assert.ok(matchesAnswer('0.501', '0.5', both));
+  assert.ok(matchesAnswer('1/2', '0.5', both));
+  assert.ok(matchesAnswer('sqrt(0.25)', '0.5', both));
+  assert.ok(!matchesAnswer('0.52', '0.5', both));
+
+  console.log('answer matching checks passed');
+}
+
+main();
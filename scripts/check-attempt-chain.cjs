@@ -0,0 +1,97 @@
+'use strict';
+
+// Exercises the main-process side of the attempt hash chain: the device secret is
+// created once and reused, chains are deterministic and continue across calls,
+// any changed payload or secret changes the hashes, and the recorded chain heads
+// only allow appending and catch edited, removed or re-signed links.
+//
+//   node scripts/check-attempt-chain.cjs
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { loadDeviceSecret, getKeyId, signChain, createAttemptChainService } = require('../electron/attemptChain.cjs');
+
+function checkService(dir) {
+  const options = {
+    getSecretPath: () => path.join(dir, 'service-secret'),
+    getHeadsPath: () => path.join(dir, 'heads', 'attempt-chain-heads.json'),
+  };
+  const service = createAttemptChainService(options);
+  const payload = (seq, kind, key, digest) => ['a1', seq, kind, key, digest].join('\n');
+  const first = service.append('a1', [payload(0, 'event', 'e1', 'd1'), payload(1, 'answer', 'q1', 'd2')]);
+  assert.strictEqual(first.prevHash, '');
+  const second = service.append('a1', [payload(2, 'answer', 'q2', 'd3')]);
+  assert.strictEqual(second.prevHash, first.hashes[1]);
+  const links = [
+    { payload: payload(0, 'event', 'e1', 'd1'), hash: first.hashes[0] },
+    { payload: payload(1, 'answer', 'q1', 'd2'), hash: first.hashes[1] },
+    { payload: payload(2, 'answer', 'q2', 'd3'), hash: second.hashes[0] },
+  ];
+  assert.strictEqual(service.verify('a1', links).verdict, 'valid');
+  assert.strictEqual(first.keyId, service.verify('a1', links).keyId);
+
+  // The page can only continue the chain, never rewrite a link before the head.
+  assert.throws(() => service.append('a1', [payload(1, 'answer', 'q1', 'dX')]), /does not continue/);
+  assert.throws(() => service.append('a1', [payload(3, 'answer', 'q3', 'd4').replace('a1', 'a2')]), /does not continue/);
+
+  // Edited, dropped or deleted links are caught against the recorded head.
+  const edited = links.map((l, i) => (i === 1 ? { ...l, payload: payload(1, 'answer', 'q1', 'dX') } : l));
+  assert.deepStrictEqual([service.verify('a1', edited).verdict, service.verify('a1', edited).brokenAt], ['broken', 1]);
+  assert.strictEqual(service.verify('a1', links.slice(0, 2)).verdict, 'mismatch');
+  assert.strictEqual(service.verify('a1', []).verdict, 'mismatch');
+  assert.strictEqual(service.verify('a-unknown', links).verdict, 'unknown');
+
+  // Nothing is appended after the seal, and the heads survive a restart.
+  service.append('a1', [payload(3, 'seal', 'seal', 'd5')]);
+  assert.throws(() => service.append('a1', [payload(4, 'answer', 'q4', 'd6')]), /sealed/);
+  const restarted = createAttemptChainService(options);
+  assert.throws(() => restarted.append('a1', [payload(4, 'answer', 'q4', 'd6')]), /sealed/);
+  assert.strictEqual(restarted.verify('a1', links).verdict, 'mismatch');
+}
+
+function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attempt-chain-'));
+  try {
+    const secretPath = path.join(dir, 'nested', 'device-secret');
+    const secret = loadDeviceSecret(secretPath);
+    assert.strictEqual(secret.length, 32);
+    assert.ok(loadDeviceSecret(secretPath).equals(secret), 'secret is reused, not regenerated');
+    if (process.platform !== 'win32') {
+      assert.strictEqual(fs.statSync(secretPath).mode & 0o777, 0o600, 'secret is private to the user');
+    }
+    assert.match(getKeyId(secret), /^[0-9a-f]{16}$/);
+
+    const payloads = ['a1\n0\nevent\ne1\nd1', 'a1\n1\nanswer\nq1\nd2', 'a1\n2\nseal\nseal\nd3'];
+    const hashes = signChain(secret, '', payloads);
+    assert.strictEqual(hashes.length, 3);
+    assert.deepStrictEqual(signChain(secret, '', payloads), hashes, 'deterministic');
+
+    // Appending in two calls gives the same chain as signing it in one.
+    const head = signChain(secret, '', payloads.slice(0, 1));
+    assert.deepStrictEqual([...head, ...signChain(secret, head[0], payloads.slice(1))], hashes);
+
+    // A changed record digest breaks its link and every link after it.
+    const tampered = signChain(secret, '', [payloads[0], payloads[1].replace('d2', 'dX'), payloads[2]]);
+    assert.strictEqual(tampered[0], hashes[0]);
+    assert.notStrictEqual(tampered[1], hashes[1]);
+    assert.notStrictEqual(tampered[2], hashes[2]);
+
+    // Another install's secret signs differently and has a different key ID.
+    const other = loadDeviceSecret(path.join(dir, 'other-secret'));
+    assert.notStrictEqual(getKeyId(other), getKeyId(secret));
+    assert.notDeepStrictEqual(signChain(other, '', payloads), hashes);
+
+    checkService(dir);
+
+    fs.writeFileSync(secretPath, 'not hex');
+    assert.throws(() => loadDeviceSecret(secretPath), /corrupt/, 'a damaged secret is not silently replaced');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log('attempt chain checks passed');
+}
+
+main();
@@ -0,0 +1,121 @@
+'use strict';
+
+// Round-trips the backup format: tables are streamed out in pages, the chunks are
+// joined and parsed, restored into empty tables and compared with the originals.
+// Also checks that older backup files migrate and newer ones are refused.
+// src/lib/backupFormat.ts has no imports, so it is transpiled and loaded directly.
+//
+//   node scripts/check-backup.cjs
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+function loadBackupFormat() {
+  const file = path.join(__dirname, '..', 'src', 'lib', 'backupFormat.ts');
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: file,
+  });
+  const mod = new Module(file);
+  mod._compile(outputText, file);
+  return mod.exports;
+}
+
+// Minimal stand-in for a Dexie table: rows by id, read back in pages of `pageSize`.
+function fakeTable(name, rows = [], pageSize = 3) {
+  const store = new Map(rows.map((r) => [r.id, r]));
+  return {
+    name,
+    store,
+    async *pages() {
+      const all = Array.from(store.values()).sort((a, b) => (a.id < b.id ? -1 : 1));
+      for (let i = 0; i < all.length; i += pageSize) yield all.slice(i, i + pageSize);
+    },
+    async bulkPut(batch) {
+      for (const row of batch) store.set(row.id, row);
+    },
+  };
+}
+
+async function collect(iterable) {
+  const chunks = [];
+  for await (const chunk of iterable) chunks.push(chunk);
+  return chunks;
+}
+
+const HEADER = { format: 'limit-backup', schemaVersion: 26, kind: 'full', exportedAt: '2025-01-01T00:00:00.000Z', dbVersion: 29 };
+
+async function main() {
+  const { BACKUP_SCHEMA_VERSION, parseBackup, restoreTables, serializeBackup } = loadBackupFormat();
+  assert.strictEqual(HEADER.schemaVersion, BACKUP_SCHEMA_VERSION);
+
+  const source = {
+    questions: Array.from({ length: 7 }, (_, i) => ({
+      id: `q${i}`,
+      text: i === 3 ? 'Quotes " and \\ backslash, ünïcödé, emoji 🎵\nnew line' : `Question ${i}`,
+      tags: ['math', `t${i}`],
+      metadata: { createdAt: 1700000000000 + i, nested: { deep: [1, null, true] } },
+    })),
+    reviewInteractions: [{ id: 'r1', attemptId: 'a1', questionId: 'q1', timestamp: 5 }],
+    songSrtCues: [{ id: 'c1', songId: 's1', cueIndex: 0, startMs: 0, endMs: 1500, text: 'La la' }],
+    semanticEmbeddings: [],
+    binaryAssets: [{ id: 'b1', kind: 'question_image', mimeType: 'image/png', dataBase64: 'iVBORw0KGgo=', createdAt: 1 }],
+  };
+  const tables = Object.entries(source).map(([name, rows]) => fakeTable(name, rows));
+
+  const chunks = await collect(serializeBackup(HEADER, tables));
+  assert.ok(chunks.length > tables.length, 'rows are streamed in several chunks');
+  assert.ok(Math.max(...chunks.map((c) => c.length)) < JSON.stringify(source).length, 'no chunk holds the whole backup');
+
+  const parsed = parseBackup(JSON.parse(chunks.join('')));
+  assert.deepStrictEqual({ ...parsed, tables: undefined }, { ...HEADER, tables: undefined });
+
+  const targets = [...Object.keys(source).map((name) => fakeTable(name)), fakeTable('users')];
+  const result = await restoreTables(parsed, targets, 2);
+  assert.deepStrictEqual(result.skipped, []);
+  for (const [name, rows] of Object.entries(source)) {
+    const restored = Array.from(targets.find((t) => t.name === name).store.values());
+    assert.deepStrictEqual(restored, rows, `${name} round-trips`);
+    assert.strictEqual(result.imported[name], rows.length);
+  }
+
+  // A table this database doesn't have is reported, not written.
+  const extra = await restoreTables({ ...parsed, tables: { futureTable: [{ id: 'x' }] } }, targets);
+  assert.deepStrictEqual(extra.skipped, ['futureTable']);
+
+  // v25 full backup: top-level arrays.
+  const v25 = parseBackup({
+    questions: [{ id: 'q1' }],
+    modules: [{ id: 'm1' }],
+    tags: [],
+    settings: [{ id: 'default' }],
+    users: [{ id: 'u1', username: 'a', password: 'legacy' }],
+    exportedAt: '2024-05-01T00:00:00.000Z',
+    schemaVersion: 25,
+  });
+  assert.strictEqual(v25.schemaVersion, BACKUP_SCHEMA_VERSION);
+  assert.strictEqual(v25.kind, 'full');
+  assert.deepStrictEqual(Object.keys(v25.tables).sort(), ['modules', 'questions', 'settings', 'tags', 'users']);
+  assert.strictEqual(v25.exportedAt, '2024-05-01T00:00:00.000Z');
+
+  // v22 questions-only export.
+  const v22 = parseBackup({ questions: [{ id: 'q1' }], kind: 'questions_only', schemaVersion: 22 });
+  assert.strictEqual(v22.kind, 'questions_only');
+  assert.deepStrictEqual(v22.tables, { questions: [{ id: 'q1' }] });
+
+  assert.throws(() => parseBackup({ ...HEADER, schemaVersion: BACKUP_SCHEMA_VERSION + 1, tables: { questions: [{}] } }), /newer version/);
+  assert.throws(() => parseBackup({ ...HEADER, format: 'other', tables: { questions: [{}] } }), /Invalid backup/);
+  assert.throws(() => parseBackup({ ...HEADER, tables: { questions: {} } }), /Invalid backup/);
+  assert.throws(() => parseBackup({ ...HEADER, tables: { questions: [] } }), /no data/);
+  assert.throws(() => parseBackup([1, 2]), /Invalid backup/);
+
+  console.log('backup checks passed');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
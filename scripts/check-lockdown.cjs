@@ -0,0 +1,125 @@
+'use strict';
+
+// Exercises the exam lockdown controller against a fake BrowserWindow: which keys
+// are swallowed, that closing is refused while locked, and that leaving lockdown
+// restores the window.
+//
+//   node scripts/check-lockdown.cjs
+
+const assert = require('assert');
+const { createLockdownController, getBlockedShortcut } = require('../electron/lockdown.cjs');
+
+function key(k, mods = {}) {
+  return { type: 'keyDown', key: k, control: false, shift: false, alt: false, meta: false, ...mods };
+}
+
+function fakeWindow() {
+  const sent = [];
+  const win = {
+    sent,
+    kiosk: false,
+    alwaysOnTop: false,
+    fullScreen: false,
+    focused: 0,
+    isDestroyed: () => false,
+    isAlwaysOnTop: () => win.alwaysOnTop,
+    isFullScreen: () => win.fullScreen,
+    setKiosk: (v) => {
+      win.kiosk = v;
+    },
+    setAlwaysOnTop: (v) => {
+      win.alwaysOnTop = v;
+    },
+    setFullScreen: (v) => {
+      win.fullScreen = v;
+    },
+    focus: () => {
+      win.focused += 1;
+    },
+    webContents: { send: (channel, payload) => sent.push({ channel, payload }) },
+  };
+  return win;
+}
+
+function fakeEvent() {
+  return {
+    prevented: false,
+    preventDefault() {
+      this.prevented = true;
+    },
+  };
+}
+
+function main() {
+  assert.strictEqual(getBlockedShortcut(key('Tab', { alt: true })), 'Alt+Tab');
+  assert.strictEqual(getBlockedShortcut(key('w', { control: true })), 'Ctrl+W');
+  assert.strictEqual(getBlockedShortcut(key('W', { meta: true })), 'Ctrl+W');
+  assert.strictEqual(getBlockedShortcut(key('I', { control: true, shift: true })), 'DevTools');
+  assert.strictEqual(getBlockedShortcut(key('F12')), 'DevTools');
+  assert.strictEqual(getBlockedShortcut(key('r', { control: true })), 'Reload');
+  assert.strictEqual(getBlockedShortcut(key('F5')), 'Reload');
+  assert.strictEqual(getBlockedShortcut({ ...key('F5'), type: 'keyUp' }), null, 'key up is ignored');
+  assert.strictEqual(getBlockedShortcut(key('c', { control: true })), null, 'copy is allowed');
+  assert.strictEqual(getBlockedShortcut(key('Tab')), null, 'plain Tab moves focus');
+  assert.strictEqual(getBlockedShortcut(key('Escape')), null, 'Escape closes in-exam dialogs');
+
+  const win = fakeWindow();
+  const lockdown = createLockdownController({ getWindow: () => win });
+
+  // Not locked: nothing is swallowed and the window may close.
+  let event = fakeEvent();
+  assert.strictEqual(lockdown.handleInput(event, key('Tab', { alt: true })), false);
+  assert.strictEqual(lockdown.handleClose(event), false);
+  assert.strictEqual(event.prevented, false);
+
+  win.alwaysOnTop = false;
+  win.fullScreen = true;
+  lockdown.enter('attempt-1', { kiosk: true, blockShortcuts: true });
+  assert.ok(lockdown.isActive());
+  assert.strictEqual(win.kiosk, true);
+  assert.strictEqual(win.alwaysOnTop, true);
+
+  event = fakeEvent();
+  assert.strictEqual(lockdown.handleInput(event, key('Tab', { alt: true })), true);
+  assert.ok(event.prevented);
+  event = fakeEvent();
+  assert.strictEqual(lockdown.handleInput(event, key('a')), false);
+  assert.ok(!event.prevented);
+  event = fakeEvent();
+  assert.strictEqual(lockdown.handleClose(event), true);
+  assert.ok(event.prevented, 'close refused while locked');
+  lockdown.handleBlur();
+  assert.ok(win.focused >= 2, 'focus taken back on blur');
+
+  assert.deepStrictEqual(
+    win.sent.map((m) => [m.channel, m.payload.attemptId, m.payload.kind, m.payload.detail]),
+    [
+      ['lockdown:blocked', 'attempt-1', 'shortcut', 'Alt+Tab'],
+      ['lockdown:blocked', 'attempt-1', 'close', 'Window close'],
+    ],
+  );
+
+  // Another attempt's exit doesn't unlock; the right one restores the window.
+  lockdown.exit('attempt-2');
+  assert.ok(lockdown.isActive());
+  lockdown.exit('attempt-1');
+  assert.ok(!lockdown.isActive());
+  assert.strictEqual(win.kiosk, false);
+  assert.strictEqual(win.alwaysOnTop, false);
+  assert.strictEqual(win.fullScreen, true);
+  event = fakeEvent();
+  assert.strictEqual(lockdown.handleClose(event), false);
+
+  // Shortcut blocking can be turned off; closing stays refused.
+  lockdown.enter('attempt-3', { kiosk: false, blockShortcuts: false });
+  assert.strictEqual(win.kiosk, false);
+  event = fakeEvent();
+  assert.strictEqual(lockdown.handleInput(event, key('w', { control: true })), false);
+  assert.strictEqual(lockdown.handleClose(fakeEvent()), true);
+  lockdown.exit();
+  assert.ok(!lockdown.isActive(), 'exit without an attempt ID always unlocks');
+
+  console.log('lockdown checks passed');
+}
+
+main();
@@ -0,0 +1,152 @@
+'use strict';
+
+// Exercises the OCR import pipeline without the real binaries: pdftoppm and
+// tesseract are replaced by a fake spawn that writes page files and returns TSV.
+//
+//   node scripts/check-ocr-import.cjs
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { EventEmitter } = require('events');
+const { PassThrough } = require('stream');
+const { getPlatformArchDir } = require('../electron/offlineAi.cjs');
+const {
+  createOcrImportService,
+  parseQuestionsFromLines,
+  parseTesseractTsv,
+  splitInlineOptions,
+} = require('../electron/ocrImport.cjs');
+
+const TSV_HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+
+// One TSV word row per word; each input line becomes its own tesseract line.
+function toTsv(lines) {
+  const rows = [TSV_HEADER];
+  lines.forEach((line, li) => {
+    line.split(' ').forEach((word, wi) => {
+      rows.push(['5', '1', '1', '1', String(li + 1), String(wi + 1), String(100 + wi * 40), String(100 + li * 30), '35', '20', '96', word].join('\t'));
+    });
+  });
+  return rows.join('\n');
+}
+
+const PAGES = {
+  'page-1.png': ['MID-TERM PAPER 2019', '1. What is 2 + 3?', 'A) 4 B) 5 C) 6 D) 7', '2) Which gas do plants', 'absorb?', 'a. Oxygen', 'b. Carbon dioxide'],
+  'page-2.png': ['c. Nitrogen', '3. Name the capital of France.'],
+};
+
+// The page breaks in the middle of option D.
+const MID_OPTION_PAGES = {
+  'page-1.png': ['1. Which of these is a noble gas?', 'A) Neon B) Oxygen', 'C) Carbon', 'D) A mixture of nitrogen'],
+  'page-2.png': ['and hydrogen', '2. Name the capital of France.'],
+};
+
+let pageSet = PAGES;
+
+// Stand-in for Electron's nativeImage: the "PNG" is the crop rectangle as JSON.
+const fakeNativeImage = {
+  createFromPath: () => ({
+    isEmpty: () => false,
+    getSize: () => ({ width: 2000, height: 3000 }),
+    crop: (rect) => ({ toPNG: () => Buffer.from(JSON.stringify(rect)) }),
+  }),
+};
+
+function fakeSpawn(exePath, args) {
+  const child = new EventEmitter();
+  child.stdout = new PassThrough();
+  child.stderr = new PassThrough();
+  child.kill = () => {};
+  setImmediate(() => {
+    if (path.basename(exePath).startsWith('pdftoppm')) {
+      const prefix = args[args.length - 1];
+      for (const name of Object.keys(pageSet)) fs.writeFileSync(path.join(path.dirname(prefix), name), '');
+      child.stdout.end();
+    } else {
+      child.stdout.end(toTsv(pageSet[path.basename(args[0])] || []));
+    }
+    child.stderr.end();
+    child.emit('close', 0);
+  });
+  return child;
+}
+
+async function main() {
+  assert.deepStrictEqual(splitInlineOptions('A) 4 B) 5 C. 6'), [
+    { label: 'A', text: '4' },
+    { label: 'B', text: '5' },
+    { label: 'C', text: '6' },
+  ]);
+  assert.deepStrictEqual(splitInlineOptions('A) Plan a. trip'), [{ label: 'A', text: 'Plan a. trip' }]);
+
+  const lines = parseTesseractTsv(toTsv(['1. First question', 'A) yes B) no']));
+  assert.strictEqual(lines.length, 2);
+  assert.strictEqual(lines[0].text, '1. First question');
+  assert.deepStrictEqual(lines[0].rect, { x: 100, y: 100, width: 115, height: 20 });
+
+  const parsed = parseQuestionsFromLines(lines.map((l) => ({ ...l, page: 0 })));
+  assert.strictEqual(parsed.length, 1);
+  assert.strictEqual(parsed[0].number, 1);
+  assert.deepStrictEqual(parsed[0].options.map((o) => o.text), ['yes', 'no']);
+
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-import-check-'));
+  try {
+    const missing = createOcrImportService({ rootDir });
+    assert.strictEqual(missing.status().reason, 'missing_binary');
+
+    const binDir = path.join(rootDir, getPlatformArchDir());
+    fs.mkdirSync(path.join(binDir, 'tessdata'), { recursive: true });
+    const exe = process.platform === 'win32' ? '.exe' : '';
+    fs.writeFileSync(path.join(binDir, `pdftoppm${exe}`), '');
+    fs.writeFileSync(path.join(binDir, `tesseract${exe}`), '');
+    assert.strictEqual(missing.status().reason, 'missing_tessdata');
+    fs.writeFileSync(path.join(binDir, 'tessdata', 'eng.traineddata'), '');
+
+    const service = createOcrImportService({ rootDir, spawn: fakeSpawn, tempDir: rootDir });
+    assert.strictEqual(service.status().available, true);
+
+    const pdfPath = path.join(rootDir, 'paper.pdf');
+    fs.writeFileSync(pdfPath, '%PDF-1.4');
+    const progress = [];
+    const result = await service.importFiles([pdfPath], { onProgress: (p) => progress.push(p) });
+    assert.strictEqual(result.pages, 2);
+    assert.deepStrictEqual(progress[progress.length - 1], { done: 2, total: 2 });
+    assert.deepStrictEqual(result.items.map((q) => q.number), [1, 2, 3]);
+    assert.strictEqual(result.items[0].text, 'What is 2 + 3?');
+    assert.deepStrictEqual(result.items[0].options.map((o) => o.label), ['A', 'B', 'C', 'D']);
+    assert.strictEqual(result.items[1].text, 'Which gas do plants\nabsorb?');
+    assert.deepStrictEqual(result.items[1].options.map((o) => o.text), ['Oxygen', 'Carbon dioxide', 'Nitrogen'], 'options continue across pages');
+    assert.strictEqual(result.items[2].page, 2);
+    assert.strictEqual(result.items[2].fileName, 'paper.pdf');
+    assert.ok(!fs.readdirSync(rootDir).some((f) => f.startsWith('limit-ocr-')), 'work dir is removed');
+
+    pageSet = MID_OPTION_PAGES;
+    const cropping = createOcrImportService({ rootDir, spawn: fakeSpawn, tempDir: rootDir, nativeImage: fakeNativeImage });
+    const split = await cropping.importFiles([pdfPath], {});
+    assert.deepStrictEqual(split.items.map((q) => q.number), [1, 2]);
+    assert.strictEqual(split.items[0].text, 'Which of these is a noble gas?', 'the rest of the option stays out of the stem');
+    assert.deepStrictEqual(
+      split.items[0].options.map((o) => o.text),
+      ['Neon', 'Oxygen', 'Carbon', 'A mixture of nitrogen and hydrogen'],
+      'an option broken by the page continues on the next page',
+    );
+    assert.ok(split.items[0].imageDataUrl, 'first page is cropped');
+    assert.strictEqual(split.items[0].continuationImageDataUrls.length, 1, 'continuation is cropped too');
+    const continuationRect = JSON.parse(
+      Buffer.from(split.items[0].continuationImageDataUrls[0].split(',')[1], 'base64').toString('utf8'),
+    );
+    assert.strictEqual(continuationRect.y + continuationRect.height, 120 + 12, 'continuation crop stops before the next question');
+    assert.strictEqual(split.items[1].continuationImageDataUrls, undefined);
+
+    console.log('[ocr-import] all checks passed');
+  } finally {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((err) => {
+  console.error(String(err && err.stack ? err.stack : err));
+  process.exit(1);
+});
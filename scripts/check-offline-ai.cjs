@@ -0,0 +1,64 @@
+'use strict';
+
+// Exercises the main-process offline AI service against the stub bundle:
+// status, deterministic embeddings, chat, FIFO queueing and cancellation.
+//
+//   node scripts/check-offline-ai.cjs
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createOfflineAiService, CANCELLED_MESSAGE } = require('../electron/offlineAi.cjs');
+const { setupOfflineAiStub } = require('./setup-offline-ai-stub.cjs');
+
+async function main() {
+  const rootDir = setupOfflineAiStub(fs.mkdtempSync(path.join(os.tmpdir(), 'offline-ai-stub-')));
+  try {
+    const missing = createOfflineAiService({ rootDir: path.join(rootDir, 'nope') });
+    assert.strictEqual(missing.status().available, false);
+    assert.strictEqual(missing.status().reason, 'missing_binary');
+
+    const service = createOfflineAiService({ rootDir });
+    assert.strictEqual(service.status().available, true);
+    assert.strictEqual(service.reasoningStatus().available, true);
+
+    const a = await service.embedText({ text: 'ratio and proportion', modelId: 'stub' });
+    const b = await service.embedText({ text: 'ratio and proportion', modelId: 'stub' });
+    const c = await service.embedText({ text: 'photosynthesis', modelId: 'stub' });
+    assert.strictEqual(a.dims, 32);
+    assert.deepStrictEqual(a.vector, b.vector, 'same text must embed identically');
+    assert.notDeepStrictEqual(a.vector, c.vector, 'different text must embed differently');
+
+    const reply = await service.chat({ system: 'Be brief.', messages: [{ role: 'user', content: 'What is 2+2?' }] });
+    assert.match(reply.text, /What is 2\+2\?/);
+
+    process.env.OFFLINE_AI_STUB_DELAY_MS = '400';
+    const order = [];
+    const first = service.embedText({ text: 'first', modelId: 'stub', requestId: 'r1' }).then(() => order.push('r1'));
+    const second = service.embedText({ text: 'second', modelId: 'stub', requestId: 'r2' }).then(() => order.push('r2'));
+    const queued = service.embedText({ text: 'queued', modelId: 'stub', requestId: 'r3' });
+    const slow = service.chat({ messages: [{ role: 'user', content: 'slow' }], requestId: 'r4' });
+    assert.strictEqual(service.queueState().pending, 3);
+    assert.deepStrictEqual(service.cancel({ requestId: 'r3' }), { cancelled: true });
+    await assert.rejects(queued, new RegExp(CANCELLED_MESSAGE));
+    await Promise.all([first, second]);
+    assert.deepStrictEqual(order, ['r1', 'r2'], 'requests must run in order');
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.strictEqual(service.queueState().running?.requestId, 'r4');
+    assert.deepStrictEqual(service.cancel({ requestId: 'r4' }), { cancelled: true });
+    await assert.rejects(slow, new RegExp(CANCELLED_MESSAGE));
+    assert.deepStrictEqual(service.cancel({ requestId: 'r4' }), { cancelled: false });
+    delete process.env.OFFLINE_AI_STUB_DELAY_MS;
+
+    console.log('[offline-ai] Service checks passed.');
+  } finally {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
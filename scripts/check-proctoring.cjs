@@ -0,0 +1,146 @@
+'use strict';
+
+// Exercises proctoring storage against a temp folder: quota checks, retention
+// pruning and the evidence bundle (zip layout, CRCs and the SHA-256 manifest).
+//
+//   node scripts/check-proctoring.cjs
+
+const assert = require('assert');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+const {
+  buildEvidenceBundle,
+  canCapture,
+  crc32,
+  listAttemptScreenshots,
+  pruneScreenshots,
+  recordAttemptRetention,
+  recordEvidenceExport,
+} = require('../electron/proctoring.cjs');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 31, 12);
+
+function writeShot(rootDir, attemptId, ts, bytes, questionId) {
+  const dir = path.join(rootDir, attemptId);
+  fs.mkdirSync(dir, { recursive: true });
+  const fileName = questionId ? `${ts}-${questionId}.png` : `${ts}.png`;
+  fs.writeFileSync(path.join(dir, fileName), crypto.randomBytes(bytes));
+  return fileName;
+}
+
+// Reads entries back through the central directory, inflating as needed.
+function readZip(buffer) {
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  assert.ok(end >= 0, 'end of central directory present');
+  const count = buffer.readUInt16LE(end + 10);
+  let p = buffer.readUInt32LE(end + 16);
+  const entries = {};
+  for (let i = 0; i < count; i++) {
+    assert.strictEqual(buffer.readUInt32LE(p), 0x02014b50);
+    const method = buffer.readUInt16LE(p + 10);
+    const crc = buffer.readUInt32LE(p + 16);
+    const size = buffer.readUInt32LE(p + 20);
+    const nameLen = buffer.readUInt16LE(p + 28);
+    const offset = buffer.readUInt32LE(p + 42);
+    const name = buffer.toString('utf8', p + 46, p + 46 + nameLen);
+    const localNameLen = buffer.readUInt16LE(offset + 26);
+    const body = buffer.subarray(offset + 30 + localNameLen, offset + 30 + localNameLen + size);
+    const data = method === 8 ? zlib.inflateRawSync(body) : Buffer.from(body);
+    assert.strictEqual(crc32(data), crc, `crc of ${name}`);
+    entries[name] = data;
+    p += 46 + nameLen;
+  }
+  return entries;
+}
+
+function main() {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proctoring-check-'));
+  try {
+    assert.strictEqual(crc32(Buffer.from('123456789')), 0xcbf43926, 'crc32 check value');
+
+    const first = writeShot(rootDir, 'attempt-a', NOW - 2 * 60000, 4096, 'q1');
+    writeShot(rootDir, 'attempt-a', NOW - 60000, 4096);
+    assert.deepStrictEqual(
+      listAttemptScreenshots(rootDir, 'attempt-a').map((s) => [s.fileName, s.questionId]),
+      [[first, 'q1'], [`${NOW - 60000}.png`, undefined]],
+    );
+    assert.throws(() => listAttemptScreenshots(rootDir, '../escape'), /Invalid attemptId/);
+
+    assert.strictEqual(canCapture(rootDir, 'attempt-a', { maxPerAttempt: 2 }), false, 'per-attempt limit');
+    assert.strictEqual(canCapture(rootDir, 'attempt-a', { maxPerAttempt: 3 }), true);
+    assert.strictEqual(canCapture(rootDir, 'attempt-b', {}), true, 'no limits');
+
+    // Evidence bundle
+    const records = [
+      { name: 'attempt.json', content: JSON.stringify({ id: 'attempt-a', answers: { q1: 'b' } }) },
+      { name: 'integrity-events.json', content: '[]' },
+    ];
+    const bundle = buildEvidenceBundle(rootDir, 'attempt-a', records, new Date(NOW));
+    const entries = readZip(bundle.zip);
+    assert.deepStrictEqual(Object.keys(entries).sort(), [
+      'attempt.json',
+      'integrity-events.json',
+      'manifest.json',
+      `screenshots/${first}`,
+      `screenshots/${NOW - 60000}.png`,
+    ]);
+    const manifest = JSON.parse(entries['manifest.json'].toString('utf8'));
+    assert.strictEqual(manifest.files.length, 4);
+    for (const file of manifest.files) {
+      const hash = crypto.createHash('sha256').update(entries[file.name]).digest('hex');
+      assert.strictEqual(hash, file.sha256, `manifest hash of ${file.name}`);
+    }
+    assert.strictEqual(
+      bundle.manifestSha256,
+      crypto.createHash('sha256').update(entries['manifest.json']).digest('hex'),
+    );
+    assert.throws(() => buildEvidenceBundle(rootDir, 'attempt-a', [{ name: '../x.json', content: '' }]), /Invalid evidence file name/);
+    assert.throws(() => buildEvidenceBundle(rootDir, 'attempt-a', [{ name: 'manifest.json', content: '' }]), /Invalid evidence file name/);
+
+    // Retention: each attempt goes by its own recorded limits, and only once exported.
+    writeShot(rootDir, 'attempt-old', NOW - 40 * DAY_MS, 1024);
+    recordAttemptRetention(rootDir, 'attempt-old', { retentionDays: 30 }, NOW - 40 * DAY_MS);
+    recordAttemptRetention(rootDir, 'attempt-old', { retentionDays: 365 }, NOW);
+    writeShot(rootDir, 'attempt-live', NOW - 40 * DAY_MS, 1024);
+    recordAttemptRetention(rootDir, 'attempt-live', { retentionDays: 1 }, NOW - 40 * DAY_MS);
+    recordEvidenceExport(rootDir, 'attempt-live', 'abc', NOW);
+    writeShot(rootDir, 'attempt-long', NOW - 40 * DAY_MS, 1024);
+    recordAttemptRetention(rootDir, 'attempt-long', { retentionDays: 90 }, NOW - 40 * DAY_MS);
+    recordEvidenceExport(rootDir, 'attempt-long', 'def', NOW);
+    writeShot(rootDir, 'attempt-legacy', NOW - 400 * DAY_MS, 1024);
+
+    const unexported = pruneScreenshots(rootDir, { holdAttemptIds: ['attempt-live'] }, NOW);
+    assert.strictEqual(unexported.removedFiles, 0, 'nothing goes before its evidence is exported');
+    recordEvidenceExport(rootDir, 'attempt-old', 'ghi', NOW);
+    const retention = pruneScreenshots(rootDir, { holdAttemptIds: ['attempt-live'] }, NOW);
+    assert.strictEqual(retention.removedFiles, 1, 'the first recorded retention applies');
+    assert.ok(!fs.existsSync(path.join(rootDir, 'attempt-old')), 'emptied folder removed');
+    assert.strictEqual(listAttemptScreenshots(rootDir, 'attempt-live').length, 1, 'held attempt kept');
+    assert.strictEqual(listAttemptScreenshots(rootDir, 'attempt-long').length, 1, 'longer retention of another module kept');
+    assert.strictEqual(listAttemptScreenshots(rootDir, 'attempt-legacy').length, 1, 'attempts without recorded limits kept');
+    assert.strictEqual(pruneScreenshots(rootDir, { retentionDays: 1, maxTotalMb: 0.001 }, NOW).removedFiles, 1, 'limits in the request are ignored');
+    assert.strictEqual(listAttemptScreenshots(rootDir, 'attempt-live').length, 0, 'released hold goes by its own retention');
+
+    // Quota: oldest exported screenshots go first while the folder is over their module's quota.
+    writeShot(rootDir, 'attempt-b', NOW - 10 * 60000, 600 * 1024);
+    writeShot(rootDir, 'attempt-b', NOW - 5 * 60000, 600 * 1024);
+    recordAttemptRetention(rootDir, 'attempt-b', { maxTotalMb: 1 }, NOW);
+    assert.strictEqual(canCapture(rootDir, 'attempt-c', { maxTotalMb: 1 }), false, 'over disk quota');
+    assert.strictEqual(pruneScreenshots(rootDir, {}, NOW).removedFiles, 0, 'unexported attempt kept over quota');
+    recordEvidenceExport(rootDir, 'attempt-b', 'jkl', NOW);
+    const quota = pruneScreenshots(rootDir, { holdAttemptIds: ['attempt-long'] }, NOW);
+    assert.strictEqual(quota.removedFiles, 1);
+    assert.strictEqual(listAttemptScreenshots(rootDir, 'attempt-long').length, 1);
+    assert.strictEqual(canCapture(rootDir, 'attempt-c', { maxTotalMb: 1 }), true, 'back under quota');
+
+    console.log('proctoring checks passed');
+  } finally {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  }
+}
+
+main();
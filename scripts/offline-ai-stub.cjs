@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+'use strict';
+
+// Stand-in for the llama.cpp binaries so the offline AI bridge can be exercised
+// without models. Run as `offline-ai-stub.cjs embedding <llama-embedding args>`
+// or `offline-ai-stub.cjs cli <llama-cli args>`.
+//
+// Embeddings are derived from a SHA-256 of the prompt, so the same text always
+// yields the same unit vector. OFFLINE_AI_STUB_DIMS sets the vector size and
+// OFFLINE_AI_STUB_DELAY_MS makes each call slow enough to test queueing and cancel.
+
+const crypto = require('crypto');
+
+function argValue(args, name) {
+  const i = args.indexOf(name);
+  return i >= 0 && i + 1 < args.length ? args[i + 1] : '';
+}
+
+function deterministicVector(text, dims) {
+  const out = [];
+  let block = 0;
+  while (out.length < dims) {
+    const digest = crypto.createHash('sha256').update(`${block}:${text}`).digest();
+    for (let i = 0; i + 4 <= digest.length && out.length < dims; i += 4) {
+      out.push(digest.readUInt32LE(i) / 0xffffffff - 0.5);
+    }
+    block++;
+  }
+  const norm = Math.sqrt(out.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return out.map((v) => Number((v / norm).toFixed(6)));
+}
+
+function lastUserMessage(prompt) {
+  const matches = [...prompt.matchAll(/<\|im_start\|>user\n([\s\S]*?)<\|im_end\|>/g)];
+  return matches.length ? matches[matches.length - 1][1] : prompt;
+}
+
+function main() {
+  const [mode, ...args] = process.argv.slice(2);
+  const prompt = argValue(args, '-p');
+  if (!argValue(args, '-m')) {
+    process.stderr.write('error: no model given (-m)\n');
+    process.exit(2);
+  }
+
+  if (mode === 'embedding') {
+    const dims = Math.max(1, Number(process.env.OFFLINE_AI_STUB_DIMS) || 32);
+    process.stderr.write('llama stub: computing embedding\n');
+    process.stdout.write(
+      JSON.stringify({ object: 'list', data: [{ object: 'embedding', index: 0, embedding: deterministicVector(prompt, dims) }] }) + '\n',
+    );
+    return;
+  }
+  if (mode === 'cli') {
+    const question = lastUserMessage(prompt).trim().slice(0, 200);
+    process.stdout.write(`Stub tutor reply (seed ${argValue(args, '--seed') || '0'}): ${question}\n`);
+    return;
+  }
+  process.stderr.write(`unknown stub mode: ${mode}\n`);
+  process.exit(2);
+}
+
+const delayMs = Number(process.env.OFFLINE_AI_STUB_DELAY_MS) || 0;
+setTimeout(main, delayMs);
@@ -0,0 +1,45 @@
+'use strict';
+
+// Lays out a fake offline AI bundle that runs scripts/offline-ai-stub.cjs in
+// place of llama.cpp. Point the app at it with OFFLINE_AI_DIR:
+//
+//   node scripts/setup-offline-ai-stub.cjs /tmp/offline-ai-stub
+//   OFFLINE_AI_DIR=/tmp/offline-ai-stub npm run electron:dev
+//
+// Linux and macOS only: the wrappers are shell scripts.
+
+const fs = require('fs');
+const path = require('path');
+const { getPlatformArchDir } = require('../electron/offlineAi.cjs');
+
+const STUB = path.join(__dirname, 'offline-ai-stub.cjs');
+
+function setupOfflineAiStub(rootDir) {
+  if (process.platform === 'win32') {
+    throw new Error('The offline AI stub bundle is only supported on Linux and macOS.');
+  }
+  const binDir = path.join(rootDir, getPlatformArchDir());
+  const modelsDir = path.join(rootDir, 'models');
+  fs.mkdirSync(binDir, { recursive: true });
+  fs.mkdirSync(modelsDir, { recursive: true });
+
+  const wrappers = { 'llama-embedding': 'embedding', 'llama-cli': 'cli' };
+  for (const [name, mode] of Object.entries(wrappers)) {
+    const p = path.join(binDir, name);
+    fs.writeFileSync(p, `#!/bin/sh\nexec "${process.execPath}" "${STUB}" ${mode} "$@"\n`);
+    fs.chmodSync(p, 0o755);
+  }
+  for (const model of ['embedding.gguf', 'reasoning.gguf']) {
+    fs.writeFileSync(path.join(modelsDir, model), 'stub model\n');
+  }
+  return rootDir;
+}
+
+if (require.main === module) {
+  const target = path.resolve(process.argv[2] || path.join(__dirname, '..', 'native', 'offline-ai-stub'));
+  setupOfflineAiStub(target);
+  console.log(`[offline-ai] Stub bundle written to ${target}`);
+  console.log(`[offline-ai] Run the app with OFFLINE_AI_DIR=${target}`);
+}
+
+module.exports = { setupOfflineAiStub };
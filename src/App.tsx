@@ -11,6 +11,7 @@ import Home from "./pages/Home";
 import Login from "./pages/Login";
 import Questions from "./pages/Questions";
 import CreateQuestion from "./pages/CreateQuestion";
+import OcrImport from "./pages/OcrImport";
 import Settings from "./pages/Settings";
 import ModulesPage from "./pages/Modules";
 import NotFound from "./pages/NotFound";
@@ -19,6 +20,11 @@ import ModuleCreator from "./pages/ModuleCreator";
 import ModuleEditor from "./pages/ModuleEditor";
 import ModuleRunner from "./pages/ModuleRunner";
 import DailyLimitReached from "./pages/DailyLimitReached";
+import ReviewQueue from "./pages/ReviewQueue";
+import Progress from "./pages/Progress";
+import Chat from "./pages/Chat";
+import IntegrityReview from "./pages/IntegrityReview";
+import IntegrityTimeline from "./pages/IntegrityTimeline";
 import { HOME_ROUTE, LOGIN_ROUTE } from "./constants/routes";
 import { setupCodeBlockCopy } from "./utils/codeBlockCopy";
 import { startSemanticBackgroundQueue } from "./lib/semanticQueue";
@@ -26,6 +32,7 @@ import SongsAdmin from "./pages/SongsAdmin";
 import SongModules from "./pages/SongModules";
 import SongModulesAdmin from "./pages/SongModulesAdmin";
 import SongModuleRunner from "./pages/SongModuleRunner";
+import SongLyricsQuiz from "./pages/SongLyricsQuiz";
 import SongRecognition from "./pages/SongRecognition";
  
 
@@ -80,6 +87,16 @@ const App = () => {
         </ProtectedRoute>
       ),
     },
+    {
+      path: "/questions/import-ocr",
+      element: (
+        <ProtectedRoute requireAdmin>
+          <Layout>
+            <OcrImport />
+          </Layout>
+        </ProtectedRoute>
+      ),
+    },
     {
       path: "/questions/edit/:id",
       element: (
@@ -190,6 +207,66 @@ const App = () => {
 				</ProtectedRoute>
 			),
 		},
+		{
+			path: "/song-module/:id/lyrics-quiz",
+			element: (
+				<ProtectedRoute>
+					<Layout>
+						<SongLyricsQuiz />
+					</Layout>
+				</ProtectedRoute>
+			),
+		},
+    {
+      path: "/review",
+      element: (
+        <ProtectedRoute>
+          <Layout>
+            <ReviewQueue />
+          </Layout>
+        </ProtectedRoute>
+      ),
+    },
+    {
+      path: "/progress",
+      element: (
+        <ProtectedRoute>
+          <Layout>
+            <Progress />
+          </Layout>
+        </ProtectedRoute>
+      ),
+    },
+    {
+      path: "/integrity",
+      element: (
+        <ProtectedRoute requireAdmin>
+          <Layout>
+            <IntegrityReview />
+          </Layout>
+        </ProtectedRoute>
+      ),
+    },
+    {
+      path: "/integrity/:attemptId",
+      element: (
+        <ProtectedRoute requireAdmin>
+          <Layout>
+            <IntegrityTimeline />
+          </Layout>
+        </ProtectedRoute>
+      ),
+    },
+    {
+      path: "/chat",
+      element: (
+        <ProtectedRoute>
+          <Layout>
+            <Chat />
+          </Layout>
+        </ProtectedRoute>
+      ),
+    },
     {
       path: "/daily-limit/:moduleId",
       element: (
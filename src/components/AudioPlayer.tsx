@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { cn } from "@/lib/utils";
@@ -21,6 +21,7 @@ type Props = {
 	clipEndMs?: number;
 	hideSeekBar?: boolean;
 	hideTimeDisplay?: boolean;
+	playbackRate?: number;
 	onEnded?: () => void;
 	onPlay?: () => void;
 	onPause?: () => void;
@@ -28,7 +29,15 @@ type Props = {
 	onLoadedMetadata?: (payload: { duration: number }) => void;
 };
 
-export default function AudioPlayer({
+/** Lets a parent move and read the playhead, e.g. to jump to or stamp a lyric line. */
+export type AudioPlayerHandle = {
+	seekTo: (seconds: number, options?: { play?: boolean }) => void;
+	// Read from the element, so it is finer than the last onTimeUpdate (~4 per second).
+	getCurrentTime: () => number;
+	togglePlay: () => void;
+};
+
+const AudioPlayer = forwardRef<AudioPlayerHandle, Props>(function AudioPlayer({
 	src,
 	className,
 	title,
@@ -37,12 +46,13 @@ export default function AudioPlayer({
 	clipEndMs,
 	hideSeekBar = false,
 	hideTimeDisplay = false,
+	playbackRate = 1,
 	onEnded,
 	onPlay,
 	onPause,
 	onTimeUpdate,
 	onLoadedMetadata,
-}: Props) {
+}, ref) {
 	const audioRef = useRef<HTMLAudioElement | null>(null);
 	const didInitClipRef = useRef(false);
 	const [ready, setReady] = useState(false);
@@ -185,6 +195,41 @@ export default function AudioPlayer({
 		}
 	}, [src, clipStartMs, clipEndMs]);
 
+	useEffect(() => {
+		const el = audioRef.current;
+		if (!el) return;
+		const rate = Number.isFinite(playbackRate) && playbackRate > 0 ? playbackRate : 1;
+		// load() resets playbackRate to defaultPlaybackRate, so set both.
+		el.defaultPlaybackRate = rate;
+		el.playbackRate = rate;
+	}, [playbackRate, src]);
+
+	useImperativeHandle(ref, () => ({
+		seekTo: (seconds, options) => {
+			const el = audioRef.current;
+			if (!el || !Number.isFinite(seconds)) return;
+			const max = Number.isFinite(el.duration) ? el.duration : seconds;
+			const next = Math.max(0, Math.min(max, seconds));
+			try {
+				el.currentTime = next;
+				setCurrentTime(next);
+				if (options?.play && el.paused) void el.play().catch(() => undefined);
+			} catch {
+				// ignore
+			}
+		},
+		getCurrentTime: () => {
+			const el = audioRef.current;
+			return el && Number.isFinite(el.currentTime) ? el.currentTime : 0;
+		},
+		togglePlay: () => {
+			const el = audioRef.current;
+			if (!el || !el.src) return;
+			if (el.paused) void el.play().catch(() => undefined);
+			else el.pause();
+		},
+	}), []);
+
 	const effectiveDuration = useMemo(() => {
 		if (!Number.isFinite(duration) || duration <= 0) return 0;
 		if (!clipActive || typeof clipStartSec !== 'number' || typeof clipEndSec !== 'number') return duration;
@@ -304,4 +349,6 @@ export default function AudioPlayer({
 			) : null}
 		</div>
 	);
-}
+});
+
+export default AudioPlayer;
@@ -4,6 +4,7 @@ interface ExamTimerDisplayProps {
 	remainingMs: number;
 	mode: 'perModule' | 'perQuestion';
 	paused?: boolean;
+	label?: string;
 	className?: string;
 }
 
@@ -14,8 +15,9 @@ function formatTime(ms: number): string {
 	return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
 }
 
-export function ExamTimerDisplay({ remainingMs, mode, paused = false, className }: ExamTimerDisplayProps) {
-	const danger = remainingMs <= 5 * 60 * 1000;
+export function ExamTimerDisplay({ remainingMs, mode, paused = false, label, className }: ExamTimerDisplayProps) {
+	// A question budget is usually under a minute, so warn much later than for the whole exam.
+	const danger = remainingMs <= (mode === 'perQuestion' ? 10 * 1000 : 5 * 60 * 1000);
 	return (
 		<div
 			className={cn(
@@ -25,7 +27,7 @@ export function ExamTimerDisplay({ remainingMs, mode, paused = false, className
 				className
 			)}
 		>
-			<span>Time Left</span>
+			<span>{label ?? (mode === 'perQuestion' ? 'Question Time' : 'Time Left')}</span>
 			<span className="tabular-nums">{formatTime(remainingMs)}</span>
 			{paused && <span className="text-xs text-muted-foreground">(Paused)</span>}
 		</div>
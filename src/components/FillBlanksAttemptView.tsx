@@ -1,4 +1,5 @@
 import type { DayQuestionDetail } from '@/lib/statsHelpers';
+import { matchesAnswer } from '@/lib/answerMatching';
 import {
   Tooltip,
   TooltipContent,
@@ -31,9 +32,7 @@ export function FillBlanksAttemptView({ detail }: FillBlanksAttemptViewProps) {
   const isBlankCorrect = (idx: number) => {
     const blank = blanks[idx];
     if (!blank) return null;
-    const userAnswer = (userAnswers[idx] || '').trim().toLowerCase();
-    const correctAnswer = blank.correct.trim().toLowerCase();
-    return userAnswer === correctAnswer;
+    return matchesAnswer(userAnswers[idx], blank.correct, detail.questionFillBlanks?.answerMatching);
   };
 
   const parser = new DOMParser();
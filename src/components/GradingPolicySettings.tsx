@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import type { CheckedState } from '@radix-ui/react-checkbox';
+import type { Question } from '@/lib/db';
+import { DEFAULT_NEGATIVE_MARKING_PENALTY_PERCENT, GradingPolicy, getQuestionPoints } from '@/lib/grading';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface GradingPolicySettingsProps {
+  value: GradingPolicy;
+  onChange: (value: GradingPolicy) => void;
+  // Questions in the module, in display order, for per-question point weights.
+  questions: Question[];
+}
+
+function questionLabel(q: Question, index: number): string {
+  if (q.code) return q.code;
+  const text = (q.text || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return text ? `${index + 1}. ${text.slice(0, 80)}` : `Question ${index + 1}`;
+}
+
+/**
+ * Module-level grading policy: partial credit, MCQ negative marking and point weights.
+ */
+export function GradingPolicySettings({ value, onChange, questions }: GradingPolicySettingsProps) {
+  const [showWeights, setShowWeights] = useState(() => Object.keys(value.questionPoints ?? {}).length > 0);
+  const negative = value.negativeMarking ?? { enabled: false, penaltyPercent: DEFAULT_NEGATIVE_MARKING_PENALTY_PERCENT };
+
+  const setPoints = (questionId: string, raw: string) => {
+    const next = { ...(value.questionPoints ?? {}) };
+    const parsed = parseFloat(raw);
+    if (!raw.trim() || Number.isNaN(parsed) || parsed === 1) {
+      delete next[questionId];
+    } else {
+      next[questionId] = Math.max(0, parsed);
+    }
+    onChange({ ...value, questionPoints: next });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label className="text-xs uppercase tracking-wide text-muted-foreground">Partial credit</Label>
+        <Select
+          value={value.partialCredit}
+          onValueChange={(v) => onChange({ ...value, partialCredit: v as GradingPolicy['partialCredit'] })}
+        >
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="proportional">Proportional (credit per correct blank or pair)</SelectItem>
+            <SelectItem value="all_or_nothing">All-or-nothing (only fully correct answers score)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.partialCredit === 'proportional' && (
+        <div className="flex items-start space-x-2">
+          <Checkbox
+            checked={value.mcqPartialCredit === true}
+            onCheckedChange={(v: CheckedState) => onChange({ ...value, mcqPartialCredit: v === true })}
+          />
+          <div className="flex-1 space-y-1">
+            <Label>Partial credit for multi-answer MCQs</Label>
+            <p className="text-xs text-muted-foreground">
+              Credit per correct option picked, less one per wrong pick. Off by default: MCQs score only when fully correct.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-start space-x-2">
+        <Checkbox
+          checked={negative.enabled}
+          onCheckedChange={(v: CheckedState) => onChange({ ...value, negativeMarking: { ...negative, enabled: v === true } })}
+        />
+        <div className="flex-1 space-y-1">
+          <Label>Negative marking for wrong MCQ picks</Label>
+          <p className="text-xs text-muted-foreground">
+            Each wrong option picked deducts a share of the question's points. Unanswered questions are never penalized.
+          </p>
+          {negative.enabled && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                className="w-24"
+                value={negative.penaltyPercent}
+                onChange={(e) => {
+                  const parsed = parseFloat(e.target.value || '0');
+                  const penaltyPercent = Number.isNaN(parsed) ? 0 : Math.min(100, Math.max(0, parsed));
+                  onChange({ ...value, negativeMarking: { ...negative, penaltyPercent } });
+                }}
+              />
+              <span className="text-xs text-muted-foreground">% of the question's points per wrong pick</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Question point weights</Label>
+          <Button type="button" variant="outline" size="sm" onClick={() => setShowWeights((v) => !v)}>
+            {showWeights ? 'Hide' : 'Edit'} weights
+          </Button>
+        </div>
+        {showWeights && (
+          questions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Select questions to assign point weights.</p>
+          ) : (
+            <div className="max-h-64 overflow-auto rounded-md border divide-y">
+              {questions.map((q, index) => (
+                <div key={q.id} className="flex items-center justify-between gap-3 px-3 py-1.5">
+                  <span className="text-sm truncate">{questionLabel(q, index)}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    className="w-20 h-8"
+                    value={getQuestionPoints(q.id, value)}
+                    onChange={(e) => setPoints(q.id, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          )
+        )}
+        <p className="text-[11px] text-muted-foreground">Questions count 1 point unless given another weight.</p>
+      </div>
+    </div>
+  );
+}
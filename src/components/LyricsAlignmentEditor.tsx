@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Play, RotateCcw } from 'lucide-react';
+import type { Song, SongSrtCue } from '@/lib/db';
+import {
+  buildCuesFromStamps,
+  findActiveCueIndex,
+  formatLrc,
+  formatLrcTime,
+  formatSrt,
+  splitLyricLines,
+  TimedLyricCue,
+} from '@/lib/songLyrics';
+import AudioPlayer, { AudioPlayerHandle } from '@/components/AudioPlayer';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface LyricsAlignmentEditorProps {
+  song: Song;
+  // The song's current cues, in cueIndex order; empty for songs with plain lyrics only.
+  cues: SongSrtCue[];
+  // Resolves false when saving failed (the caller reports it); edits are kept either way.
+  onSave: (cues: TimedLyricCue[]) => Promise<boolean>;
+}
+
+const PLAYBACK_RATES = [1, 0.75, 0.5];
+const NUDGE_STEPS_MS = [-500, -100, 100, 500];
+const KEY_NUDGE_MS = 100;
+const KEY_NUDGE_LARGE_MS = 500;
+// Previews start a little before the line so its first word is heard.
+const PREVIEW_LEAD_MS = 1500;
+
+function linesFromLyrics(song: Song) {
+  const lines = splitLyricLines(song.lyrics || '');
+  return { lines, starts: lines.map((): number | null => null) };
+}
+
+function initialState(song: Song, cues: SongSrtCue[]) {
+  if (!cues.length) return linesFromLyrics(song);
+  return { lines: cues.map((c) => c.text), starts: cues.map((c): number | null => c.startMs) };
+}
+
+function downloadText(text: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function exportBaseName(song: Song) {
+  return (song.title || 'lyrics').replace(/[\\/:*?"<>|]+/g, ' ').trim() || 'lyrics';
+}
+
+function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Tap-to-time editor: plays the song while the admin presses Space on each lyric line to
+ * stamp its start. Stamps can be nudged, the song slowed down, and the result previewed
+ * with the active line highlighted before it is saved as the song's cues or exported.
+ */
+export function LyricsAlignmentEditor({ song, cues, onSave }: LyricsAlignmentEditorProps) {
+  const playerRef = useRef<AudioPlayerHandle | null>(null);
+  const lineRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const [{ lines, starts }, setState] = useState(() => initialState(song, cues));
+  const [selected, setSelected] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [positionMs, setPositionMs] = useState(0);
+  const [durationMs, setDurationMs] = useState<number | undefined>(undefined);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const built = useMemo(() => buildCuesFromStamps(lines, starts, durationMs), [lines, starts, durationMs]);
+  const activeLine = useMemo(() => {
+    const idx = findActiveCueIndex(built, positionMs);
+    return idx >= 0 ? built[idx].lineIndex : -1;
+  }, [built, positionMs]);
+  // A stamp earlier than one on a line above it usually means a missed or double tap.
+  const outOfOrder = useMemo(() => {
+    const flagged = new Set<number>();
+    let latest = -1;
+    starts.forEach((ms, i) => {
+      if (typeof ms !== 'number') return;
+      if (ms < latest) flagged.add(i);
+      latest = Math.max(latest, ms);
+    });
+    return flagged;
+  }, [starts]);
+  const unstamped = starts.filter((ms) => typeof ms !== 'number').length;
+
+  const setStart = (index: number, next: number | null) => {
+    setState((prev) => {
+      const copy = prev.starts.slice();
+      copy[index] = next === null ? null : Math.max(0, Math.round(next));
+      return { lines: prev.lines, starts: copy };
+    });
+    setDirty(true);
+  };
+
+  const stamp = () => {
+    if (!lines.length) return;
+    const ms = (playerRef.current?.getCurrentTime() ?? 0) * 1000;
+    setStart(selected, ms);
+    setSelected((i) => Math.min(lines.length - 1, i + 1));
+  };
+
+  const unstampPrevious = () => {
+    const target = Math.max(0, selected - (typeof starts[selected] === 'number' ? 0 : 1));
+    setStart(target, null);
+    setSelected(target);
+  };
+
+  const nudge = (deltaMs: number) => {
+    const current = starts[selected];
+    if (typeof current !== 'number') return;
+    setStart(selected, current + deltaMs);
+  };
+
+  const previewFrom = (index: number) => {
+    const ms = starts[index];
+    if (typeof ms !== 'number') return;
+    playerRef.current?.seekTo(Math.max(0, ms - PREVIEW_LEAD_MS) / 1000, { play: true });
+  };
+
+  // Re-bound every render so the handlers see current state; cheap for a dialog.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.isComposing || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      if (e.code === 'Space') stamp();
+      else if (e.key === 'Backspace') unstampPrevious();
+      else if (e.key === 'ArrowUp') setSelected((i) => Math.max(0, i - 1));
+      else if (e.key === 'ArrowDown') setSelected((i) => Math.min(lines.length - 1, i + 1));
+      else if (e.key === 'ArrowLeft') nudge(-(e.shiftKey ? KEY_NUDGE_LARGE_MS : KEY_NUDGE_MS));
+      else if (e.key === 'ArrowRight') nudge(e.shiftKey ? KEY_NUDGE_LARGE_MS : KEY_NUDGE_MS);
+      else if (e.key === 'p' || e.key === 'P') playerRef.current?.togglePlay();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  useEffect(() => {
+    lineRefs.current[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const restartFromLyrics = () => {
+    setState(linesFromLyrics(song));
+    setSelected(0);
+    setDirty(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      if (await onSave(built)) setDirty(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!lines.length) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        This song has no lyrics to align. Add lyrics in the song editor first.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <AudioPlayer
+        ref={playerRef}
+        src={song.audioFileUrl}
+        title={song.title}
+        showVolumeControls={false}
+        playbackRate={rate}
+        onTimeUpdate={({ currentTime }) => setPositionMs(currentTime * 1000)}
+        onLoadedMetadata={({ duration }) => setDurationMs(duration > 0 ? duration * 1000 : undefined)}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Speed</span>
+        {PLAYBACK_RATES.map((r) => (
+          <Button key={r} type="button" size="sm" variant={rate === r ? 'default' : 'outline'} onClick={() => setRate(r)}>
+            {r}×
+          </Button>
+        ))}
+        <span className="ml-auto text-muted-foreground">Line {selected + 1}</span>
+        {NUDGE_STEPS_MS.map((step) => (
+          <Button
+            key={step}
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={typeof starts[selected] !== 'number'}
+            onClick={() => nudge(step)}
+          >
+            {step > 0 ? '+' : '−'}
+            {Math.abs(step) / 1000}s
+          </Button>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={typeof starts[selected] !== 'number'}
+          onClick={() => previewFrom(selected)}
+        >
+          <Play className="mr-1 h-3 w-3" />
+          Preview
+        </Button>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Play the song and press <kbd>Space</kbd> as each line starts. <kbd>Backspace</kbd> clears the last stamp,{' '}
+        <kbd>↑</kbd>/<kbd>↓</kbd> pick a line, <kbd>←</kbd>/<kbd>→</kbd> nudge it by 0.1s (with <kbd>Shift</kbd>, 0.5s),{' '}
+        <kbd>P</kbd> plays or pauses.
+      </div>
+
+      <div className="max-h-[45vh] overflow-y-auto rounded-md border p-1 space-y-0.5">
+        {lines.map((text, i) => {
+          const ms = starts[i];
+          return (
+            <button
+              key={i}
+              ref={(el) => {
+                lineRefs.current[i] = el;
+              }}
+              type="button"
+              // Keep keyboard focus off the lines so Space stamps instead of clicking one.
+              tabIndex={-1}
+              onClick={() => setSelected(i)}
+              onDoubleClick={() => previewFrom(i)}
+              className={cn(
+                'flex w-full items-start gap-3 rounded px-2 py-1 text-left text-sm',
+                i === selected && 'ring-2 ring-primary',
+                i === activeLine ? 'bg-primary/15 font-medium' : 'hover:bg-muted/50'
+              )}
+            >
+              <span
+                className={cn(
+                  'w-[72px] shrink-0 tabular-nums text-xs pt-0.5',
+                  typeof ms !== 'number' && 'text-muted-foreground',
+                  outOfOrder.has(i) && 'text-destructive'
+                )}
+              >
+                {typeof ms === 'number' ? formatLrcTime(ms) : '--:--.--'}
+              </span>
+              <span className="whitespace-pre-wrap">{text}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="text-xs text-muted-foreground mr-auto">
+          {unstamped ? `${unstamped} of ${lines.length} lines not stamped yet; they are left out of the cues.` : 'All lines stamped.'}
+          {outOfOrder.size ? ` ${outOfOrder.size} out of order (red).` : ''}
+        </div>
+        {cues.length && song.lyrics?.trim() ? (
+          <Button type="button" size="sm" variant="ghost" onClick={restartFromLyrics}>
+            <RotateCcw className="mr-1 h-3 w-3" />
+            Restart from lyrics
+          </Button>
+        ) : null}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={!built.length}
+          onClick={() => downloadText(formatLrc(built, { title: song.title, artist: song.singer }), `${exportBaseName(song)}.lrc`)}
+        >
+          <Download className="mr-1 h-3 w-3" />
+          .lrc
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={!built.length}
+          onClick={() => downloadText(formatSrt(built), `${exportBaseName(song)}.srt`)}
+        >
+          <Download className="mr-1 h-3 w-3" />
+          .srt
+        </Button>
+        <Button type="button" size="sm" disabled={!built.length || !dirty || saving} onClick={() => void save()}>
+          {saving ? 'Saving...' : 'Save cues'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Plus, Trash2 } from 'lucide-react';
+import type { CheckedState } from '@radix-ui/react-checkbox';
+import type { ModuleSection, Question } from '@/lib/db';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ModuleSectionsEditorProps {
+  value: ModuleSection[];
+  onChange: (value: ModuleSection[]) => void;
+  // Questions selected for the module, in display order.
+  questions: Question[];
+  tags: string[];
+}
+
+const DIFFICULTIES: Array<'easy' | 'medium' | 'hard'> = ['easy', 'medium', 'hard'];
+
+function questionLabel(q: Question, index: number): string {
+  if (q.code) return q.code;
+  const text = (q.text || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return text ? `${index + 1}. ${text.slice(0, 80)}` : `Question ${index + 1}`;
+}
+
+function sectionName(index: number): string {
+  return `Section ${String.fromCharCode(65 + (index % 26))}`;
+}
+
+function toggle<T>(list: T[] | undefined, item: T): T[] {
+  const current = list ?? [];
+  return current.includes(item) ? current.filter((x) => x !== item) : [...current, item];
+}
+
+/**
+ * Exam sections: which questions each section serves, an optional random pool,
+ * and per-section timing and navigation rules.
+ */
+export function ModuleSectionsEditor({ value, onChange, questions, tags }: ModuleSectionsEditorProps) {
+  const assigned = new Set(value.flatMap((s) => s.questionIds));
+  const unassigned = questions.filter((q) => !assigned.has(q.id)).length;
+
+  const update = (id: string, patch: Partial<ModuleSection>) => {
+    onChange(value.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  // A question lives in one section only, so ticking it here removes it from the others.
+  const assign = (sectionId: string, questionId: string, checked: boolean) => {
+    onChange(
+      value.map((s) => {
+        const rest = s.questionIds.filter((id) => id !== questionId);
+        if (s.id !== sectionId) return { ...s, questionIds: rest };
+        return { ...s, questionIds: checked ? [...rest, questionId] : rest };
+      })
+    );
+  };
+
+  const addSection = () => {
+    onChange([
+      ...value,
+      {
+        id: uuidv4(),
+        title: sectionName(value.length),
+        // The first section starts with every selected question so nothing is left out.
+        questionIds: value.length ? [] : questions.map((q) => q.id),
+      },
+    ]);
+  };
+
+  if (!value.length) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          Split the paper into sections with their own time limit. Students can't return to a section once they leave it.
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={addSection}>
+          <Plus className="h-4 w-4 mr-2" />
+          Use sections
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {unassigned > 0 && (
+        <p className="text-xs text-destructive">
+          {unassigned} selected question{unassigned === 1 ? ' is' : 's are'} not in any section.
+        </p>
+      )}
+      {value.map((section, sectionIndex) => {
+        const pool = section.pool ?? { count: 0 };
+        return (
+          <div key={section.id} className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={section.title}
+                onChange={(e) => update(section.id, { title: e.target.value })}
+                placeholder={sectionName(sectionIndex)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove section"
+                onClick={() => onChange(value.filter((s) => s.id !== section.id))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs uppercase tracking-wide text-muted-foreground">Time limit (minutes)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={section.timeLimitMinutes ?? ''}
+                  onChange={(e) => {
+                    const minutes = parseInt(e.target.value || '0', 10);
+                    update(section.id, { timeLimitMinutes: minutes > 0 ? minutes : undefined });
+                  }}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="flex items-center space-x-2 pt-5">
+                <Checkbox
+                  checked={!!section.randomizeQuestions}
+                  onCheckedChange={(v: CheckedState) => update(section.id, { randomizeQuestions: v === true })}
+                />
+                <Label>Shuffle questions</Label>
+              </div>
+              <div className="flex items-center space-x-2 pt-5">
+                <Checkbox
+                  checked={!!section.allowBackNavigation}
+                  onCheckedChange={(v: CheckedState) => update(section.id, { allowBackNavigation: v === true })}
+                />
+                <Label>Allow going back within the section</Label>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs uppercase tracking-wide text-muted-foreground">Questions</Label>
+              {questions.length ? (
+                <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                  {questions.map((q, index) => {
+                    const owner = value.find((s) => s.questionIds.includes(q.id));
+                    return (
+                      <label key={q.id} className="flex items-center gap-2 px-2 py-1 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={owner?.id === section.id}
+                          onCheckedChange={(v: CheckedState) => assign(section.id, q.id, v === true)}
+                        />
+                        <span className="truncate flex-1">{questionLabel(q, index)}</span>
+                        {owner && owner.id !== section.id && (
+                          <span className="text-xs text-muted-foreground shrink-0">{owner.title}</span>
+                        )}
+                      </label>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">Select questions below to add them to sections.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs uppercase tracking-wide text-muted-foreground">Random questions from the bank</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-24"
+                  value={pool.count || ''}
+                  onChange={(e) => {
+                    const count = parseInt(e.target.value || '0', 10);
+                    update(section.id, { pool: { ...pool, count: count > 0 ? count : 0 } });
+                  }}
+                  placeholder="0"
+                />
+                <span className="text-xs text-muted-foreground">
+                  drawn per attempt, in addition to the questions ticked above
+                </span>
+              </div>
+              {pool.count > 0 && (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-2">
+                    {DIFFICULTIES.map((d) => (
+                      <button key={d} type="button" onClick={() => update(section.id, { pool: { ...pool, difficulties: toggle(pool.difficulties, d) } })}>
+                        <Badge variant={pool.difficulties?.includes(d) ? 'default' : 'secondary'} className="capitalize">
+                          {d}
+                        </Badge>
+                      </button>
+                    ))}
+                  </div>
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {tags.map((t) => (
+                        <button key={t} type="button" onClick={() => update(section.id, { pool: { ...pool, tags: toggle(pool.tags, t) } })}>
+                          <Badge variant={pool.tags?.includes(t) ? 'default' : 'outline'}>{t}</Badge>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-[11px] text-muted-foreground">
+                    No difficulty or tag picked means any. Questions already in a section are never drawn twice.
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      <Button type="button" variant="outline" size="sm" onClick={addSection}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add section
+      </Button>
+    </div>
+  );
+}
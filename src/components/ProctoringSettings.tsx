@@ -0,0 +1,101 @@
+import type { CheckedState } from '@radix-ui/react-checkbox';
+import type { ProctoringPolicy } from '@/lib/db';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ProctoringSettingsProps {
+  value: ProctoringPolicy;
+  onChange: (value: ProctoringPolicy) => void;
+}
+
+function parseOptional(text: string): number | undefined {
+  const n = parseInt(text || '0', 10);
+  return n > 0 ? n : undefined;
+}
+
+/**
+ * Screenshot proctoring for exams taken in the desktop app: how often to capture,
+ * whether integrity events trigger a capture, and how much may be kept on disk.
+ */
+export function ProctoringSettings({ value, onChange }: ProctoringSettingsProps) {
+  const update = (patch: Partial<ProctoringPolicy>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Checkbox checked={value.enabled} onCheckedChange={(v: CheckedState) => update({ enabled: v === true })} />
+        <Label>Take screenshots during the exam (desktop app only)</Label>
+      </div>
+      {value.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs uppercase tracking-wide text-muted-foreground">Every (seconds, at least)</Label>
+              <Input
+                type="number"
+                min={5}
+                value={value.minIntervalSeconds || ''}
+                onChange={(e) => update({ minIntervalSeconds: parseInt(e.target.value || '0', 10) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs uppercase tracking-wide text-muted-foreground">At most (seconds)</Label>
+              <Input
+                type="number"
+                min={5}
+                value={value.maxIntervalSeconds || ''}
+                onChange={(e) => update({ maxIntervalSeconds: parseInt(e.target.value || '0', 10) })}
+              />
+            </div>
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            Each screenshot is taken at a random moment in this range, so students can't predict it.
+          </p>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              checked={value.captureOnEvents}
+              onCheckedChange={(v: CheckedState) => update({ captureOnEvents: v === true })}
+            />
+            <Label>Also capture when the student leaves the window or uses a blocked shortcut</Label>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs uppercase tracking-wide text-muted-foreground">Max per attempt</Label>
+              <Input
+                type="number"
+                min={1}
+                value={value.maxScreenshotsPerAttempt ?? ''}
+                placeholder="No limit"
+                onChange={(e) => update({ maxScreenshotsPerAttempt: parseOptional(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs uppercase tracking-wide text-muted-foreground">Keep for (days)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={value.retentionDays ?? ''}
+                placeholder="Forever"
+                onChange={(e) => update({ retentionDays: parseOptional(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs uppercase tracking-wide text-muted-foreground">Disk quota (MB)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={value.maxDiskMb ?? ''}
+                placeholder="No limit"
+                onChange={(e) => update({ maxDiskMb: parseOptional(e.target.value) })}
+              />
+            </div>
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            Old screenshots are removed when an exam starts. Export an attempt's evidence first if you need to keep it.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,11 @@ interface ProtectedRouteProps {
 }
 
 export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-  const { isAuthenticated, isAdmin } = useAuth();
+  const { isAuthenticated, isAdmin, isRestoring } = useAuth();
+
+  if (isRestoring) {
+    return null;
+  }
 
   if (!isAuthenticated) {
     return <Navigate to={LOGIN_ROUTE} replace />;
@@ -0,0 +1,75 @@
+import type { Module } from '@/lib/db';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type QuestionPool = NonNullable<Module['settings']['questionPool']>;
+
+interface QuestionPoolSettingsProps {
+  value?: QuestionPool;
+  onChange: (value: QuestionPool | undefined) => void;
+  tags: string[];
+}
+
+const DIFFICULTIES: Array<keyof QuestionPool['counts']> = ['easy', 'medium', 'hard'];
+
+/**
+ * Per-student paper assembly for exams: how many easy/medium/hard questions to draw
+ * from the bank, optionally limited to some tags.
+ */
+export function QuestionPoolSettings({ value, onChange, tags }: QuestionPoolSettingsProps) {
+  const counts = value?.counts ?? { easy: 0, medium: 0, hard: 0 };
+  const selectedTags = value?.tags ?? [];
+
+  const emit = (next: QuestionPool) => {
+    const total = DIFFICULTIES.reduce((sum, d) => sum + (next.counts[d] || 0), 0);
+    onChange(total > 0 || next.tags?.length ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Each student gets their own draw, added to the questions selected below. The same student always gets the same paper.
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        {DIFFICULTIES.map((d) => (
+          <div key={d} className="space-y-1">
+            <Label className="text-xs uppercase tracking-wide text-muted-foreground">{d}</Label>
+            <Input
+              type="number"
+              min={0}
+              value={counts[d] || ''}
+              placeholder="0"
+              onChange={(e) => {
+                const n = parseInt(e.target.value || '0', 10);
+                emit({ tags: value?.tags, counts: { ...counts, [d]: n > 0 ? n : 0 } });
+              }}
+            />
+          </div>
+        ))}
+      </div>
+      {tags.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs uppercase tracking-wide text-muted-foreground">From tags</Label>
+          <div className="flex flex-wrap gap-2">
+            {tags.map((t) => {
+              const selected = selectedTags.includes(t);
+              return (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() =>
+                    emit({ counts, tags: selected ? selectedTags.filter((x) => x !== t) : [...selectedTags, t] })
+                  }
+                >
+                  <Badge variant={selected ? 'default' : 'outline'}>{t}</Badge>
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[11px] text-muted-foreground">No tag picked means the whole question bank.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { db } from '@/lib/db';
+import { prepareContentForDisplay } from '@/lib/contentFormatting';
+import { appendTutorMessage, buildTutorSystemPrompt, getTutorPromptMessages } from '@/lib/tutorChat';
+
+interface TutorChatPanelProps {
+  conversationId: string;
+  className?: string;
+}
+
+export function TutorChatPanel({ conversationId, className }: TutorChatPanelProps) {
+  const conversation = useLiveQuery(() => db.tutorConversations.get(conversationId), [conversationId]);
+  const [input, setInput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const requestIdRef = useRef<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  const canUseOfflineChat = useMemo(() => {
+    return !!window.offlineAi && typeof window.offlineAi.chat === 'function' && typeof window.offlineAi.reasoningStatus === 'function';
+  }, []);
+
+  const messages = conversation?.messages ?? [];
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages.length, loading]);
+
+  const send = useCallback(async () => {
+    const msg = input.trim();
+    if (!msg || loading) return;
+    const api = window.offlineAi;
+    if (!api || typeof api.chat !== 'function' || typeof api.reasoningStatus !== 'function') {
+      toast.error('Local chat is only available in the Electron app');
+      return;
+    }
+    setInput('');
+    setLoading(true);
+    const requestId = uuidv4();
+    requestIdRef.current = requestId;
+    try {
+      const st = await api.reasoningStatus();
+      if (!st.available) {
+        toast.error(`Local chat unavailable: ${st.reason}`);
+        setInput(msg);
+        return;
+      }
+      const updated = await appendTutorMessage(conversationId, { role: 'user', content: msg });
+      if (!updated) return;
+      const question = updated.context?.questionId ? await db.questions.get(updated.context.questionId) : undefined;
+      const res = await api.chat({
+        system: buildTutorSystemPrompt(updated, question),
+        messages: getTutorPromptMessages(updated),
+        maxTokens: 700,
+        temperature: 0.7,
+        seed: 0,
+        requestId,
+      });
+      await appendTutorMessage(conversationId, { role: 'assistant', content: res.text || '' });
+    } catch (e) {
+      if (String((e as Error)?.message ?? e).includes('offline_ai_cancelled')) {
+        toast.info('Stopped');
+      } else {
+        console.error(e);
+        toast.error('Chat failed');
+      }
+    } finally {
+      requestIdRef.current = null;
+      setLoading(false);
+    }
+  }, [conversationId, input, loading]);
+
+  const stop = useCallback(() => {
+    const requestId = requestIdRef.current;
+    if (requestId && window.offlineAi?.cancel) {
+      void window.offlineAi.cancel({ requestId });
+    }
+  }, []);
+
+  // Stop generating if the panel goes away mid-reply.
+  useEffect(() => stop, [stop]);
+
+  if (conversation === undefined) {
+    return <div className="text-sm text-muted-foreground">Loading conversation…</div>;
+  }
+
+  return (
+    <div className={className}>
+      {!canUseOfflineChat && (
+        <p className="text-sm text-muted-foreground mb-2">Open the Electron app to use local chat.</p>
+      )}
+      {conversation.context && (
+        <div className="mb-3 rounded-md border bg-muted/40 p-3 text-sm">
+          <div className="text-xs font-medium text-muted-foreground mb-1">Question</div>
+          <div className="whitespace-pre-wrap line-clamp-6">{conversation.context.questionText}</div>
+        </div>
+      )}
+      <div ref={scrollRef} className="h-[55vh] overflow-auto space-y-3">
+        {messages.length ? (
+          messages.map((m, idx) => (
+            <div key={idx}>
+              <div className="text-xs text-muted-foreground mb-1">{m.role === 'user' ? 'You' : 'Tutor'}</div>
+              {m.role === 'assistant' ? (
+                <div className="prose prose-sm max-w-none content-html" dangerouslySetInnerHTML={{ __html: prepareContentForDisplay(m.content) }} />
+              ) : (
+                <div className="text-sm whitespace-pre-wrap">{m.content}</div>
+              )}
+            </div>
+          ))
+        ) : (
+          <div className="text-sm text-muted-foreground">
+            {conversation.context ? 'Ask anything about this question…' : 'Start by asking something…'}
+          </div>
+        )}
+        {loading && <div className="text-sm text-muted-foreground">Tutor is thinking…</div>}
+      </div>
+
+      <div className="mt-3 flex items-center gap-2">
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Type a message…"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') void send();
+          }}
+        />
+        {loading ? (
+          <Button type="button" variant="outline" onClick={stop}>
+            Stop
+          </Button>
+        ) : (
+          <Button type="button" onClick={() => void send()}>
+            Send
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
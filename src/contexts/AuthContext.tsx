@@ -1,10 +1,19 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { db } from '@/lib/db';
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { createInitialAdmin, db, User } from '@/lib/db';
+import { hashPassword, needsRehash, verifyPassword } from '@/lib/credentials';
+import {
+  createSession,
+  endSession,
+  getSessionPolicy,
+  resolveSession,
+  SESSION_TOKEN_STORAGE_KEY,
+  SESSION_TOUCH_INTERVAL_MS,
+  SessionEndReason,
+  touchSession,
+} from '@/lib/sessions';
 import { LOGIN_ROUTE } from '@/constants/routes';
 
-const ADMIN_USERNAME = 'Subhadeep.Choudhury';
-const ADMIN_PASSWORD = 'Yubi123454';
-
 type UserRole = 'admin' | 'student' | null;
 
 interface AuthUser {
@@ -16,81 +25,209 @@ interface AuthUser {
 interface AuthContextType {
   user: AuthUser | null;
   login: (username: string, password: string) => Promise<boolean>;
+  // First-run only: creates the first administrator and signs them in.
+  setupAdmin: (username: string, password: string) => Promise<void>;
   logout: () => void;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  // True until the stored session token has been checked against the database.
+  isRestoring: boolean;
+  // Keeps the idle lock from firing (e.g. during a running exam). Returns a release function.
+  suspendIdleLock: () => () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const IDLE_CHECK_INTERVAL_MS = 15_000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'wheel', 'touchstart'] as const;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number>(0);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const lastActivityRef = useRef<number>(Date.now());
+  const idleHoldsRef = useRef(0);
+
+  const clearLocalSession = useCallback(() => {
+    setUser(null);
+    setSessionId(null);
+    setSessionExpiresAt(0);
+    localStorage.removeItem(SESSION_TOKEN_STORAGE_KEY);
+  }, []);
 
   useEffect(() => {
-    // Check for stored session
-    const storedUser = localStorage.getItem('currentUser');
-    if (storedUser) {
+    // Sessions from before tokens existed stored the user as a JSON blob that could be edited
+    // freely; they are not trusted and the user has to sign in again.
+    localStorage.removeItem('currentUser');
+
+    const token = localStorage.getItem(SESSION_TOKEN_STORAGE_KEY);
+    if (!token) {
+      setIsRestoring(false);
+      return;
+    }
+    void (async () => {
       try {
-        const parsed = JSON.parse(storedUser);
-				setUser(parsed);
-
-				// Backward compatibility: older sessions might not include the student id.
-				// Without id, assignment-based modules (like song modules) won't match.
-				if (parsed && parsed.role === 'student' && !parsed.id && typeof parsed.username === 'string') {
-					void (async () => {
-						try {
-							const student = await db.users.where('username').equals(parsed.username).first();
-							if (student) {
-								const hydrated: AuthUser = { id: student.id, username: parsed.username, role: 'student' };
-								setUser(hydrated);
-								localStorage.setItem('currentUser', JSON.stringify(hydrated));
-							}
-						} catch {
-							// ignore
-						}
-					})();
-				}
-      } catch {
-        localStorage.removeItem('currentUser');
+        const resolved = await resolveSession(token);
+        if (!resolved) {
+          localStorage.removeItem(SESSION_TOKEN_STORAGE_KEY);
+          return;
+        }
+        const { session, user: record } = resolved;
+        lastActivityRef.current = Date.now();
+        await touchSession(session.id);
+        setUser({ id: record.id, username: record.username, role: record.role });
+        setSessionId(session.id);
+        setSessionExpiresAt(session.expiresAt);
+      } catch (error) {
+        console.error('Failed to restore session', error);
+        localStorage.removeItem(SESSION_TOKEN_STORAGE_KEY);
+      } finally {
+        setIsRestoring(false);
       }
-    }
+    })();
   }, []);
 
+  const endCurrentSession = useCallback(
+    async (reason: SessionEndReason) => {
+      const id = sessionId;
+      clearLocalSession();
+      if (id) {
+        try {
+          await endSession(id, reason);
+        } catch (error) {
+          console.error('Failed to record session end', error);
+        }
+      }
+      window.location.hash = LOGIN_ROUTE;
+    },
+    [sessionId, clearLocalSession],
+  );
+
+  // Idle lock, absolute expiry and periodic lastActiveAt updates for the active session.
+  useEffect(() => {
+    if (!sessionId) return;
+    lastActivityRef.current = Date.now();
+    let lastTouchedAt = Date.now();
+    let checking = false;
+
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, markActive, { passive: true });
+    }
+
+    const intervalId = window.setInterval(() => {
+      if (checking) return;
+      checking = true;
+      void (async () => {
+        try {
+          const now = Date.now();
+          if (idleHoldsRef.current > 0) lastActivityRef.current = now;
+
+          // An admin may have ended this session from Settings.
+          const current = await db.sessions.get(sessionId);
+          if (!current || current.endedAt) {
+            clearLocalSession();
+            window.location.hash = LOGIN_ROUTE;
+            return;
+          }
+
+          if (idleHoldsRef.current === 0 && sessionExpiresAt > 0 && now >= sessionExpiresAt) {
+            toast.info('Your session has expired. Please sign in again.');
+            await endCurrentSession('expired');
+            return;
+          }
+
+          const policy = await getSessionPolicy();
+          const idleMs = policy.idleTimeoutMinutes * 60 * 1000;
+          if (idleMs > 0 && now - lastActivityRef.current >= idleMs) {
+            toast.info('Locked after a period of inactivity. Please sign in again.');
+            await endCurrentSession('idle_lock');
+            return;
+          }
+
+          if (lastActivityRef.current > lastTouchedAt && now - lastTouchedAt >= SESSION_TOUCH_INTERVAL_MS) {
+            lastTouchedAt = now;
+            await touchSession(sessionId, lastActivityRef.current);
+          }
+        } catch (error) {
+          console.error('Session check failed', error);
+        } finally {
+          checking = false;
+        }
+      })();
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(intervalId);
+      for (const type of ACTIVITY_EVENTS) {
+        window.removeEventListener(type, markActive);
+      }
+    };
+  }, [sessionId, sessionExpiresAt, endCurrentSession, clearLocalSession]);
+
+  const startSession = async (record: User) => {
+    if (sessionId) {
+      await endSession(sessionId, 'logout', 'Replaced by a new login');
+    }
+    const session = await createSession(record);
+    localStorage.setItem(SESSION_TOKEN_STORAGE_KEY, session.token);
+    lastActivityRef.current = Date.now();
+    setUser({ id: record.id, username: record.username, role: record.role });
+    setSessionId(session.id);
+    setSessionExpiresAt(session.expiresAt);
+  };
+
   const login = async (username: string, password: string): Promise<boolean> => {
-    // Check admin credentials
-    if (username === ADMIN_USERNAME && password === ADMIN_PASSWORD) {
-      const adminUser: AuthUser = { username, role: 'admin' as UserRole };
-      setUser(adminUser);
-      localStorage.setItem('currentUser', JSON.stringify(adminUser));
-      return true;
+    const record = await db.users.where('username').equals(username).first();
+    if (!record || !(await verifyPassword(password, record.passwordHash))) {
+      return false;
     }
 
-    // Check student credentials
-    const student = await db.users.where('username').equals(username).first();
-    if (student && student.password === password) {
-      const studentUser: AuthUser = { id: student.id, username, role: 'student' as UserRole };
-      setUser(studentUser);
-      localStorage.setItem('currentUser', JSON.stringify(studentUser));
-      return true;
+    if (needsRehash(record.passwordHash)) {
+      try {
+        await db.users.update(record.id, { passwordHash: await hashPassword(password), updatedAt: Date.now() });
+      } catch {
+        // Keep the old hash; it still verifies.
+      }
     }
 
-    return false;
+    await startSession(record);
+    return true;
+  };
+
+  const setupAdmin = async (username: string, password: string) => {
+    await startSession(await createInitialAdmin(username, password));
   };
 
   const logout = () => {
-    setUser(null);
-    localStorage.removeItem('currentUser');
-    window.location.hash = LOGIN_ROUTE;
+    void endCurrentSession('logout');
   };
 
+  const suspendIdleLock = useCallback(() => {
+    idleHoldsRef.current += 1;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      idleHoldsRef.current = Math.max(0, idleHoldsRef.current - 1);
+      lastActivityRef.current = Date.now();
+    };
+  }, []);
+
   return (
     <AuthContext.Provider
       value={{
         user,
         login,
+        setupAdmin,
         logout,
         isAuthenticated: !!user,
         isAdmin: user?.role === 'admin',
+        isRestoring,
+        suspendIdleLock,
       }}
     >
       {children}
@@ -105,4 +242,3 @@ export function useAuth() {
   }
   return context;
 }
-
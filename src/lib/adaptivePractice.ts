@@ -1,31 +1,18 @@
+import { db, AdaptiveCardSchedule, AdaptivePracticeModelRecord, AdaptiveTagStats, Question } from './db';
+
 export type DifficultyBand = 'easy' | 'medium' | 'hard';
 
 export type AdaptivePracticeConfig = {
   userId: string | null | undefined;
-  moduleId: string;
+  // Module being practised, if any. Models are kept per student, not per module.
+  moduleId?: string;
 };
 
-type TagStats = {
-  attempts: number;
-  correct: number;
-  avgTimeMs: number;
-  lastAttemptAt?: number;
-};
+type TagStats = AdaptiveTagStats;
 
-type CardSchedule = {
-  ease: number; // 1.3–2.7
-  intervalDays: number;
-  dueAt: number;
-  lastReviewedAt?: number;
-  lastQuality?: number;
-};
+type CardSchedule = AdaptiveCardSchedule;
 
-export type AdaptivePracticeModelV1 = {
-  version: 1;
-  updatedAt: number;
-  tags: Record<string, TagStats>;
-  cards: Record<string, CardSchedule>; // questionId -> schedule
-};
+export type AdaptivePracticeModelV1 = Omit<AdaptivePracticeModelRecord, 'id'>;
 
 export type AttemptSignal = {
   questionId: string;
@@ -45,11 +32,11 @@ export type SkillBreakdownRow = {
   score: number; // 0..1 combined
 };
 
-const STORAGE_PREFIX = 'tk-adaptive-practice-model-v1';
+// Models were kept in localStorage before they moved to the adaptiveModels table.
+const LEGACY_STORAGE_PREFIX = 'tk-adaptive-practice-model-v1';
 
-function storageKey(cfg: AdaptivePracticeConfig): string {
-  const userPart = cfg.userId && String(cfg.userId).trim().length > 0 ? String(cfg.userId) : 'anon';
-  return `${STORAGE_PREFIX}::${userPart}`;
+function modelKey(cfg: AdaptivePracticeConfig): string {
+  return cfg.userId && String(cfg.userId).trim().length > 0 ? String(cfg.userId) : 'anon';
 }
 
 function clamp(n: number, min: number, max: number): number {
@@ -65,29 +52,44 @@ function safeJsonParse<T>(raw: string | null): T | null {
   }
 }
 
-export function loadAdaptivePracticeModel(cfg: AdaptivePracticeConfig): AdaptivePracticeModelV1 {
-  if (typeof localStorage === 'undefined') {
-    return { version: 1, updatedAt: Date.now(), tags: {}, cards: {} };
-  }
-  const parsed = safeJsonParse<AdaptivePracticeModelV1>(localStorage.getItem(storageKey(cfg)));
-  if (!parsed || parsed.version !== 1) {
-    return { version: 1, updatedAt: Date.now(), tags: {}, cards: {} };
-  }
+function emptyModel(): AdaptivePracticeModelV1 {
+  return { version: 1, updatedAt: Date.now(), tags: {}, cards: {} };
+}
+
+function normalizeModel(raw: Partial<AdaptivePracticeModelV1> | null | undefined): AdaptivePracticeModelV1 | null {
+  if (!raw || raw.version !== 1) return null;
   return {
     version: 1,
-    updatedAt: parsed.updatedAt || Date.now(),
-    tags: parsed.tags || {},
-    cards: parsed.cards || {},
+    updatedAt: raw.updatedAt || Date.now(),
+    tags: raw.tags || {},
+    cards: raw.cards || {},
   };
 }
 
-export function storeAdaptivePracticeModel(cfg: AdaptivePracticeConfig, model: AdaptivePracticeModelV1): void {
-  if (typeof localStorage === 'undefined') return;
+// One-time move of a model saved by an older build from localStorage into the database.
+async function takeLegacyModel(key: string): Promise<AdaptivePracticeModelV1 | null> {
+  if (typeof localStorage === 'undefined') return null;
+  const storageKey = `${LEGACY_STORAGE_PREFIX}::${key}`;
+  const legacy = normalizeModel(safeJsonParse<AdaptivePracticeModelV1>(localStorage.getItem(storageKey)));
+  if (!legacy) return null;
+  await db.adaptiveModels.put({ id: key, ...legacy });
   try {
-    localStorage.setItem(storageKey(cfg), JSON.stringify(model));
+    localStorage.removeItem(storageKey);
   } catch {
     // ignore
   }
+  return legacy;
+}
+
+export async function loadAdaptivePracticeModel(cfg: AdaptivePracticeConfig): Promise<AdaptivePracticeModelV1> {
+  const key = modelKey(cfg);
+  const row = await db.adaptiveModels.get(key);
+  const stored = normalizeModel(row) ?? (await takeLegacyModel(key));
+  return stored ?? emptyModel();
+}
+
+export async function storeAdaptivePracticeModel(cfg: AdaptivePracticeConfig, model: AdaptivePracticeModelV1): Promise<void> {
+  await db.adaptiveModels.put({ id: modelKey(cfg), ...model });
 }
 
 function difficultyToLevel(difficulty?: DifficultyBand, difficultyLevel?: number): number {
@@ -156,39 +158,43 @@ function applySm2Like(card: CardSchedule, quality: number, now: number): CardSch
   };
 }
 
-export function applyAttemptToAdaptiveModel(
+export async function applyAttemptToAdaptiveModel(
   cfg: AdaptivePracticeConfig,
   attempt: AttemptSignal,
-): AdaptivePracticeModelV1 {
-  const model = loadAdaptivePracticeModel(cfg);
-  const now = attempt.timestamp || Date.now();
-
-  const level = difficultyToLevel(attempt.difficulty, attempt.difficultyLevel);
-  const expected = expectedTimeMsForLevel(level);
-  const quality = signalQuality(attempt.isCorrect, attempt.timeTakenMs, expected);
-
-  for (const rawTag of attempt.tags || []) {
-    const tag = String(rawTag || '').trim();
-    if (!tag) continue;
-    const prev = model.tags[tag] || { attempts: 0, correct: 0, avgTimeMs: 0 };
-    const attempts = prev.attempts + 1;
-    const correct = prev.correct + (attempt.isCorrect ? 1 : 0);
-    const avgTimeMs = updateEma(prev.avgTimeMs, attempt.timeTakenMs, 0.25);
-    model.tags[tag] = {
-      attempts,
-      correct,
-      avgTimeMs,
-      lastAttemptAt: now,
-    };
-  }
+): Promise<AdaptivePracticeModelV1> {
+  // Answers can land back to back (or from another window); a transaction keeps each
+  // read-modify-write from overwriting another's update.
+  return db.transaction('rw', db.adaptiveModels, async () => {
+    const model = await loadAdaptivePracticeModel(cfg);
+    const now = attempt.timestamp || Date.now();
+
+    const level = difficultyToLevel(attempt.difficulty, attempt.difficultyLevel);
+    const expected = expectedTimeMsForLevel(level);
+    const quality = signalQuality(attempt.isCorrect, attempt.timeTakenMs, expected);
+
+    for (const rawTag of attempt.tags || []) {
+      const tag = String(rawTag || '').trim();
+      if (!tag) continue;
+      const prev = model.tags[tag] || { attempts: 0, correct: 0, avgTimeMs: 0 };
+      const attempts = prev.attempts + 1;
+      const correct = prev.correct + (attempt.isCorrect ? 1 : 0);
+      const avgTimeMs = updateEma(prev.avgTimeMs, attempt.timeTakenMs, 0.25);
+      model.tags[tag] = {
+        attempts,
+        correct,
+        avgTimeMs,
+        lastAttemptAt: now,
+      };
+    }
 
-  const existingCard = model.cards[attempt.questionId];
-  const card = ensureCard(now, existingCard);
-  model.cards[attempt.questionId] = applySm2Like(card, quality, now);
+    const existingCard = model.cards[attempt.questionId];
+    const card = ensureCard(now, existingCard);
+    model.cards[attempt.questionId] = applySm2Like(card, quality, now);
 
-  model.updatedAt = now;
-  storeAdaptivePracticeModel(cfg, model);
-  return model;
+    model.updatedAt = now;
+    await storeAdaptivePracticeModel(cfg, model);
+    return model;
+  });
 }
 
 export function computeSkillBreakdown(model: AdaptivePracticeModelV1): SkillBreakdownRow[] {
@@ -273,11 +279,18 @@ export function chooseNextQuestionId(params: {
   return bestId;
 }
 
-export function resetAdaptivePracticeModel(cfg: AdaptivePracticeConfig): void {
-  if (typeof localStorage === 'undefined') return;
-  try {
-    localStorage.removeItem(storageKey(cfg));
-  } catch {
-    // ignore
-  }
+export async function resetAdaptivePracticeModel(cfg: AdaptivePracticeConfig): Promise<void> {
+  await db.adaptiveModels.delete(modelKey(cfg));
+}
+
+/**
+ * The fields of a question the adaptive engine looks at.
+ */
+export function toAdaptiveCandidate(q: Question): { id: string; tags: string[]; difficulty?: DifficultyBand; difficultyLevel?: number } {
+  return {
+    id: q.id,
+    tags: q.tags || [],
+    difficulty: q.metadata?.difficulty,
+    difficultyLevel: q.metadata?.difficultyLevel,
+  };
 }
@@ -0,0 +1,157 @@
+import { Question } from './db';
+import { areMathExpressionsEquivalent } from './mathEquivalence';
+
+/**
+ * Tolerant comparison of typed answers (free-text questions and blanks).
+ *
+ * Every comparison normalizes both sides first (Unicode NFKC, Bengali and
+ * Devanagari digits, whitespace, trailing punctuation) and treats two numbers
+ * as equal when their values match, so "0.50", "0.5" and "1/2" agree. A
+ * question's `answerMatching` rules can widen this with numeric tolerances,
+ * regular-expression answers, symbolic math equivalence or a typo allowance.
+ */
+
+export type AnswerMatchingRules = NonNullable<Question['answerMatching']>;
+
+// Relative slack for comparing parsed numbers, so 0.1 + 0.2 style float noise never fails a match.
+const NUMERIC_EPSILON = 1e-9;
+
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+const TRAILING_PUNCTUATION = /[\s.,;:!?\u0964\u0965\u3002]+$/u;
+
+function mapIndicDigits(value: string): string {
+  return value.replace(/[\u09E6-\u09EF\u0966-\u096F]/g, (ch) => {
+    const code = ch.charCodeAt(0);
+    const base = code >= 0x09e6 ? 0x09e6 : 0x0966;
+    return String(code - base);
+  });
+}
+
+/**
+ * Canonical form used for comparisons. Case is folded unless `caseSensitive` is set.
+ */
+export function normalizeAnswer(value: unknown, options: { caseSensitive?: boolean } = {}): string {
+  let s = (value ?? '').toString().normalize('NFKC');
+  s = mapIndicDigits(s)
+    .replace(ZERO_WIDTH, '')
+    .replace(/[\u2212\u2012\u2013\u2014]/g, '-')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(TRAILING_PUNCTUATION, '');
+  return options.caseSensitive ? s : s.toLowerCase();
+}
+
+const DECIMAL = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+const GROUPED_DECIMAL = /^[+-]?\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+const FRACTION = /^([+-])?(?:(\d+)\s+)?(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/;
+
+/**
+ * Parses integers, decimals, scientific notation, `1,000`-style grouping,
+ * fractions (`3/4`) and mixed numbers (`1 1/2`). Returns null for anything else.
+ */
+export function parseNumericAnswer(value: string): number | null {
+  const s = normalizeAnswer(value).replace(/\s*([+-])\s*/, '$1');
+  if (!s) return null;
+  if (DECIMAL.test(s)) return Number(s);
+  if (GROUPED_DECIMAL.test(s)) return Number(s.replace(/,/g, ''));
+  const m = FRACTION.exec(s);
+  if (m) {
+    const denominator = Number(m[4]);
+    if (denominator === 0) return null;
+    const whole = m[2] ? Number(m[2]) : 0;
+    const magnitude = whole + Number(m[3]) / denominator;
+    return m[1] === '-' ? -magnitude : magnitude;
+  }
+  return null;
+}
+
+/**
+ * Edit distance between two strings, counted in code points. Stops early and
+ * returns `limit + 1` once the distance is known to exceed `limit`.
+ */
+export function levenshtein(a: string, b: string, limit = Infinity): number {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  if (Math.abs(s.length - t.length) > limit) return limit + 1;
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      if (curr[j] < rowMin) rowMin = curr[j];
+    }
+    if (rowMin > limit) return limit + 1;
+    prev = curr;
+  }
+  return prev[t.length];
+}
+
+/**
+ * Compiles a regex answer the way it is matched (whole answer, Unicode mode), or null when
+ * the pattern is invalid. Question editors validate with this so saved patterns really match.
+ */
+export function compileAnswerPattern(pattern: string, caseSensitive: boolean): RegExp | null {
+  try {
+    return new RegExp(`^(?:${pattern.trim()})$`, caseSensitive ? 'u' : 'iu');
+  } catch {
+    return null;
+  }
+}
+
+function matchesRegex(given: string, pattern: string, caseSensitive: boolean): boolean | null {
+  const re = compileAnswerPattern(pattern, caseSensitive);
+  if (!re) return null; // Not a valid pattern; fall back to a literal comparison.
+  const raw = (given ?? '').toString().normalize('NFKC').trim();
+  return re.test(raw) || re.test(normalizeAnswer(given, { caseSensitive: true }));
+}
+
+/**
+ * True when a student's answer is accepted for one stored answer under the question's rules.
+ */
+export function matchesAnswer(given: unknown, accepted: string, rules?: AnswerMatchingRules | null): boolean {
+  const caseSensitive = !!rules?.caseSensitive;
+  if (rules?.regex) {
+    const result = matchesRegex((given ?? '').toString(), accepted, caseSensitive);
+    if (result !== null) return result;
+  }
+
+  const g = normalizeAnswer(given, { caseSensitive });
+  const e = normalizeAnswer(accepted, { caseSensitive });
+  if (!e || !g) return false;
+  if (g === e) return true;
+
+  const expectedNumber = parseNumericAnswer(e);
+  if (rules?.math) {
+    const equivalent = areMathExpressionsEquivalent(g, e);
+    if (equivalent === true) return true;
+    // A plain-number answer still gets its numeric tolerance below.
+    if (equivalent === false && expectedNumber === null) return false;
+  }
+
+  if (expectedNumber !== null) {
+    const givenNumber = parseNumericAnswer(g);
+    // Numbers are never typo-matched: "15" must not pass for "16".
+    if (givenNumber === null) return false;
+    const tolerance = Math.max(
+      rules?.numeric?.absTolerance ?? 0,
+      (rules?.numeric?.relTolerance ?? 0) * Math.abs(expectedNumber),
+      NUMERIC_EPSILON * Math.max(1, Math.abs(expectedNumber)),
+    );
+    return Math.abs(givenNumber - expectedNumber) <= tolerance;
+  }
+  if (rules?.numeric) return false;
+
+  const maxTypos = Math.floor(rules?.maxTypos ?? 0);
+  if (maxTypos > 0) {
+    return levenshtein(g, e, maxTypos) <= maxTypos;
+  }
+  return false;
+}
+
+export function hasAnswerMatchingRules(rules?: AnswerMatchingRules | null): boolean {
+  return !!rules && (!!rules.numeric || !!rules.regex || !!rules.math || !!rules.caseSensitive || (rules.maxTypos ?? 0) > 0);
+}
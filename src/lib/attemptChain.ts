@@ -0,0 +1,294 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, Attempt, AttemptChainLink, IntegrityEvent, PerQuestionAttempt } from './db';
+import { hasAnswer } from './grading';
+
+/**
+ * Tamper-evident attempts. Every integrity event and every answer as it is submitted is
+ * appended to a per-attempt chain; finalizing an exam appends the graded answers and a seal
+ * over the score, and the final answers must match the submitted ones. Each link holds the
+ * SHA-256 of its record and is HMAC-signed together with the previous link's hash by the
+ * Electron main process, which keeps the device secret and each attempt's chain head, and
+ * only appends after that head (electron/attemptChain.cjs).
+ *
+ * verifyAttemptChain has the main process check the stored links against its head, and
+ * compares every record as it is now with the digest it was chained with, so edits,
+ * deletions and reordering all show up. Outside the desktop app nothing is signed and
+ * attempts report as 'unsigned'.
+ */
+
+export type ChainStatus = 'valid' | 'tampered' | 'unsigned' | 'foreign' | 'unavailable';
+
+export interface ChainVerification {
+  status: ChainStatus;
+  problems: string[];
+  linkCount: number;
+}
+
+export const CHAIN_STATUS_LABELS: Record<ChainStatus, string> = {
+  valid: 'Chain valid',
+  tampered: 'Tampered',
+  unsigned: 'Not signed',
+  foreign: 'Signed on another device',
+  unavailable: 'Desktop app needed',
+};
+
+export const CHAIN_STATUS_BADGE: Record<ChainStatus, 'secondary' | 'outline' | 'destructive'> = {
+  valid: 'secondary',
+  tampered: 'destructive',
+  unsigned: 'outline',
+  foreign: 'outline',
+  unavailable: 'outline',
+};
+
+interface ChainEntry {
+  kind: AttemptChainLink['kind'];
+  recordKey: string;
+  record: unknown;
+}
+
+// Stable JSON: object keys sorted and undefined fields dropped, so equal records hash equally.
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  const obj = value as Record<string, unknown>;
+  const fields = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined)
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`);
+  return `{${fields.join(',')}}`;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const bytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// What is covered for each record. Grading results (isCorrect, scorePercent) are left out:
+// they are derived from the answer and the module's policy.
+function eventRecord(e: IntegrityEvent) {
+  return { id: e.id, attemptId: e.attemptId, type: e.type, timestamp: e.timestamp, details: e.details };
+}
+
+function answerRecord(p: PerQuestionAttempt) {
+  return {
+    questionId: p.questionId,
+    userAnswer: p.userAnswer,
+    timestamp: p.timestamp,
+    questionStartedAt: p.questionStartedAt,
+    questionIndexInModule: p.questionIndexInModule,
+    attemptNumberForQuestion: p.attemptNumberForQuestion,
+    status: p.status,
+  };
+}
+
+// Blank answers ('' or [] depending on the question type) all count as no answer.
+function submissionRecord(questionId: string, userAnswer: unknown) {
+  return { questionId, userAnswer: hasAnswer(userAnswer) ? userAnswer : null };
+}
+
+function sealRecord(attempt: Pick<Attempt, 'score' | 'endedAt' | 'perQuestionAttempts'>, changedSinceSubmission: string[]) {
+  return {
+    score: attempt.score,
+    endedAt: attempt.endedAt,
+    questionIds: (attempt.perQuestionAttempts ?? []).map((p) => p.questionId).sort(),
+    changedSinceSubmission,
+  };
+}
+
+function linkPayload(link: Pick<AttemptChainLink, 'attemptId' | 'seq' | 'kind' | 'recordKey' | 'digest'>): string {
+  return [link.attemptId, link.seq, link.kind, link.recordKey, link.digest].join('\n');
+}
+
+async function getChainLinks(attemptId: string): Promise<AttemptChainLink[]> {
+  return db.attemptChain.where('attemptId').equals(attemptId).sortBy('seq');
+}
+
+// Questions whose final answer differs from the last one chained when it was submitted.
+async function findChangedSinceSubmission(links: AttemptChainLink[], answers: PerQuestionAttempt[]): Promise<string[]> {
+  const latestSubmission = new Map<string, AttemptChainLink>();
+  for (const link of links) if (link.kind === 'submission') latestSubmission.set(link.recordKey, link);
+  const changed: string[] = [];
+  for (const p of answers) {
+    const link = latestSubmission.get(p.questionId);
+    if (!link) continue;
+    const digest = await sha256Hex(canonicalJson(submissionRecord(p.questionId, p.userAnswer)));
+    if (digest !== link.digest) changed.push(p.questionId);
+  }
+  return changed.sort();
+}
+
+// Appends are serialized per attempt: each link needs the hash of the one before it.
+const appendQueues = new Map<string, Promise<void>>();
+
+function getChainService() {
+  return typeof window !== 'undefined' ? window.attemptChain : undefined;
+}
+
+function appendToChain(attemptId: string, entries: ChainEntry[]): Promise<void> {
+  const chain = getChainService();
+  if (!chain || !entries.length) return Promise.resolve();
+  const previous = appendQueues.get(attemptId) ?? Promise.resolve();
+  const next = previous
+    .then(async () => {
+      const existing = await getChainLinks(attemptId);
+      const last = existing[existing.length - 1];
+      const startSeq = last ? last.seq + 1 : 0;
+      // Re-submitting an unchanged answer adds nothing.
+      const latestDigest = new Map(existing.map((l) => [`${l.kind}:${l.recordKey}`, l.digest]));
+      const hashed = await Promise.all(
+        entries.map(async (entry) => ({ ...entry, digest: await sha256Hex(canonicalJson(entry.record)) }))
+      );
+      const drafts = hashed
+        .filter((entry) => entry.kind !== 'submission' || latestDigest.get(`submission:${entry.recordKey}`) !== entry.digest)
+        .map((entry, i) => ({
+          attemptId,
+          seq: startSeq + i,
+          kind: entry.kind,
+          recordKey: entry.recordKey,
+          digest: entry.digest,
+        }));
+      if (!drafts.length) return;
+      // The main process rejects drafts that don't continue its recorded head.
+      const { keyId, prevHash, hashes } = await chain.append({ attemptId, payloads: drafts.map(linkPayload) });
+      const now = Date.now();
+      await db.attemptChain.bulkAdd(
+        drafts.map((draft, i) => ({
+          ...draft,
+          id: uuidv4(),
+          prevHash: i ? hashes[i - 1] : prevHash,
+          hash: hashes[i],
+          keyId,
+          createdAt: now,
+        }))
+      );
+    })
+    .catch((error) => {
+      console.error('Failed to extend attempt chain', error);
+    });
+  appendQueues.set(attemptId, next);
+  void next.then(() => {
+    if (appendQueues.get(attemptId) === next) appendQueues.delete(attemptId);
+  });
+  return next;
+}
+
+export function chainIntegrityEvent(event: IntegrityEvent): Promise<void> {
+  return appendToChain(event.attemptId, [{ kind: 'event', recordKey: event.id, record: eventRecord(event) }]);
+}
+
+/**
+ * Chains answers as they are submitted (or left behind by navigation or a timer), so the
+ * answers finalized later can be checked against them. Unchanged answers are skipped.
+ */
+export function chainSubmittedAnswers(attemptId: string, answers: Record<string, unknown>, questionIds: string[]): Promise<void> {
+  return appendToChain(
+    attemptId,
+    questionIds.map((questionId) => ({
+      kind: 'submission' as const,
+      recordKey: questionId,
+      record: submissionRecord(questionId, answers[questionId]),
+    }))
+  );
+}
+
+/**
+ * Chains the final answers and seals the score. Call once the finalized attempt is saved.
+ * Final answers that differ from the ones chained at submission are named in the seal.
+ */
+export async function sealAttemptChain(attempt: Pick<Attempt, 'id' | 'score' | 'endedAt' | 'perQuestionAttempts'>): Promise<void> {
+  if (!getChainService()) return;
+  await appendQueues.get(attempt.id);
+  const answers = attempt.perQuestionAttempts ?? [];
+  const changed = await findChangedSinceSubmission(await getChainLinks(attempt.id), answers);
+  if (changed.length) console.warn('Sealing answers that changed since they were submitted:', changed);
+  return appendToChain(attempt.id, [
+    ...answers.map((p) => ({ kind: 'answer' as const, recordKey: p.questionId, record: answerRecord(p) })),
+    { kind: 'seal', recordKey: 'seal', record: sealRecord(attempt, changed) },
+  ]);
+}
+
+export async function verifyAttemptChain(attempt: Attempt): Promise<ChainVerification> {
+  const links = await getChainLinks(attempt.id);
+  const chain = getChainService();
+  if (!chain) return { status: links.length ? 'unavailable' : 'unsigned', problems: [], linkCount: links.length };
+
+  const problems: string[] = [];
+  const { keyId, verdict, brokenAt, recordedLinks } = await chain.verify({
+    attemptId: attempt.id,
+    links: links.map((l) => ({ payload: linkPayload(l), hash: l.hash })),
+  });
+
+  // Exams taken in the desktop app are always chained, so a submitted one without links had them deleted.
+  if (!links.length) {
+    if (verdict !== 'unknown') problems.push(`All ${recordedLinks} chain links were deleted`);
+    else if (attempt.type === 'exam' && attempt.completed) problems.push('The submitted exam has no chain links');
+    return { status: problems.length ? 'tampered' : 'unsigned', problems, linkCount: 0 };
+  }
+
+  // 1. The links themselves: one signing key, contiguous and linked, and (when signed here)
+  // matching the signatures and head the main process recorded.
+  const keyIds = new Set(links.map((l) => l.keyId));
+  const signedHere = keyIds.size === 1 && keyIds.has(keyId);
+  if (keyIds.size !== 1 || !links[0].keyId) problems.push('Links are missing or mix signing keys');
+  else if (!signedHere && verdict !== 'unknown') problems.push("This device signed the chain, but its links name another device's key");
+  const unlinked = links.findIndex((l, i) => l.seq !== i || l.prevHash !== (i ? links[i - 1].hash : ''));
+  if (unlinked >= 0) problems.push(`Chain is broken at link ${unlinked + 1} of ${links.length}`);
+  if (signedHere) {
+    if (verdict === 'broken') problems.push(`Link ${brokenAt + 1} of ${links.length} no longer matches its signature`);
+    else if (verdict === 'mismatch') problems.push(`The chain has ${links.length} links but ${recordedLinks} were signed`);
+    else if (verdict === 'unknown') problems.push('This device has no record of signing this chain');
+  }
+
+  // 2. The records as they are now against the digests they were chained with.
+  const tableEvents = await db.integrityEvents.where('attemptId').equals(attempt.id).toArray();
+  const eventsById = new Map(tableEvents.map((e) => [e.id, e]));
+  const copiesById = new Map((attempt.integrityEvents ?? []).map((e) => [e.id, e]));
+  const answersById = new Map((attempt.perQuestionAttempts ?? []).map((p) => [p.questionId, p]));
+  const latestAnswerLink = new Map<string, AttemptChainLink>();
+  for (const link of links) if (link.kind === 'answer') latestAnswerLink.set(link.recordKey, link);
+
+  const digestOf = (record: unknown) => sha256Hex(canonicalJson(record));
+  const changedSinceSubmission = await findChangedSinceSubmission(links, attempt.perQuestionAttempts ?? []);
+  for (const questionId of changedSinceSubmission) {
+    problems.push(`Answer to question ${questionId} differs from the one submitted during the exam`);
+  }
+  let sealed = false;
+  for (const link of links) {
+    if (link.kind === 'event') {
+      const event = eventsById.get(link.recordKey);
+      const copy = copiesById.get(link.recordKey);
+      if (!event && !copy) {
+        problems.push(`Integrity event ${link.recordKey} was deleted`);
+        continue;
+      }
+      for (const e of [event, copy]) {
+        if (e && (await digestOf(eventRecord(e))) !== link.digest) {
+          problems.push(`Integrity event "${e.type}" at ${new Date(e.timestamp).toLocaleTimeString()} was changed`);
+          break;
+        }
+      }
+    } else if (link.kind === 'answer') {
+      if (latestAnswerLink.get(link.recordKey) !== link) continue; // superseded by a later submission
+      const answer = answersById.get(link.recordKey);
+      if (!answer) problems.push(`Answer to question ${link.recordKey} was deleted`);
+      else if ((await digestOf(answerRecord(answer))) !== link.digest) problems.push(`Answer to question ${link.recordKey} was changed`);
+    } else if (link.kind === 'seal') {
+      sealed = true;
+      if ((await digestOf(sealRecord(attempt, changedSinceSubmission))) !== link.digest) {
+        problems.push('Score or end time was changed after the exam was submitted');
+      }
+    }
+  }
+
+  // 3. Records that were never chained.
+  const chainedEvents = new Set(links.filter((l) => l.kind === 'event').map((l) => l.recordKey));
+  const unchainedEvents = Array.from(new Set([...eventsById.keys(), ...copiesById.keys()])).filter((id) => !chainedEvents.has(id));
+  if (unchainedEvents.length) problems.push(`${unchainedEvents.length} integrity event(s) are not in the chain`);
+  const unchainedAnswers = (attempt.perQuestionAttempts ?? []).filter((p) => !latestAnswerLink.has(p.questionId));
+  if (unchainedAnswers.length) problems.push(`${unchainedAnswers.length} answer(s) are not in the chain`);
+  if (attempt.type === 'exam' && attempt.completed && !sealed) problems.push('The submitted exam was never sealed');
+
+  // Another install's signatures can't be checked here, but its records still have to match.
+  if (problems.length) return { status: 'tampered', problems, linkCount: links.length };
+  return { status: signedHere ? 'valid' : 'foreign', problems, linkCount: links.length };
+}
@@ -0,0 +1,251 @@
+import type { IndexableType, Table } from 'dexie';
+import { db } from './db';
+import { base64ToBytes, upgradeLegacyUserRecord } from './credentials';
+import { encryptBackup } from './backupCrypto';
+import {
+  BACKUP_FORMAT,
+  BACKUP_SCHEMA_VERSION,
+  BackupData,
+  BackupKind,
+  parseBackup,
+  restoreTables,
+  serializeBackup,
+} from './backupFormat';
+
+/**
+ * Export and import of the whole database, driven by ExamDatabase's table list: a table added
+ * to the schema is backed up without touching this file. Rows that hold files or blobs pass
+ * through a codec so the backup stays plain JSON (see backupFormat.ts for the file layout).
+ */
+
+// Login sessions are bearer tokens for this device; restoring them elsewhere would be a hole.
+const EXCLUDED_TABLES = new Set(['sessions']);
+
+const DEFAULT_PAGE_SIZE = 500;
+// Renderer → main writes are batched to about this many characters.
+const WRITE_BATCH_CHARS = 1 << 20;
+// Encrypting holds several copies of the backup in memory at once (text, plaintext bytes,
+// ciphertext, base64), so larger backups are refused rather than risking a crash.
+export const MAX_ENCRYPTED_BACKUP_CHARS = 128 * 1024 * 1024;
+
+export class BackupTooLargeError extends Error {
+  constructor() {
+    super(
+      `This backup is over ${MAX_ENCRYPTED_BACKUP_CHARS / (1024 * 1024)} MB, too large to encrypt. Export it without a passphrase, or export questions only.`
+    );
+    this.name = 'BackupTooLargeError';
+  }
+}
+
+export function isBackupTooLargeError(err: unknown): err is BackupTooLargeError {
+  return !!err && typeof err === 'object' && (err as { name?: unknown }).name === 'BackupTooLargeError';
+}
+
+type BackupRow = Record<string, unknown>;
+
+interface RowCodec {
+  pageSize?: number;
+  encode?: (row: BackupRow) => Promise<BackupRow>;
+  // Runs before the import transaction: it may call the desktop bridge or hash passwords.
+  decode?: (row: BackupRow) => Promise<BackupRow>;
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error('Failed to read asset blob'));
+    reader.onload = () => {
+      const res = reader.result;
+      if (typeof res !== 'string') {
+        reject(new Error('Unexpected FileReader result'));
+        return;
+      }
+      const commaIdx = res.indexOf(',');
+      resolve(commaIdx >= 0 ? res.slice(commaIdx + 1) : res);
+    };
+    reader.readAsDataURL(blob);
+  });
+}
+
+const ROW_CODECS: Record<string, RowCodec> = {
+  songs: {
+    pageSize: 5,
+    // Songs stored as local files carry their audio bytes so the backup restores offline.
+    encode: async (song) => {
+      const { audioFilePath, audioFileUrl } = song;
+      if (window.songs?.readAudioFile && typeof audioFilePath === 'string' && audioFilePath && typeof audioFileUrl === 'string' && audioFileUrl.startsWith('file:')) {
+        try {
+          const res = await window.songs.readAudioFile({ filePath: audioFilePath });
+          return { ...song, audioDataBase64: res.dataBase64 };
+        } catch {
+          return song;
+        }
+      }
+      if (typeof audioFileUrl === 'string' && audioFileUrl.startsWith('data:')) {
+        return { ...song, audioDataUrl: audioFileUrl };
+      }
+      return song;
+    },
+    // Audio bytes become a real file in the desktop app, a data URL in the browser.
+    decode: async (row) => {
+      const { audioDataBase64, audioDataUrl, ...song } = row ?? {};
+      const updatedAt = typeof song.updatedAt === 'number' ? song.updatedAt : Date.now();
+      if (typeof audioDataBase64 === 'string' && audioDataBase64.length > 0) {
+        if (window.songs?.saveAudioFile) {
+          const fileName = typeof song.title === 'string' && song.title.trim() ? `${song.title}.audio` : 'song.audio';
+          try {
+            const saved = await window.songs.saveAudioFile({ fileName, dataBase64: audioDataBase64 });
+            return { ...song, audioFilePath: saved.filePath, audioFileUrl: saved.fileUrl, updatedAt };
+          } catch {
+            // fall through to a data URL
+          }
+        }
+        return { ...song, audioFilePath: '', audioFileUrl: `data:audio/*;base64,${audioDataBase64}`, updatedAt };
+      }
+      if (typeof audioDataUrl === 'string' && audioDataUrl.startsWith('data:')) {
+        return { ...song, audioFilePath: '', audioFileUrl: audioDataUrl, updatedAt };
+      }
+      return song;
+    },
+  },
+  binaryAssets: {
+    pageSize: 5,
+    encode: async (asset) => {
+      try {
+        return { ...asset, dataBase64: await blobToBase64(asset.data as Blob), data: undefined };
+      } catch {
+        return { ...asset, data: undefined };
+      }
+    },
+    decode: async (row) => {
+      const { dataBase64, ...asset } = row ?? {};
+      if (typeof dataBase64 !== 'string') return asset;
+      const type = typeof asset.mimeType === 'string' ? asset.mimeType : '';
+      return { ...asset, data: new Blob([base64ToBytes(dataBase64)], { type }) };
+    },
+  },
+  // Older backups carry clear-text passwords; they are hashed on the way in.
+  users: { decode: (row) => upgradeLegacyUserRecord(row as Parameters<typeof upgradeLegacyUserRecord>[0]) },
+};
+
+export function getBackupTables(kind: BackupKind = 'full'): Table[] {
+  if (kind === 'questions_only') return [db.questions];
+  return db.tables.filter((t) => !EXCLUDED_TABLES.has(t.name));
+}
+
+// Pages in primary-key order; keyset paging so each page is one indexed range read.
+async function* readPages(table: Table): AsyncGenerator<unknown[]> {
+  const codec = ROW_CODECS[table.name] ?? {};
+  const pageSize = codec.pageSize ?? DEFAULT_PAGE_SIZE;
+  let lastKey: IndexableType | undefined;
+  for (;;) {
+    const range = lastKey === undefined ? table.orderBy(':id') : table.where(':id').above(lastKey);
+    const keys = await range.limit(pageSize).primaryKeys();
+    if (!keys.length) return;
+    const rows = (await table.bulkGet(keys)).filter((row): row is BackupRow => row !== undefined);
+    yield codec.encode ? await Promise.all(rows.map(codec.encode)) : rows;
+    lastKey = keys[keys.length - 1];
+  }
+}
+
+/** The backup as a stream of JSON text chunks. */
+export function streamBackup(kind: BackupKind = 'full'): AsyncGenerator<string> {
+  return serializeBackup(
+    {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      kind,
+      exportedAt: new Date().toISOString(),
+      dbVersion: db.verno,
+    },
+    getBackupTables(kind).map((table) => ({ name: table.name, pages: () => readPages(table) }))
+  );
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Saves a backup stream. In the desktop app chunks go straight to the chosen file; in the
+ * browser they are collected into a Blob. Encryption needs the whole plaintext, so an
+ * encrypted backup is assembled in memory first, up to MAX_ENCRYPTED_BACKUP_CHARS.
+ */
+export async function saveBackupFile(
+  fileName: string,
+  chunks: AsyncIterable<string>,
+  passphrase?: string
+): Promise<{ canceled: boolean }> {
+  let source = chunks;
+  if (passphrase) {
+    const parts: string[] = [];
+    let size = 0;
+    for await (const chunk of chunks) {
+      size += chunk.length;
+      if (size > MAX_ENCRYPTED_BACKUP_CHARS) throw new BackupTooLargeError();
+      parts.push(chunk);
+    }
+    const plain = new Uint8Array(await new Blob(parts).arrayBuffer());
+    parts.length = 0;
+    const container = await encryptBackup(plain, passphrase, BACKUP_SCHEMA_VERSION);
+    source = (async function* () {
+      yield JSON.stringify(container, null, 2);
+    })();
+  }
+
+  const bridge = window.data;
+  if (!bridge?.openExportFile) {
+    const parts: string[] = [];
+    for await (const chunk of source) parts.push(chunk);
+    downloadBlob(new Blob(parts, { type: 'application/json' }), fileName);
+    return { canceled: false };
+  }
+
+  const opened = await bridge.openExportFile({ defaultFileName: fileName });
+  if (opened.canceled || !opened.token) return { canceled: true };
+  const { token } = opened;
+  try {
+    let batch = '';
+    for await (const chunk of source) {
+      batch += chunk;
+      if (batch.length >= WRITE_BATCH_CHARS) {
+        await bridge.appendExportFile({ token, chunk: batch });
+        batch = '';
+      }
+    }
+    if (batch) await bridge.appendExportFile({ token, chunk: batch });
+    await bridge.closeExportFile({ token });
+  } catch (error) {
+    await bridge.closeExportFile({ token, abort: true }).catch(() => undefined);
+    throw error;
+  }
+  return { canceled: false };
+}
+
+/** Parses backup JSON text (any supported schema version) into the current format. */
+export function readBackup(text: string): BackupData {
+  return parseBackup(JSON.parse(text));
+}
+
+/**
+ * Merges a backup into the database: rows are upserted by ID, nothing is deleted.
+ * `questions` replaces the file's questions, e.g. after duplicates were resolved.
+ */
+export async function importBackup(data: BackupData, options: { questions?: unknown[] } = {}) {
+  const tables: Record<string, unknown[]> = { ...data.tables };
+  if (options.questions) tables.questions = options.questions;
+  for (const [name, rows] of Object.entries(tables)) {
+    const decode = ROW_CODECS[name]?.decode;
+    if (decode) tables[name] = await Promise.all((rows as BackupRow[]).map(decode));
+  }
+  const targets = db.tables.filter((t) => !EXCLUDED_TABLES.has(t.name) && tables[t.name]?.length);
+  if (!targets.length) return { imported: {}, skipped: Object.keys(tables).filter((n) => tables[n].length) };
+  return db.transaction('rw', targets, () =>
+    restoreTables({ ...data, tables }, targets.map((t) => ({ name: t.name, bulkPut: (rows: unknown[]) => t.bulkPut(rows) })))
+  );
+}
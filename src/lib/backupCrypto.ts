@@ -0,0 +1,167 @@
+import { base64ToBytes, bytesToBase64 } from './credentials';
+
+/**
+ * Passphrase-encrypted backup container.
+ *
+ * The backup JSON is encrypted with AES-256-GCM under a key derived from the passphrase with
+ * PBKDF2-SHA256. The container stays a JSON file: a clear-text header (format version, the
+ * backup's schema version, KDF and cipher parameters) and the base64 ciphertext, whose last
+ * 16 bytes are the GCM integrity tag. The header is bound to the ciphertext as additional
+ * authenticated data, so editing either one makes decryption fail.
+ *
+ * One PBKDF2 run yields a 256-bit master secret; HKDF-SHA256 splits it into the AES key and a
+ * key check value stored in the header, which lets a wrong passphrase be told apart from a
+ * damaged file. Checking a guess against keyCheck costs an attacker the same PBKDF2 run as
+ * deriving the key, and keyCheck reveals nothing about the key.
+ */
+
+export const ENCRYPTED_BACKUP_FORMAT = 'limit-encrypted-backup';
+export const ENCRYPTED_BACKUP_VERSION = 1;
+export const BACKUP_KDF_ITERATIONS = 310_000;
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BITS = 128;
+// Files may raise the count in future versions, but not this far: a damaged value would
+// otherwise keep PBKDF2 busy long before any error could be shown.
+const MAX_BACKUP_KDF_ITERATIONS = BACKUP_KDF_ITERATIONS * 10;
+
+export interface EncryptedBackupHeader {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  createdAt: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string; keyCheck: string };
+  cipher: { name: 'AES-GCM'; iv: string; tagLength: number };
+}
+
+export interface EncryptedBackup extends EncryptedBackupHeader {
+  ciphertext: string; // base64, GCM tag appended
+}
+
+export type BackupDecryptionErrorReason = 'wrong_passphrase' | 'corrupted' | 'unsupported';
+
+const ERROR_MESSAGES: Record<BackupDecryptionErrorReason, string> = {
+  wrong_passphrase: 'Wrong passphrase for this backup.',
+  corrupted: 'The backup file is corrupted or has been modified.',
+  unsupported: 'This encrypted backup was made by a newer version of the app.',
+};
+
+export class BackupDecryptionError extends Error {
+  reason: BackupDecryptionErrorReason;
+  constructor(reason: BackupDecryptionErrorReason) {
+    super(ERROR_MESSAGES[reason]);
+    this.name = 'BackupDecryptionError';
+    this.reason = reason;
+  }
+}
+
+export function isBackupDecryptionError(err: unknown): err is BackupDecryptionError {
+  return !!err && typeof err === 'object' && (err as { name?: unknown }).name === 'BackupDecryptionError';
+}
+
+/** True when parsed JSON looks like an encrypted container rather than a plain backup. */
+export function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return !!data && typeof data === 'object' && (data as { format?: unknown }).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+// Additional authenticated data: the header fields in a fixed order.
+function headerAad(h: EncryptedBackupHeader) {
+  const fixed = [
+    h.format,
+    h.version,
+    h.schemaVersion,
+    h.createdAt,
+    h.kdf.name,
+    h.kdf.hash,
+    h.kdf.iterations,
+    h.kdf.salt,
+    h.kdf.keyCheck,
+    h.cipher.name,
+    h.cipher.iv,
+    h.cipher.tagLength,
+  ];
+  return new TextEncoder().encode(JSON.stringify(fixed));
+}
+
+const HKDF_KEY_INFO = 'limit-encrypted-backup aes-gcm key';
+const HKDF_CHECK_INFO = 'limit-encrypted-backup key check';
+
+async function deriveKeys(passphrase: string, salt: BufferSource, iterations: number) {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const master = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  const hkdf = await crypto.subtle.importKey('raw', master, 'HKDF', false, ['deriveBits', 'deriveKey']);
+  const expand = (info: string) => ({ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(info) });
+  const key = await crypto.subtle.deriveKey(expand(HKDF_KEY_INFO), hkdf, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  const keyCheck = new Uint8Array(await crypto.subtle.deriveBits(expand(HKDF_CHECK_INFO), hkdf, 256));
+  return { key, keyCheck: bytesToBase64(keyCheck) };
+}
+
+export async function encryptBackup(data: string | BufferSource, passphrase: string, schemaVersion: number): Promise<EncryptedBackup> {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const { key, keyCheck } = await deriveKeys(passphrase, salt, BACKUP_KDF_ITERATIONS);
+  const header: EncryptedBackupHeader = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    schemaVersion,
+    createdAt: new Date().toISOString(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: BACKUP_KDF_ITERATIONS, salt: bytesToBase64(salt), keyCheck },
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv), tagLength: TAG_BITS },
+  };
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, tagLength: TAG_BITS, additionalData: headerAad(header) },
+    key,
+    typeof data === 'string' ? new TextEncoder().encode(data) : data
+  );
+  return { ...header, ciphertext: bytesToBase64(new Uint8Array(ciphertext)) };
+}
+
+/** Decrypts a container back to the backup JSON text. Throws BackupDecryptionError. */
+export async function decryptBackup(container: EncryptedBackup, passphrase: string): Promise<string> {
+  if (typeof container.version !== 'number' || container.version > ENCRYPTED_BACKUP_VERSION) {
+    throw new BackupDecryptionError('unsupported');
+  }
+  const { kdf, cipher } = container;
+  if (kdf?.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || cipher?.name !== 'AES-GCM') {
+    throw new BackupDecryptionError('unsupported');
+  }
+
+  let salt: ReturnType<typeof base64ToBytes>;
+  let iv: ReturnType<typeof base64ToBytes>;
+  let data: ReturnType<typeof base64ToBytes>;
+  try {
+    salt = base64ToBytes(kdf.salt);
+    iv = base64ToBytes(cipher.iv);
+    data = base64ToBytes(container.ciphertext);
+  } catch {
+    throw new BackupDecryptionError('corrupted');
+  }
+  if (
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations < 1 ||
+    kdf.iterations > MAX_BACKUP_KDF_ITERATIONS ||
+    iv.length !== IV_BYTES ||
+    data.length * 8 < cipher.tagLength
+  ) {
+    throw new BackupDecryptionError('corrupted');
+  }
+
+  const { key, keyCheck } = await deriveKeys(passphrase, salt, kdf.iterations);
+  if (keyCheck !== kdf.keyCheck) throw new BackupDecryptionError('wrong_passphrase');
+
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, tagLength: cipher.tagLength, additionalData: headerAad(container) },
+      key,
+      data
+    );
+    return new TextDecoder().decode(plain);
+  } catch {
+    throw new BackupDecryptionError('corrupted');
+  }
+}
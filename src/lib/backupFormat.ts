@@ -0,0 +1,133 @@
+/**
+ * Backup file format, independent of Dexie and the DOM so it can be checked in Node
+ * (scripts/check-backup.cjs). lib/backup.ts binds it to the database.
+ *
+ * A backup is one JSON object: a header plus `tables`, keyed by Dexie table name. It is
+ * written as a stream of string chunks, a page of rows at a time, so an export with audio
+ * and image assets never has to exist as a single string. Files from older versions are
+ * brought up to date by BACKUP_MIGRATIONS before they are restored.
+ */
+
+export const BACKUP_FORMAT = 'limit-backup';
+
+// v26: rows grouped under `tables` and every table included. Earlier files kept a
+// hand-picked set of tables as top-level arrays (v25 full backups, v22 questions-only).
+export const BACKUP_SCHEMA_VERSION = 26;
+
+export type BackupKind = 'full' | 'questions_only';
+
+export interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  kind: BackupKind;
+  exportedAt: string;
+  dbVersion: number; // ExamDatabase version the rows were read from
+}
+
+export interface BackupData extends BackupHeader {
+  tables: Record<string, unknown[]>;
+}
+
+export interface BackupTableSource {
+  name: string;
+  pages: () => AsyncIterable<unknown[]>;
+}
+
+export interface BackupTableTarget {
+  name: string;
+  bulkPut: (rows: unknown[]) => Promise<unknown>;
+}
+
+interface BackupMigration {
+  to: number;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// Applied in order to every file whose schemaVersion is below `to`.
+export const BACKUP_MIGRATIONS: BackupMigration[] = [
+  {
+    to: 26,
+    migrate: (data) => {
+      const tables: Record<string, unknown[]> = {};
+      for (const [key, value] of Object.entries(data)) {
+        if (Array.isArray(value)) tables[key] = value;
+      }
+      return {
+        format: BACKUP_FORMAT,
+        kind: data.kind === 'questions_only' ? 'questions_only' : 'full',
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        dbVersion: 0,
+        tables,
+      };
+    },
+  },
+];
+
+/** Streams a backup as JSON text, one chunk per page of rows. */
+export async function* serializeBackup(header: BackupHeader, sources: BackupTableSource[]): AsyncGenerator<string> {
+  const head = JSON.stringify(header);
+  yield `${head.slice(0, -1)},"tables":{`;
+  for (let t = 0; t < sources.length; t++) {
+    yield `${t ? ',' : ''}\n${JSON.stringify(sources[t].name)}:[`;
+    let first = true;
+    for await (const page of sources[t].pages()) {
+      if (!page.length) continue;
+      yield `${first ? '' : ','}\n${page.map((row) => JSON.stringify(row)).join(',\n')}`;
+      first = false;
+    }
+    yield ']';
+  }
+  yield '\n}}\n';
+}
+
+/** Validates a parsed backup file and migrates it to BACKUP_SCHEMA_VERSION. */
+export function parseBackup(raw: unknown): BackupData {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Invalid backup file format');
+  }
+  let data = raw as Record<string, unknown>;
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (fromVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`This backup is from a newer version of the app (schema ${fromVersion})`);
+  }
+  if (fromVersion >= 26 && data.format !== BACKUP_FORMAT) {
+    throw new Error('Invalid backup file format');
+  }
+  for (const step of BACKUP_MIGRATIONS) {
+    if (fromVersion < step.to) data = { ...step.migrate(data), schemaVersion: step.to };
+  }
+  const tables = data.tables as Record<string, unknown[]> | undefined;
+  if (!tables || typeof tables !== 'object' || Object.values(tables).some((rows) => !Array.isArray(rows))) {
+    throw new Error('Invalid backup file format');
+  }
+  if (!Object.values(tables).some((rows) => rows.length > 0)) {
+    throw new Error('The backup file contains no data');
+  }
+  return data as unknown as BackupData;
+}
+
+/**
+ * Writes every table of the backup that has a target, in pages. Tables the file has but this
+ * database doesn't are skipped and reported. Call inside a transaction over the targets.
+ */
+export async function restoreTables(
+  data: BackupData,
+  targets: BackupTableTarget[],
+  pageSize = 500
+): Promise<{ imported: Record<string, number>; skipped: string[] }> {
+  const byName = new Map(targets.map((t) => [t.name, t]));
+  const imported: Record<string, number> = {};
+  const skipped: string[] = [];
+  for (const [name, rows] of Object.entries(data.tables)) {
+    const target = byName.get(name);
+    if (!target) {
+      if (rows.length) skipped.push(name);
+      continue;
+    }
+    for (let i = 0; i < rows.length; i += pageSize) {
+      await target.bulkPut(rows.slice(i, i + pageSize));
+    }
+    imported[name] = rows.length;
+  }
+  return { imported, skipped };
+}
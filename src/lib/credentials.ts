@@ -0,0 +1,101 @@
+/**
+ * Password hashing for local user accounts.
+ *
+ * Passwords are never stored in clear text: each account keeps a PBKDF2-SHA256
+ * digest together with its random salt and iteration count, so the work factor
+ * can be raised later without invalidating existing hashes.
+ */
+
+export type UserRole = 'admin' | 'student';
+
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  hash: string; // base64
+}
+
+export const PASSWORD_HASH_ITERATIONS = 210_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+// The first administrator picks their own password on first run; nothing is shipped.
+export const MIN_ADMIN_PASSWORD_LENGTH = 8;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+export function base64ToBytes(value: string) {
+  const binary = atob(value);
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i);
+  return out;
+}
+
+async function deriveBits(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', enc.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return new Uint8Array(bits);
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export async function hashPassword(password: string, iterations = PASSWORD_HASH_ITERATIONS): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveBits(password, salt, iterations);
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations,
+    salt: bytesToBase64(salt),
+    hash: bytesToBase64(hash),
+  };
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash | undefined | null): Promise<boolean> {
+  if (!stored || stored.algorithm !== 'PBKDF2-SHA256') return false;
+  try {
+    const salt = base64ToBytes(stored.salt);
+    const expected = base64ToBytes(stored.hash);
+    const actual = await deriveBits(password, salt, stored.iterations);
+    return constantTimeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True when a stored hash was produced with a weaker work factor than the
+ * current default and should be re-derived after the next successful login.
+ */
+export function needsRehash(stored: PasswordHash | undefined | null): boolean {
+  return !stored || stored.iterations < PASSWORD_HASH_ITERATIONS;
+}
+
+/**
+ * Normalizes a user row coming from an older backup: clear-text passwords are
+ * hashed and dropped, and rows without a role become students.
+ */
+export async function upgradeLegacyUserRecord<T extends { password?: string; passwordHash?: PasswordHash; role?: UserRole }>(
+  row: T,
+): Promise<Omit<T, 'password'> & { role: UserRole; passwordHash?: PasswordHash }> {
+  const { password, ...rest } = row;
+  const passwordHash = row.passwordHash ?? (typeof password === 'string' ? await hashPassword(password) : undefined);
+  return {
+    ...rest,
+    role: row.role === 'admin' ? 'admin' : 'student',
+    passwordHash,
+  };
+}
@@ -1,5 +1,13 @@
 import Dexie, { Table } from 'dexie';
+import { v4 as uuidv4 } from 'uuid';
 import { DailyStats } from './statsTypes';
+import {
+  hashPassword,
+  MIN_ADMIN_PASSWORD_LENGTH,
+  PasswordHash,
+  upgradeLegacyUserRecord,
+  UserRole,
+} from './credentials';
 
 // Question types
 export interface GlossaryEntry {
@@ -41,8 +49,21 @@ export interface Question {
       rightText: string;
     }[];
   };
+  // How typed answers (text questions and blanks) are compared; see lib/answerMatching.ts.
+  answerMatching?: {
+    numeric?: {
+      absTolerance?: number;
+      relTolerance?: number; // fraction of the expected value, e.g. 0.01 for 1%
+    };
+    regex?: boolean; // accepted answers are regular expressions matched against the whole answer
+    math?: boolean; // accept algebraically equivalent expressions (2x+1 = 1+2*x); see lib/mathEquivalence.ts
+    maxTypos?: number; // Levenshtein edits tolerated for non-numeric answers
+    caseSensitive?: boolean;
+  };
   tags: string[];
   modules: string[]; // module IDs
+  // Time budget for this question in exams with per-question timers; overrides the module's perQuestionSeconds.
+  timeLimitSeconds?: number;
   explanation?: string;
   glossary?: GlossaryEntry[];
   metadata: {
@@ -80,20 +101,60 @@ export interface GlobalGlossaryEntry {
 }
 
 // Module types
+// One part of a sectioned exam. Questions come from questionIds plus an optional random draw from the bank.
+export interface ModuleSection {
+  id: string;
+  title: string;
+  questionIds: string[];
+  pool?: {
+    count: number;
+    tags?: string[]; // any of these tags; empty means any tag
+    difficulties?: Array<'easy' | 'medium' | 'hard'>; // empty means any difficulty
+  };
+  timeLimitMinutes?: number;
+  randomizeQuestions?: boolean;
+  allowBackNavigation?: boolean; // within the section only; closed sections never reopen
+}
+
+// The sections an attempt actually got, fixed at start so later module edits don't move questions around.
+export interface AttemptSection {
+  sectionId: string;
+  title: string;
+  questionIds: string[];
+  timeLimitMinutes?: number;
+  allowBackNavigation?: boolean;
+  startedAt?: number;
+  closedAt?: number;
+}
+
 export interface Module {
   id: string;
   title: string;
   description?: string;
   type: 'exam' | 'practice';
   questionIds: string[];
+  // Exams only. When set, questionIds is the union of the sections' fixed questions.
+  sections?: ModuleSection[];
   tags: string[];
   scheduledStartUtc?: number;
   scheduledEndUtc?: number;
   settings: {
     randomizeQuestions: boolean;
+    // Exams: build each student's paper from the bank. Drawn in addition to questionIds,
+    // seeded per student so a student always gets the same paper for this module.
+    questionPool?: {
+      tags?: string[]; // any of these tags; empty means any tag
+      counts: { easy: number; medium: number; hard: number };
+    };
+    // Exams: shuffle MCQ options per student (seeded like questionPool).
+    shuffleOptions?: boolean;
+    // Exams in the desktop app: screenshot policy; see lib/proctoring.ts for defaults.
+    proctoring?: ProctoringPolicy;
     allowReview: boolean;
     timerType: 'perQuestion' | 'perModule' | 'none';
     timeLimitMinutes?: number;
+    // Uniform budget per question when timerType is 'perQuestion'; timeLimitMinutes still bounds the whole exam.
+    perQuestionSeconds?: number;
     maxVisibilityLosses?: number;
     autoSubmitOnFocusLoss?: boolean;
     allowBackNavigation?: boolean;
@@ -109,6 +170,18 @@ export interface Module {
       maxQuestionsPerDay: number;
     };
     glossaryHints?: boolean;
+    // 'adaptive' picks each practice question from the learner's adaptive model instead of a fixed order.
+    practiceMode?: 'sequential' | 'adaptive';
+    // How answers are turned into scores; see lib/grading.ts for defaults.
+    grading?: {
+      partialCredit: 'all_or_nothing' | 'proportional';
+      mcqPartialCredit?: boolean; // MCQs stay all-or-nothing unless a module opts in
+      negativeMarking?: {
+        enabled: boolean;
+        penaltyPercent: number; // deducted per wrong MCQ option picked, as % of the question's points
+      };
+      questionPoints?: Record<string, number>; // question ID -> point weight (default 1)
+    };
     // Optional recurring availability window: restrict when a module
     // can be accessed during the week.
     allowedDaysOfWeek?: number[]; // 0 (Sunday) - 6 (Saturday), local time
@@ -126,6 +199,20 @@ export interface Module {
   assignedUserIds?: string[];
 }
 
+export interface ProctoringPolicy {
+  enabled: boolean;
+  // Each screenshot is taken a random time within [min, max] seconds after the previous one.
+  minIntervalSeconds: number;
+  maxIntervalSeconds: number;
+  // Also take one when an integrity event is logged (focus lost, tab change, ...).
+  captureOnEvents: boolean;
+  maxScreenshotsPerAttempt?: number;
+  // Screenshots of older attempts are deleted when an exam starts.
+  retentionDays?: number;
+  // Cap on the whole proctoring folder, in MB.
+  maxDiskMb?: number;
+}
+
 // Attempt types
 export interface PerQuestionAttempt {
   questionId: string;
@@ -168,6 +255,11 @@ export interface Attempt {
   visibilityLosses?: number;
   currentQuestionTimerState?: TimerState;
   questionOrder?: string[];
+  // Sectioned exams: questionOrder is these sections' questionIds concatenated.
+  sectionPlan?: AttemptSection[];
+  // Seed the paper was generated from, and the MCQ option order (question ID -> option IDs) this student saw.
+  paperSeed?: string;
+  optionOrder?: Record<string, string[]>;
   perQuestionAttempts: PerQuestionAttempt[];
   integrityEvents: IntegrityEvent[];
   timeRemainingMs?: number;
@@ -183,6 +275,19 @@ export interface Attempt {
   // Optional scheduling metadata for exams: planned start and end times
   scheduledStartUtc?: number;
   scheduledEndUtc?: number;
+  // Admin decision after reviewing the integrity timeline.
+  integrityReview?: IntegrityReview;
+  // Evidence bundles exported for this attempt; the manifest hash identifies each zip.
+  evidenceExports?: Array<{ exportedAt: number; manifestSha256: string; filePath?: string }>;
+}
+
+export type IntegrityVerdict = 'cleared' | 'flagged' | 'voided';
+
+export interface IntegrityReview {
+  verdict: IntegrityVerdict;
+  note?: string;
+  reviewedBy?: string;
+  reviewedAt: number;
 }
 
 // Integrity event types
@@ -198,7 +303,8 @@ export type IntegrityEventType =
   | 'auto_submit'
   | 'max_visibility_loss_exceeded'
   | 'leader_switch'
-  | 'screenshot_captured';
+  | 'screenshot_captured'
+  | 'window_close_blocked';
 
 export interface IntegrityEvent {
   id: string;
@@ -208,6 +314,22 @@ export interface IntegrityEvent {
   details?: string;
 }
 
+// One link of an attempt's tamper-evident hash chain (see lib/attemptChain.ts).
+// hash = HMAC(device secret, prevHash + link fields incl. digest), computed in the Electron main process.
+export interface AttemptChainLink {
+  id: string;
+  attemptId: string;
+  seq: number; // 0-based, contiguous per attempt
+  // 'submission': the answer as it was submitted during the exam; 'answer': the final graded record.
+  kind: 'event' | 'submission' | 'answer' | 'seal';
+  recordKey: string; // IntegrityEvent.id, the question id, or 'seal'
+  digest: string; // SHA-256 of the record's canonical JSON when it was chained
+  prevHash: string; // '' for the first link
+  hash: string;
+  keyId: string; // identifies the device secret that signed it
+  createdAt: number;
+}
+
 // Tag types
 export interface Tag {
   id: string;
@@ -324,8 +446,35 @@ export interface QuestionSemanticOverride {
 export interface User {
   id: string;
   username: string;
-  password: string; // In production, this should be hashed
+  role: UserRole;
+  passwordHash: PasswordHash;
+  // Legacy clear-text password (schema v24 and older backups). Replaced by
+  // passwordHash on upgrade/import and never written by current code.
+  password?: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// Login session types
+export type SessionEventType = 'login' | 'logout' | 'idle_lock' | 'expired' | 'revoked';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  timestamp: number;
+  details?: string;
+}
+
+export interface UserSession {
+  id: string;
+  token: string; // random bearer token kept in localStorage; verified against this row
+  userId: string;
+  username: string;
   createdAt: number;
+  lastActiveAt: number;
+  expiresAt: number; // absolute expiry regardless of activity
+  endedAt?: number;
+  endReason?: Exclude<SessionEventType, 'login'>;
+  events: SessionEvent[];
 }
 
 // Settings types
@@ -334,6 +483,10 @@ export interface AppSettings {
   theme: 'light' | 'dark' | 'auto';
   questionPrompts?: { id: string; title: string; content: string }[];
   songRecognitionEnabled?: boolean;
+  tutorChat?: {
+    enabled: boolean;
+    disableDuringExams: boolean; // hide the tutor while the student has an exam running
+  };
   examIntegrity: {
     requireFullscreen: boolean;
     autoSubmitOnTabChange: boolean;
@@ -352,6 +505,10 @@ export interface AppSettings {
   analytics: {
     enabled: boolean;
   };
+  session?: {
+    idleTimeoutMinutes: number; // 0 disables the idle lock
+    maxSessionHours: number;
+  };
   dailyLimit?: {
     enabled: boolean;
     maxQuestionsPerDay: number;
@@ -475,12 +632,21 @@ export interface BinaryAsset {
 	createdAt: number;
 }
 
+// Listening targets for a song module's assigned students; every field is optional.
+export interface SongModuleGoals {
+	minSongPercent?: number; // each song listened to at least this % of its duration
+	minMinutesPerDay?: number; // total listening across the module's songs, per day
+	requireLyricsScroll?: boolean; // lyrics scrolled through on each song (where they scroll)
+	dueDate?: string; // YYYY-MM-DD; students who haven't finished by then are overdue
+}
+
 export interface SongModule {
 	id: string;
 	title: string;
 	description?: string;
 	songIds: string[];
 	assignedUserIds: string[];
+	goals?: SongModuleGoals;
 	createdAt: number;
 	updatedAt: number;
 	visible?: boolean;
@@ -514,12 +680,99 @@ export interface SongSrtCue {
 	createdAt: number;
 }
 
+// One answered line of the lyrics recall quiz; kept alongside listening events per module and day.
+export interface SongLyricQuizEvent {
+	id: string;
+	date: string; // YYYY-MM-DD
+	timestamp: number;
+	userId?: string;
+	username?: string;
+	songModuleId: string;
+	songId: string;
+	songTitle?: string;
+	cueId?: string; // absent for lines taken from plain lyrics
+	cueIndex?: number;
+	lineText: string;
+	difficulty: 'easy' | 'medium' | 'hard';
+	blanks: { id: string; correct: string; given: string }[];
+	correctParts: number;
+	totalParts: number;
+	scorePercent: number;
+	isCorrect: boolean;
+	responseMs: number;
+	replays: number;
+}
+
+export interface SongRecognitionRound {
+	id: string;
+	userId: string;
+	username?: string;
+	songId: string;
+	guessSongId: string;
+	correct: boolean;
+	// Snippet that was played; absent when the song had no usable timed lyrics.
+	clipStartMs?: number;
+	clipEndMs?: number;
+	snippetKey?: string; // `${songId}:${cueIndex}:${lineCount}`
+	difficultyLevel: number;
+	responseMs: number; // from the challenge appearing to the answer being checked
+	sessionId: string; // one "Start test" run
+	createdAt: number;
+}
+
+export interface AdaptiveTagStats {
+	attempts: number;
+	correct: number;
+	avgTimeMs: number;
+	lastAttemptAt?: number;
+}
+
+export interface AdaptiveCardSchedule {
+	ease: number; // 1.3–2.7
+	intervalDays: number;
+	dueAt: number;
+	lastReviewedAt?: number;
+	lastQuality?: number;
+}
+
+// Adaptive practice state for one learner: SM-2 style card schedules and per-tag stats.
+export interface AdaptivePracticeModelRecord {
+	id: string; // user ID, or 'anon' when practising signed out
+	version: 1;
+	updatedAt: number;
+	tags: Record<string, AdaptiveTagStats>;
+	cards: Record<string, AdaptiveCardSchedule>; // questionId -> schedule
+}
+
+export interface TutorChatMessage {
+	role: 'user' | 'assistant';
+	content: string;
+	createdAt: number;
+}
+
+// Offline tutor conversation. `context` is set when the chat was opened from a question.
+export interface TutorConversation {
+	id: string;
+	userId?: string;
+	title: string;
+	createdAt: number;
+	updatedAt: number;
+	context?: {
+		questionId: string;
+		moduleId?: string;
+		questionText: string; // plain text
+		explanation?: string; // plain text
+	};
+	messages: TutorChatMessage[];
+}
+
 // Database class
 export class ExamDatabase extends Dexie {
   questions!: Table<Question, string>;
   modules!: Table<Module, string>;
   attempts!: Table<Attempt, string>;
   integrityEvents!: Table<IntegrityEvent, string>;
+  attemptChain!: Table<AttemptChainLink, string>;
   tags!: Table<Tag, string>;
   semanticOntologyTags!: Table<SemanticOntologyTag, string>;
   semanticEmbeddings!: Table<SemanticEmbeddingRecord, string>;
@@ -536,8 +789,13 @@ export class ExamDatabase extends Dexie {
 	songModules!: Table<SongModule, string>;
 	songListeningEvents!: Table<SongListeningEvent, string>;
 	songSrtCues!: Table<SongSrtCue, string>;
+	songRecognitionRounds!: Table<SongRecognitionRound, string>;
+	songLyricQuizEvents!: Table<SongLyricQuizEvent, string>;
 	binaryAssets!: Table<BinaryAsset, string>;
 	lyricsSource!: Table<LyricsSourceEntry, string>;
+	sessions!: Table<UserSession, string>;
+	adaptiveModels!: Table<AdaptivePracticeModelRecord, string>;
+	tutorConversations!: Table<TutorConversation, string>;
 
   constructor() {
     super('ExamDatabase');
@@ -1167,6 +1425,217 @@ export class ExamDatabase extends Dexie {
 			lyricsSource: 'id, normalizedEnglishTitle, createdAt, writer',
 			songSrtCues: 'id, songId, cueIndex, [songId+cueIndex], startMs, endMs, text'
 		});
+
+		// v25: hash user passwords and store admins as role-bearing user records
+		this.version(25).stores({
+			questions: 'id, type, *tags, *modules, metadata.createdAt',
+			modules: 'id, type, *tags, createdAt, visible, locked',
+			attempts: 'id, moduleId, type, startedAt, syncStatus',
+			integrityEvents: 'id, attemptId, type, timestamp',
+			tags: 'id, name',
+			semanticOntologyTags: 'id, kind, parentId, name, updatedAt',
+			semanticEmbeddings: 'id, [scope+scopeId], scope, scopeId, modelId, createdAt',
+			questionSemanticAnalyses: 'id, questionId, createdAt, [questionId+analysisVersion], [questionId+modelId], source',
+			questionSemanticOverrides: 'id, questionId, updatedAt, baseAnalysisId, [questionId+updatedAt]',
+			settings: 'id',
+			dailyStats: 'id, date, moduleId, [date+moduleId], [moduleId+date], moduleType, createdAt',
+			users: 'id, username, role',
+			globalGlossary: 'id, normalizedWord, word',
+			intelligenceSignals: 'id, type, questionId, moduleId, [type+moduleId], [questionId+type]',
+			reviewInteractions: 'id, attemptId, moduleId, userId, questionId, timestamp, [attemptId+questionId], [moduleId+userId]',
+			errorReports: 'id, status, createdAt, updatedAt, moduleId, questionId, questionCode, reporterUserId, [status+createdAt]',
+			songs: 'id, visible, createdAt, updatedAt',
+			songModules: 'id, visible, createdAt, updatedAt',
+			songListeningEvents: 'id, date, timestamp, songModuleId, userId, songId, [date+songModuleId], [songModuleId+date], [songModuleId+userId], [songModuleId+songId]',
+			binaryAssets: 'id, kind, createdAt',
+			lyricsSource: 'id, normalizedEnglishTitle, createdAt, writer',
+			songSrtCues: 'id, songId, cueIndex, [songId+cueIndex], startMs, endMs, text'
+		}).upgrade(async (tx) => {
+			const usersTable = tx.table('users');
+			const users = await usersTable.toArray();
+			for (const u of users) {
+				// WebCrypto is not an IndexedDB operation; keep the upgrade transaction alive while hashing.
+				const upgraded = await Dexie.waitFor(upgradeLegacyUserRecord(u));
+				await usersTable.put(upgraded);
+			}
+		});
+
+		// v26: login sessions with an audit trail of login/logout/idle-lock events
+		this.version(26).stores({
+			questions: 'id, type, *tags, *modules, metadata.createdAt',
+			modules: 'id, type, *tags, createdAt, visible, locked',
+			attempts: 'id, moduleId, type, startedAt, syncStatus',
+			integrityEvents: 'id, attemptId, type, timestamp',
+			tags: 'id, name',
+			semanticOntologyTags: 'id, kind, parentId, name, updatedAt',
+			semanticEmbeddings: 'id, [scope+scopeId], scope, scopeId, modelId, createdAt',
+			questionSemanticAnalyses: 'id, questionId, createdAt, [questionId+analysisVersion], [questionId+modelId], source',
+			questionSemanticOverrides: 'id, questionId, updatedAt, baseAnalysisId, [questionId+updatedAt]',
+			settings: 'id',
+			dailyStats: 'id, date, moduleId, [date+moduleId], [moduleId+date], moduleType, createdAt',
+			users: 'id, username, role',
+			globalGlossary: 'id, normalizedWord, word',
+			intelligenceSignals: 'id, type, questionId, moduleId, [type+moduleId], [questionId+type]',
+			reviewInteractions: 'id, attemptId, moduleId, userId, questionId, timestamp, [attemptId+questionId], [moduleId+userId]',
+			errorReports: 'id, status, createdAt, updatedAt, moduleId, questionId, questionCode, reporterUserId, [status+createdAt]',
+			songs: 'id, visible, createdAt, updatedAt',
+			songModules: 'id, visible, createdAt, updatedAt',
+			songListeningEvents: 'id, date, timestamp, songModuleId, userId, songId, [date+songModuleId], [songModuleId+date], [songModuleId+userId], [songModuleId+songId]',
+			binaryAssets: 'id, kind, createdAt',
+			lyricsSource: 'id, normalizedEnglishTitle, createdAt, writer',
+			songSrtCues: 'id, songId, cueIndex, [songId+cueIndex], startMs, endMs, text',
+			sessions: 'id, &token, userId, createdAt, lastActiveAt, endedAt'
+		});
+
+		// v27: adaptive practice model moves out of localStorage into its own table
+		this.version(27).stores({
+			questions: 'id, type, *tags, *modules, metadata.createdAt',
+			modules: 'id, type, *tags, createdAt, visible, locked',
+			attempts: 'id, moduleId, type, startedAt, syncStatus',
+			integrityEvents: 'id, attemptId, type, timestamp',
+			tags: 'id, name',
+			semanticOntologyTags: 'id, kind, parentId, name, updatedAt',
+			semanticEmbeddings: 'id, [scope+scopeId], scope, scopeId, modelId, createdAt',
+			questionSemanticAnalyses: 'id, questionId, createdAt, [questionId+analysisVersion], [questionId+modelId], source',
+			questionSemanticOverrides: 'id, questionId, updatedAt, baseAnalysisId, [questionId+updatedAt]',
+			settings: 'id',
+			dailyStats: 'id, date, moduleId, [date+moduleId], [moduleId+date], moduleType, createdAt',
+			users: 'id, username, role',
+			globalGlossary: 'id, normalizedWord, word',
+			intelligenceSignals: 'id, type, questionId, moduleId, [type+moduleId], [questionId+type]',
+			reviewInteractions: 'id, attemptId, moduleId, userId, questionId, timestamp, [attemptId+questionId], [moduleId+userId]',
+			errorReports: 'id, status, createdAt, updatedAt, moduleId, questionId, questionCode, reporterUserId, [status+createdAt]',
+			songs: 'id, visible, createdAt, updatedAt',
+			songModules: 'id, visible, createdAt, updatedAt',
+			songListeningEvents: 'id, date, timestamp, songModuleId, userId, songId, [date+songModuleId], [songModuleId+date], [songModuleId+userId], [songModuleId+songId]',
+			binaryAssets: 'id, kind, createdAt',
+			lyricsSource: 'id, normalizedEnglishTitle, createdAt, writer',
+			songSrtCues: 'id, songId, cueIndex, [songId+cueIndex], startMs, endMs, text',
+			sessions: 'id, &token, userId, createdAt, lastActiveAt, endedAt',
+			adaptiveModels: 'id, updatedAt'
+		});
+
+		// v28: offline tutor chat conversations
+		this.version(28).stores({
+			questions: 'id, type, *tags, *modules, metadata.createdAt',
+			modules: 'id, type, *tags, createdAt, visible, locked',
+			attempts: 'id, moduleId, type, startedAt, syncStatus',
+			integrityEvents: 'id, attemptId, type, timestamp',
+			tags: 'id, name',
+			semanticOntologyTags: 'id, kind, parentId, name, updatedAt',
+			semanticEmbeddings: 'id, [scope+scopeId], scope, scopeId, modelId, createdAt',
+			questionSemanticAnalyses: 'id, questionId, createdAt, [questionId+analysisVersion], [questionId+modelId], source',
+			questionSemanticOverrides: 'id, questionId, updatedAt, baseAnalysisId, [questionId+updatedAt]',
+			settings: 'id',
+			dailyStats: 'id, date, moduleId, [date+moduleId], [moduleId+date], moduleType, createdAt',
+			users: 'id, username, role',
+			globalGlossary: 'id, normalizedWord, word',
+			intelligenceSignals: 'id, type, questionId, moduleId, [type+moduleId], [questionId+type]',
+			reviewInteractions: 'id, attemptId, moduleId, userId, questionId, timestamp, [attemptId+questionId], [moduleId+userId]',
+			errorReports: 'id, status, createdAt, updatedAt, moduleId, questionId, questionCode, reporterUserId, [status+createdAt]',
+			songs: 'id, visible, createdAt, updatedAt',
+			songModules: 'id, visible, createdAt, updatedAt',
+			songListeningEvents: 'id, date, timestamp, songModuleId, userId, songId, [date+songModuleId], [songModuleId+date], [songModuleId+userId], [songModuleId+songId]',
+			binaryAssets: 'id, kind, createdAt',
+			lyricsSource: 'id, normalizedEnglishTitle, createdAt, writer',
+			songSrtCues: 'id, songId, cueIndex, [songId+cueIndex], startMs, endMs, text',
+			sessions: 'id, &token, userId, createdAt, lastActiveAt, endedAt',
+			adaptiveModels: 'id, updatedAt',
+			tutorConversations: 'id, userId, updatedAt, [userId+updatedAt]'
+		});
+
+		// v29: signed hash chain over each attempt's answers and integrity events
+		this.version(29).stores({
+			questions: 'id, type, *tags, *modules, metadata.createdAt',
+			modules: 'id, type, *tags, createdAt, visible, locked',
+			attempts: 'id, moduleId, type, startedAt, syncStatus',
+			integrityEvents: 'id, attemptId, type, timestamp',
+			attemptChain: 'id, attemptId, &[attemptId+seq]',
+			tags: 'id, name',
+			semanticOntologyTags: 'id, kind, parentId, name, updatedAt',
+			semanticEmbeddings: 'id, [scope+scopeId], scope, scopeId, modelId, createdAt',
+			questionSemanticAnalyses: 'id, questionId, createdAt, [questionId+analysisVersion], [questionId+modelId], source',
+			questionSemanticOverrides: 'id, questionId, updatedAt, baseAnalysisId, [questionId+updatedAt]',
+			settings: 'id',
+			dailyStats: 'id, date, moduleId, [date+moduleId], [moduleId+date], moduleType, createdAt',
+			users: 'id, username, role',
+			globalGlossary: 'id, normalizedWord, word',
+			intelligenceSignals: 'id, type, questionId, moduleId, [type+moduleId], [questionId+type]',
+			reviewInteractions: 'id, attemptId, moduleId, userId, questionId, timestamp, [attemptId+questionId], [moduleId+userId]',
+			errorReports: 'id, status, createdAt, updatedAt, moduleId, questionId, questionCode, reporterUserId, [status+createdAt]',
+			songs: 'id, visible, createdAt, updatedAt',
+			songModules: 'id, visible, createdAt, updatedAt',
+			songListeningEvents: 'id, date, timestamp, songModuleId, userId, songId, [date+songModuleId], [songModuleId+date], [songModuleId+userId], [songModuleId+songId]',
+			binaryAssets: 'id, kind, createdAt',
+			lyricsSource: 'id, normalizedEnglishTitle, createdAt, writer',
+			songSrtCues: 'id, songId, cueIndex, [songId+cueIndex], startMs, endMs, text',
+			sessions: 'id, &token, userId, createdAt, lastActiveAt, endedAt',
+			adaptiveModels: 'id, updatedAt',
+			tutorConversations: 'id, userId, updatedAt, [userId+updatedAt]'
+		});
+
+		// v30: song recognition rounds, so scores and streaks outlive the session
+		this.version(30).stores({
+			questions: 'id, type, *tags, *modules, metadata.createdAt',
+			modules: 'id, type, *tags, createdAt, visible, locked',
+			attempts: 'id, moduleId, type, startedAt, syncStatus',
+			integrityEvents: 'id, attemptId, type, timestamp',
+			attemptChain: 'id, attemptId, &[attemptId+seq]',
+			tags: 'id, name',
+			semanticOntologyTags: 'id, kind, parentId, name, updatedAt',
+			semanticEmbeddings: 'id, [scope+scopeId], scope, scopeId, modelId, createdAt',
+			questionSemanticAnalyses: 'id, questionId, createdAt, [questionId+analysisVersion], [questionId+modelId], source',
+			questionSemanticOverrides: 'id, questionId, updatedAt, baseAnalysisId, [questionId+updatedAt]',
+			settings: 'id',
+			dailyStats: 'id, date, moduleId, [date+moduleId], [moduleId+date], moduleType, createdAt',
+			users: 'id, username, role',
+			globalGlossary: 'id, normalizedWord, word',
+			intelligenceSignals: 'id, type, questionId, moduleId, [type+moduleId], [questionId+type]',
+			reviewInteractions: 'id, attemptId, moduleId, userId, questionId, timestamp, [attemptId+questionId], [moduleId+userId]',
+			errorReports: 'id, status, createdAt, updatedAt, moduleId, questionId, questionCode, reporterUserId, [status+createdAt]',
+			songs: 'id, visible, createdAt, updatedAt',
+			songModules: 'id, visible, createdAt, updatedAt',
+			songListeningEvents: 'id, date, timestamp, songModuleId, userId, songId, [date+songModuleId], [songModuleId+date], [songModuleId+userId], [songModuleId+songId]',
+			binaryAssets: 'id, kind, createdAt',
+			lyricsSource: 'id, normalizedEnglishTitle, createdAt, writer',
+			songSrtCues: 'id, songId, cueIndex, [songId+cueIndex], startMs, endMs, text',
+			songRecognitionRounds: 'id, userId, songId, createdAt, [userId+createdAt]',
+			sessions: 'id, &token, userId, createdAt, lastActiveAt, endedAt',
+			adaptiveModels: 'id, updatedAt',
+			tutorConversations: 'id, userId, updatedAt, [userId+updatedAt]'
+		});
+
+		// v31: lyrics recall quiz answers
+		this.version(31).stores({
+			questions: 'id, type, *tags, *modules, metadata.createdAt',
+			modules: 'id, type, *tags, createdAt, visible, locked',
+			attempts: 'id, moduleId, type, startedAt, syncStatus',
+			integrityEvents: 'id, attemptId, type, timestamp',
+			attemptChain: 'id, attemptId, &[attemptId+seq]',
+			tags: 'id, name',
+			semanticOntologyTags: 'id, kind, parentId, name, updatedAt',
+			semanticEmbeddings: 'id, [scope+scopeId], scope, scopeId, modelId, createdAt',
+			questionSemanticAnalyses: 'id, questionId, createdAt, [questionId+analysisVersion], [questionId+modelId], source',
+			questionSemanticOverrides: 'id, questionId, updatedAt, baseAnalysisId, [questionId+updatedAt]',
+			settings: 'id',
+			dailyStats: 'id, date, moduleId, [date+moduleId], [moduleId+date], moduleType, createdAt',
+			users: 'id, username, role',
+			globalGlossary: 'id, normalizedWord, word',
+			intelligenceSignals: 'id, type, questionId, moduleId, [type+moduleId], [questionId+type]',
+			reviewInteractions: 'id, attemptId, moduleId, userId, questionId, timestamp, [attemptId+questionId], [moduleId+userId]',
+			errorReports: 'id, status, createdAt, updatedAt, moduleId, questionId, questionCode, reporterUserId, [status+createdAt]',
+			songs: 'id, visible, createdAt, updatedAt',
+			songModules: 'id, visible, createdAt, updatedAt',
+			songListeningEvents: 'id, date, timestamp, songModuleId, userId, songId, [date+songModuleId], [songModuleId+date], [songModuleId+userId], [songModuleId+songId]',
+			binaryAssets: 'id, kind, createdAt',
+			lyricsSource: 'id, normalizedEnglishTitle, createdAt, writer',
+			songSrtCues: 'id, songId, cueIndex, [songId+cueIndex], startMs, endMs, text',
+			songRecognitionRounds: 'id, userId, songId, createdAt, [userId+createdAt]',
+			songLyricQuizEvents: 'id, date, timestamp, songModuleId, userId, songId, [songModuleId+date], [songModuleId+userId]',
+			sessions: 'id, &token, userId, createdAt, lastActiveAt, endedAt',
+			adaptiveModels: 'id, updatedAt',
+			tutorConversations: 'id, userId, updatedAt, [userId+updatedAt]'
+		});
 	}
 }
 
@@ -1223,6 +1692,35 @@ export function normalizeGlossaryMeaning(value: string): string {
 // Initialize database
 export const db = new ExamDatabase();
 
+export async function hasAdminAccount(): Promise<boolean> {
+  return (await db.users.where('role').equals('admin').count()) > 0;
+}
+
+/**
+ * First-run setup: creates the first administrator with a password chosen on this
+ * install. Refuses once any admin exists, and never takes over an existing account.
+ */
+export async function createInitialAdmin(username: string, password: string): Promise<User> {
+  const name = username.trim();
+  if (!name) throw new Error('Enter a username for the administrator');
+  if (password.length < MIN_ADMIN_PASSWORD_LENGTH) {
+    throw new Error(`The password must be at least ${MIN_ADMIN_PASSWORD_LENGTH} characters`);
+  }
+  // Hash outside the transaction (WebCrypto would commit it), then check inside it so
+  // concurrent setups (other windows) can't each create an admin.
+  const passwordHash = await hashPassword(password);
+  return db.transaction('rw', db.users, async () => {
+    if (await hasAdminAccount()) throw new Error('An administrator already exists; sign in instead');
+    if (await db.users.where('username').equals(name).first()) {
+      throw new Error('That username is already taken');
+    }
+    const now = Date.now();
+    const user: User = { id: uuidv4(), username: name, role: 'admin', passwordHash, createdAt: now, updatedAt: now };
+    await db.users.add(user);
+    return user;
+  });
+}
+
 // Initialize default settings
 export async function initializeSettings() {
   let existingSettings: AppSettings | undefined;
@@ -1239,6 +1737,10 @@ export async function initializeSettings() {
       theme: 'auto',
       questionPrompts: [],
       songRecognitionEnabled: false,
+      tutorChat: {
+        enabled: true,
+        disableDuringExams: true,
+      },
       examIntegrity: {
         requireFullscreen: true,
         autoSubmitOnTabChange: true,
@@ -1254,6 +1756,10 @@ export async function initializeSettings() {
       analytics: {
         enabled: true,
       },
+      session: {
+        idleTimeoutMinutes: 30,
+        maxSessionHours: 12,
+      },
       dailyLimit: {
         enabled: false,
         maxQuestionsPerDay: 50,
@@ -0,0 +1,168 @@
+import { AttemptSection, Module, ModuleSection, PerQuestionAttempt, Question } from './db';
+import { computeAttemptScore, GradingPolicy } from './grading';
+import { RandomSource, seededShuffle } from './paperVariants';
+
+/**
+ * Sectioned exams (Module.sections). Each attempt gets a fixed AttemptSection plan
+ * at start; navigation, timers and results work from that plan, not the module.
+ */
+
+export function getModuleSections(module: Pick<Module, 'type' | 'sections'>): ModuleSection[] | null {
+  if (module.type !== 'exam' || !module.sections?.length) return null;
+  return module.sections;
+}
+
+/** Fixed questions of all sections, in section order; this is what Module.questionIds holds for sectioned exams. */
+export function getSectionQuestionIds(sections: ModuleSection[]): string[] {
+  return Array.from(new Set(sections.flatMap((s) => s.questionIds)));
+}
+
+export function matchesSectionPool(question: Question, pool: NonNullable<ModuleSection['pool']>): boolean {
+  if (pool.tags?.length && !question.tags?.some((t) => pool.tags!.includes(t))) return false;
+  if (pool.difficulties?.length) {
+    const difficulty = question.metadata?.difficulty ?? 'medium';
+    if (!pool.difficulties.includes(difficulty)) return false;
+  }
+  return true;
+}
+
+/** Questions any section's pool could draw from, so the runner can load them up front. */
+export function getSectionPoolCandidates(sections: ModuleSection[], bank: Question[]): Question[] {
+  const pools = sections.map((s) => s.pool).filter((p): p is NonNullable<ModuleSection['pool']> => !!p && p.count > 0);
+  if (!pools.length) return [];
+  return bank.filter((q) => pools.some((p) => matchesSectionPool(q, p)));
+}
+
+/**
+ * Resolves the sections for a new attempt: fixed questions first, then the pool draw,
+ * shuffled per section when asked. A question is only ever used once across sections.
+ * Pass a seeded random source to get the same plan for the same student.
+ */
+export function buildSectionPlan(
+  sections: ModuleSection[],
+  questionMap: Map<string, Question>,
+  random: RandomSource = Math.random,
+): AttemptSection[] {
+  const used = new Set<string>(getSectionQuestionIds(sections));
+  const shuffle = <T>(items: T[]) => seededShuffle(items, random);
+  return sections.map((section) => {
+    let ids = section.questionIds.filter((id) => questionMap.has(id));
+    if (section.pool && section.pool.count > 0) {
+      const pool = section.pool;
+      const candidates = Array.from(questionMap.values())
+        .filter((q) => !used.has(q.id) && matchesSectionPool(q, pool))
+        .sort((a, b) => a.id.localeCompare(b.id));
+      const drawn = shuffle(candidates).slice(0, pool.count).map((q) => q.id);
+      drawn.forEach((id) => used.add(id));
+      ids = [...ids, ...drawn];
+    }
+    return {
+      sectionId: section.id,
+      title: section.title,
+      questionIds: section.randomizeQuestions ? shuffle(ids) : ids,
+      timeLimitMinutes: section.timeLimitMinutes && section.timeLimitMinutes > 0 ? section.timeLimitMinutes : undefined,
+      allowBackNavigation: section.allowBackNavigation,
+    };
+  });
+}
+
+export function getPlanQuestionOrder(plan: AttemptSection[]): string[] {
+  return plan.flatMap((s) => s.questionIds);
+}
+
+/** Section index and [start, end) question range for a position in questionOrder. */
+export function getSectionAt(plan: AttemptSection[], questionIndex: number): { index: number; start: number; end: number } | null {
+  let start = 0;
+  for (let i = 0; i < plan.length; i++) {
+    const end = start + plan[i].questionIds.length;
+    if (questionIndex >= start && questionIndex < end) return { index: i, start, end };
+    start = end;
+  }
+  return null;
+}
+
+/** Remaining time for a started, timed section, or null when the section has no limit. */
+export function getSectionRemainingMs(section: AttemptSection, now: number): number | null {
+  if (!section.timeLimitMinutes || !section.startedAt) return null;
+  return Math.max(0, section.startedAt + section.timeLimitMinutes * 60000 - now);
+}
+
+/**
+ * Plan after the student reaches questionIndex: that section starts its clock and every
+ * earlier section is closed. Returns null when nothing changed.
+ */
+export function openSectionAt(plan: AttemptSection[], questionIndex: number, now: number): AttemptSection[] | null {
+  const current = getSectionAt(plan, questionIndex);
+  if (!current) return null;
+  let changed = false;
+  const next = plan.map((section, i) => {
+    if (i < current.index && !section.closedAt) {
+      changed = true;
+      return { ...section, startedAt: section.startedAt ?? now, closedAt: now };
+    }
+    if (i === current.index && !section.startedAt) {
+      changed = true;
+      return { ...section, startedAt: now };
+    }
+    return section;
+  });
+  return changed ? next : null;
+}
+
+/** First question index a resumed attempt may show: closed or timed-out sections are skipped. */
+export function getResumeFloor(plan: AttemptSection[], now: number): number {
+  let floor = 0;
+  for (const section of plan) {
+    const expired = getSectionRemainingMs(section, now) === 0;
+    if (!section.closedAt && !expired) break;
+    floor += section.questionIds.length;
+  }
+  return floor;
+}
+
+export interface SectionResult {
+  sectionId: string;
+  title: string;
+  questionCount: number;
+  answered: number;
+  score: number;
+}
+
+export function getSectionResults(
+  plan: AttemptSection[],
+  perQuestionAttempts: PerQuestionAttempt[],
+  policy: GradingPolicy,
+): SectionResult[] {
+  return plan.map((section) => {
+    const ids = new Set(section.questionIds);
+    const attempts = perQuestionAttempts.filter((p) => ids.has(p.questionId));
+    return {
+      sectionId: section.sectionId,
+      title: section.title,
+      questionCount: section.questionIds.length,
+      answered: attempts.filter((p) => p.status !== 'unattempted').length,
+      score: computeAttemptScore(attempts, policy),
+    };
+  });
+}
+
+/** Drops questions that are no longer in the module and empty pools; undefined when there are no sections. */
+export function pruneSections(sections: ModuleSection[], questionIds: string[]): ModuleSection[] | undefined {
+  if (!sections.length) return undefined;
+  return sections.map((section) => ({
+    ...section,
+    title: section.title.trim() || 'Untitled section',
+    questionIds: section.questionIds.filter((id) => questionIds.includes(id)),
+    pool: section.pool && section.pool.count > 0 ? section.pool : undefined,
+  }));
+}
+
+/** Why the sections can't be saved, or null when they are valid. */
+export function getSectionsProblem(sections: ModuleSection[], questionIds: string[]): string | null {
+  if (!sections.length) return null;
+  const assigned = new Set(sections.flatMap((s) => s.questionIds));
+  if (questionIds.some((id) => !assigned.has(id))) return 'Assign every selected question to a section';
+  const empty = sections.find((s) => !s.questionIds.length && !(s.pool && s.pool.count > 0));
+  if (empty) return `${empty.title.trim() || 'A section'} has no questions`;
+  return null;
+}
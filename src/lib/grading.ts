@@ -0,0 +1,239 @@
+import { Module, PerQuestionAttempt, Question } from './db';
+import { matchesAnswer } from './answerMatching';
+
+/**
+ * Shared scoring for exams, practice, end-time finalization and stats.
+ *
+ * Every place that turns an answer into a score goes through `evaluateScore`
+ * so that a module's grading policy is applied the same way everywhere.
+ */
+
+export type GradingPolicy = NonNullable<Module['settings']['grading']>;
+export type PartialCreditMode = GradingPolicy['partialCredit'];
+
+export interface QuestionScore {
+  isCorrect: boolean;
+  // Percentage of the question's points earned. Can be negative when negative marking applies.
+  scorePercent: number;
+  correctParts: number;
+  totalParts: number;
+}
+
+export const DEFAULT_NEGATIVE_MARKING_PENALTY_PERCENT = 25;
+
+export const DEFAULT_GRADING_POLICY: GradingPolicy = {
+  partialCredit: 'proportional',
+  mcqPartialCredit: false,
+  negativeMarking: { enabled: false, penaltyPercent: DEFAULT_NEGATIVE_MARKING_PENALTY_PERCENT },
+  questionPoints: {},
+};
+
+export function getGradingPolicy(module?: Pick<Module, 'settings'> | null): GradingPolicy {
+  const configured = module?.settings?.grading;
+  return {
+    ...DEFAULT_GRADING_POLICY,
+    ...(configured ?? {}),
+    negativeMarking: { ...DEFAULT_GRADING_POLICY.negativeMarking!, ...(configured?.negativeMarking ?? {}) },
+    questionPoints: { ...(configured?.questionPoints ?? {}) },
+  };
+}
+
+/**
+ * Copy of a policy whose point weights only cover the given questions, for saving with a module.
+ */
+export function pruneGradingPolicy(policy: GradingPolicy, questionIds: string[]): GradingPolicy {
+  const included = new Set(questionIds);
+  const questionPoints: Record<string, number> = {};
+  for (const [id, points] of Object.entries(policy.questionPoints ?? {})) {
+    if (included.has(id)) questionPoints[id] = points;
+  }
+  return { ...policy, questionPoints };
+}
+
+/**
+ * Point weight of a question within a module; questions without an explicit weight count 1.
+ */
+export function getQuestionPoints(questionId: string, policy: GradingPolicy = DEFAULT_GRADING_POLICY): number {
+  const points = policy.questionPoints?.[questionId];
+  return typeof points === 'number' && Number.isFinite(points) && points >= 0 ? points : 1;
+}
+
+export function hasAnswer(answer: unknown): boolean {
+  if (answer === undefined || answer === null) return false;
+  if (Array.isArray(answer)) return answer.some((a) => typeof a === 'string' && a.trim().length > 0);
+  return String(answer).trim().length > 0;
+}
+
+/**
+ * Reads blank metadata straight from the question HTML for fill-in-the-blank
+ * questions that were saved without `fillBlanks.blanks`.
+ */
+export function getFillBlanksMetaFromText(q: Question): { id: string; correct: string }[] {
+  if (q.type !== 'fill_blanks') return [];
+  if (typeof window === 'undefined' || typeof DOMParser === 'undefined') return [];
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(q.text || '', 'text/html');
+  const spans = Array.from(doc.querySelectorAll('[data-blank="true"]')) as HTMLElement[];
+  return spans
+    .map((el, index) => {
+      let id = el.getAttribute('data-blank-id') || '';
+      if (!id) {
+        id = `b${index + 1}`;
+      }
+      const correct = (el.innerText || el.textContent || '').trim();
+      return { id, correct };
+    })
+    .filter((b) => b.correct.length > 0);
+}
+
+export function getTotalPartsForQuestion(q: Question): number {
+  if (q.type === 'mcq') {
+    return Math.max(1, q.correctAnswers?.length ?? 0);
+  }
+  if (q.type === 'fill_blanks') {
+    const blanks = q.fillBlanks?.blanks?.length ? q.fillBlanks.blanks : getFillBlanksMetaFromText(q);
+    return Math.max(1, blanks.length);
+  }
+  if (q.type === 'matching' && q.matching) {
+    return Math.max(1, q.matching.pairs.length);
+  }
+  return 1;
+}
+
+function partsToPercent(correctParts: number, totalParts: number, mode: PartialCreditMode): number {
+  if (totalParts <= 0) return 0;
+  if (mode === 'all_or_nothing') return correctParts === totalParts ? 100 : 0;
+  return Math.round((correctParts / totalParts) * 100);
+}
+
+function scoreMcq(q: Question, answer: unknown, policy: GradingPolicy): QuestionScore {
+  if (!q.correctAnswers || q.correctAnswers.length === 0) {
+    return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 0 };
+  }
+  const expected = new Set(q.correctAnswers);
+  const givenValues = Array.isArray(answer) ? answer : [answer];
+  const given = new Set(givenValues.filter((v): v is string => typeof v === 'string' && v.length > 0));
+  let correctPicks = 0;
+  let wrongPicks = 0;
+  for (const v of given) {
+    if (expected.has(v)) correctPicks++;
+    else wrongPicks++;
+  }
+  const isCorrect = wrongPicks === 0 && correctPicks === expected.size;
+
+  // MCQs were always all-or-nothing, so per-option credit is opt-in. It nets wrong picks
+  // against right ones so selecting every option never pays off.
+  const mcqPartial = policy.mcqPartialCredit === true && policy.partialCredit === 'proportional';
+  let scorePercent = mcqPartial
+    ? Math.round((Math.max(0, correctPicks - wrongPicks) / expected.size) * 100)
+    : isCorrect
+      ? 100
+      : 0;
+
+  const negative = policy.negativeMarking;
+  if (negative?.enabled && wrongPicks > 0) {
+    scorePercent = Math.max(-100, scorePercent - wrongPicks * Math.max(0, negative.penaltyPercent));
+  }
+  return { isCorrect, scorePercent, correctParts: correctPicks, totalParts: expected.size };
+}
+
+/**
+ * Scores a single answer under a module's grading policy. `isCorrect` is only
+ * true for a fully correct answer regardless of how partial credit is awarded.
+ */
+export function evaluateScore(q: Question, answer: unknown, policy: GradingPolicy = DEFAULT_GRADING_POLICY): QuestionScore {
+  if (q.type === 'mcq') {
+    return scoreMcq(q, answer, policy);
+  }
+
+  // Fill in the blanks: compare each blank against metadata
+  if (q.type === 'fill_blanks') {
+    let blanks = q.fillBlanks?.blanks ?? [];
+    if (!blanks.length) {
+      blanks = getFillBlanksMetaFromText(q);
+    }
+    if (!blanks.length) {
+      return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 0 };
+    }
+    const values: unknown[] = Array.isArray(answer) ? answer : [];
+    let correctParts = 0;
+    for (let i = 0; i < blanks.length; i++) {
+      if (matchesAnswer(values[i], blanks[i].correct, q.answerMatching)) {
+        correctParts++;
+      }
+    }
+    const totalParts = blanks.length;
+    return {
+      isCorrect: correctParts === totalParts,
+      scorePercent: partsToPercent(correctParts, totalParts, policy.partialCredit),
+      correctParts,
+      totalParts,
+    };
+  }
+
+  // Matching: answer is array of rightIds aligned with pairs
+  if (q.type === 'matching') {
+    const pairs = q.matching?.pairs ?? [];
+    if (!pairs.length) {
+      return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 0 };
+    }
+    const values: unknown[] = Array.isArray(answer) ? answer : [];
+    let correctParts = 0;
+    for (let i = 0; i < pairs.length; i++) {
+      const expectedId = pairs[i].rightId;
+      if (expectedId && values[i] === expectedId) {
+        correctParts++;
+      }
+    }
+    const totalParts = pairs.length;
+    return {
+      isCorrect: correctParts === totalParts,
+      scorePercent: partsToPercent(correctParts, totalParts, policy.partialCredit),
+      correctParts,
+      totalParts,
+    };
+  }
+
+  // Free text: compare against list of acceptable answers
+  if (!q.correctAnswers || q.correctAnswers.length === 0) {
+    return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 0 };
+  }
+  const given = typeof answer === 'string' ? answer : '';
+  const isCorrect = q.correctAnswers.some((c) => matchesAnswer(given, c, q.answerMatching));
+  return { isCorrect, scorePercent: isCorrect ? 100 : 0, correctParts: isCorrect ? 1 : 0, totalParts: 1 };
+}
+
+/**
+ * Score for an unanswered question: no credit and never a penalty.
+ */
+export function unansweredScore(q: Question): QuestionScore {
+  return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: getTotalPartsForQuestion(q) };
+}
+
+/**
+ * Overall attempt score (0-100) as the point-weighted mean of per-question
+ * scores. Penalties can pull individual questions below zero but the total is
+ * floored at zero.
+ */
+export function computeAttemptScore(
+  perQuestionAttempts: Pick<PerQuestionAttempt, 'questionId' | 'scorePercent'>[],
+  policy: GradingPolicy = DEFAULT_GRADING_POLICY,
+): number {
+  let earned = 0;
+  let possible = 0;
+  for (const a of perQuestionAttempts) {
+    if (typeof a.scorePercent !== 'number') continue;
+    const points = getQuestionPoints(a.questionId, policy);
+    earned += points * a.scorePercent;
+    possible += points;
+  }
+  if (possible <= 0) return 0;
+  return Math.min(100, Math.max(0, Math.round(earned / possible)));
+}
+
+/**
+ * Number of fully correct answers; stats count these rather than partial credit.
+ */
+export function countCorrect(perQuestionAttempts: Pick<PerQuestionAttempt, 'isCorrect'>[]): number {
+  return perQuestionAttempts.filter((a) => a.isCorrect === true).length;
+}
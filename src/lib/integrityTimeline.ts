@@ -0,0 +1,156 @@
+import { db, Attempt, IntegrityEvent, IntegrityEventType, IntegrityReview, IntegrityVerdict } from './db';
+
+/**
+ * Admin integrity review: everything that happened during an attempt on one time axis,
+ * a suspicion score to sort attempts by, and the admin's verdict.
+ */
+
+// How much one event of each type adds to the suspicion score. Events that only
+// record normal behaviour (focus coming back, a routine screenshot) add nothing.
+const EVENT_WEIGHTS: Record<IntegrityEventType, number> = {
+  visibility_change: 8,
+  focus_lost: 5,
+  focus_gain: 0,
+  clock_drift: 15,
+  tab_change: 10,
+  fullscreen_exit: 10,
+  right_click: 2,
+  keyboard_shortcut: 4,
+  auto_submit: 5,
+  max_visibility_loss_exceeded: 30,
+  leader_switch: 12,
+  screenshot_captured: 0,
+  window_close_blocked: 15,
+};
+
+export const EVENT_LABELS: Record<IntegrityEventType, string> = {
+  visibility_change: 'Left the exam window',
+  focus_lost: 'Window lost focus',
+  focus_gain: 'Window regained focus',
+  clock_drift: 'Clock drift',
+  tab_change: 'Switched tab',
+  fullscreen_exit: 'Left fullscreen',
+  right_click: 'Right click',
+  keyboard_shortcut: 'Blocked shortcut',
+  auto_submit: 'Auto-submitted',
+  max_visibility_loss_exceeded: 'Too many window switches',
+  leader_switch: 'Exam opened in another tab',
+  screenshot_captured: 'Screenshot',
+  window_close_blocked: 'Tried to close the exam window',
+};
+
+export type SuspicionLevel = 'low' | 'medium' | 'high';
+
+// Badge variant for each level, shared by the list and the timeline page.
+export const LEVEL_BADGE: Record<SuspicionLevel, 'secondary' | 'outline' | 'destructive'> = {
+  low: 'secondary',
+  medium: 'outline',
+  high: 'destructive',
+};
+
+export const VERDICT_LABELS: Record<IntegrityVerdict, string> = {
+  cleared: 'Cleared',
+  flagged: 'Flagged',
+  voided: 'Voided',
+};
+
+export interface SuspicionScore {
+  score: number; // 0-100
+  level: SuspicionLevel;
+  // Event types that contributed, most weight first.
+  reasons: Array<{ type: IntegrityEventType; count: number; points: number }>;
+}
+
+export interface TimelineQuestionSpan {
+  questionId: string;
+  index: number;
+  start: number;
+  end: number;
+  status?: 'attempted' | 'unattempted' | 'autosubmitted';
+}
+
+export interface AttemptTimeline {
+  start: number;
+  end: number;
+  questions: TimelineQuestionSpan[];
+  events: IntegrityEvent[];
+}
+
+/**
+ * Events for one attempt. The integrityEvents table is the primary record; copies kept
+ * on the attempt fill in anything the table is missing (e.g. restored from an old backup).
+ */
+export async function getAttemptIntegrityEvents(attempt: Attempt): Promise<IntegrityEvent[]> {
+  const stored = await db.integrityEvents.where('attemptId').equals(attempt.id).toArray();
+  const byId = new Map(stored.map((e) => [e.id, e]));
+  for (const e of attempt.integrityEvents ?? []) {
+    if (!byId.has(e.id)) byId.set(e.id, e);
+  }
+  return Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function getSuspicionScore(events: IntegrityEvent[]): SuspicionScore {
+  const counts = new Map<IntegrityEventType, number>();
+  for (const e of events) counts.set(e.type, (counts.get(e.type) ?? 0) + 1);
+  const reasons = Array.from(counts.entries())
+    .map(([type, count]) => ({ type, count, points: (EVENT_WEIGHTS[type] ?? 0) * count }))
+    .filter((r) => r.points > 0)
+    .sort((a, b) => b.points - a.points);
+  const score = Math.min(100, reasons.reduce((sum, r) => sum + r.points, 0));
+  const level: SuspicionLevel = score >= 50 ? 'high' : score >= 20 ? 'medium' : 'low';
+  return { score, level, reasons };
+}
+
+/**
+ * Question spans run from when the question was first shown to when it was submitted.
+ * Older attempts without questionStartedAt start where the previous question ended.
+ */
+export function buildAttemptTimeline(attempt: Attempt, events: IntegrityEvent[]): AttemptTimeline {
+  const order = attempt.questionOrder ?? [];
+  const submitted = [...(attempt.perQuestionAttempts ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+  let cursor = attempt.startedAt;
+  const questions: TimelineQuestionSpan[] = submitted.map((pqa) => {
+    const start = Math.min(pqa.questionStartedAt ?? cursor, pqa.timestamp);
+    cursor = pqa.timestamp;
+    const index = order.indexOf(pqa.questionId);
+    return {
+      questionId: pqa.questionId,
+      index: index >= 0 ? index : pqa.questionIndexInModule,
+      start,
+      end: pqa.timestamp,
+      status: pqa.status,
+    };
+  });
+  const lastMoment = Math.max(
+    attempt.endedAt ?? 0,
+    cursor,
+    events.length ? events[events.length - 1].timestamp : 0,
+  );
+  return {
+    start: attempt.startedAt,
+    end: Math.max(lastMoment, attempt.startedAt + 1),
+    questions,
+    events,
+  };
+}
+
+/** The question on screen at a given moment, if any. */
+export function getQuestionAt(timeline: AttemptTimeline, timestamp: number): TimelineQuestionSpan | undefined {
+  return timeline.questions.find((q) => timestamp >= q.start && timestamp <= q.end);
+}
+
+export async function setIntegrityVerdict(
+  attemptId: string,
+  verdict: IntegrityVerdict,
+  note?: string,
+  reviewedBy?: string,
+): Promise<IntegrityReview> {
+  const review: IntegrityReview = {
+    verdict,
+    note: note?.trim() || undefined,
+    reviewedBy,
+    reviewedAt: Date.now(),
+  };
+  await db.attempts.update(attemptId, { integrityReview: review });
+  return review;
+}
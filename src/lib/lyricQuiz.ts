@@ -0,0 +1,214 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, Question, Song, SongLyricQuizEvent, SongSrtCue } from './db';
+import { normalizeAnswer } from './answerMatching';
+import { evaluateScore, QuestionScore } from './grading';
+import { splitLyricLines } from './songLyrics';
+
+/**
+ * Lyrics recall quiz: a line of a song is played (when it has timed cues) and shown with
+ * one or more words blanked out for the student to type.
+ *
+ * Each line is turned into an ordinary `fill_blanks` question, so answers are graded by
+ * `evaluateScore` and reviewed with FillBlanksAttemptView exactly like exam blanks. How hard
+ * a line is depends on how many words are blanked and how rare they are across all lyrics.
+ */
+
+export type LyricQuizDifficulty = SongLyricQuizEvent['difficulty'];
+
+export const LYRIC_QUIZ_DIFFICULTIES: LyricQuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+// `pick` says which end of the word-frequency ranking blanks come from: common words are the
+// easiest to recall, rare ones the hardest.
+const DIFFICULTY_SETTINGS: Record<LyricQuizDifficulty, { blanks: number; pick: 'common' | 'any' | 'rare' }> = {
+  easy: { blanks: 1, pick: 'common' },
+  medium: { blanks: 2, pick: 'any' },
+  hard: { blanks: 3, pick: 'rare' },
+};
+
+// A line needs this many words so that enough of it is left to recall the blanks from.
+const MIN_LINE_WORDS = 3;
+const MIN_BLANK_LENGTH = 2;
+
+const WORD = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)*/gu;
+const NOT_LYRICS = /(https?:\/\/|www\.|lrc\s*generator)/i;
+
+export interface LyricQuizLine {
+  key: string; // unique per song line, to avoid asking the same line twice in a row
+  songId: string;
+  text: string;
+  cue?: SongSrtCue;
+}
+
+export interface LyricQuizItem {
+  line: LyricQuizLine;
+  difficulty: LyricQuizDifficulty;
+  question: Question;
+  blanks: { id: string; correct: string }[];
+  // The line for answering: text, and the position of each blank among `blanks`.
+  segments: Array<string | { blank: number }>;
+}
+
+type LinePart = { text: string; word: boolean };
+
+function splitWords(text: string): LinePart[] {
+  const parts: LinePart[] = [];
+  let last = 0;
+  for (const m of text.matchAll(WORD)) {
+    const at = m.index ?? 0;
+    if (at > last) parts.push({ text: text.slice(last, at), word: false });
+    parts.push({ text: m[0], word: true });
+    last = at + m[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), word: false });
+  return parts;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function canBlank(word: string): boolean {
+  return Array.from(word).length >= MIN_BLANK_LENGTH && !/^\p{N}+$/u.test(word);
+}
+
+/** How often each word appears across the given lyrics, keyed by its normalized form. */
+export function buildWordFrequencies(texts: string[]): Map<string, number> {
+  const freq = new Map<string, number>();
+  for (const text of texts) {
+    for (const m of text.matchAll(WORD)) {
+      const key = normalizeAnswer(m[0]);
+      freq.set(key, (freq.get(key) || 0) + 1);
+    }
+  }
+  return freq;
+}
+
+/** Quiz lines for a song: its timed cues when it has them, otherwise its plain lyric lines. */
+export function collectLyricQuizLines(song: Song, cues: SongSrtCue[]): LyricQuizLine[] {
+  const usable = (text: string) => !NOT_LYRICS.test(text) && splitWords(text).filter((p) => p.word).length >= MIN_LINE_WORDS;
+  if (cues.length) {
+    return cues
+      .filter((c) => usable(c.text || ''))
+      .map((cue) => ({ key: `${song.id}:cue:${cue.cueIndex}`, songId: song.id, text: cue.text.replace(/\s*\n\s*/g, ' '), cue }));
+  }
+  return splitLyricLines(song.lyrics || '')
+    .map((text, i) => ({ key: `${song.id}:line:${i}`, songId: song.id, text }))
+    .filter((line) => usable(line.text));
+}
+
+function chooseBlankIndexes(
+  parts: LinePart[],
+  freq: Map<string, number>,
+  difficulty: LyricQuizDifficulty,
+  random: () => number
+): number[] {
+  const { blanks, pick } = DIFFICULTY_SETTINGS[difficulty];
+  const words = parts.map((p, i) => ({ ...p, i })).filter((p) => p.word);
+  const candidates = words.filter((p) => canBlank(p.text));
+  if (!candidates.length) return [];
+  // Leave at least half of the line's words visible.
+  const count = Math.max(1, Math.min(blanks, Math.floor(words.length / 2), candidates.length));
+  const byFrequency = candidates
+    .map((p) => ({ i: p.i, n: freq.get(normalizeAnswer(p.text)) || 0, r: random() }))
+    .sort((a, b) => (pick === 'rare' ? a.n - b.n : b.n - a.n) || a.r - b.r);
+  const pool = pick === 'any' ? byFrequency : byFrequency.slice(0, Math.max(count, Math.ceil(byFrequency.length / 2)));
+  const chosen = pool
+    .map((c) => ({ i: c.i, r: random() }))
+    .sort((a, b) => a.r - b.r)
+    .slice(0, count)
+    .map((c) => c.i);
+  return chosen.sort((a, b) => a - b);
+}
+
+/**
+ * Turns a line into a fill_blanks question, or null when it has no word worth blanking.
+ * Blanks are numbered in reading order, matching the order answers are given in.
+ */
+export function makeLyricQuizItem(
+  line: LyricQuizLine,
+  freq: Map<string, number>,
+  difficulty: LyricQuizDifficulty,
+  random: () => number = Math.random
+): LyricQuizItem | null {
+  const parts = splitWords(line.text);
+  const blankIndexes = new Set(chooseBlankIndexes(parts, freq, difficulty, random));
+  if (!blankIndexes.size) return null;
+  const blanks: LyricQuizItem['blanks'] = [];
+  const segments: LyricQuizItem['segments'] = [];
+  const html = parts
+    .map((p, i) => {
+      if (!blankIndexes.has(i)) {
+        segments.push(p.text);
+        return escapeHtml(p.text);
+      }
+      const id = `b${blanks.length + 1}`;
+      segments.push({ blank: blanks.length });
+      blanks.push({ id, correct: p.text });
+      return `<span data-blank="true" data-blank-id="${id}">${escapeHtml(p.text)}</span>`;
+    })
+    .join('');
+  const now = Date.now();
+  return {
+    line,
+    difficulty,
+    blanks,
+    segments,
+    question: {
+      id: `lyric-quiz:${line.key}`,
+      text: html,
+      type: 'fill_blanks',
+      fillBlanks: { blanks },
+      tags: [],
+      modules: [],
+      metadata: { difficulty, createdAt: now, updatedAt: now },
+    },
+  };
+}
+
+/** Picks a random line (not one of `recentKeys` if possible) and blanks it. */
+export function nextLyricQuizItem(
+  lines: LyricQuizLine[],
+  freq: Map<string, number>,
+  difficulty: LyricQuizDifficulty,
+  recentKeys: string[] = [],
+  random: () => number = Math.random
+): LyricQuizItem | null {
+  const recent = new Set(recentKeys);
+  const fresh = lines.filter((l) => !recent.has(l.key));
+  const pool = (fresh.length ? fresh : lines).slice();
+  while (pool.length) {
+    const [line] = pool.splice(Math.floor(random() * pool.length), 1);
+    const item = makeLyricQuizItem(line, freq, difficulty, random);
+    if (item) return item;
+  }
+  return null;
+}
+
+export function gradeLyricQuizItem(item: LyricQuizItem, answers: string[]): QuestionScore {
+  return evaluateScore(item.question, answers);
+}
+
+export async function recordLyricQuizEvent(
+  item: LyricQuizItem,
+  answers: string[],
+  score: QuestionScore,
+  context: Pick<SongLyricQuizEvent, 'songModuleId' | 'userId' | 'username' | 'songTitle' | 'responseMs' | 'replays'>
+): Promise<void> {
+  const now = Date.now();
+  await db.songLyricQuizEvents.add({
+    id: uuidv4(),
+    date: new Date(now).toISOString().slice(0, 10),
+    timestamp: now,
+    ...context,
+    songId: item.line.songId,
+    cueId: item.line.cue?.id,
+    cueIndex: item.line.cue?.cueIndex,
+    lineText: item.line.text,
+    difficulty: item.difficulty,
+    blanks: item.blanks.map((b, i) => ({ ...b, given: answers[i] ?? '' })),
+    correctParts: score.correctParts,
+    totalParts: score.totalParts,
+    scorePercent: score.scorePercent,
+    isCorrect: score.isCorrect,
+  });
+}
@@ -0,0 +1,324 @@
+/**
+ * Offline parser and evaluator for typed math answers.
+ *
+ * Accepts the raw syntax produced by TypingAnswerMathInput (`x^{2}`, `a_1`)
+ * plus the usual calculator notation: `+ - * / ^`, `×`, `÷`, `·`, `√`,
+ * parentheses or braces, implicit multiplication (`2x`, `3(x+1)`, `(a+b)(a-b)`)
+ * and common functions; `pi` and `e` are constants. Two expressions are
+ * considered equal when they agree at a set of pseudo-random sample points,
+ * so `2x+1`, `1+2*x` and `x*2+1` all match without a full algebra system.
+ */
+
+export type MathNode =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'neg'; arg: MathNode }
+  | { type: 'bin'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+  | { type: 'call'; fn: string; arg: MathNode };
+
+type Token =
+  | { kind: 'num'; value: number }
+  | { kind: 'id'; name: string }
+  | { kind: 'fn'; name: string }
+  | { kind: 'op'; op: string };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  sec: (x) => 1 / Math.cos(x),
+  csc: (x) => 1 / Math.sin(x),
+  cot: (x) => 1 / Math.tan(x),
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  sqrt: Math.sqrt,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  abs: Math.abs,
+};
+
+// Longest names first so "sinh" wins over "sin".
+const FUNCTION_NAMES = Object.keys(FUNCTIONS).sort((a, b) => b.length - a.length);
+
+const MAX_EXPRESSION_LENGTH = 300;
+const SAMPLE_COUNT = 16;
+const MIN_COMPARABLE_SAMPLES = 4;
+const RELATIVE_TOLERANCE = 1e-7;
+
+export class MathParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MathParseError';
+  }
+}
+
+function tokenize(input: string): Token[] {
+  const src = input
+    .replace(/\*\*/g, '^')
+    .replace(/[\u00D7\u00B7\u22C5\u2219]/g, '*')
+    .replace(/\u00F7/g, '/')
+    .replace(/[\u2212\u2013]/g, '-')
+    .replace(/\u03C0/g, 'pi')
+    .replace(/\u221A/g, 'sqrt');
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const num = /^(?:\d+\.?\d*|\.\d+)/.exec(src.slice(i));
+    if (num) {
+      tokens.push({ kind: 'num', value: Number(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+    if (/[a-z]/i.test(ch)) {
+      const rest = src.slice(i);
+      const fn = FUNCTION_NAMES.find((name) => rest.startsWith(name));
+      if (fn) {
+        tokens.push({ kind: 'fn', name: fn });
+        i += fn.length;
+        continue;
+      }
+      if (rest.startsWith('pi')) {
+        tokens.push({ kind: 'num', value: Math.PI });
+        i += 2;
+        continue;
+      }
+      if (ch === 'e' && src[i + 1] !== '_') {
+        tokens.push({ kind: 'num', value: Math.E });
+        i++;
+        continue;
+      }
+      // Letters are single-letter variables ("xy" is x*y); a subscript belongs to its letter.
+      let name = ch;
+      i++;
+      if (src[i] === '_') {
+        const sub = /^_(?:\{([^{}]*)\}|([a-z0-9]))/i.exec(src.slice(i));
+        if (sub) {
+          name += `_${(sub[1] ?? sub[2]).trim()}`;
+          i += sub[0].length;
+        }
+      }
+      tokens.push({ kind: 'id', name });
+      continue;
+    }
+    if ('+-*/^(){}[]'.includes(ch)) {
+      tokens.push({ kind: 'op', op: ch === '{' || ch === '[' ? '(' : ch === '}' || ch === ']' ? ')' : ch });
+      i++;
+      continue;
+    }
+    throw new MathParseError(`Unexpected character "${ch}"`);
+  }
+  return tokens;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): MathNode {
+    if (!this.tokens.length) throw new MathParseError('Empty expression');
+    const node = this.expression();
+    if (this.pos < this.tokens.length) throw new MathParseError('Unexpected input after expression');
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(op: string): boolean {
+    const t = this.peek();
+    return !!t && t.kind === 'op' && t.op === op;
+  }
+
+  private expect(op: string) {
+    if (!this.isOp(op)) throw new MathParseError(`Expected "${op}"`);
+    this.pos++;
+  }
+
+  private startsOperand(): boolean {
+    const t = this.peek();
+    return !!t && (t.kind !== 'op' || t.op === '(');
+  }
+
+  private expression(): MathNode {
+    let left = this.term();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = (this.tokens[this.pos++] as { op: '+' | '-' }).op;
+      left = { type: 'bin', op, left, right: this.term() };
+    }
+    return left;
+  }
+
+  private term(): MathNode {
+    let left = this.unary();
+    for (;;) {
+      if (this.isOp('*') || this.isOp('/')) {
+        const op = (this.tokens[this.pos++] as { op: '*' | '/' }).op;
+        left = { type: 'bin', op, left, right: this.unary() };
+      } else if (this.startsOperand()) {
+        left = { type: 'bin', op: '*', left, right: this.power() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private unary(): MathNode {
+    if (this.isOp('-')) {
+      this.pos++;
+      return { type: 'neg', arg: this.unary() };
+    }
+    if (this.isOp('+')) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): MathNode {
+    const base = this.primary();
+    if (this.isOp('^')) {
+      this.pos++;
+      return { type: 'bin', op: '^', left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  private primary(): MathNode {
+    const t = this.peek();
+    if (!t) throw new MathParseError('Unexpected end of expression');
+    this.pos++;
+    if (t.kind === 'num') return { type: 'num', value: t.value };
+    if (t.kind === 'id') return { type: 'var', name: t.name };
+    if (t.kind === 'fn') {
+      // sin^2 x means (sin x)^2
+      let exponent: MathNode | null = null;
+      if (this.isOp('^')) {
+        this.pos++;
+        exponent = this.primary();
+      }
+      const arg = this.isOp('(') ? this.primary() : this.power();
+      const call: MathNode = { type: 'call', fn: t.name, arg };
+      return exponent ? { type: 'bin', op: '^', left: call, right: exponent } : call;
+    }
+    if (t.op === '(') {
+      const inner = this.expression();
+      this.expect(')');
+      return inner;
+    }
+    throw new MathParseError(`Unexpected "${t.op}"`);
+  }
+}
+
+export function parseMathExpression(input: string): MathNode {
+  if (input.length > MAX_EXPRESSION_LENGTH) throw new MathParseError('Expression is too long');
+  return new Parser(tokenize(input)).parse();
+}
+
+export function evaluateMathExpression(node: MathNode, scope: Record<string, number>): number {
+  switch (node.type) {
+    case 'num':
+      return node.value;
+    case 'var':
+      return scope[node.name] ?? NaN;
+    case 'neg':
+      return -evaluateMathExpression(node.arg, scope);
+    case 'call':
+      return FUNCTIONS[node.fn](evaluateMathExpression(node.arg, scope));
+    case 'bin': {
+      const a = evaluateMathExpression(node.left, scope);
+      const b = evaluateMathExpression(node.right, scope);
+      switch (node.op) {
+        case '+':
+          return a + b;
+        case '-':
+          return a - b;
+        case '*':
+          return a * b;
+        case '/':
+          return a / b;
+        case '^':
+          return Math.pow(a, b);
+      }
+    }
+  }
+  return NaN;
+}
+
+function collectVariables(node: MathNode, out: Set<string>): Set<string> {
+  if (node.type === 'var') out.add(node.name);
+  else if (node.type === 'neg' || node.type === 'call') collectVariables(node.arg, out);
+  else if (node.type === 'bin') {
+    collectVariables(node.left, out);
+    collectVariables(node.right, out);
+  }
+  return out;
+}
+
+// Deterministic PRNG so the same pair of answers always grades the same way.
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function seedFrom(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Compares two typed expressions by evaluating both at sample points.
+ * Returns null when either side cannot be parsed or too few sample points
+ * are defined for both, so callers can fall back to text comparison.
+ */
+export function areMathExpressionsEquivalent(a: string, b: string): boolean | null {
+  let left: MathNode;
+  let right: MathNode;
+  try {
+    left = parseMathExpression(a);
+    right = parseMathExpression(b);
+  } catch {
+    return null;
+  }
+
+  const variables = Array.from(collectVariables(right, collectVariables(left, new Set<string>())));
+  const random = mulberry32(seedFrom(`${a}\u0000${b}`));
+  const samples = variables.length ? SAMPLE_COUNT : 1;
+  let comparable = 0;
+  for (let i = 0; i < samples; i++) {
+    const scope: Record<string, number> = {};
+    for (const name of variables) {
+      // Half of the points stay positive so expressions with sqrt or log still get compared.
+      const magnitude = 0.25 + random() * 2.75;
+      scope[name] = i % 2 === 0 || random() < 0.5 ? magnitude : -magnitude;
+    }
+    const x = evaluateMathExpression(left, scope);
+    const y = evaluateMathExpression(right, scope);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+    comparable++;
+    if (Math.abs(x - y) > RELATIVE_TOLERANCE * Math.max(1, Math.abs(x), Math.abs(y))) return false;
+  }
+  if (comparable === 0 || (variables.length && comparable < MIN_COMPARABLE_SAMPLES)) return null;
+  return true;
+}
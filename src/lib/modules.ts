@@ -8,6 +8,7 @@ export interface CreateModuleInput {
   type: Module['type'];
   tags: string[];
   questionIds: string[];
+  sections?: Module['sections'];
   settings: Module['settings'];
   scheduledStartUtc?: number;
   scheduledEndUtc?: number;
@@ -25,6 +26,7 @@ export async function createModule(input: CreateModuleInput): Promise<Module> {
     description: input.description,
     type: input.type,
     questionIds: input.questionIds,
+    sections: input.sections,
     tags: input.tags,
     scheduledStartUtc: input.scheduledStartUtc,
     scheduledEndUtc: input.scheduledEndUtc,
@@ -67,6 +69,7 @@ export async function updateModule(input: UpdateModuleInput): Promise<void> {
     type: input.type,
     tags: input.tags,
     questionIds: input.questionIds,
+    sections: input.sections,
     settings: input.settings,
     scheduledStartUtc: input.scheduledStartUtc,
     scheduledEndUtc: input.scheduledEndUtc,
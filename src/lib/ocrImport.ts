@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, BinaryAsset, Question } from './db';
+
+/**
+ * Renderer side of the PDF/image OCR import. The Electron main process does the
+ * OCR (electron/ocrImport.cjs); this turns its output into editable drafts and
+ * saves the reviewed drafts as questions, keeping each source crop as a BinaryAsset.
+ */
+
+export interface OcrDraftOption {
+  id: string;
+  text: string;
+}
+
+export interface OcrDraft {
+  key: string;
+  include: boolean;
+  type: 'mcq' | 'text';
+  text: string;
+  options: OcrDraftOption[];
+  correctOptionId?: string;
+  answer: string;
+  source: { fileName: string; page: number; number: number };
+  imageDataUrl?: string;
+  continuationImageDataUrls?: string[];
+}
+
+export function draftsFromOcrItems(items: OcrImportItem[]): OcrDraft[] {
+  return items.map((item) => {
+    const options = item.options.map((o) => ({ id: uuidv4(), text: o.text }));
+    return {
+      key: uuidv4(),
+      include: true,
+      type: options.length >= 2 ? 'mcq' : 'text',
+      text: item.text,
+      options,
+      answer: '',
+      source: { fileName: item.fileName, page: item.page, number: item.number },
+      imageDataUrl: item.imageDataUrl,
+      continuationImageDataUrls: item.continuationImageDataUrls,
+    };
+  });
+}
+
+/** Why a draft can't be saved yet, or null when it is ready. */
+export function getOcrDraftProblem(draft: OcrDraft): string | null {
+  if (!draft.text.trim()) return 'Question text is empty';
+  if (draft.type === 'mcq') {
+    const filled = draft.options.filter((o) => o.text.trim());
+    if (filled.length < 2) return 'Needs at least two options';
+    if (!draft.correctOptionId || !filled.some((o) => o.id === draft.correctOptionId)) return 'Pick the correct option';
+    return null;
+  }
+  return draft.answer.trim() ? null : 'Enter the accepted answer';
+}
+
+function escapeHtml(input: string): string {
+  return input.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// OCR lines become paragraphs so the rich text editor shows the original line breaks.
+function toHtml(text: string): string {
+  return text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => `<p>${escapeHtml(line)}</p>`)
+    .join('');
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const res = await fetch(dataUrl);
+  return res.blob();
+}
+
+/** Saves the included drafts and returns the new question ids. */
+export async function saveOcrDrafts(drafts: OcrDraft[]): Promise<string[]> {
+  const ready = drafts.filter((d) => d.include && !getOcrDraftProblem(d));
+  const now = Date.now();
+  const assets: BinaryAsset[] = [];
+  const questions: Question[] = [];
+
+  for (const draft of ready) {
+    const id = uuidv4();
+    const assetIds: string[] = [];
+    const crops = [draft.imageDataUrl, ...(draft.continuationImageDataUrls ?? [])];
+    for (let i = 0; i < crops.length; i++) {
+      const crop = crops[i];
+      if (!crop) continue;
+      const assetId = uuidv4();
+      assetIds.push(assetId);
+      assets.push({
+        id: assetId,
+        kind: 'question_image',
+        mimeType: 'image/png',
+        data: await dataUrlToBlob(crop),
+        sourceUrl: `ocr:${draft.source.fileName}#page=${draft.source.page + i}`,
+        createdAt: now,
+      });
+    }
+    const options = draft.type === 'mcq' ? draft.options.filter((o) => o.text.trim()) : undefined;
+    questions.push({
+      id,
+      code: `Q-${id.slice(0, 8)}`,
+      text: toHtml(draft.text),
+      type: draft.type,
+      questionImageAssetIds: assetIds.length ? assetIds : undefined,
+      options: options?.map((o) => ({ id: o.id, text: toHtml(o.text) })),
+      correctAnswers: draft.type === 'mcq' ? [draft.correctOptionId!] : [draft.answer.trim()],
+      tags: [],
+      modules: [],
+      metadata: { createdAt: now, updatedAt: now },
+    });
+  }
+
+  await db.transaction('rw', db.questions, db.binaryAssets, async () => {
+    if (assets.length) await db.binaryAssets.bulkAdd(assets);
+    await db.questions.bulkAdd(questions);
+  });
+  return questions.map((q) => q.id);
+}
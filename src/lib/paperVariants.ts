@@ -0,0 +1,97 @@
+import { Module, Question } from './db';
+
+/**
+ * Per-student exam papers. Everything random about a paper (pool draw, question order,
+ * option order) comes from one PRNG seeded by module and student, so a student who
+ * restarts gets the same paper while the student at the next desk gets a different one.
+ */
+
+export type QuestionPool = NonNullable<Module['settings']['questionPool']>;
+export type RandomSource = () => number;
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export function getPaperSeed(moduleId: string, userId?: string): string {
+  return `${moduleId}:${userId ?? 'anonymous'}`;
+}
+
+function hashSeed(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// mulberry32: small, fast and good enough for shuffling a paper.
+export function createSeededRandom(seed: string): RandomSource {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seededShuffle<T>(items: T[], random: RandomSource): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+export function hasQuestionPool(module: Pick<Module, 'type' | 'settings'>): boolean {
+  const pool = module.settings.questionPool;
+  return module.type === 'exam' && !!pool && DIFFICULTIES.some((d) => (pool.counts[d] ?? 0) > 0);
+}
+
+export function matchesQuestionPool(question: Question, pool: QuestionPool): boolean {
+  return !pool.tags?.length || !!question.tags?.some((t) => pool.tags!.includes(t));
+}
+
+/**
+ * Draws the pool's per-difficulty counts from the bank, skipping questions in `exclude`.
+ * Candidates are sorted by ID first so the same seed picks the same questions whatever
+ * order the bank was loaded in. Short difficulties simply yield fewer questions.
+ */
+export function drawFromPool(pool: QuestionPool, bank: Question[], random: RandomSource, exclude: string[] = []): string[] {
+  const skip = new Set(exclude);
+  const candidates = bank
+    .filter((q) => !skip.has(q.id) && matchesQuestionPool(q, pool))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  return DIFFICULTIES.flatMap((difficulty) => {
+    const count = pool.counts[difficulty] ?? 0;
+    if (count <= 0) return [];
+    const matching = candidates.filter((q) => (q.metadata?.difficulty ?? 'medium') === difficulty);
+    return seededShuffle(matching, random)
+      .slice(0, count)
+      .map((q) => q.id);
+  });
+}
+
+/** Option order for every MCQ on the paper. */
+export function buildOptionOrder(questions: Question[], random: RandomSource): Record<string, string[]> {
+  const order: Record<string, string[]> = {};
+  for (const q of questions) {
+    if (q.type !== 'mcq' || !q.options?.length) continue;
+    order[q.id] = seededShuffle(
+      q.options.map((o) => o.id),
+      random
+    );
+  }
+  return order;
+}
+
+/** The question as this student saw it: options in their stored order, unknown options kept at the end. */
+export function applyOptionOrder<T extends Pick<Question, 'id' | 'options'>>(question: T, optionOrder?: Record<string, string[]>): T {
+  const order = optionOrder?.[question.id];
+  if (!order?.length || !question.options?.length) return question;
+  const rank = new Map(order.map((id, i) => [id, i]));
+  const options = [...question.options].sort((a, b) => (rank.get(a.id) ?? order.length) - (rank.get(b.id) ?? order.length));
+  return { ...question, options };
+}
@@ -0,0 +1,116 @@
+import { db, Attempt, IntegrityEventType, Module, ProctoringPolicy } from './db';
+import { getAttemptIntegrityEvents } from './integrityTimeline';
+
+/**
+ * Screenshot proctoring for exams in the desktop app, and the evidence bundle an admin
+ * exports to back up a result. Capturing, storage limits and zipping happen in the
+ * main process (electron/proctoring.cjs); this side decides when and what to send.
+ */
+
+// Matches the fixed one-minute capture exams used before policies existed.
+export const DEFAULT_PROCTORING_POLICY: ProctoringPolicy = {
+  enabled: true,
+  minIntervalSeconds: 60,
+  maxIntervalSeconds: 60,
+  captureOnEvents: false,
+};
+
+// Event types worth a screenshot; the rest are routine or would capture the wrong window.
+const CAPTURE_EVENT_TYPES: IntegrityEventType[] = [
+  'visibility_change',
+  'focus_lost',
+  'tab_change',
+  'fullscreen_exit',
+  'keyboard_shortcut',
+  'right_click',
+  'leader_switch',
+];
+
+// Event screenshots closer together than this are dropped (blur + visibility often fire together).
+export const EVENT_CAPTURE_COOLDOWN_MS = 5000;
+
+const MIN_INTERVAL_SECONDS = 5;
+
+export function getProctoringPolicy(module: Pick<Module, 'settings'>): ProctoringPolicy {
+  return { ...DEFAULT_PROCTORING_POLICY, ...module.settings.proctoring };
+}
+
+/** Delay until the next periodic screenshot, picked uniformly within the policy's interval. */
+export function getNextCaptureDelayMs(policy: ProctoringPolicy, random: () => number = Math.random): number {
+  const min = Math.max(MIN_INTERVAL_SECONDS, policy.minIntervalSeconds || MIN_INTERVAL_SECONDS);
+  const max = Math.max(min, policy.maxIntervalSeconds || min);
+  return Math.round((min + random() * (max - min)) * 1000);
+}
+
+export function shouldCaptureOnEvent(policy: ProctoringPolicy, type: IntegrityEventType): boolean {
+  return policy.enabled && policy.captureOnEvents && CAPTURE_EVENT_TYPES.includes(type);
+}
+
+// retentionDays and maxTotalMb are recorded with the attempt's first screenshot and decide when it is pruned.
+export function getCaptureLimits(policy: ProctoringPolicy): { maxPerAttempt?: number; maxTotalMb?: number; retentionDays?: number } {
+  return { maxPerAttempt: policy.maxScreenshotsPerAttempt, maxTotalMb: policy.maxDiskMb, retentionDays: policy.retentionDays };
+}
+
+/** Why the policy can't be saved, or null when it is valid. */
+export function getProctoringPolicyProblem(policy: ProctoringPolicy): string | null {
+  if (!policy.enabled) return null;
+  if (!(policy.minIntervalSeconds >= MIN_INTERVAL_SECONDS)) {
+    return `Screenshots must be at least ${MIN_INTERVAL_SECONDS} seconds apart`;
+  }
+  if (policy.maxIntervalSeconds < policy.minIntervalSeconds) {
+    return 'The longest screenshot interval must not be shorter than the shortest';
+  }
+  return null;
+}
+
+/**
+ * Deletes old screenshots before a new attempt starts. Each attempt is pruned by the limits
+ * of its own module, and only after its evidence was exported; the running attempt and
+ * attempts flagged or voided in review are held back. Desktop app only; best effort.
+ */
+export async function pruneProctoringStorage(keepAttemptId: string): Promise<void> {
+  const api = window.examProctor;
+  if (!api?.pruneScreenshots) return;
+  try {
+    const underReview = await db.attempts
+      .where('type')
+      .equals('exam')
+      .filter((a) => a.integrityReview?.verdict === 'flagged' || a.integrityReview?.verdict === 'voided')
+      .primaryKeys();
+    await api.pruneScreenshots({ holdAttemptIds: [keepAttemptId, ...underReview] });
+  } catch (error) {
+    console.error('Failed to prune proctoring screenshots', error);
+  }
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+/** Records that go into the bundle next to the screenshots. */
+export async function getEvidenceFiles(attempt: Attempt): Promise<Array<{ name: string; content: string }>> {
+  const events = await getAttemptIntegrityEvents(attempt);
+  const { integrityEvents: _events, perQuestionAttempts, answers, timerState, currentQuestionTimerState, ...summary } = attempt;
+  return [
+    { name: 'attempt.json', content: toJson(summary) },
+    { name: 'answers.json', content: toJson({ answers: answers ?? {}, perQuestionAttempts }) },
+    { name: 'timer-states.json', content: toJson({ timerState, currentQuestionTimerState, sectionPlan: attempt.sectionPlan }) },
+    { name: 'integrity-events.json', content: toJson(events) },
+  ];
+}
+
+/**
+ * Asks where to save the attempt's evidence zip and records the manifest hash on the
+ * attempt. Returns null when the admin cancels the save dialog.
+ */
+export async function exportEvidenceBundle(attempt: Attempt): Promise<{ filePath?: string; manifestSha256: string } | null> {
+  const api = window.examProctor;
+  if (!api?.exportEvidenceBundle) {
+    throw new Error('Evidence export is only available in the desktop app');
+  }
+  const result = await api.exportEvidenceBundle({ attemptId: attempt.id, files: await getEvidenceFiles(attempt) });
+  if (result.canceled || !result.manifestSha256) return null;
+  const record = { exportedAt: Date.now(), manifestSha256: result.manifestSha256, filePath: result.filePath };
+  await db.attempts.update(attempt.id, { evidenceExports: [...(attempt.evidenceExports ?? []), record] });
+  return record;
+}
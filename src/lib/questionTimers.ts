@@ -0,0 +1,32 @@
+import { Module, PerQuestionAttempt, Question } from './db';
+
+/**
+ * Per-question exam timers (Module.settings.timerType === 'perQuestion').
+ * Each question gets its own countdown; the module time limit still ends the exam.
+ */
+
+export function usesPerQuestionTimers(module: Pick<Module, 'type' | 'settings'>): boolean {
+  return module.type === 'exam' && module.settings.timerType === 'perQuestion';
+}
+
+/** Budget for one question in ms, or 0 when the question is untimed. */
+export function getQuestionTimeBudgetMs(module: Pick<Module, 'type' | 'settings'>, question: Pick<Question, 'timeLimitSeconds'>): number {
+  if (!usesPerQuestionTimers(module)) return 0;
+  const seconds =
+    typeof question.timeLimitSeconds === 'number' && question.timeLimitSeconds > 0
+      ? question.timeLimitSeconds
+      : module.settings.perQuestionSeconds ?? 0;
+  return seconds > 0 ? seconds * 1000 : 0;
+}
+
+/**
+ * Status for a question when the attempt is finalized. Questions whose timer ran out
+ * keep 'autosubmitted', whether or not an answer was picked before the deadline.
+ */
+export function getFinalQuestionStatus(
+  existing: Pick<PerQuestionAttempt, 'status'> | undefined,
+  answered: boolean,
+): NonNullable<PerQuestionAttempt['status']> {
+  if (existing?.status === 'autosubmitted') return 'autosubmitted';
+  return answered ? 'attempted' : 'unattempted';
+}
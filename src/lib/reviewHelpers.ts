@@ -1,4 +1,7 @@
-import { db, Module, Attempt, ReviewInteraction } from './db';
+import { db, Module, Attempt, Question, ReviewInteraction } from './db';
+import { computeAttemptScore, evaluateScore, getGradingPolicy, hasAnswer, unansweredScore } from './grading';
+import { getFinalQuestionStatus } from './questionTimers';
+import { sealAttemptChain } from './attemptChain';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -80,34 +83,25 @@ export async function areAllQuestionsReviewed(attemptId: string, totalQuestions:
 }
 
 /**
- * Finalizes exam attempt at end time - marks unattempted questions and applies no negative marking
+ * Finalizes exam attempt at end time - marks unattempted questions and scores the rest
+ * with the module's grading policy. Unanswered questions never incur a penalty.
  */
 export async function finalizeExamAtEndTime(
   attempt: Attempt,
-  questions: any[],
-  examEndTime: number
+  questions: Question[],
+  examEndTime: number,
+  module?: Module | null
 ): Promise<void> {
   if (attempt.completed || attempt.finalized) return;
   
   const now = examEndTime;
   const answers = attempt.answers ?? {};
+  const policy = getGradingPolicy(module);
   
-  // Build perQuestionAttempts with no negative marking
   const perQuestionAttempts = questions.map((q, idx) => {
     const ans = answers[q.id];
-    const hasAnswer = ans !== undefined && ans !== null && ans !== '' && 
-      (Array.isArray(ans) ? (ans as string[]).length > 0 : true);
-    
-    // No negative marking: correct = positive, incorrect = zero, unattempted = unattempted
-    let scorePercent = 0;
-    let isCorrect: boolean | undefined = undefined;
-    
-    if (hasAnswer) {
-      // Evaluate answer
-      const scoring = evaluateScore(q, ans);
-      isCorrect = scoring.isCorrect;
-      scorePercent = isCorrect ? scoring.scorePercent : 0; // No negative marking
-    }
+    const answered = hasAnswer(ans);
+    const scoring = answered ? evaluateScore(q, ans, policy) : unansweredScore(q);
     
     // Try to get questionStartedAt from existing perQuestionAttempts or currentQuestionTimerState
     // Note: questionStartedAt should be recorded when questions are viewed, but if missing,
@@ -119,28 +113,24 @@ export async function finalizeExamAtEndTime(
     
     return {
       questionId: q.id,
-      userAnswer: hasAnswer ? (Array.isArray(ans) ? ans : (ans ?? '')) : (q.type === 'matching' || q.type === 'fill_blanks' ? [] : ''),
+      userAnswer: answered ? ans : (q.type === 'matching' || q.type === 'fill_blanks' ? [] : ''),
       // For unattempted questions, isCorrect should be undefined, not false
-      isCorrect,
+      isCorrect: answered ? scoring.isCorrect : undefined,
       timeTakenMs: 0,
       timestamp: now,
       questionStartedAt,
       questionIndexInModule: idx,
       attemptNumberForQuestion: 1,
       integrityEvents: [],
-      status: (hasAnswer ? 'attempted' : 'unattempted') as 'attempted' | 'unattempted',
-      autosubmitted: !hasAnswer,
-      scorePercent,
-      correctParts: isCorrect ? (isCorrect ? 1 : 0) : 0,
-      totalParts: 1,
+      status: getFinalQuestionStatus(existingAttempt, answered),
+      autosubmitted: !answered || existingAttempt?.status === 'autosubmitted',
+      scorePercent: scoring.scorePercent,
+      correctParts: scoring.correctParts,
+      totalParts: scoring.totalParts,
     };
   });
   
-  // Calculate score (only correct answers contribute)
-  const scoredQuestions = perQuestionAttempts.filter((a) => typeof a.scorePercent === 'number');
-  const score = scoredQuestions.length > 0
-    ? Math.round(scoredQuestions.reduce((sum, a) => sum + (a.scorePercent || 0), 0) / scoredQuestions.length)
-    : 0;
+  const score = computeAttemptScore(perQuestionAttempts, policy);
   
   // Finalize the attempt
   await db.attempts.update(attempt.id, {
@@ -151,68 +141,5 @@ export async function finalizeExamAtEndTime(
     completed: true,
     finalized: true,
   });
-}
-
-// Helper function for scoring (simplified version - should match ModuleRunner's evaluateScore)
-function evaluateScore(q: any, answer: any): { isCorrect: boolean; scorePercent: number; correctParts: number; totalParts: number } {
-  if (q.type === 'mcq') {
-    if (!q.correctAnswers || q.correctAnswers.length === 0) {
-      return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 1 };
-    }
-    const userAnswers = Array.isArray(answer) ? answer : [answer];
-    const correctSet = new Set(q.correctAnswers);
-    const userSet = new Set(userAnswers.filter(Boolean));
-    const isCorrect = correctSet.size === userSet.size && 
-      Array.from(correctSet).every(id => userSet.has(id));
-    return { isCorrect, scorePercent: isCorrect ? 100 : 0, correctParts: isCorrect ? 1 : 0, totalParts: 1 };
-  }
-  
-  if (q.type === 'text') {
-    if (!q.correctAnswers || q.correctAnswers.length === 0) {
-      return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 1 };
-    }
-    const userAnswer = (answer || '').toString().trim().toLowerCase();
-    const isCorrect = q.correctAnswers.some((correct: string) => 
-      correct.toString().trim().toLowerCase() === userAnswer
-    );
-    return { isCorrect, scorePercent: isCorrect ? 100 : 0, correctParts: isCorrect ? 1 : 0, totalParts: 1 };
-  }
-  
-  if (q.type === 'fill_blanks') {
-    if (!q.fillBlanks?.blanks || q.fillBlanks.blanks.length === 0) {
-      return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 1 };
-    }
-    const userAnswers = Array.isArray(answer) ? answer : [];
-    const blanks = q.fillBlanks.blanks;
-    let correctCount = 0;
-    for (let i = 0; i < blanks.length; i++) {
-      const userAns = (userAnswers[i] || '').toString().trim().toLowerCase();
-      const correctAns = (blanks[i].correct || '').toString().trim().toLowerCase();
-      if (userAns === correctAns) correctCount++;
-    }
-    const totalParts = blanks.length;
-    const isCorrect = correctCount === totalParts;
-    const scorePercent = totalParts > 0 ? Math.round((correctCount / totalParts) * 100) : 0;
-    return { isCorrect, scorePercent, correctParts: correctCount, totalParts };
-  }
-  
-  if (q.type === 'matching') {
-    if (!q.matching?.pairs || q.matching.pairs.length === 0) {
-      return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 1 };
-    }
-    const userAnswers = Array.isArray(answer) ? answer : [];
-    const pairs = q.matching.pairs;
-    const correctOrder = pairs.map(p => p.rightId);
-    let correctCount = 0;
-    for (let i = 0; i < Math.min(userAnswers.length, correctOrder.length); i++) {
-      if (userAnswers[i] === correctOrder[i]) correctCount++;
-    }
-    const totalParts = pairs.length;
-    const isCorrect = correctCount === totalParts;
-    const scorePercent = totalParts > 0 ? Math.round((correctCount / totalParts) * 100) : 0;
-    return { isCorrect, scorePercent, correctParts: correctCount, totalParts };
-  }
-  
-  // Add other question types as needed
-  return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 1 };
+  await sealAttemptChain({ id: attempt.id, perQuestionAttempts, endedAt: now, score });
 }
@@ -0,0 +1,139 @@
+import { db, Module, Question } from './db';
+import { checkDailyLimit } from './dailyLimit';
+import { loadAdaptivePracticeModel } from './adaptivePractice';
+
+/**
+ * Cross-module spaced-repetition review.
+ *
+ * Every practice answer schedules its question in the student's adaptive
+ * model (see adaptivePractice.ts). The review queue gathers the questions
+ * whose `dueAt` has passed, across all practice modules the student can open,
+ * and runs them as one ad-hoc practice session. Each answer is still recorded
+ * against the module the question came from, so daily limits and stats keep
+ * working per module.
+ */
+
+export const REVIEW_QUEUE_MODULE_ID = 'review-queue';
+
+export interface DueReviewItem {
+  question: Question;
+  // Practice module the answer is recorded against.
+  module: Module;
+  dueAt: number;
+}
+
+/**
+ * Same recurring availability rules the Home page applies to practice modules.
+ */
+export function isPracticeModuleOpen(module: Module, now: number = Date.now()): boolean {
+  const settings = module.settings;
+  if (!settings) return true;
+  const d = new Date(now);
+  const allowedDays = settings.allowedDaysOfWeek;
+  if (Array.isArray(allowedDays) && allowedDays.length > 0 && !allowedDays.includes(d.getDay())) {
+    return false;
+  }
+  const window = settings.allowedTimeWindow;
+  if (
+    window &&
+    typeof window.startMinutes === 'number' &&
+    typeof window.endMinutes === 'number' &&
+    window.endMinutes > window.startMinutes
+  ) {
+    const minutes = d.getHours() * 60 + d.getMinutes();
+    if (minutes < window.startMinutes || minutes >= window.endMinutes) return false;
+  }
+  return true;
+}
+
+/**
+ * Practice modules a student can open right now: assigned to them and inside
+ * the module's availability window.
+ */
+export async function getOpenPracticeModules(userId: string, now: number = Date.now()): Promise<Module[]> {
+  const modules = await db.modules.where('type').equals('practice').toArray();
+  return modules.filter(
+    (m) => Array.isArray(m.assignedUserIds) && m.assignedUserIds.includes(userId) && isPracticeModuleOpen(m, now),
+  );
+}
+
+/**
+ * Pairs each question with the first open practice module that contains it
+ * and is still under the student's daily limit. Questions with no such module
+ * are dropped; the input order is kept.
+ */
+export async function assignPracticeModules(
+  userId: string,
+  questions: Question[],
+  now: number = Date.now(),
+): Promise<Array<{ question: Question; module: Module }>> {
+  const modules = await getOpenPracticeModules(userId, now);
+  if (!modules.length) return [];
+
+  const limitReached = new Map<string, boolean>();
+  const isLimitReached = async (moduleId: string) => {
+    if (!limitReached.has(moduleId)) {
+      limitReached.set(moduleId, (await checkDailyLimit(moduleId, userId)).reached);
+    }
+    return limitReached.get(moduleId)!;
+  };
+
+  const assigned: Array<{ question: Question; module: Module }> = [];
+  for (const question of questions) {
+    const owners = modules.filter(
+      (m) => m.questionIds?.includes(question.id) || question.modules?.includes(m.id),
+    );
+    for (const module of owners) {
+      if (await isLimitReached(module.id)) continue;
+      assigned.push({ question, module });
+      break;
+    }
+  }
+  return assigned;
+}
+
+/**
+ * Questions due for review for one student, oldest due first. Only questions
+ * from practice modules assigned to the student, open right now and under
+ * their daily limit are included.
+ */
+export async function getDueReviewItems(userId: string, now: number = Date.now()): Promise<DueReviewItem[]> {
+  const model = await loadAdaptivePracticeModel({ userId });
+  const due = Object.entries(model.cards || {})
+    .filter(([, card]) => typeof card?.dueAt === 'number' && card.dueAt <= now)
+    .sort((a, b) => a[1].dueAt - b[1].dueAt);
+  if (!due.length) return [];
+
+  const dueAtById = new Map(due.map(([id, card]) => [id, card.dueAt]));
+  const questions = (await db.questions.bulkGet(due.map(([id]) => id))).filter(Boolean) as Question[];
+  const assigned = await assignPracticeModules(userId, questions, now);
+  return assigned.map((item) => ({ ...item, dueAt: dueAtById.get(item.question.id)! }));
+}
+
+/**
+ * In-memory practice module that carries an ad-hoc session (review queue,
+ * targeted skill practice) through PracticeRunner. It is never saved;
+ * attempts go to each question's own module.
+ */
+export function buildAdHocPracticeModule(
+  items: Array<{ question: Question }>,
+  options: { id?: string; title?: string } = {},
+  now: number = Date.now(),
+): Module {
+  return {
+    id: options.id ?? REVIEW_QUEUE_MODULE_ID,
+    title: options.title ?? 'Due for review',
+    type: 'practice',
+    questionIds: items.map((item) => item.question.id),
+    tags: [],
+    settings: {
+      randomizeQuestions: false,
+      allowReview: false,
+      timerType: 'none',
+      showInstantFeedback: true,
+      practiceMode: 'adaptive',
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
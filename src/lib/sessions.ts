@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, AppSettings, SessionEvent, User, UserSession } from './db';
+import { bytesToBase64 } from './credentials';
+
+export const SESSION_TOKEN_STORAGE_KEY = 'sessionToken';
+
+export const DEFAULT_SESSION_POLICY: NonNullable<AppSettings['session']> = {
+  idleTimeoutMinutes: 30,
+  maxSessionHours: 12,
+};
+
+// lastActiveAt is persisted at most this often to avoid a DB write per keystroke.
+export const SESSION_TOUCH_INTERVAL_MS = 60_000;
+
+export type SessionEndReason = NonNullable<UserSession['endReason']>;
+
+export async function getSessionPolicy(): Promise<NonNullable<AppSettings['session']>> {
+  const settings = await db.settings.get('1');
+  return { ...DEFAULT_SESSION_POLICY, ...(settings?.session ?? {}) };
+}
+
+function generateToken(): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Opens a new session for an authenticated user and records the login event.
+ */
+export async function createSession(user: User): Promise<UserSession> {
+  const policy = await getSessionPolicy();
+  const now = Date.now();
+  const session: UserSession = {
+    id: uuidv4(),
+    token: generateToken(),
+    userId: user.id,
+    username: user.username,
+    createdAt: now,
+    lastActiveAt: now,
+    expiresAt: now + policy.maxSessionHours * 60 * 60 * 1000,
+    events: [{ type: 'login', timestamp: now }],
+  };
+  await db.sessions.add(session);
+  return session;
+}
+
+/**
+ * Looks up a stored token and returns the live session together with its user.
+ * Sessions that ended, passed their absolute expiry or sat idle longer than the
+ * configured timeout are closed here and yield null.
+ */
+export async function resolveSession(token: string): Promise<{ session: UserSession; user: User } | null> {
+  if (!token) return null;
+  const session = await db.sessions.where('token').equals(token).first();
+  if (!session || session.endedAt) return null;
+
+  const now = Date.now();
+  if (now >= session.expiresAt) {
+    await endSession(session.id, 'expired');
+    return null;
+  }
+  const policy = await getSessionPolicy();
+  const idleMs = policy.idleTimeoutMinutes * 60 * 1000;
+  if (idleMs > 0 && now - session.lastActiveAt >= idleMs) {
+    await endSession(session.id, 'idle_lock', 'Idle while the app was closed');
+    return null;
+  }
+
+  const user = await db.users.get(session.userId);
+  if (!user) {
+    await endSession(session.id, 'revoked', 'User no longer exists');
+    return null;
+  }
+  return { session, user };
+}
+
+export async function touchSession(sessionId: string, at = Date.now()): Promise<void> {
+  await db.sessions.where('id').equals(sessionId).modify((s) => {
+    if (!s.endedAt && at > s.lastActiveAt) s.lastActiveAt = at;
+  });
+}
+
+export async function endSession(sessionId: string, reason: SessionEndReason, details?: string): Promise<void> {
+  const now = Date.now();
+  const event: SessionEvent = { type: reason, timestamp: now, details };
+  await db.sessions.where('id').equals(sessionId).modify((s) => {
+    if (s.endedAt) return;
+    s.endedAt = now;
+    s.endReason = reason;
+    s.events = [...(s.events || []), event];
+  });
+}
@@ -0,0 +1,236 @@
+import { startOfWeek, addWeeks, format } from 'date-fns';
+import { db, Question } from './db';
+import { AdaptivePracticeModelV1, SkillBreakdownRow, computeSkillBreakdown, loadAdaptivePracticeModel } from './adaptivePractice';
+import { assignPracticeModules, getOpenPracticeModules } from './reviewQueue';
+
+/**
+ * Student progress view: per-skill mastery, weekly trend and the weakest
+ * skills to practise next.
+ *
+ * Skills are the question's own tags (scored by the adaptive model through
+ * `computeSkillBreakdown`) plus the ontology topics found by semantic analysis,
+ * which are scored the same way from the student's answer history.
+ */
+
+export const TARGETED_PRACTICE_MODULE_ID = 'targeted-practice';
+
+// Semantic topics below this match score are too uncertain to credit a skill with.
+const MIN_TOPIC_SCORE = 0.35;
+const MAX_TOPICS_PER_QUESTION = 3;
+// Skills with fewer answers than this are left out of "weakest skills".
+export const MIN_ATTEMPTS_FOR_WEAKEST = 3;
+const TARGETED_PRACTICE_SIZE = 20;
+
+export type SkillSource = 'tag' | 'topic';
+
+export interface SkillRow extends SkillBreakdownRow {
+  source: SkillSource;
+}
+
+export interface SkillWeekCell {
+  attempts: number;
+  accuracy: number; // 0..1
+}
+
+export interface SkillProgressWeek {
+  start: number;
+  label: string;
+  attempts: number;
+  accuracy: number | null; // null when nothing was answered that week
+}
+
+export interface SkillProgress {
+  // Weakest first.
+  skills: SkillRow[];
+  weeks: SkillProgressWeek[];
+  // Skill name -> one cell per entry in `weeks`.
+  heatmap: Record<string, Array<SkillWeekCell | null>>;
+  weakest: SkillRow[];
+}
+
+function skillKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Ontology topics per question from the latest semantic analysis. A saved
+ * override's tags win over the analysis.
+ */
+export async function getSemanticTopicsByQuestion(questionIds: string[]): Promise<Map<string, string[]>> {
+  const topics = new Map<string, string[]>();
+  if (!questionIds.length) return topics;
+
+  const [analyses, overrides] = await Promise.all([
+    db.questionSemanticAnalyses.where('questionId').anyOf(questionIds).toArray(),
+    db.questionSemanticOverrides.where('questionId').anyOf(questionIds).toArray(),
+  ]);
+
+  const latestAnalysis = new Map<string, (typeof analyses)[number]>();
+  for (const a of analyses) {
+    const prev = latestAnalysis.get(a.questionId);
+    if (!prev || a.createdAt > prev.createdAt) latestAnalysis.set(a.questionId, a);
+  }
+  const latestOverride = new Map<string, (typeof overrides)[number]>();
+  for (const o of overrides) {
+    const prev = latestOverride.get(o.questionId);
+    if (!prev || o.updatedAt > prev.updatedAt) latestOverride.set(o.questionId, o);
+  }
+
+  for (const id of questionIds) {
+    const assignments = latestOverride.get(id)?.tags?.applied ?? latestAnalysis.get(id)?.tags ?? [];
+    const names = [...assignments]
+      .filter((t) => Number(t.score) >= MIN_TOPIC_SCORE && t.tagName)
+      .sort((a, b) => a.rank - b.rank)
+      .slice(0, MAX_TOPICS_PER_QUESTION)
+      .map((t) => t.tagName);
+    if (names.length) topics.set(id, names);
+  }
+  return topics;
+}
+
+function skillsForQuestion(question: Question | undefined, topics: string[] | undefined): Array<{ name: string; source: SkillSource }> {
+  const seen = new Set<string>();
+  const out: Array<{ name: string; source: SkillSource }> = [];
+  for (const tag of question?.tags ?? []) {
+    const key = skillKey(tag);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push({ name: tag, source: 'tag' });
+  }
+  for (const topic of topics ?? []) {
+    const key = skillKey(topic);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push({ name: topic, source: 'topic' });
+  }
+  return out;
+}
+
+export async function loadSkillProgress(
+  userId: string,
+  options: { weeks?: number; now?: number } = {},
+): Promise<SkillProgress> {
+  const now = options.now ?? Date.now();
+  const weekCount = Math.max(1, options.weeks ?? 8);
+  const firstWeek = addWeeks(startOfWeek(now, { weekStartsOn: 1 }), -(weekCount - 1));
+  const weekStarts = Array.from({ length: weekCount }, (_, i) => addWeeks(firstWeek, i).getTime());
+  const weekIndex = (ts: number) => {
+    for (let i = weekStarts.length - 1; i >= 0; i--) {
+      if (ts >= weekStarts[i]) return i;
+    }
+    return -1;
+  };
+
+  const [model, attempts] = await Promise.all([
+    loadAdaptivePracticeModel({ userId }),
+    db.attempts.filter((a) => a.userId === userId && a.completed === true).toArray(),
+  ]);
+
+  const answers = attempts.flatMap((a) => a.perQuestionAttempts ?? []).filter((p) => typeof p.isCorrect === 'boolean');
+  const questionIds = Array.from(new Set(answers.map((p) => p.questionId)));
+  const [questions, topicsByQuestion] = await Promise.all([
+    db.questions.bulkGet(questionIds),
+    getSemanticTopicsByQuestion(questionIds),
+  ]);
+  const questionById = new Map<string, Question>();
+  questions.forEach((q) => {
+    if (q) questionById.set(q.id, q);
+  });
+
+  // Topic totals feed the same scoring as the adaptive model's tag stats.
+  const topicStats: AdaptivePracticeModelV1 = { version: 1, updatedAt: now, tags: {}, cards: {} };
+  const weekTotals = weekStarts.map(() => ({ attempts: 0, correct: 0 }));
+  const cells = new Map<string, Array<{ attempts: number; correct: number }>>();
+
+  for (const answer of answers) {
+    const skills = skillsForQuestion(questionById.get(answer.questionId), topicsByQuestion.get(answer.questionId));
+    for (const skill of skills) {
+      if (skill.source !== 'topic') continue;
+      const prev = topicStats.tags[skill.name] ?? { attempts: 0, correct: 0, avgTimeMs: 0 };
+      const n = prev.attempts + 1;
+      topicStats.tags[skill.name] = {
+        attempts: n,
+        correct: prev.correct + (answer.isCorrect ? 1 : 0),
+        avgTimeMs: prev.avgTimeMs + ((answer.timeTakenMs || 0) - prev.avgTimeMs) / n,
+        lastAttemptAt: Math.max(prev.lastAttemptAt ?? 0, answer.timestamp || 0),
+      };
+    }
+
+    const w = weekIndex(answer.timestamp || 0);
+    if (w < 0) continue;
+    weekTotals[w].attempts++;
+    if (answer.isCorrect) weekTotals[w].correct++;
+    for (const skill of skills) {
+      const key = skillKey(skill.name);
+      let weeks = cells.get(key);
+      if (!weeks) {
+        weeks = weekStarts.map(() => ({ attempts: 0, correct: 0 }));
+        cells.set(key, weeks);
+      }
+      weeks[w].attempts++;
+      if (answer.isCorrect) weeks[w].correct++;
+    }
+  }
+
+  const tagRows: SkillRow[] = computeSkillBreakdown(model).map((row) => ({ ...row, source: 'tag' }));
+  const tagKeys = new Set(tagRows.map((row) => skillKey(row.tag)));
+  const topicRows: SkillRow[] = computeSkillBreakdown(topicStats)
+    .filter((row) => !tagKeys.has(skillKey(row.tag)))
+    .map((row) => ({ ...row, source: 'topic' }));
+  const skills = [...tagRows, ...topicRows].sort((a, b) => a.score - b.score);
+
+  const heatmap: SkillProgress['heatmap'] = {};
+  for (const row of skills) {
+    const weeks = cells.get(skillKey(row.tag));
+    heatmap[row.tag] = weekStarts.map((_, i) => {
+      const c = weeks?.[i];
+      return c && c.attempts > 0 ? { attempts: c.attempts, accuracy: c.correct / c.attempts } : null;
+    });
+  }
+
+  return {
+    skills,
+    weeks: weekStarts.map((start, i) => ({
+      start,
+      label: format(start, 'd MMM'),
+      attempts: weekTotals[i].attempts,
+      accuracy: weekTotals[i].attempts > 0 ? weekTotals[i].correct / weekTotals[i].attempts : null,
+    })),
+    heatmap,
+    weakest: skills.filter((row) => row.attempts >= MIN_ATTEMPTS_FOR_WEAKEST).slice(0, 5),
+  };
+}
+
+/**
+ * Questions from the student's open practice modules that exercise any of
+ * the given skills, best matches first. Each comes with the module its
+ * answer is recorded against, like the review queue.
+ */
+export async function getTargetedPracticeItems(userId: string, skills: string[], now: number = Date.now()) {
+  const wanted = new Set(skills.map(skillKey).filter(Boolean));
+  if (!wanted.size) return [];
+
+  const modules = await getOpenPracticeModules(userId, now);
+  if (!modules.length) return [];
+  const [listed, linked] = await Promise.all([
+    db.questions.bulkGet(Array.from(new Set(modules.flatMap((m) => m.questionIds ?? [])))),
+    db.questions.where('modules').anyOf(modules.map((m) => m.id)).toArray(),
+  ]);
+  const pool = new Map<string, Question>();
+  for (const q of [...listed, ...linked]) {
+    if (q) pool.set(q.id, q);
+  }
+  const topicsByQuestion = await getSemanticTopicsByQuestion(Array.from(pool.keys()));
+
+  const ranked = Array.from(pool.values())
+    .map((question) => ({
+      question,
+      matches: skillsForQuestion(question, topicsByQuestion.get(question.id)).filter((s) => wanted.has(skillKey(s.name))).length,
+    }))
+    .filter((entry) => entry.matches > 0)
+    .sort((a, b) => b.matches - a.matches)
+    .map((entry) => entry.question);
+
+  const assigned = await assignPracticeModules(userId, ranked, now);
+  return assigned.slice(0, TARGETED_PRACTICE_SIZE);
+}
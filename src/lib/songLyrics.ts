@@ -0,0 +1,98 @@
+import type { SongSrtCue } from './db';
+
+/**
+ * Helpers for timed song lyrics (the `songSrtCues` imported from .srt/.lrc files).
+ * Cues are expected sorted by startMs, which is how they are stored (cueIndex order).
+ */
+
+/** Index of the cue playing at `positionMs`, or -1 between cues and outside the song. */
+export function findActiveCueIndex(cues: Pick<SongSrtCue, 'startMs' | 'endMs'>[], positionMs: number): number {
+  // Last cue that has started; binary search since this runs on every timeupdate.
+  let lo = 0;
+  let hi = cues.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (cues[mid].startMs <= positionMs) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found >= 0 && positionMs < cues[found].endMs ? found : -1;
+}
+
+/** Inclusive cue range [from, to] in ms, for the A-B practice loop. */
+export function getCueRangeMs(cues: Pick<SongSrtCue, 'startMs' | 'endMs'>[], from: number, to: number) {
+  const first = cues[Math.min(from, to)];
+  const last = cues[Math.max(from, to)];
+  if (!first || !last) return null;
+  return { startMs: first.startMs, endMs: Math.max(first.startMs, last.endMs) };
+}
+
+export type TimedLyricCue = Pick<SongSrtCue, 'startMs' | 'endMs' | 'text'>;
+
+// Cues built from taps have no end of their own; the last one holds for this long.
+export const LAST_CUE_HOLD_MS = 2500;
+
+/** Non-empty lyric lines, the units stamped by the tap-to-time editor. */
+export function splitLyricLines(lyrics: string): string[] {
+  return lyrics
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Cues from tapped start times: each stamped line runs until the next stamped one starts.
+ * Lines without a stamp are left out; the result is in start order and keeps each cue's line.
+ */
+export function buildCuesFromStamps(
+  lines: string[],
+  startsMs: Array<number | null>,
+  durationMs?: number
+): Array<TimedLyricCue & { lineIndex: number }> {
+  const stamped = lines
+    .map((text, lineIndex) => ({ text, lineIndex, startMs: startsMs[lineIndex] }))
+    .filter((c): c is { text: string; lineIndex: number; startMs: number } => typeof c.startMs === 'number' && Number.isFinite(c.startMs))
+    .map((c) => ({ ...c, startMs: Math.max(0, Math.round(c.startMs)) }))
+    .sort((a, b) => a.startMs - b.startMs);
+  return stamped.map((c, i) => {
+    const next = stamped[i + 1];
+    let endMs = next ? next.startMs : c.startMs + LAST_CUE_HOLD_MS;
+    if (!next && durationMs && durationMs > c.startMs) endMs = Math.min(endMs, durationMs);
+    return { startMs: c.startMs, endMs: Math.max(c.startMs, endMs), text: c.text, lineIndex: c.lineIndex };
+  });
+}
+
+function pad(value: number, width = 2) {
+  return String(value).padStart(width, '0');
+}
+
+/** `mm:ss.xx`, as used in .lrc time tags. */
+export function formatLrcTime(ms: number): string {
+  const cs = Math.floor(Math.max(0, ms) / 10);
+  return `${pad(Math.floor(cs / 6000))}:${pad(Math.floor(cs / 100) % 60)}.${pad(cs % 100)}`;
+}
+
+/** `hh:mm:ss,mmm`, as used in .srt time lines. */
+export function formatSrtTime(ms: number): string {
+  const t = Math.floor(Math.max(0, ms));
+  return `${pad(Math.floor(t / 3600000))}:${pad(Math.floor(t / 60000) % 60)}:${pad(Math.floor(t / 1000) % 60)},${pad(t % 1000, 3)}`;
+}
+
+export function formatLrc(cues: TimedLyricCue[], meta: { title?: string; artist?: string } = {}): string {
+  const lines: string[] = [];
+  if (meta.title) lines.push(`[ti:${meta.title}]`);
+  if (meta.artist) lines.push(`[ar:${meta.artist}]`);
+  for (const cue of cues) lines.push(`[${formatLrcTime(cue.startMs)}]${cue.text.replace(/\s*\n\s*/g, ' ')}`);
+  return `${lines.join('\n')}\n`;
+}
+
+export function formatSrt(cues: TimedLyricCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatSrtTime(cue.startMs)} --> ${formatSrtTime(cue.endMs)}\n${cue.text}\n`)
+    .join('\n');
+}
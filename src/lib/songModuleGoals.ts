@@ -0,0 +1,161 @@
+import { db, SongListeningEvent, SongModule, SongModuleGoals } from './db';
+
+/**
+ * Listening goals for song modules. A student has completed a module when every song has
+ * been listened to for at least `minSongPercent` of its length and (if required) had its
+ * lyrics scrolled through, and today's listening reaches `minMinutesPerDay`. Students whose
+ * songs are still unfinished after `dueDate` are overdue; the daily minutes alone never make
+ * anyone overdue, since they start again each day.
+ *
+ * Progress is derived from `songListeningEvents`, the same rows the listening report reads.
+ */
+
+export type SongModuleCompletionState = 'not_started' | 'in_progress' | 'complete' | 'overdue';
+
+export const SONG_MODULE_STATE_LABELS: Record<SongModuleCompletionState, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  complete: 'Complete',
+  overdue: 'Overdue',
+};
+
+export interface SongGoalProgress {
+  songId: string;
+  listenedMs: number;
+  durationSec?: number; // longest duration seen in the events; unknown until the song is played
+  percent: number; // 0..100, capped
+  listenedMet: boolean;
+  lyricsMet: boolean;
+}
+
+export interface SongModuleProgress {
+  state: SongModuleCompletionState;
+  songs: SongGoalProgress[];
+  songsDone: number;
+  todayMs: number;
+  dailyMet: boolean;
+  complete: boolean;
+  overdue: boolean;
+}
+
+/** Event dates are UTC days, so "today" is too. */
+export function goalDayKey(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export function hasSongModuleGoals(goals?: SongModuleGoals): boolean {
+  if (!goals) return false;
+  return !!goals.minSongPercent || !!goals.minMinutesPerDay || goals.requireLyricsScroll === true || !!goals.dueDate;
+}
+
+/** Drops empty or out-of-range fields; undefined when nothing is left to store. */
+export function normalizeSongModuleGoals(goals: SongModuleGoals): SongModuleGoals | undefined {
+  const out: SongModuleGoals = {};
+  const percent = Number(goals.minSongPercent);
+  if (Number.isFinite(percent) && percent > 0) out.minSongPercent = Math.min(100, Math.round(percent));
+  const minutes = Number(goals.minMinutesPerDay);
+  if (Number.isFinite(minutes) && minutes > 0) out.minMinutesPerDay = Math.round(minutes);
+  if (goals.requireLyricsScroll) out.requireLyricsScroll = true;
+  if (goals.dueDate && /^\d{4}-\d{2}-\d{2}$/.test(goals.dueDate)) out.dueDate = goals.dueDate;
+  return hasSongModuleGoals(out) ? out : undefined;
+}
+
+/** One student's progress; `events` should be that student's events for this module. */
+export function computeSongModuleProgress(
+  module: Pick<SongModule, 'songIds' | 'goals'>,
+  events: SongListeningEvent[],
+  today = goalDayKey()
+): SongModuleProgress {
+  const goals = module.goals ?? {};
+  const songIds = module.songIds || [];
+  const bySong = new Map<string, SongGoalProgress>(
+    songIds.map((songId) => [songId, { songId, listenedMs: 0, percent: 0, listenedMet: false, lyricsMet: false }])
+  );
+  let todayMs = 0;
+  let started = false;
+  for (const e of events) {
+    const song = bySong.get(e.songId);
+    if (!song) continue;
+    started = true;
+    const listened = Math.max(0, e.listenedMs ?? 0);
+    song.listenedMs += listened;
+    if (e.date === today) todayMs += listened;
+    if (typeof e.songDurationSec === 'number' && e.songDurationSec > 0) {
+      song.durationSec = Math.max(song.durationSec ?? 0, e.songDurationSec);
+    }
+    // Lyrics short enough to fit on screen cannot be scrolled, so viewing them counts.
+    if (e.didScrollLyrics === true || (e.eventType === 'view_end' && e.lyricsScrollable === false)) song.lyricsMet = true;
+  }
+  for (const song of bySong.values()) {
+    song.percent = song.durationSec ? Math.min(100, (song.listenedMs / (song.durationSec * 1000)) * 100) : 0;
+    song.listenedMet = !goals.minSongPercent || song.percent >= goals.minSongPercent;
+    if (!goals.requireLyricsScroll) song.lyricsMet = true;
+  }
+  const songs = Array.from(bySong.values());
+  const songsDone = songs.filter((s) => s.listenedMet && s.lyricsMet).length;
+  const songGoalsMet = songsDone === songs.length;
+  const dailyMet = !goals.minMinutesPerDay || todayMs >= goals.minMinutesPerDay * 60_000;
+  const complete = songGoalsMet && dailyMet;
+  const overdue = !!goals.dueDate && today > goals.dueDate && !songGoalsMet;
+  const state: SongModuleCompletionState = complete ? 'complete' : overdue ? 'overdue' : started ? 'in_progress' : 'not_started';
+  return { state, songs, songsDone, todayMs, dailyMet, complete, overdue };
+}
+
+/** Short progress line, e.g. "3 of 5 songs done · 12 of 20 min today · due 2026-11-01". */
+export function describeSongModuleProgress(goals: SongModuleGoals, progress: SongModuleProgress): string {
+  const parts: string[] = [];
+  if (goals.minSongPercent || goals.requireLyricsScroll) parts.push(`${progress.songsDone} of ${progress.songs.length} songs done`);
+  if (goals.minMinutesPerDay) parts.push(`${Math.floor(progress.todayMs / 60_000)} of ${goals.minMinutesPerDay} min today`);
+  if (goals.dueDate) parts.push(`due ${goals.dueDate}`);
+  return parts.join(' · ');
+}
+
+/** Progress for each of `modules` that has goals, keyed by module id, for one student. */
+export async function getUserSongModuleProgress(
+  modules: SongModule[],
+  user: { id?: string; username?: string }
+): Promise<Record<string, SongModuleProgress>> {
+  const withGoals = modules.filter((m) => hasSongModuleGoals(m.goals));
+  if (!withGoals.length || (!user.id && !user.username)) return {};
+  const events = user.id
+    ? await db.songListeningEvents.where('userId').equals(user.id).toArray()
+    : await db.songListeningEvents.filter((e) => !e.userId && e.username === user.username).toArray();
+  const today = goalDayKey();
+  const out: Record<string, SongModuleProgress> = {};
+  for (const m of withGoals) {
+    out[m.id] = computeSongModuleProgress(m, events.filter((e) => e.songModuleId === m.id), today);
+  }
+  return out;
+}
+
+export interface OverdueAssignment {
+  moduleId: string;
+  userId: string;
+  progress: SongModuleProgress;
+}
+
+/** Assigned students past a module's due date without its songs finished, oldest due date first. */
+export function findOverdueAssignments(
+  modules: SongModule[],
+  events: SongListeningEvent[],
+  today = goalDayKey()
+): OverdueAssignment[] {
+  const eventsByModuleUser = new Map<string, SongListeningEvent[]>();
+  for (const e of events) {
+    if (!e.userId) continue;
+    const key = `${e.songModuleId}__${e.userId}`;
+    const list = eventsByModuleUser.get(key);
+    if (list) list.push(e);
+    else eventsByModuleUser.set(key, [e]);
+  }
+  const out: OverdueAssignment[] = [];
+  for (const m of modules) {
+    if (m.visible === false || !m.goals?.dueDate || today <= m.goals.dueDate) continue;
+    for (const userId of m.assignedUserIds || []) {
+      const progress = computeSongModuleProgress(m, eventsByModuleUser.get(`${m.id}__${userId}`) || [], today);
+      if (progress.overdue) out.push({ moduleId: m.id, userId, progress });
+    }
+  }
+  const dueOf = new Map(modules.map((m) => [m.id, m.goals?.dueDate || '']));
+  return out.sort((a, b) => dueOf.get(a.moduleId)!.localeCompare(dueOf.get(b.moduleId)!));
+}
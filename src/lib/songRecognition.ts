@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, SongRecognitionRound } from './db';
+
+/**
+ * Song recognition history: every checked answer is a `songRecognitionRounds` row, so the
+ * game resumes at the student's difficulty without replaying snippets they have heard, and
+ * admins can see which songs students can and cannot identify.
+ */
+
+export const MAX_DIFFICULTY_LEVEL = 2;
+// Difficulty goes up after this many correct answers within the last RECENT_WINDOW rounds.
+export const LEVEL_UP_CORRECT = 8;
+export const RECENT_WINDOW = 10;
+// Snippets remembered per student so a new session doesn't replay recent ones.
+const REMEMBERED_SNIPPETS = 200;
+// Songs identified less often than this (with enough rounds) are reported as "not recognised".
+export const WEAK_SONG_ACCURACY = 0.5;
+export const MIN_ROUNDS_FOR_VERDICT = 3;
+
+export type NewSongRecognitionRound = Omit<SongRecognitionRound, 'id' | 'createdAt'>;
+
+export interface RecognitionStreaks {
+  current: number;
+  best: number;
+}
+
+export interface ResumedRecognitionState {
+  difficultyLevel: number;
+  usedSnippetKeys: string[];
+  // Outcomes at the current difficulty since it was reached, oldest first.
+  recentOutcomes: boolean[];
+  streaks: RecognitionStreaks;
+  rounds: number;
+  correct: number;
+}
+
+export interface SongRecognitionSummary {
+  songId: string;
+  rounds: number;
+  correct: number;
+  accuracy: number; // 0..1
+  avgResponseMs: number;
+  students: number;
+  lastAt: number;
+  // The wrong answer given most often for this song, if any.
+  mostConfusedWith?: { songId: string; count: number };
+}
+
+export interface StudentRecognitionSummary {
+  userId: string;
+  username?: string;
+  rounds: number;
+  correct: number;
+  accuracy: number;
+  streaks: RecognitionStreaks;
+  difficultyLevel: number;
+  lastAt: number;
+}
+
+export async function recordRecognitionRound(round: NewSongRecognitionRound): Promise<SongRecognitionRound> {
+  const row: SongRecognitionRound = { ...round, id: uuidv4(), createdAt: Date.now() };
+  await db.songRecognitionRounds.add(row);
+  return row;
+}
+
+/** A student's rounds, oldest first. */
+export function getUserRecognitionRounds(userId: string): Promise<SongRecognitionRound[]> {
+  return db.songRecognitionRounds
+    .where('[userId+createdAt]')
+    .between([userId, -Infinity], [userId, Infinity])
+    .toArray();
+}
+
+/** Current run of correct answers (ending at the latest round) and the longest one. */
+export function computeStreaks(rounds: Pick<SongRecognitionRound, 'correct'>[]): RecognitionStreaks {
+  let best = 0;
+  let run = 0;
+  for (const r of rounds) {
+    run = r.correct ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+  return { current: run, best };
+}
+
+/**
+ * Applies one answer to the difficulty ladder. The window of outcomes restarts whenever
+ * the level goes up, as it does in the game.
+ */
+export function nextDifficulty(level: number, outcomes: boolean[], correct: boolean) {
+  const next = [...outcomes, correct].slice(-RECENT_WINDOW);
+  if (next.filter(Boolean).length < LEVEL_UP_CORRECT) return { level, outcomes: next, leveledUp: false };
+  const leveledUp = level < MAX_DIFFICULTY_LEVEL;
+  return { level: leveledUp ? level + 1 : level, outcomes: [] as boolean[], leveledUp };
+}
+
+/** Replays a student's history (oldest first) to where their next session should start. */
+export function resumeRecognitionState(rounds: SongRecognitionRound[]): ResumedRecognitionState {
+  let level = 0;
+  let outcomes: boolean[] = [];
+  for (const r of rounds) {
+    ({ level, outcomes } = nextDifficulty(level, outcomes, r.correct));
+  }
+  return {
+    difficultyLevel: level,
+    usedSnippetKeys: rounds
+      .map((r) => r.snippetKey)
+      .filter((k): k is string => typeof k === 'string' && k.length > 0)
+      .slice(-REMEMBERED_SNIPPETS),
+    recentOutcomes: outcomes,
+    streaks: computeStreaks(rounds),
+    rounds: rounds.length,
+    correct: rounds.filter((r) => r.correct).length,
+  };
+}
+
+/** Per-song accuracy over all rounds, least recognised first. */
+export function summarizeRoundsBySong(rounds: SongRecognitionRound[]): SongRecognitionSummary[] {
+  const bySong = new Map<string, SongRecognitionRound[]>();
+  for (const r of rounds) {
+    const list = bySong.get(r.songId);
+    if (list) list.push(r);
+    else bySong.set(r.songId, [r]);
+  }
+  const summaries: SongRecognitionSummary[] = [];
+  for (const [songId, list] of bySong) {
+    const correct = list.filter((r) => r.correct).length;
+    const confusions = new Map<string, number>();
+    for (const r of list) {
+      if (!r.correct && r.guessSongId) confusions.set(r.guessSongId, (confusions.get(r.guessSongId) || 0) + 1);
+    }
+    let mostConfusedWith: SongRecognitionSummary['mostConfusedWith'];
+    for (const [guess, count] of confusions) {
+      if (!mostConfusedWith || count > mostConfusedWith.count) mostConfusedWith = { songId: guess, count };
+    }
+    summaries.push({
+      songId,
+      rounds: list.length,
+      correct,
+      accuracy: correct / list.length,
+      avgResponseMs: list.reduce((sum, r) => sum + (r.responseMs || 0), 0) / list.length,
+      students: new Set(list.map((r) => r.userId)).size,
+      lastAt: list.reduce((latest, r) => Math.max(latest, r.createdAt), 0),
+      mostConfusedWith,
+    });
+  }
+  return summaries.sort((a, b) => a.accuracy - b.accuracy || b.rounds - a.rounds);
+}
+
+/** Per-student totals, streaks and current difficulty. `rounds` must be oldest first. */
+export function summarizeRoundsByStudent(rounds: SongRecognitionRound[]): StudentRecognitionSummary[] {
+  const byUser = new Map<string, SongRecognitionRound[]>();
+  for (const r of rounds) {
+    const list = byUser.get(r.userId);
+    if (list) list.push(r);
+    else byUser.set(r.userId, [r]);
+  }
+  return Array.from(byUser, ([userId, list]) => {
+    const state = resumeRecognitionState(list);
+    return {
+      userId,
+      username: list[list.length - 1]?.username,
+      rounds: state.rounds,
+      correct: state.correct,
+      accuracy: state.correct / state.rounds,
+      streaks: state.streaks,
+      difficultyLevel: state.difficultyLevel,
+      lastAt: list[list.length - 1]?.createdAt ?? 0,
+    };
+  }).sort((a, b) => (a.username || a.userId).localeCompare(b.username || b.userId));
+}
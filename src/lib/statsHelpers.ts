@@ -1,6 +1,8 @@
-import { db, Attempt, Module } from './db';
+import { db, Attempt, Module, Question } from './db';
 import { DailyStats, DailyStatsSummary } from './statsTypes';
 import { v4 as uuidv4 } from 'uuid';
+import { countCorrect } from './grading';
+import { applyOptionOrder } from './paperVariants';
 
 export type { DailyStats, DailyStatsSummary };
 
@@ -9,7 +11,7 @@ export async function recordDailyStats(attempt: Attempt, module: Module): Promis
   const date = new Date(attempt.endedAt ?? attempt.startedAt).toISOString().slice(0, 10);
   const existing = await db.dailyStats.where('[date+moduleId]').equals([date, module.id]).first();
   const questionsDone = attempt.perQuestionAttempts.length;
-  const totalCorrect = attempt.perQuestionAttempts.filter((a) => a.isCorrect).length;
+  const totalCorrect = countCorrect(attempt.perQuestionAttempts);
   const totalTimeMs = attempt.durationMs ?? 0;
   const questionIds = attempt.perQuestionAttempts.map((a) => a.questionId);
   if (existing) {
@@ -98,13 +100,15 @@ export type DayQuestionDetail = {
   moduleId: string;
   moduleTitle: string;
   moduleType?: 'exam' | 'practice';
+  sectionTitle?: string; // Sectioned exams: the section this question was served in
   userAnswer: string;
   correctAnswer: string;
   isCorrect?: boolean;
+  scorePercent?: number; // Partial credit as graded under the module's policy
   explanationHtml?: string;
   startedAt: number;
   submittedAt: number;
-  questionOptions?: Array<{ id: string; text: string }>; // For MCQ questions
+  questionOptions?: Array<{ id: string; text: string }>; // For MCQ questions, in the order the student saw them
   userAnswerIds?: string | string[]; // User's selected option IDs for MCQ, or ordered rightIds for matching
   correctAnswerIds?: string[]; // Correct option IDs for MCQ, or correct rightIds for matching
   questionMatching?: { // For matching questions
@@ -122,6 +126,7 @@ export type DayQuestionDetail = {
       correct: string;
     }[];
     userAnswers?: string[]; // User's answers for each blank
+    answerMatching?: Question['answerMatching'];
   };
   // Optional student info for this attempt
   userId?: string;
@@ -202,7 +207,7 @@ export async function getDailyStatsSummaryForModuleAndUsers(
 		(sum, a) =>
 			sum +
 			(a.perQuestionAttempts
-				? a.perQuestionAttempts.filter((p) => p.isCorrect).length
+				? countCorrect(a.perQuestionAttempts)
 				: 0),
 		0,
 	);
@@ -369,13 +374,16 @@ export async function getDayQuestionDetails(
         moduleId: a.moduleId,
         moduleTitle: mod?.title ?? 'Unknown',
         moduleType: mod?.type,
+        sectionTitle: a.sectionPlan?.find((s) => s.questionIds.includes(p.questionId))?.title,
         userAnswer,
         correctAnswer,
         isCorrect,
+        scorePercent: p.status === 'unattempted' ? undefined : p.scorePercent,
         explanationHtml: q?.explanation,
         startedAt,
         submittedAt,
-        questionOptions: q?.type === 'mcq' ? q.options : undefined,
+        // Options in the order this student saw them when the paper shuffled them
+        questionOptions: q?.type === 'mcq' ? applyOptionOrder(q, a.optionOrder).options : undefined,
         userAnswerIds,
         correctAnswerIds: q?.type === 'matching' ? q.matching?.pairs.map(p => p.rightId) : q?.correctAnswers,
         questionMatching: q?.type === 'matching' ? q.matching : undefined,
@@ -383,6 +391,7 @@ export async function getDayQuestionDetails(
           ? {
               blanks: q.fillBlanks?.blanks || [],
               userAnswers: userAnswersArray,
+              answerMatching: q.answerMatching,
             }
           : undefined,
         userId,
@@ -0,0 +1,174 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, AppSettings, Question, TutorChatMessage, TutorConversation } from './db';
+import { extractPlainText } from './semanticUtils';
+
+/**
+ * Offline tutor chat: conversations are kept in the tutorConversations table
+ * and answered by the local model behind window.offlineAi.
+ */
+
+export type TutorChatSettings = NonNullable<AppSettings['tutorChat']>;
+
+export const DEFAULT_TUTOR_CHAT_SETTINGS: TutorChatSettings = {
+  enabled: true,
+  disableDuringExams: true,
+};
+
+// Prompt history sent to the model; older turns stay in the conversation but are not replayed.
+const MAX_HISTORY_MESSAGES = 12;
+const MAX_CONTEXT_CHARS = 4000;
+
+const TUTOR_SYSTEM_PROMPT =
+  'You are an offline tutor. Use KaTeX-friendly LaTeX: inline $...$ and display $$...$$. Be concise, correct, and helpful.';
+
+export function getTutorChatSettings(settings?: AppSettings | null): TutorChatSettings {
+  return { ...DEFAULT_TUTOR_CHAT_SETTINGS, ...(settings?.tutorChat ?? {}) };
+}
+
+/**
+ * Why the tutor is unavailable for this user right now, or null when it can be used.
+ * Admins are never blocked by the exam rule.
+ */
+export async function getTutorChatBlockReason(
+  userId: string | undefined,
+  isAdmin: boolean,
+  now: number = Date.now(),
+): Promise<'disabled' | 'exam_running' | null> {
+  const cfg = getTutorChatSettings(await db.settings.get('1'));
+  if (!cfg.enabled) return 'disabled';
+  if (isAdmin || !cfg.disableDuringExams || !userId) return null;
+
+  const exams = await db.modules.where('type').equals('exam').toArray();
+  const inWindow = exams.some(
+    (m) =>
+      Array.isArray(m.assignedUserIds) &&
+      m.assignedUserIds.includes(userId) &&
+      typeof m.scheduledStartUtc === 'number' &&
+      typeof m.scheduledEndUtc === 'number' &&
+      now >= m.scheduledStartUtc &&
+      now < m.scheduledEndUtc,
+  );
+  if (inWindow) return 'exam_running';
+
+  // Unscheduled exams count as running while the student has an unfinished attempt.
+  const openEnded = new Set(exams.filter((m) => !m.scheduledEndUtc || now < m.scheduledEndUtc).map((m) => m.id));
+  if (!openEnded.size) return null;
+  const unfinished = await db.attempts
+    .where('type')
+    .equals('exam')
+    .filter((a) => a.userId === userId && a.completed !== true && openEnded.has(a.moduleId))
+    .count();
+  return unfinished > 0 ? 'exam_running' : null;
+}
+
+function truncate(text: string, max: number): string {
+  const t = text.replace(/\s+/g, ' ').trim();
+  return t.length > max ? `${t.slice(0, max)}…` : t;
+}
+
+/**
+ * Why a student may not start a conversation about this question, or null when they may.
+ * Exam questions are never discussed, and practice questions only once the student has
+ * answered them, since the tutor is given the answer key.
+ */
+export async function getTutorQuestionBlockReason(
+  question: Pick<Question, 'id' | 'modules'>,
+  userId: string | undefined,
+  isAdmin: boolean,
+): Promise<'exam_question' | 'not_answered' | null> {
+  if (isAdmin) return null;
+  const exams = await db.modules.where('type').equals('exam').toArray();
+  const inExam = exams.some(
+    (m) => (question.modules ?? []).includes(m.id) || (m.questionIds ?? []).includes(question.id),
+  );
+  if (inExam) return 'exam_question';
+  if (!userId) return 'not_answered';
+  const answered = await db.attempts
+    .where('type')
+    .equals('practice')
+    .filter(
+      (a) =>
+        a.userId === userId &&
+        (a.perQuestionAttempts ?? []).some((p) => p.questionId === question.id && p.status !== 'unattempted'),
+    )
+    .count();
+  return answered > 0 ? null : 'not_answered';
+}
+
+// What the student sees: the stem and the options, never which ones are correct.
+export function buildQuestionContext(question: Question, moduleId?: string): NonNullable<TutorConversation['context']> {
+  const lines = [extractPlainText(question.text)];
+  if (question.type === 'mcq' && question.options?.length) {
+    question.options.forEach((opt, i) => {
+      lines.push(`${String.fromCharCode(65 + i)}. ${extractPlainText(opt.text)}`);
+    });
+  }
+  return {
+    questionId: question.id,
+    moduleId,
+    questionText: truncate(lines.join('\n'), MAX_CONTEXT_CHARS),
+    explanation: question.explanation ? truncate(extractPlainText(question.explanation), MAX_CONTEXT_CHARS) : undefined,
+  };
+}
+
+// The answer key, for the model prompt only; it is never stored on the conversation.
+function buildAnswerKey(question: Question): string | undefined {
+  if (question.type === 'mcq' && question.options?.length && question.correctAnswers?.length) {
+    const letters = question.options
+      .map((opt, i) => (question.correctAnswers?.includes(opt.id) ? String.fromCharCode(65 + i) : ''))
+      .filter(Boolean);
+    return letters.length ? `Correct option${letters.length > 1 ? 's' : ''}: ${letters.join(', ')}` : undefined;
+  }
+  if (question.type === 'text' && question.correctAnswers?.length) {
+    return `Accepted answer: ${question.correctAnswers.join(' / ')}`;
+  }
+  return undefined;
+}
+
+export async function createTutorConversation(params: {
+  userId?: string;
+  context?: TutorConversation['context'];
+}): Promise<TutorConversation> {
+  const now = Date.now();
+  const conversation: TutorConversation = {
+    id: uuidv4(),
+    userId: params.userId,
+    title: params.context ? truncate(params.context.questionText, 60) : 'New conversation',
+    createdAt: now,
+    updatedAt: now,
+    context: params.context,
+    messages: [],
+  };
+  await db.tutorConversations.add(conversation);
+  return conversation;
+}
+
+export async function appendTutorMessage(conversationId: string, message: Omit<TutorChatMessage, 'createdAt'>): Promise<TutorConversation | undefined> {
+  const entry: TutorChatMessage = { ...message, createdAt: Date.now() };
+  await db.tutorConversations
+    .where('id')
+    .equals(conversationId)
+    .modify((c) => {
+      c.messages = [...(c.messages ?? []), entry];
+      c.updatedAt = entry.createdAt;
+      if (message.role === 'user' && !c.context && c.messages.filter((m) => m.role === 'user').length === 1) {
+        c.title = truncate(message.content, 60);
+      }
+    });
+  return db.tutorConversations.get(conversationId);
+}
+
+/** `question` is the context's question, loaded fresh so its answer key can be included. */
+export function buildTutorSystemPrompt(conversation: Pick<TutorConversation, 'context'>, question?: Question): string {
+  const ctx = conversation.context;
+  if (!ctx) return TUTOR_SYSTEM_PROMPT;
+  const parts = [TUTOR_SYSTEM_PROMPT, '', 'The student is asking about this question:', ctx.questionText];
+  const answerKey = question && question.id === ctx.questionId ? buildAnswerKey(question) : undefined;
+  if (answerKey) parts.push(answerKey);
+  if (ctx.explanation) parts.push('', 'Explanation provided with the question:', ctx.explanation);
+  return parts.join('\n');
+}
+
+export function getTutorPromptMessages(conversation: Pick<TutorConversation, 'messages'>): Array<Pick<TutorChatMessage, 'role' | 'content'>> {
+  return (conversation.messages ?? []).slice(-MAX_HISTORY_MESSAGES).map((m) => ({ role: m.role, content: m.content }));
+}
@@ -1,102 +1,165 @@
-import { useCallback, useMemo, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Plus, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { prepareContentForDisplay } from '@/lib/contentFormatting';
-
-type ChatMsg = { role: 'user' | 'assistant'; content: string };
+import { TutorChatPanel } from '@/components/TutorChatPanel';
+import { useAuth } from '@/contexts/AuthContext';
+import { db, TutorConversation } from '@/lib/db';
+import { cn } from '@/lib/utils';
+import {
+	buildQuestionContext,
+	createTutorConversation,
+	getTutorChatBlockReason,
+	getTutorQuestionBlockReason,
+} from '@/lib/tutorChat';
 
+// `/chat?questionId=...&moduleId=...` starts a conversation about that question.
 export default function Chat() {
-	const [input, setInput] = useState('');
-	const [loading, setLoading] = useState(false);
-	const [messages, setMessages] = useState<ChatMsg[]>([]);
+	const { user, isAdmin } = useAuth();
+	const [searchParams, setSearchParams] = useSearchParams();
+	const [activeId, setActiveId] = useState<string | null>(null);
+	const [blockReason, setBlockReason] = useState<'disabled' | 'exam_running' | null | undefined>(undefined);
+	const handledQuestionRef = useRef<string | null>(null);
+
+	const conversations =
+		useLiveQuery(async () => {
+			if (!user?.id) return [] as TutorConversation[];
+			const rows = await db.tutorConversations.where('userId').equals(user.id).toArray();
+			return rows.sort((a, b) => b.updatedAt - a.updatedAt);
+		}, [user?.id]) ?? [];
 
-	const canUseOfflineChat = useMemo(() => {
-		return !!window.offlineAi && typeof window.offlineAi.chat === 'function' && typeof window.offlineAi.reasoningStatus === 'function';
-	}, []);
+	useEffect(() => {
+		let cancelled = false;
+		getTutorChatBlockReason(user?.id, isAdmin)
+			.then((reason) => {
+				if (!cancelled) setBlockReason(reason);
+			})
+			.catch((e) => {
+				console.error('Failed to check tutor chat availability', e);
+				if (!cancelled) setBlockReason(null);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [user?.id, isAdmin]);
 
-	const send = useCallback(async () => {
-		const msg = input.trim();
-		if (!msg) return;
-		setInput('');
-		setLoading(true);
-		try {
-			const api = window.offlineAi;
-			if (!api || typeof api.chat !== 'function' || typeof api.reasoningStatus !== 'function') {
-				toast.error('Local chat is only available in the Electron app');
+	const questionId = searchParams.get('questionId');
+	const moduleId = searchParams.get('moduleId') ?? undefined;
+
+	useEffect(() => {
+		if (!questionId || blockReason !== null || handledQuestionRef.current === questionId) return;
+		handledQuestionRef.current = questionId;
+		(async () => {
+			const question = await db.questions.get(questionId);
+			if (!question) {
+				toast.error('Question not found');
 				return;
 			}
-			const st = await api.reasoningStatus();
-			if (!st.available) {
-				toast.error(`Local chat unavailable: ${st.reason}`);
+			const questionBlock = await getTutorQuestionBlockReason(question, user?.id, isAdmin);
+			if (questionBlock) {
+				toast.error(
+					questionBlock === 'exam_question'
+						? 'The tutor cannot discuss exam questions.'
+						: 'Answer this question in practice first, then ask the tutor about it.'
+				);
+				setSearchParams({}, { replace: true });
 				return;
 			}
+			const conversation = await createTutorConversation({ userId: user?.id, context: buildQuestionContext(question, moduleId) });
+			setActiveId(conversation.id);
+			setSearchParams({}, { replace: true });
+		})().catch((e) => {
+			console.error(e);
+			toast.error('Could not start the conversation');
+		});
+	}, [questionId, moduleId, blockReason, user?.id, isAdmin, setSearchParams]);
 
-			const system =
-				'You are an offline tutor. Use KaTeX-friendly LaTeX: inline $...$ and display $$...$$. Be concise, correct, and helpful.';
+	const activeConversation = conversations.find((c) => c.id === activeId) ?? (activeId ? undefined : conversations[0]);
+	const activeConversationId = activeConversation?.id ?? activeId;
 
-			const next = [...messages, { role: 'user', content: msg } as const];
-			setMessages(next);
-			const res = await api.chat({
-				system,
-				messages: next,
-				maxTokens: 700,
-				temperature: 0.7,
-				seed: 0,
-			});
-			setMessages([...next, { role: 'assistant', content: res.text || '' }]);
-		} catch (e) {
-			console.error(e);
-			toast.error('Chat failed');
-		} finally {
-			setLoading(false);
-		}
-	}, [input, messages]);
+	const startNew = async () => {
+		const conversation = await createTutorConversation({ userId: user?.id });
+		setActiveId(conversation.id);
+	};
+
+	const remove = async (id: string) => {
+		await db.tutorConversations.delete(id);
+		if (id === activeConversationId) setActiveId(null);
+	};
+
+	if (blockReason === undefined) {
+		return <div className="p-8 text-muted-foreground">Loading...</div>;
+	}
+
+	if (blockReason) {
+		return (
+			<Card className="p-8 text-center text-muted-foreground">
+				{blockReason === 'exam_running'
+					? 'The tutor is not available while you have an exam running.'
+					: 'The tutor has been turned off by your administrator.'}
+			</Card>
+		);
+	}
 
 	return (
 		<div className="space-y-4">
 			<div className="flex items-center justify-between gap-2">
 				<div>
 					<h1 className="text-2xl font-semibold">Chat</h1>
-					<p className="text-sm text-muted-foreground">
-						{canUseOfflineChat ? 'Runs locally (Electron only).' : 'Open the Electron app to use local chat.'}
-					</p>
+					<p className="text-sm text-muted-foreground">Runs locally (Electron only). Conversations are saved on this device.</p>
 				</div>
+				<Button type="button" variant="outline" onClick={() => void startNew()}>
+					<Plus className="h-4 w-4 mr-2" />
+					New conversation
+				</Button>
 			</div>
 
-			<Card className="p-4">
-				<div className="h-[55vh] overflow-auto space-y-3">
-					{messages.length ? (
-						messages.map((m, idx) => (
-							<div key={idx}>
-								<div className="text-xs text-muted-foreground mb-1">{m.role === 'user' ? 'You' : 'Tutor'}</div>
-								{m.role === 'assistant' ? (
-									<div className="prose prose-sm max-w-none content-html" dangerouslySetInnerHTML={{ __html: prepareContentForDisplay(m.content) }} />
-								) : (
-									<div className="text-sm whitespace-pre-wrap">{m.content}</div>
+			<div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+				<Card className="p-2 space-y-1 h-fit">
+					{conversations.length ? (
+						conversations.map((c) => (
+							<div
+								key={c.id}
+								className={cn(
+									'group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted',
+									c.id === activeConversationId && 'bg-muted font-medium'
 								)}
+								onClick={() => setActiveId(c.id)}
+							>
+								<span className="flex-1 truncate">{c.title}</span>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									className="h-6 w-6 opacity-0 group-hover:opacity-100"
+									aria-label="Delete conversation"
+									onClick={(e) => {
+										e.stopPropagation();
+										void remove(c.id);
+									}}
+								>
+									<Trash2 className="h-3.5 w-3.5" />
+								</Button>
 							</div>
 						))
 					) : (
-						<div className="text-sm text-muted-foreground">Start by asking something…</div>
+						<div className="px-2 py-1.5 text-sm text-muted-foreground">No conversations yet</div>
 					)}
-				</div>
+				</Card>
 
-				<div className="mt-3 flex items-center gap-2">
-					<Input
-						value={input}
-						onChange={(e) => setInput(e.target.value)}
-						placeholder="Type a message…"
-						onKeyDown={(e) => {
-							if (e.key === 'Enter') void send();
-						}}
-					/>
-					<Button type="button" disabled={loading} onClick={() => void send()}>
-						{loading ? 'Sending…' : 'Send'}
-					</Button>
-				</div>
-			</Card>
+				<Card className="p-4">
+					{activeConversationId ? (
+						<TutorChatPanel key={activeConversationId} conversationId={activeConversationId} />
+					) : (
+						<div className="text-sm text-muted-foreground">
+							Start a new conversation to ask the tutor something.
+						</div>
+					)}
+				</Card>
+			</div>
 		</div>
 	);
 }
@@ -16,6 +16,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { toast } from 'sonner';
 import RichTextEditor from '@/components/RichTextEditor';
 import TypingAnswerMathInput from '@/components/TypingAnswerMathInput';
+import { AnswerMatchingRules, compileAnswerPattern, hasAnswerMatchingRules, matchesAnswer } from '@/lib/answerMatching';
 import { invalidateTagModelCache, suggestTagsAdvanced } from '@/lib/tagLearning';
 import { syncQuestionGlossary } from '@/lib/glossary';
 import { enqueueSemanticAnalysis, startSemanticBackgroundQueue, stopSemanticBackgroundQueue } from '@/lib/semanticQueue';
@@ -110,6 +111,9 @@ export default function CreateQuestion() {
   const [matchingHeading, setMatchingHeading] = useState('');
   const [matchingPairs, setMatchingPairs] = useState<{ leftId: string; leftText: string; rightId: string; rightText: string }[]>([]);
   const [explanation, setExplanation] = useState('');
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState('');
+  const [answerMatching, setAnswerMatching] = useState<AnswerMatchingRules>({});
+  const [answerMatchingSample, setAnswerMatchingSample] = useState('');
   const [glossaryEntries, setGlossaryEntries] = useState<Array<{ id: string; word: string; meaning: string }>>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
@@ -313,6 +317,8 @@ export default function CreateQuestion() {
     setMatchingHeading(existingQuestion.matching?.headingHtml || '');
     setMatchingPairs(existingQuestion.matching?.pairs || []);
     setExplanation(existingQuestion.explanation || '');
+    setTimeLimitSeconds(existingQuestion.timeLimitSeconds ? String(existingQuestion.timeLimitSeconds) : '');
+    setAnswerMatching(existingQuestion.answerMatching || {});
     setGlossaryEntries(existingQuestion.glossary || []);
     setSelectedTags(existingQuestion.tags || []);
     const restoredLevel =
@@ -492,6 +498,15 @@ export default function CreateQuestion() {
       }
     }
 
+    if ((questionType === 'text' || questionType === 'fill_blanks') && answerMatching.regex) {
+      const patterns = questionType === 'text' ? correctAnswers : nextFillBlanksMeta.map((b) => b.correct);
+      const invalid = patterns.find((pattern) => compileAnswerPattern(pattern, !!answerMatching.caseSensitive) === null);
+      if (invalid !== undefined) {
+        toast.error(`"${invalid}" is not a valid regular expression`);
+        return;
+      }
+    }
+
     const now = Date.now();
     const questionId = isEditing ? id! : uuidv4();
     const questionCode = existingQuestion?.code || `Q-${questionId.slice(0, 8)}`;
@@ -513,6 +528,8 @@ export default function CreateQuestion() {
       }))
       .filter(entry => entry.word && entry.meaning);
 
+    const parsedTimeLimit = parseInt(timeLimitSeconds, 10);
+
     const questionData: Question = {
       id: questionId,
       code: questionCode,
@@ -522,10 +539,15 @@ export default function CreateQuestion() {
       options: questionType === 'mcq' ? options : undefined,
       correctAnswers: questionType === 'mcq' || questionType === 'text' ? correctAnswers : undefined,
       fillBlanks: questionType === 'fill_blanks' ? { blanks: nextFillBlanksMeta } : undefined,
+      answerMatching:
+        (questionType === 'text' || questionType === 'fill_blanks') && hasAnswerMatchingRules(answerMatching)
+          ? answerMatching
+          : undefined,
       matching: questionType === 'matching' ? { headingHtml: matchingHeading.trim() || undefined, pairs: matchingPairs } : undefined,
       tags: selectedTags,
       modules: existingQuestion?.modules || [],
       explanation: explanation.trim() || undefined,
+      timeLimitSeconds: parsedTimeLimit > 0 ? parsedTimeLimit : undefined,
       glossary: sanitizedGlossary.length ? sanitizedGlossary : undefined,
       metadata: {
         ...metadataPayload,
@@ -541,9 +563,11 @@ export default function CreateQuestion() {
           options: questionData.options,
           correctAnswers: questionData.correctAnswers,
           fillBlanks: questionData.fillBlanks,
+          answerMatching: questionData.answerMatching,
           matching: questionData.matching,
           tags: questionData.tags,
           explanation: questionData.explanation,
+          timeLimitSeconds: questionData.timeLimitSeconds,
           glossary: questionData.glossary,
           metadata: {
             ...(existingQuestion?.metadata || {}),
@@ -869,6 +893,148 @@ export default function CreateQuestion() {
           </Card>
         )}
 
+        {/* Answer matching (Text and Fill in the Blanks) */}
+        {(questionType === 'text' || questionType === 'fill_blanks') && (
+          <Card className="p-6 space-y-5">
+            <div>
+              <Label className="text-base font-semibold">Answer Matching</Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                Answers are always compared ignoring case, extra spaces, trailing punctuation and Bengali digits, and equal
+                numbers match (0.50 = 0.5 = 1/2). Loosen or tighten matching below.
+              </p>
+            </div>
+            <div className="space-y-4">
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  checked={!!answerMatching.numeric}
+                  onCheckedChange={(v) =>
+                    setAnswerMatching((prev) => ({
+                      ...prev,
+                      numeric: v === true ? prev.numeric ?? { absTolerance: 0 } : undefined,
+                    }))
+                  }
+                />
+                <div className="flex-1 space-y-2">
+                  <Label>Numeric answer with tolerance</Label>
+                  {answerMatching.numeric && (
+                    <div className="flex flex-wrap items-center gap-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">±</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          className="w-28"
+                          value={answerMatching.numeric.absTolerance ?? 0}
+                          onChange={(e) => {
+                            const value = Math.max(0, parseFloat(e.target.value) || 0);
+                            setAnswerMatching((prev) => ({ ...prev, numeric: { ...prev.numeric, absTolerance: value } }));
+                          }}
+                        />
+                        <span className="text-xs text-muted-foreground">absolute</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">±</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          className="w-28"
+                          value={(answerMatching.numeric.relTolerance ?? 0) * 100}
+                          onChange={(e) => {
+                            const value = Math.max(0, parseFloat(e.target.value) || 0) / 100;
+                            setAnswerMatching((prev) => ({ ...prev, numeric: { ...prev.numeric, relTolerance: value } }));
+                          }}
+                        />
+                        <span className="text-xs text-muted-foreground">% of the answer</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  checked={!!answerMatching.regex}
+                  onCheckedChange={(v) => setAnswerMatching((prev) => ({ ...prev, regex: v === true || undefined }))}
+                />
+                <div>
+                  <Label>Answers are regular expressions</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Each {questionType === 'text' ? 'acceptable answer' : 'blank'} must match the whole response, e.g. colou?r
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  checked={!!answerMatching.math}
+                  onCheckedChange={(v) => setAnswerMatching((prev) => ({ ...prev, math: v === true || undefined }))}
+                />
+                <div>
+                  <Label>Accept equivalent math expressions</Label>
+                  <p className="text-xs text-muted-foreground">
+                    2x+1, 1+2*x and x*2+1 all match. Use only for algebra answers: letters are read as variables, so words would
+                    match their anagrams.
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  checked={(answerMatching.maxTypos ?? 0) > 0}
+                  onCheckedChange={(v) => setAnswerMatching((prev) => ({ ...prev, maxTypos: v === true ? 1 : undefined }))}
+                />
+                <div className="flex-1 space-y-2">
+                  <Label>Allow small typos</Label>
+                  {(answerMatching.maxTypos ?? 0) > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="1"
+                        max="5"
+                        className="w-20"
+                        value={answerMatching.maxTypos}
+                        onChange={(e) => {
+                          const value = Math.min(5, Math.max(1, parseInt(e.target.value, 10) || 1));
+                          setAnswerMatching((prev) => ({ ...prev, maxTypos: value }));
+                        }}
+                      />
+                      <span className="text-xs text-muted-foreground">letters may differ (numbers are never typo-matched)</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  checked={!!answerMatching.caseSensitive}
+                  onCheckedChange={(v) => setAnswerMatching((prev) => ({ ...prev, caseSensitive: v === true || undefined }))}
+                />
+                <Label>Case-sensitive</Label>
+              </div>
+            </div>
+            <div className="space-y-2 border-t pt-4">
+              <Label className="text-sm">Try a student answer</Label>
+              <Input
+                value={answerMatchingSample}
+                onChange={(e) => setAnswerMatchingSample(e.target.value)}
+                placeholder="Type an answer to see whether it would be accepted"
+              />
+              {answerMatchingSample.trim() && (() => {
+                const accepted = questionType === 'text' ? correctAnswers : fillBlanksMeta.map((b) => b.correct);
+                const matched = accepted
+                  .map((answer, index) => ({ answer, index }))
+                  .filter(({ answer }) => matchesAnswer(answerMatchingSample, answer, answerMatching));
+                return matched.length ? (
+                  <p className="text-sm text-green-600">
+                    Accepted
+                    {questionType === 'fill_blanks' && ` for blank ${matched.map((m) => m.index + 1).join(', ')}`}
+                  </p>
+                ) : (
+                  <p className="text-sm text-red-600">Not accepted</p>
+                );
+              })()}
+            </div>
+          </Card>
+        )}
+
         {/* Explanation */}
         <Card className="p-6">
           <Label htmlFor="explanation" className="text-base font-semibold">
@@ -885,6 +1051,25 @@ export default function CreateQuestion() {
           </div>
         </Card>
 
+        {/* Time limit */}
+        <Card className="p-6">
+          <Label htmlFor="timeLimitSeconds" className="text-base font-semibold">
+            Time Limit (Optional)
+          </Label>
+          <p className="text-sm text-muted-foreground mt-1">
+            Seconds allowed for this question in exams with per-question timers. Leave empty to use the exam's setting.
+          </p>
+          <Input
+            id="timeLimitSeconds"
+            type="number"
+            min={5}
+            value={timeLimitSeconds}
+            onChange={(e) => setTimeLimitSeconds(e.target.value)}
+            placeholder="e.g. 45"
+            className="mt-4 max-w-[200px]"
+          />
+        </Card>
+
         {/* Glossary */}
         <Card className="p-6 space-y-4">
           <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
@@ -16,6 +16,9 @@ import { checkDailyLimit } from "@/lib/dailyLimit";
 import { toast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { areAllQuestionsCompleted } from "@/lib/completedQuestions";
+import { getDueReviewItems } from "@/lib/reviewQueue";
+import { getTutorChatBlockReason } from "@/lib/tutorChat";
+import { describeSongModuleProgress, getUserSongModuleProgress } from "@/lib/songModuleGoals";
 import { useLiveQuery } from "dexie-react-hooks";
 import { isInReviewPhase, isReviewExpired, getReviewTimeRemaining } from "@/lib/reviewHelpers";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -310,6 +313,30 @@ const Home = () => {
     return count;
   }, [user?.id, modules]) || 0;
 
+  // Questions from any assigned practice module whose spaced-repetition review is due.
+  const dueReviewCount = useLiveQuery(async () => {
+    if (!user?.id || isAdmin) return 0;
+    const due = await getDueReviewItems(user.id);
+    return due.length;
+  }, [user?.id, isAdmin, modules, practiceAttemptsCount]) || 0;
+
+  const tutorChatAvailable = useLiveQuery(async () => {
+    if (!user?.id || isAdmin) return false;
+    return (await getTutorChatBlockReason(user.id, false)) === null;
+  }, [user?.id, isAdmin]) ?? false;
+
+  // Assigned song modules with listening goals the student hasn't met yet (today, for daily minutes).
+  const unfinishedSongModules = useLiveQuery(async () => {
+    if (!user?.id || isAdmin) return [];
+    const songModules = (await db.songModules.toArray()).filter(
+      (m) => m.visible !== false && Array.isArray(m.assignedUserIds) && (m.assignedUserIds.includes(user.id) || m.assignedUserIds.includes(user.username))
+    );
+    const progress = await getUserSongModuleProgress(songModules, { id: user.id, username: user.username });
+    return songModules
+      .filter((m) => progress[m.id] && !progress[m.id].complete)
+      .map((m) => ({ id: m.id, title: m.title, overdue: progress[m.id].overdue, summary: describeSongModuleProgress(m.goals!, progress[m.id]) }));
+  }, [user?.id, user?.username, isAdmin]) ?? [];
+
   useEffect(() => {
     const id = window.setInterval(() => {
       setNow(Date.now());
@@ -419,6 +446,21 @@ const Home = () => {
     return now - updatedAt <= twoMinutesMs;
   });
 
+  const songGoalsCard = unfinishedSongModules.length > 0 ? (
+    <Card className={`w-full flex items-center justify-between px-8 py-6 shadow-md rounded-lg ${unfinishedSongModules.some((m) => m.overdue) ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"}`}>
+      <div className="space-y-1">
+        <h3 className="text-3xl font-semibold">Song listening goals</h3>
+        {unfinishedSongModules.map((m) => (
+          <p key={m.id} className="text-sm text-muted-foreground">
+            <span className="font-medium text-foreground">{m.title}</span>
+            {m.overdue ? <span className="font-semibold text-red-700"> (overdue)</span> : null}: {m.summary}
+          </p>
+        ))}
+      </div>
+      <Button onClick={() => navigate("/songs")}>Go to songs</Button>
+    </Card>
+  ) : null;
+
   if (list.length === 0) {
     return (
       <div className="w-full py-10">
@@ -431,6 +473,7 @@ const Home = () => {
             Songs
           </Button>
         </div>
+        {songGoalsCard && <div className="mb-4">{songGoalsCard}</div>}
         <div className="text-center text-muted-foreground">No modules to show</div>
       </div>
     );
@@ -438,7 +481,17 @@ const Home = () => {
 
   return (
     <div className="w-full py-10 space-y-4">
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-2">
+        {!isAdmin && user && (
+          <Button variant="outline" onClick={() => navigate('/progress')}>
+            My progress
+          </Button>
+        )}
+        {tutorChatAvailable && (
+          <Button variant="outline" onClick={() => navigate('/chat')}>
+            Tutor chat
+          </Button>
+        )}
         <Button
           variant="outline"
           onClick={() => navigate('/songs')}
@@ -447,6 +500,18 @@ const Home = () => {
           Songs
         </Button>
       </div>
+      {dueReviewCount > 0 && (
+        <Card className="w-full flex items-center justify-between px-8 py-6 bg-amber-50 border-amber-200 shadow-md rounded-lg">
+          <div className="space-y-1">
+            <h3 className="text-3xl font-semibold">Due for review</h3>
+            <p className="text-sm text-muted-foreground">
+              {dueReviewCount} question{dueReviewCount === 1 ? "" : "s"} from your practice modules {dueReviewCount === 1 ? "is" : "are"} ready for another look.
+            </p>
+          </div>
+          <Button onClick={() => navigate("/review")}>Start review</Button>
+        </Card>
+      )}
+      {songGoalsCard}
       {list.map((m) => (
         <ModuleCard 
           key={m.id} 
@@ -0,0 +1,144 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ShieldAlert } from 'lucide-react';
+import { db, IntegrityVerdict } from '@/lib/db';
+import { getAttemptIntegrityEvents, getSuspicionScore, LEVEL_BADGE, VERDICT_LABELS } from '@/lib/integrityTimeline';
+import { CHAIN_STATUS_BADGE, CHAIN_STATUS_LABELS, ChainStatus, verifyAttemptChain } from '@/lib/attemptChain';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+type VerdictFilter = 'all' | 'unreviewed' | IntegrityVerdict;
+
+export default function IntegrityReview() {
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState<VerdictFilter>('unreviewed');
+
+  const rows = useLiveQuery(async () => {
+    const attempts = await db.attempts.where('type').equals('exam').toArray();
+    const [modules, users] = await Promise.all([db.modules.toArray(), db.users.toArray()]);
+    const moduleTitles = new Map(modules.map((m) => [m.id, m.title]));
+    const usernames = new Map(users.map((u) => [u.id, u.username]));
+    const result = await Promise.all(
+      attempts
+        .filter((a) => a.completed)
+        .map(async (attempt) => {
+          const events = await getAttemptIntegrityEvents(attempt);
+          return {
+            attempt,
+            moduleTitle: moduleTitles.get(attempt.moduleId) ?? 'Deleted module',
+            student: (attempt.userId && usernames.get(attempt.userId)) || attempt.userProfile?.name || 'Unknown',
+            suspicion: getSuspicionScore(events),
+            eventCount: events.length,
+          };
+        })
+    );
+    return result.sort((a, b) => b.suspicion.score - a.suspicion.score || b.attempt.startedAt - a.attempt.startedAt);
+  }, []);
+
+  // Verified outside the live query: it signs through the desktop app, not Dexie.
+  const [chainStatus, setChainStatus] = useState<Record<string, ChainStatus>>({});
+  useEffect(() => {
+    if (!rows) return;
+    let cancelled = false;
+    void Promise.all(rows.map(async ({ attempt }) => [attempt.id, (await verifyAttemptChain(attempt)).status] as const)).then(
+      (entries) => {
+        if (!cancelled) setChainStatus(Object.fromEntries(entries));
+      },
+      (error) => console.error('Failed to verify attempt chains', error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [rows]);
+
+  const visible = useMemo(() => {
+    if (!rows) return [];
+    if (filter === 'all') return rows;
+    if (filter === 'unreviewed') return rows.filter((r) => !r.attempt.integrityReview);
+    return rows.filter((r) => r.attempt.integrityReview?.verdict === filter);
+  }, [rows, filter]);
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Exam integrity</h1>
+          <p className="text-muted-foreground mt-2">
+            Completed exam attempts, most suspicious first. Open one to see its timeline and record a verdict.
+          </p>
+        </div>
+        <Select value={filter} onValueChange={(v) => setFilter(v as VerdictFilter)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unreviewed">Not reviewed</SelectItem>
+            <SelectItem value="flagged">Flagged</SelectItem>
+            <SelectItem value="voided">Voided</SelectItem>
+            <SelectItem value="cleared">Cleared</SelectItem>
+            <SelectItem value="all">All attempts</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        {!rows ? (
+          <div className="p-8 text-center text-muted-foreground">Loading...</div>
+        ) : visible.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <ShieldAlert className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            No attempts to show.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>Exam</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead className="text-right">Events</TableHead>
+                <TableHead>Suspicion</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Verdict</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map(({ attempt, moduleTitle, student, suspicion, eventCount }) => (
+                <TableRow key={attempt.id} className="cursor-pointer" onClick={() => navigate(`/integrity/${attempt.id}`)}>
+                  <TableCell className="font-medium">{student}</TableCell>
+                  <TableCell>{moduleTitle}</TableCell>
+                  <TableCell>{new Date(attempt.startedAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{eventCount}</TableCell>
+                  <TableCell>
+                    <Badge variant={LEVEL_BADGE[suspicion.level]} className="capitalize">
+                      {suspicion.score} · {suspicion.level}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {chainStatus[attempt.id] ? (
+                      <Badge variant={CHAIN_STATUS_BADGE[chainStatus[attempt.id]]}>{CHAIN_STATUS_LABELS[chainStatus[attempt.id]]}</Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Checking...</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {attempt.integrityReview ? (
+                      <Badge variant={attempt.integrityReview.verdict === 'cleared' ? 'secondary' : 'destructive'}>
+                        {VERDICT_LABELS[attempt.integrityReview.verdict]}
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Not reviewed</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+}
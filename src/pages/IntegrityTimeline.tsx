@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowLeft, Camera, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { db, IntegrityEvent, IntegrityVerdict } from '@/lib/db';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  buildAttemptTimeline,
+  EVENT_LABELS,
+  getAttemptIntegrityEvents,
+  getQuestionAt,
+  getSuspicionScore,
+  LEVEL_BADGE,
+  setIntegrityVerdict,
+  VERDICT_LABELS,
+} from '@/lib/integrityTimeline';
+import { exportEvidenceBundle } from '@/lib/proctoring';
+import { CHAIN_STATUS_BADGE, CHAIN_STATUS_LABELS, ChainVerification, verifyAttemptChain } from '@/lib/attemptChain';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const VERDICTS: IntegrityVerdict[] = ['cleared', 'flagged', 'voided'];
+
+function formatOffset(ms: number): string {
+  const total = Math.max(0, Math.round(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+export default function IntegrityTimeline() {
+  const { attemptId } = useParams<{ attemptId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [screenshots, setScreenshots] = useState<ProctoringScreenshot[]>([]);
+  const [preview, setPreview] = useState<{ fileName: string; dataUrl: string } | null>(null);
+  const [verdict, setVerdict] = useState<IntegrityVerdict | ''>('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [chain, setChain] = useState<ChainVerification | null>(null);
+
+  const data = useLiveQuery(async () => {
+    if (!attemptId) return null;
+    const attempt = await db.attempts.get(attemptId);
+    if (!attempt) return null;
+    const [module, events, student] = await Promise.all([
+      db.modules.get(attempt.moduleId),
+      getAttemptIntegrityEvents(attempt),
+      attempt.userId ? db.users.get(attempt.userId) : Promise.resolve(undefined),
+    ]);
+    const questionIds = Array.from(new Set(attempt.perQuestionAttempts.map((p) => p.questionId)));
+    const questions = (await db.questions.bulkGet(questionIds)).filter(Boolean);
+    return {
+      attempt,
+      module,
+      events,
+      studentName: student?.username || attempt.userProfile?.name || 'Unknown',
+      questionCodes: new Map(questions.map((q) => [q!.id, q!.code])),
+    };
+  }, [attemptId]);
+
+  useEffect(() => {
+    const review = data?.attempt.integrityReview;
+    setVerdict(review?.verdict ?? '');
+    setNote(review?.note ?? '');
+  }, [data?.attempt.integrityReview]);
+
+  useEffect(() => {
+    const api = window.examProctor;
+    if (!attemptId || !api?.listScreenshots) return;
+    api
+      .listScreenshots({ attemptId })
+      .then(setScreenshots)
+      .catch((e) => console.error('Failed to list proctoring screenshots', e));
+  }, [attemptId]);
+
+  // Re-verified whenever the attempt or its events change; signing goes through the desktop app.
+  useEffect(() => {
+    if (!data) return;
+    let cancelled = false;
+    verifyAttemptChain(data.attempt)
+      .then((result) => {
+        if (!cancelled) setChain(result);
+      })
+      .catch((e) => console.error('Failed to verify attempt chain', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [data]);
+
+  const timeline = useMemo(() => (data ? buildAttemptTimeline(data.attempt, data.events) : null), [data]);
+  const suspicion = useMemo(() => getSuspicionScore(data?.events ?? []), [data]);
+
+  if (data === undefined) {
+    return <div className="p-8 text-center text-muted-foreground">Loading...</div>;
+  }
+  if (!data || !timeline) {
+    return (
+      <div className="max-w-7xl mx-auto p-8 text-center text-muted-foreground space-y-4">
+        <p>Attempt not found.</p>
+        <Button variant="outline" onClick={() => navigate('/integrity')}>
+          Back to integrity review
+        </Button>
+      </div>
+    );
+  }
+
+  const { attempt, module, studentName, questionCodes } = data;
+  const span = timeline.end - timeline.start;
+  const position = (t: number) => `${Math.min(100, Math.max(0, ((t - timeline.start) / span) * 100))}%`;
+  const questionLabel = (questionId: string, index: number) => questionCodes.get(questionId) || `Q${index + 1}`;
+  const flaggedEvents = timeline.events.filter((e) => e.type !== 'screenshot_captured');
+
+  const openScreenshot = async (fileName: string) => {
+    const api = window.examProctor;
+    if (!api?.readScreenshot || !attemptId) return;
+    try {
+      const { dataUrl } = await api.readScreenshot({ attemptId, fileName });
+      setPreview({ fileName, dataUrl });
+    } catch (e) {
+      console.error(e);
+      toast.error('Could not open screenshot');
+    }
+  };
+
+  // Screenshot events store the saved file path; the list from disk is keyed by file name.
+  const screenshotFor = (event: IntegrityEvent) => {
+    if (event.type !== 'screenshot_captured' || !event.details) return undefined;
+    return screenshots.find((s) => event.details!.endsWith(s.fileName));
+  };
+
+  const saveVerdict = async () => {
+    if (!verdict || !attemptId) return;
+    setSaving(true);
+    try {
+      await setIntegrityVerdict(attemptId, verdict, note, user?.username);
+      toast.success(`Attempt marked ${VERDICT_LABELS[verdict].toLowerCase()}`);
+    } catch (e) {
+      console.error(e);
+      toast.error('Failed to save verdict');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const exportEvidence = async () => {
+    setExporting(true);
+    try {
+      const result = await exportEvidenceBundle(attempt);
+      if (result) toast.success(`Evidence exported · manifest SHA-256 ${result.manifestSha256.slice(0, 12)}…`);
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : 'Failed to export evidence');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{studentName}</h1>
+          <p className="text-muted-foreground mt-2">
+            {module?.title ?? 'Deleted module'} · {new Date(attempt.startedAt).toLocaleString()} ·{' '}
+            {formatOffset(span)} long
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => navigate('/integrity')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All attempts
+          </Button>
+          <Button onClick={() => void exportEvidence()} disabled={exporting || !window.examProctor?.exportEvidenceBundle}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Export evidence'}
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <span className="font-medium">Suspicion score</span>
+          <Badge variant={LEVEL_BADGE[suspicion.level]} className="capitalize">
+            {suspicion.score} · {suspicion.level}
+          </Badge>
+        </div>
+        {suspicion.reasons.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {suspicion.reasons.map((r) => (
+              <Badge key={r.type} variant="outline">
+                {EVENT_LABELS[r.type]} × {r.count} (+{r.points})
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No suspicious events were recorded.</p>
+        )}
+        {chain && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-3">
+              <span className="font-medium">Record</span>
+              <Badge variant={CHAIN_STATUS_BADGE[chain.status]}>{CHAIN_STATUS_LABELS[chain.status]}</Badge>
+              {chain.linkCount > 0 && <span className="text-xs text-muted-foreground">{chain.linkCount} signed entries</span>}
+            </div>
+            {chain.problems.map((problem) => (
+              <p key={problem} className="text-sm text-destructive">
+                {problem}
+              </p>
+            ))}
+          </div>
+        )}
+        {attempt.evidenceExports?.map((x) => (
+          <p key={x.exportedAt} className="text-xs text-muted-foreground break-all">
+            Evidence exported {new Date(x.exportedAt).toLocaleString()} · manifest SHA-256 {x.manifestSha256}
+          </p>
+        ))}
+      </Card>
+
+      <Card className="p-4 space-y-2">
+        <div className="font-medium">Timeline</div>
+        <div className="relative h-8 rounded bg-muted">
+          {timeline.questions.map((q) => (
+            <div
+              key={`${q.questionId}-${q.start}`}
+              className={`absolute top-0 h-full border-r border-background text-[10px] leading-8 px-1 truncate ${
+                q.status === 'autosubmitted' ? 'bg-amber-200' : 'bg-primary/20'
+              }`}
+              style={{ left: position(q.start), width: `calc(${position(q.end)} - ${position(q.start)})` }}
+              title={`${questionLabel(q.questionId, q.index)}: ${formatOffset(q.start - timeline.start)}–${formatOffset(q.end - timeline.start)}`}
+            >
+              {questionLabel(q.questionId, q.index)}
+            </div>
+          ))}
+        </div>
+        <div className="relative h-6">
+          {flaggedEvents.map((e) => (
+            <div
+              key={e.id}
+              className="absolute top-0 h-full w-1 -ml-0.5 rounded bg-destructive"
+              style={{ left: position(e.timestamp) }}
+              title={`${formatOffset(e.timestamp - timeline.start)} ${EVENT_LABELS[e.type] ?? e.type}`}
+            />
+          ))}
+          {screenshots.map((s) => (
+            <button
+              key={s.fileName}
+              type="button"
+              className="absolute top-0 -ml-2 text-muted-foreground hover:text-foreground"
+              style={{ left: position(s.ts) }}
+              title={`Screenshot at ${formatOffset(s.ts - timeline.start)}`}
+              onClick={() => void openScreenshot(s.fileName)}
+            >
+              <Camera className="h-4 w-4" />
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>0:00</span>
+          <span>{formatOffset(span)}</span>
+        </div>
+      </Card>
+
+      {preview && (
+        <Card className="p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">{preview.fileName}</span>
+            <Button variant="ghost" size="sm" onClick={() => setPreview(null)}>
+              Close
+            </Button>
+          </div>
+          <img src={preview.dataUrl} alt="Proctoring screenshot" className="max-w-full rounded border" />
+        </Card>
+      )}
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-20">Time</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Question</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {timeline.events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No integrity events for this attempt.
+                </TableCell>
+              </TableRow>
+            ) : (
+              timeline.events.map((e) => {
+                const question = getQuestionAt(timeline, e.timestamp);
+                const shot = screenshotFor(e);
+                return (
+                  <TableRow key={e.id}>
+                    <TableCell className="font-mono text-xs">{formatOffset(e.timestamp - timeline.start)}</TableCell>
+                    <TableCell>{EVENT_LABELS[e.type] ?? e.type}</TableCell>
+                    <TableCell>{question ? questionLabel(question.questionId, question.index) : '—'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {shot ? (
+                        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => void openScreenshot(shot.fileName)}>
+                          View
+                        </Button>
+                      ) : (
+                        e.details
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Card className="p-4 space-y-3">
+        <div className="font-medium">Verdict</div>
+        {attempt.integrityReview && (
+          <p className="text-sm text-muted-foreground">
+            {VERDICT_LABELS[attempt.integrityReview.verdict]}
+            {attempt.integrityReview.reviewedBy && ` by ${attempt.integrityReview.reviewedBy}`} on{' '}
+            {new Date(attempt.integrityReview.reviewedAt).toLocaleString()}
+          </p>
+        )}
+        <RadioGroup value={verdict} onValueChange={(v) => setVerdict(v as IntegrityVerdict)} className="flex items-center gap-6">
+          {VERDICTS.map((v) => (
+            <div key={v} className="flex items-center gap-2">
+              <RadioGroupItem value={v} id={`verdict-${v}`} />
+              <Label htmlFor={`verdict-${v}`}>{VERDICT_LABELS[v]}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} placeholder="Note (optional)" />
+        <div className="flex justify-end">
+          <Button onClick={() => void saveVerdict()} disabled={!verdict || saving}>
+            {saving ? 'Saving...' : 'Save verdict'}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
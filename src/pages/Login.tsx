@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,12 +9,18 @@ import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import { LogIn } from 'lucide-react';
 import { HOME_ROUTE } from '@/constants/routes';
+import { hasAdminAccount } from '@/lib/db';
+import { MIN_ADMIN_PASSWORD_LENGTH } from '@/lib/credentials';
 
 export default function Login() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { login, isAuthenticated } = useAuth();
+  const { login, setupAdmin, isAuthenticated } = useAuth();
+  // Until the first administrator exists, this page creates it instead of signing in.
+  const adminExists = useLiveQuery(() => hasAdminAccount(), []);
+  const isSetup = adminExists === false;
   const navigate = useNavigate();
 
   // Redirect if already logged in
@@ -30,6 +37,31 @@ export default function Login() {
       return;
     }
 
+    if (isSetup) {
+      if (password.length < MIN_ADMIN_PASSWORD_LENGTH) {
+        toast.error(`The password must be at least ${MIN_ADMIN_PASSWORD_LENGTH} characters`);
+        return;
+      }
+      if (password !== confirmPassword) {
+        toast.error('The passwords do not match');
+        return;
+      }
+      setIsLoading(true);
+      try {
+        await setupAdmin(username.trim(), password);
+        toast.success('Administrator account created');
+        setTimeout(() => {
+          navigate(HOME_ROUTE);
+        }, 100);
+      } catch (error) {
+        console.error('Admin setup error:', error);
+        toast.error(error instanceof Error ? error.message : 'Could not create the administrator account');
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
     setIsLoading(true);
     try {
       const success = await login(username.trim(), password);
@@ -63,9 +95,11 @@ export default function Login() {
           <div className="mx-auto w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
             <LogIn className="h-8 w-8 text-primary" />
           </div>
-          <h1 className="text-2xl font-bold text-foreground">Welcome</h1>
+          <h1 className="text-2xl font-bold text-foreground">{isSetup ? 'Create administrator' : 'Welcome'}</h1>
           <p className="text-sm text-muted-foreground">
-            Sign in to continue
+            {isSetup
+              ? 'No administrator exists yet. Choose the username and password for the first one.'
+              : 'Sign in to continue'}
           </p>
         </div>
 
@@ -92,16 +126,34 @@ export default function Login() {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               disabled={isLoading}
+              autoComplete={isSetup ? 'new-password' : 'current-password'}
             />
           </div>
 
+          {isSetup && (
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                placeholder="Enter the password again"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                disabled={isLoading}
+                autoComplete="new-password"
+              />
+            </div>
+          )}
+
           <Button
             type="submit"
             className="w-full"
             size="lg"
-            disabled={isLoading}
+            disabled={isLoading || adminExists === undefined}
           >
-            {isLoading ? 'Signing in...' : 'Sign In'}
+            {isSetup
+              ? isLoading ? 'Creating...' : 'Create Administrator'
+              : isLoading ? 'Signing in...' : 'Sign In'}
           </Button>
         </form>
       </Card>
@@ -2,7 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { HOME_ROUTE } from '@/constants/routes';
 import { db } from '@/lib/db';
-import type { Tag, Question } from '@/lib/db';
+import type { Tag, Question, Module, ModuleSection, ProctoringPolicy } from '@/lib/db';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -22,6 +22,13 @@ import { CustomTimePicker } from '@/components/CustomTimePicker';
 import { TruncatedQuestionText } from '@/components/TruncatedQuestionText';
 import { MatchingQuestionView } from '@/components/MatchingQuestionView';
 import { prepareContentForDisplay } from '@/lib/contentFormatting';
+import { GradingPolicySettings } from '@/components/GradingPolicySettings';
+import { ModuleSectionsEditor } from '@/components/ModuleSectionsEditor';
+import { QuestionPoolSettings } from '@/components/QuestionPoolSettings';
+import { ProctoringSettings } from '@/components/ProctoringSettings';
+import { DEFAULT_PROCTORING_POLICY, getProctoringPolicyProblem } from '@/lib/proctoring';
+import { getSectionQuestionIds, getSectionsProblem, pruneSections } from '@/lib/examSections';
+import { DEFAULT_GRADING_POLICY, GradingPolicy, pruneGradingPolicy } from '@/lib/grading';
 
 function parseLocalDateAndTime(date: string, time: string): number {
 	if (!date || !time) return NaN;
@@ -48,7 +55,9 @@ export default function ModuleCreator() {
 	const [questionIds, setQuestionIds] = useState<string[]>([]);
 	const [timerType, setTimerType] = useState<'perQuestion' | 'perModule' | 'none'>('none');
 	const [timeLimitMinutes, setTimeLimitMinutes] = useState<number>(30);
+	const [perQuestionSeconds, setPerQuestionSeconds] = useState<number>(60);
 	const [randomizeQuestions, setRandomizeQuestions] = useState(false);
+	const [practiceMode, setPracticeMode] = useState<'sequential' | 'adaptive'>('sequential');
 	const [allowBackNavigation, setAllowBackNavigation] = useState(true);
 	const [showInstantFeedback, setShowInstantFeedback] = useState(true);
 	const [autoSubmitOnFocusLoss, setAutoSubmitOnFocusLoss] = useState(true);
@@ -64,6 +73,15 @@ export default function ModuleCreator() {
 	const [allowedDaysOfWeek, setAllowedDaysOfWeek] = useState<number[]>([]);
 	const [availabilityStartTime, setAvailabilityStartTime] = useState('');
 	const [availabilityEndTime, setAvailabilityEndTime] = useState('');
+	const [gradingPolicy, setGradingPolicy] = useState<GradingPolicy>(DEFAULT_GRADING_POLICY);
+	const [sections, setSections] = useState<ModuleSection[]>([]);
+	const [questionPool, setQuestionPool] = useState<Module['settings']['questionPool']>(undefined);
+	const [shuffleOptions, setShuffleOptions] = useState(false);
+	const [proctoring, setProctoring] = useState<ProctoringPolicy>(DEFAULT_PROCTORING_POLICY);
+	const [selectedQuestions, setSelectedQuestions] = useState<Question[]>([]);
+	useEffect(() => {
+		db.questions.bulkGet(questionIds).then((rows) => setSelectedQuestions(rows.filter(Boolean) as Question[]));
+	}, [questionIds]);
 
 	const [availableTags, setAvailableTags] = useState<Tag[]>([]);
 	useEffect(() => {
@@ -155,6 +173,21 @@ export default function ModuleCreator() {
 			toast({ title: 'Validation', description: 'Exam requires a time limit', variant: 'destructive' });
 			return;
 		}
+		if (type === 'exam' && timerType === 'perQuestion' && (!perQuestionSeconds || perQuestionSeconds <= 0)) {
+			toast({ title: 'Validation', description: 'Set how many seconds each question gets', variant: 'destructive' });
+			return;
+		}
+		const moduleSections = type === 'exam' ? pruneSections(sections, questionIds) : undefined;
+		const sectionsProblem = moduleSections ? getSectionsProblem(moduleSections, questionIds) : null;
+		if (sectionsProblem) {
+			toast({ title: 'Validation', description: sectionsProblem, variant: 'destructive' });
+			return;
+		}
+		const proctoringProblem = type === 'exam' ? getProctoringPolicyProblem(proctoring) : null;
+		if (proctoringProblem) {
+			toast({ title: 'Validation', description: proctoringProblem, variant: 'destructive' });
+			return;
+		}
 		let scheduledStartUtc: number | undefined;
 		let scheduledEndUtc: number | undefined;
 		if (type === 'exam') {
@@ -205,12 +238,18 @@ export default function ModuleCreator() {
 			}
 			const finalTags = Array.from(autoTagSet);
 
-			const effectiveTimerType: 'perModule' | 'perQuestion' | 'none' = type === 'exam' ? 'perModule' : 'none';
+			const effectiveTimerType: 'perModule' | 'perQuestion' | 'none' =
+				type === 'exam' ? (timerType === 'perQuestion' ? 'perQuestion' : 'perModule') : 'none';
 			const settings = {
 				randomizeQuestions,
+				// Sections bring their own pools, so the paper-wide pool only applies without them
+				questionPool: type === 'exam' && !moduleSections ? questionPool : undefined,
+				shuffleOptions: type === 'exam' ? shuffleOptions : undefined,
+				proctoring: type === 'exam' ? proctoring : undefined,
 				allowReview: type === 'exam' ? allowReview : false,
 				timerType: effectiveTimerType,
 				timeLimitMinutes: effectiveTimerType === 'none' ? undefined : timeLimitMinutes,
+				perQuestionSeconds: effectiveTimerType === 'perQuestion' ? perQuestionSeconds : undefined,
 				autoSubmitOnFocusLoss: false, // Removed checkbox - always false
 				allowBackNavigation,
 				showInstantFeedback,
@@ -221,6 +260,8 @@ export default function ModuleCreator() {
 					maxQuestionsPerDay: dailyLimitMax,
 				} : undefined,
 				glossaryHints: glossaryHintsEnabled,
+				practiceMode: type === 'practice' && practiceMode === 'adaptive' ? ('adaptive' as const) : undefined,
+				grading: pruneGradingPolicy(gradingPolicy, questionIds),
 				allowedDaysOfWeek: allowedDaysOfWeek.length ? allowedDaysOfWeek : undefined,
 				allowedTimeWindow,
 			};
@@ -229,7 +270,8 @@ export default function ModuleCreator() {
 				description,
 				type,
 				tags: finalTags,
-				questionIds,
+				questionIds: moduleSections ? getSectionQuestionIds(moduleSections) : questionIds,
+				sections: moduleSections,
 				settings,
 				scheduledStartUtc,
 				scheduledEndUtc,
@@ -300,6 +342,31 @@ export default function ModuleCreator() {
 						</div>
 					)}
 
+					{type === 'exam' && (
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<div className="space-y-2">
+								<Label>Timer</Label>
+								<Select
+									value={timerType === 'perQuestion' ? 'perQuestion' : 'perModule'}
+									onValueChange={(v: 'perModule' | 'perQuestion') => setTimerType(v)}
+								>
+									<SelectTrigger><SelectValue /></SelectTrigger>
+									<SelectContent>
+										<SelectItem value="perModule">Whole exam</SelectItem>
+										<SelectItem value="perQuestion">Per question</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							{timerType === 'perQuestion' && (
+								<div className="space-y-2">
+									<Label>Seconds per question</Label>
+									<Input type="number" min={5} value={perQuestionSeconds} onChange={e => setPerQuestionSeconds(parseInt(e.target.value || '0', 10))} />
+									<p className="text-xs text-muted-foreground">Questions with their own time limit use that instead. The time limit above still ends the exam.</p>
+								</div>
+							)}
+						</div>
+					)}
+
 					{type === 'exam' && (
 						<div className="mt-4 border rounded-lg p-4 space-y-3 bg-muted/30">
 							<div className="flex items-center justify-between">
@@ -453,6 +520,26 @@ export default function ModuleCreator() {
 							<Checkbox checked={randomizeQuestions} onCheckedChange={(v: CheckedState) => setRandomizeQuestions(v === true)} />
 							<Label>Randomize questions</Label>
 						</div>
+						{type === 'exam' && (
+							<div className="flex items-center space-x-2">
+								<Checkbox checked={shuffleOptions} onCheckedChange={(v: CheckedState) => setShuffleOptions(v === true)} />
+								<Label>Shuffle answer options per student</Label>
+							</div>
+						)}
+						{type === 'practice' && (
+							<div className="flex items-start space-x-2 col-span-2">
+								<Checkbox
+									checked={practiceMode === 'adaptive'}
+									onCheckedChange={(v: CheckedState) => setPracticeMode(v === true ? 'adaptive' : 'sequential')}
+								/>
+								<div>
+									<Label>Adaptive practice</Label>
+									<p className="text-xs text-muted-foreground">
+										Pick each next question from the learner's history: due reviews first, then weak tags at a matching difficulty.
+									</p>
+								</div>
+							</div>
+						)}
 						{/* Practice modules always allow back navigation and instant feedback;
               those options are no longer exposed in the UI. */}
 						{type === 'exam' && (
@@ -498,6 +585,33 @@ export default function ModuleCreator() {
 								</p>
 							</div>
 						</div>
+						<div className="col-span-2 space-y-2 border-t pt-4">
+							<h4 className="text-sm font-medium">Grading</h4>
+							<GradingPolicySettings value={gradingPolicy} onChange={setGradingPolicy} questions={selectedQuestions} />
+						</div>
+						{type === 'exam' && (
+							<div className="col-span-2 space-y-2 border-t pt-4">
+								<h4 className="text-sm font-medium">Sections</h4>
+								<ModuleSectionsEditor
+									value={sections}
+									onChange={setSections}
+									questions={selectedQuestions}
+									tags={availableTags.map(t => t.name)}
+								/>
+							</div>
+						)}
+						{type === 'exam' && !sections.length && (
+							<div className="col-span-2 space-y-2 border-t pt-4">
+								<h4 className="text-sm font-medium">Draw questions from the bank</h4>
+								<QuestionPoolSettings value={questionPool} onChange={setQuestionPool} tags={availableTags.map(t => t.name)} />
+							</div>
+						)}
+						{type === 'exam' && (
+							<div className="col-span-2 space-y-2 border-t pt-4">
+								<h4 className="text-sm font-medium">Proctoring</h4>
+								<ProctoringSettings value={proctoring} onChange={setProctoring} />
+							</div>
+						)}
 					</div>
 				</Card>
 
@@ -1,7 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { HOME_ROUTE } from '@/constants/routes';
-import { db, Module, Tag, type Question } from '@/lib/db';
+import { db, Module, ModuleSection, ProctoringPolicy, Tag, type Question } from '@/lib/db';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -21,6 +21,13 @@ import { CustomTimePicker } from '@/components/CustomTimePicker';
 import { TruncatedQuestionText } from '@/components/TruncatedQuestionText';
 import { MatchingQuestionView } from '@/components/MatchingQuestionView';
 import { prepareContentForDisplay } from '@/lib/contentFormatting';
+import { GradingPolicySettings } from '@/components/GradingPolicySettings';
+import { ModuleSectionsEditor } from '@/components/ModuleSectionsEditor';
+import { QuestionPoolSettings } from '@/components/QuestionPoolSettings';
+import { ProctoringSettings } from '@/components/ProctoringSettings';
+import { DEFAULT_PROCTORING_POLICY, getProctoringPolicy, getProctoringPolicyProblem } from '@/lib/proctoring';
+import { getSectionQuestionIds, getSectionsProblem, pruneSections } from '@/lib/examSections';
+import { DEFAULT_GRADING_POLICY, GradingPolicy, getGradingPolicy, pruneGradingPolicy } from '@/lib/grading';
 
 function formatLocalDateTime(ms: number): string {
 	const d = new Date(ms);
@@ -67,7 +74,9 @@ export default function ModuleEditor() {
 	const [questionIds, setQuestionIds] = useState<string[]>([]);
 	const [timerType, setTimerType] = useState<'perQuestion' | 'perModule' | 'none'>('none');
 	const [timeLimitMinutes, setTimeLimitMinutes] = useState<number>(30);
+	const [perQuestionSeconds, setPerQuestionSeconds] = useState<number>(60);
 	const [randomizeQuestions, setRandomizeQuestions] = useState(false);
+	const [practiceMode, setPracticeMode] = useState<'sequential' | 'adaptive'>('sequential');
 	const [allowBackNavigation, setAllowBackNavigation] = useState(true);
 	const [showInstantFeedback, setShowInstantFeedback] = useState(true);
 	const [autoSubmitOnFocusLoss, setAutoSubmitOnFocusLoss] = useState(true);
@@ -82,6 +91,15 @@ export default function ModuleEditor() {
 	const [allowedDaysOfWeek, setAllowedDaysOfWeek] = useState<number[]>([]);
 	const [availabilityStartTime, setAvailabilityStartTime] = useState('');
 	const [availabilityEndTime, setAvailabilityEndTime] = useState('');
+	const [gradingPolicy, setGradingPolicy] = useState<GradingPolicy>(DEFAULT_GRADING_POLICY);
+	const [sections, setSections] = useState<ModuleSection[]>([]);
+	const [questionPool, setQuestionPool] = useState<Module['settings']['questionPool']>(undefined);
+	const [shuffleOptions, setShuffleOptions] = useState(false);
+	const [proctoring, setProctoring] = useState<ProctoringPolicy>(DEFAULT_PROCTORING_POLICY);
+	const [selectedQuestions, setSelectedQuestions] = useState<Question[]>([]);
+	useEffect(() => {
+		db.questions.bulkGet(questionIds).then((rows) => setSelectedQuestions(rows.filter(Boolean) as Question[]));
+	}, [questionIds]);
 
 	useEffect(() => {
 		if (!moduleData) return;
@@ -92,7 +110,9 @@ export default function ModuleEditor() {
 		setQuestionIds(moduleData.questionIds || []);
 		setTimerType(moduleData.settings.timerType);
 		setTimeLimitMinutes(moduleData.settings.timeLimitMinutes || 30);
+		setPerQuestionSeconds(moduleData.settings.perQuestionSeconds || 60);
 		setRandomizeQuestions(!!moduleData.settings.randomizeQuestions);
+		setPracticeMode(moduleData.settings.practiceMode === 'adaptive' ? 'adaptive' : 'sequential');
 		setAllowBackNavigation(!!moduleData.settings.allowBackNavigation);
 		setShowInstantFeedback(!!moduleData.settings.showInstantFeedback);
 		setAutoSubmitOnFocusLoss(!!moduleData.settings.autoSubmitOnFocusLoss);
@@ -106,6 +126,11 @@ export default function ModuleEditor() {
 		setDailyLimitEnabled(!!moduleData.settings.dailyLimit?.enabled);
 		setDailyLimitMax(moduleData.settings.dailyLimit?.maxQuestionsPerDay || 50);
 		setGlossaryHintsEnabled(moduleData.settings?.glossaryHints !== false);
+		setGradingPolicy(getGradingPolicy(moduleData));
+		setSections(moduleData.sections ?? []);
+		setQuestionPool(moduleData.settings.questionPool);
+		setShuffleOptions(!!moduleData.settings.shuffleOptions);
+		setProctoring(getProctoringPolicy(moduleData));
 		setAllowedDaysOfWeek(moduleData.settings.allowedDaysOfWeek ?? []);
 		if (moduleData.settings.allowedTimeWindow) {
 			const { startMinutes, endMinutes } = moduleData.settings.allowedTimeWindow;
@@ -188,6 +213,21 @@ export default function ModuleEditor() {
 			toast({ title: 'Validation', description: 'Exam requires a time limit', variant: 'destructive' });
 			return;
 		}
+		if (type === 'exam' && timerType === 'perQuestion' && (!perQuestionSeconds || perQuestionSeconds <= 0)) {
+			toast({ title: 'Validation', description: 'Set how many seconds each question gets', variant: 'destructive' });
+			return;
+		}
+		const moduleSections = type === 'exam' ? pruneSections(sections, questionIds) : undefined;
+		const sectionsProblem = moduleSections ? getSectionsProblem(moduleSections, questionIds) : null;
+		if (sectionsProblem) {
+			toast({ title: 'Validation', description: sectionsProblem, variant: 'destructive' });
+			return;
+		}
+		const proctoringProblem = type === 'exam' ? getProctoringPolicyProblem(proctoring) : null;
+		if (proctoringProblem) {
+			toast({ title: 'Validation', description: proctoringProblem, variant: 'destructive' });
+			return;
+		}
 		if (type === 'exam') {
 			if (!scheduledStartLocal || !scheduledEndLocal) {
 				toast({ title: 'Validation', description: 'Exam start and end date/time are required for exams', variant: 'destructive' });
@@ -234,7 +274,8 @@ export default function ModuleEditor() {
 				allowedTimeWindow = { startMinutes, endMinutes };
 			}
 
-			const effectiveTimerType: 'perModule' | 'perQuestion' | 'none' = type === 'exam' ? 'perModule' : 'none';
+			const effectiveTimerType: 'perModule' | 'perQuestion' | 'none' =
+				type === 'exam' ? (timerType === 'perQuestion' ? 'perQuestion' : 'perModule') : 'none';
 			const reviewDurationSeconds = (type === 'exam' && allowReview && reviewDurationMinutes > 0) ? reviewDurationMinutes * 60 : undefined;
 			// Convert datetime-local inputs directly to UTC timestamps (Date handles local timezone)
 			const scheduledStartUtc =
@@ -251,12 +292,18 @@ export default function ModuleEditor() {
 				description,
 				type,
 				tags: finalTags,
-				questionIds,
+				questionIds: moduleSections ? getSectionQuestionIds(moduleSections) : questionIds,
+				sections: moduleSections,
 				settings: {
 					randomizeQuestions,
+					// Sections bring their own pools, so the paper-wide pool only applies without them
+					questionPool: type === 'exam' && !moduleSections ? questionPool : undefined,
+					shuffleOptions: type === 'exam' ? shuffleOptions : undefined,
+					proctoring: type === 'exam' ? proctoring : undefined,
 					allowReview: type === 'exam' ? allowReview : false,
 					timerType: effectiveTimerType,
 					timeLimitMinutes: effectiveTimerType === 'none' ? undefined : timeLimitMinutes,
+					perQuestionSeconds: effectiveTimerType === 'perQuestion' ? perQuestionSeconds : undefined,
 					autoSubmitOnFocusLoss: false, // Removed checkbox - always false
 					allowBackNavigation,
 					showInstantFeedback,
@@ -267,6 +314,8 @@ export default function ModuleEditor() {
 						maxQuestionsPerDay: dailyLimitMax,
 					} : undefined,
 					glossaryHints: glossaryHintsEnabled,
+					practiceMode: type === 'practice' && practiceMode === 'adaptive' ? 'adaptive' : undefined,
+					grading: pruneGradingPolicy(gradingPolicy, questionIds),
 					allowedDaysOfWeek: allowedDaysOfWeek.length ? allowedDaysOfWeek : undefined,
 					allowedTimeWindow,
 				},
@@ -350,6 +399,31 @@ export default function ModuleEditor() {
 						</div>
 					)}
 
+					{type === 'exam' && (
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<div className="space-y-2">
+								<Label>Timer</Label>
+								<Select
+									value={timerType === 'perQuestion' ? 'perQuestion' : 'perModule'}
+									onValueChange={(v: 'perModule' | 'perQuestion') => setTimerType(v)}
+								>
+									<SelectTrigger><SelectValue /></SelectTrigger>
+									<SelectContent>
+										<SelectItem value="perModule">Whole exam</SelectItem>
+										<SelectItem value="perQuestion">Per question</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							{timerType === 'perQuestion' && (
+								<div className="space-y-2">
+									<Label>Seconds per question</Label>
+									<Input type="number" min={5} value={perQuestionSeconds} onChange={e => setPerQuestionSeconds(parseInt(e.target.value || '0', 10))} />
+									<p className="text-xs text-muted-foreground">Questions with their own time limit use that instead. The time limit above still ends the exam.</p>
+								</div>
+							)}
+						</div>
+					)}
+
 					{type === 'exam' && (
 						<div className="mt-4 border rounded-lg p-4 space-y-3 bg-muted/30">
 							<div className="flex items-center justify-between">
@@ -526,6 +600,26 @@ export default function ModuleEditor() {
 							<Checkbox checked={randomizeQuestions} onCheckedChange={(v: CheckedState) => setRandomizeQuestions(v === true)} />
 							<Label>Randomize questions</Label>
 						</div>
+						{type === 'exam' && (
+							<div className="flex items-center space-x-2">
+								<Checkbox checked={shuffleOptions} onCheckedChange={(v: CheckedState) => setShuffleOptions(v === true)} />
+								<Label>Shuffle answer options per student</Label>
+							</div>
+						)}
+						{type === 'practice' && (
+							<div className="flex items-start space-x-2 col-span-2">
+								<Checkbox
+									checked={practiceMode === 'adaptive'}
+									onCheckedChange={(v: CheckedState) => setPracticeMode(v === true ? 'adaptive' : 'sequential')}
+								/>
+								<div>
+									<Label>Adaptive practice</Label>
+									<p className="text-xs text-muted-foreground">
+										Pick each next question from the learner's history: due reviews first, then weak tags at a matching difficulty.
+									</p>
+								</div>
+							</div>
+						)}
 						{/* Practice modules always allow back navigation and instant feedback;
               those options are no longer exposed in the UI. */}
 						{type === 'exam' && (
@@ -571,6 +665,33 @@ export default function ModuleEditor() {
 								</p>
 							</div>
 						</div>
+						<div className="col-span-2 space-y-2 border-t pt-4">
+							<h4 className="text-sm font-medium">Grading</h4>
+							<GradingPolicySettings value={gradingPolicy} onChange={setGradingPolicy} questions={selectedQuestions} />
+						</div>
+						{type === 'exam' && (
+							<div className="col-span-2 space-y-2 border-t pt-4">
+								<h4 className="text-sm font-medium">Sections</h4>
+								<ModuleSectionsEditor
+									value={sections}
+									onChange={setSections}
+									questions={selectedQuestions}
+									tags={availableTags.map(t => t.name)}
+								/>
+							</div>
+						)}
+						{type === 'exam' && !sections.length && (
+							<div className="col-span-2 space-y-2 border-t pt-4">
+								<h4 className="text-sm font-medium">Draw questions from the bank</h4>
+								<QuestionPoolSettings value={questionPool} onChange={setQuestionPool} tags={availableTags.map(t => t.name)} />
+							</div>
+						)}
+						{type === 'exam' && (
+							<div className="col-span-2 space-y-2 border-t pt-4">
+								<h4 className="text-sm font-medium">Proctoring</h4>
+								<ProctoringSettings value={proctoring} onChange={setProctoring} />
+							</div>
+						)}
 					</div>
 				</Card>
 
@@ -3,15 +3,17 @@ import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { HOME_ROUTE } from '@/constants/routes';
 import { v4 as uuidv4 } from 'uuid';
-import { Bug } from 'lucide-react';
+import { Bug, MessageCircle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { ExamTimerDisplay } from '@/components/ExamTimerDisplay';
 import { MatchingQuestionSortable } from '@/components/MatchingQuestionSortable';
+import { TutorChatPanel } from '@/components/TutorChatPanel';
 import TypingAnswerMathInput, { renderTypingAnswerMathToHtml } from '@/components/TypingAnswerMathInput';
 import {
 	Tooltip,
@@ -24,12 +26,53 @@ import { getLastQuestionIndex, setLastQuestionIndex, clearProgress } from '@/lib
 import { useModule } from '@/hooks/useModules';
 import { useExamTimer } from '@/hooks/useExamTimer';
 import { db, Attempt, Module, Question, TimerState, IntegrityEvent, GlobalGlossaryEntry, normalizeGlossaryMeaning, normalizeGlossaryWord } from '@/lib/db';
-import { closeIntegrityChannel, incrementVisibilityLoss, logIntegrityEvent } from '@/utils/integrity';
+import { closeIntegrityChannel, incrementVisibilityLoss, logIntegrityEvent, onIntegrityEvent } from '@/utils/integrity';
 import { recordDailyStats } from '@/lib/statsHelpers';
+import { buildQuestionContext, createTutorConversation, getTutorChatBlockReason } from '@/lib/tutorChat';
 import { useAuth } from '@/contexts/AuthContext';
 import { prepareContentForDisplay } from '@/lib/contentFormatting';
 import { isInReviewPhase, isReviewExpired, getReviewTimeRemaining, recordReviewInteraction, getReviewedQuestionIds, areAllQuestionsReviewed } from '@/lib/reviewHelpers';
 import { finalizeExamAtEndTime } from '@/lib/reviewHelpers';
+import { chainSubmittedAnswers, sealAttemptChain } from '@/lib/attemptChain';
+import { getFinalQuestionStatus, getQuestionTimeBudgetMs, usesPerQuestionTimers } from '@/lib/questionTimers';
+import {
+	applyOptionOrder,
+	buildOptionOrder,
+	createSeededRandom,
+	drawFromPool,
+	getPaperSeed,
+	hasQuestionPool,
+	matchesQuestionPool,
+	seededShuffle,
+} from '@/lib/paperVariants';
+import {
+	EVENT_CAPTURE_COOLDOWN_MS,
+	getCaptureLimits,
+	getNextCaptureDelayMs,
+	getProctoringPolicy,
+	pruneProctoringStorage,
+	shouldCaptureOnEvent,
+} from '@/lib/proctoring';
+import {
+	buildSectionPlan,
+	getModuleSections,
+	getPlanQuestionOrder,
+	getResumeFloor,
+	getSectionAt,
+	getSectionPoolCandidates,
+	getSectionResults,
+	openSectionAt,
+} from '@/lib/examSections';
+import { matchesAnswer } from '@/lib/answerMatching';
+import {
+	AdaptivePracticeModelV1,
+	AttemptSignal,
+	applyAttemptToAdaptiveModel,
+	chooseNextQuestionId,
+	loadAdaptivePracticeModel,
+	toAdaptiveCandidate,
+} from '@/lib/adaptivePractice';
+import { computeAttemptScore, evaluateScore, getFillBlanksMetaFromText, getGradingPolicy, hasAnswer as isAnswered, unansweredScore } from '@/lib/grading';
 import { toast } from 'sonner';
 
 const FOCUS_WARNING_TIMEOUT = 8000;
@@ -288,6 +331,17 @@ export default function ModuleRunner() {
 					const fallback = await db.questions.where('modules').equals(moduleEntity.id).toArray();
 					loaded = (fallback.filter(Boolean) as Question[]) ?? [];
 				}
+				// Random pools (per section or for the whole paper) need every question they might draw
+				const sections = getModuleSections(moduleEntity);
+				const sectionPools = !!sections?.some((section) => section.pool?.count);
+				if (sectionPools || hasQuestionPool(moduleEntity)) {
+					const bank = await db.questions.toArray();
+					const loadedIds = new Set(loaded.map((q) => q.id));
+					const candidates = sectionPools
+						? getSectionPoolCandidates(sections!, bank)
+						: bank.filter((q) => matchesQuestionPool(q, moduleEntity.settings.questionPool!));
+					loaded = [...loaded, ...candidates.filter((q) => !loadedIds.has(q.id))];
+				}
 				if (cancelled) return;
 				setQuestions(loaded);
 				setQuestionLoadError(
@@ -462,7 +516,7 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 						.filter(Boolean) as Question[];
 					
 					if (attemptQuestions.length > 0) {
-						await finalizeExamAtEndTime(incompleteAttempt, attemptQuestions, examEndTime);
+						await finalizeExamAtEndTime(incompleteAttempt, attemptQuestions, examEndTime, moduleData);
 					}
 				}));
 			}
@@ -482,7 +536,7 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 						.filter(Boolean) as Question[];
 					
 					if (attemptQuestions.length > 0) {
-						await finalizeExamAtEndTime(incompleteAttempt, attemptQuestions, examEndTime);
+						await finalizeExamAtEndTime(incompleteAttempt, attemptQuestions, examEndTime, moduleData);
 					}
 				}));
 			}
@@ -510,9 +564,10 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 				
 					if (completedAttempt && active) {
 						// Pre-load questions immediately for instant access
-						const ordered = (completedAttempt.questionOrder ?? moduleData.questionIds)
+						const ordered = ((completedAttempt.questionOrder ?? moduleData.questionIds)
 							.map((id) => questionMap.get(id))
-							.filter(Boolean) as Question[];
+							.filter(Boolean) as Question[])
+							.map((q) => applyOptionOrder(q, completedAttempt.optionOrder));
 						
 						if (ordered.length > 0) {
 							// Set data immediately without waiting
@@ -552,9 +607,10 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 							? completedAttempt.questionOrder
 							: moduleData.questionIds;
 
-					const ordered = baseOrderIds
+					const ordered = (baseOrderIds
 						.map((id) => questionMap.get(id))
-						.filter(Boolean) as Question[];
+						.filter(Boolean) as Question[])
+						.map((q) => applyOptionOrder(q, completedAttempt.optionOrder));
 
 					if (ordered.length > 0) {
 						setAttempt(completedAttempt);
@@ -578,9 +634,10 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 						? existing.questionOrder
 						: moduleData.questionIds;
 
-					const ordered = baseOrderIds
+					const ordered = (baseOrderIds
 						.map((id) => questionMap.get(id))
-						.filter(Boolean) as Question[];
+						.filter(Boolean) as Question[])
+						.map((q) => applyOptionOrder(q, existing.optionOrder));
 
 					// If the existing attempt's question order no longer matches the current
 					// module questions (e.g. questions were added/removed), discard this
@@ -595,8 +652,10 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 					} else if (ordered.length > 0) {
 						// Determine next index based on which questions have answers
 						const answers = (existing.answers ?? {}) as Record<string, unknown>;
-						let nextIndex = 0;
-						for (let i = 0; i < ordered.length; i++) {
+						// Never resume inside a section that has closed or run out of time
+						const resumeFloor = existing.sectionPlan ? Math.min(getResumeFloor(existing.sectionPlan, Date.now()), ordered.length - 1) : 0;
+						let nextIndex = resumeFloor;
+						for (let i = resumeFloor; i < ordered.length; i++) {
 							const q = ordered[i];
 							const ans = answers[q.id];
 							const hasAnswer =
@@ -642,9 +701,23 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 				return;
 			}
 
-			const baseOrder = moduleData.settings.randomizeQuestions
-				? shuffleArray([...moduleData.questionIds])
-				: [...moduleData.questionIds];
+			// Every random choice below (pool draws, question and option order) comes from the
+			// student's seed, so restarting gives the same paper and neighbours get different ones.
+			const paperSeed = getPaperSeed(moduleData.id, user?.id);
+			const random = createSeededRandom(paperSeed);
+			// Sectioned exams shuffle within each section and draw their pools here, once per attempt
+			const sections = getModuleSections(moduleData);
+			const sectionPlan = sections ? buildSectionPlan(sections, questionMap, random) : undefined;
+			const poolIds =
+				!sectionPlan && hasQuestionPool(moduleData)
+					? drawFromPool(moduleData.settings.questionPool!, Array.from(questionMap.values()), random, moduleData.questionIds)
+					: [];
+			const paperIds = [...moduleData.questionIds, ...poolIds];
+			const baseOrder = sectionPlan
+				? getPlanQuestionOrder(sectionPlan)
+				: moduleData.settings.randomizeQuestions
+					? seededShuffle(paperIds, random)
+					: paperIds;
 
 			const orderIds: string[] = baseOrder;
 
@@ -655,9 +728,11 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 			const expectedDurationMs = durationMinutes > 0 ? durationMinutes * 60000 : 0;
 			const hasTimer = expectedDurationMs > 0;
 
-			const ordered = orderIds
+			const paperQuestions = orderIds
 				.map((id) => questionMap.get(id))
 				.filter(Boolean) as Question[];
+			const optionOrder = moduleData.settings.shuffleOptions ? buildOptionOrder(paperQuestions, random) : undefined;
+			const ordered = paperQuestions.map((q) => applyOptionOrder(q, optionOrder));
 
 			const timerState: TimerState | undefined =
 				hasTimer
@@ -686,6 +761,9 @@ function ExamRunner({ moduleData, baseQuestions, onExit, examConfig, glossaryEnt
 				answers: {},
 				visibilityLosses: 0,
 				questionOrder: orderIds,
+				sectionPlan,
+				paperSeed,
+				optionOrder,
 				scheduledStartUtc,
 				scheduledEndUtc,
 				userId: user?.id,
@@ -780,6 +858,7 @@ function ExamSession({
 	glossaryEnabled,
 }: ExamSessionProps) {
 	const location = useLocation();
+	const gradingPolicy = useMemo(() => getGradingPolicy(moduleData), [moduleData]);
 	// Initialize from attempt's currentQuestionIndex, but ensure we're at the right question
 	const savedIndex = attempt.currentQuestionIndex ?? 0;
 	const [currentIndex, setCurrentIndex] = useState(savedIndex);
@@ -814,6 +893,7 @@ function ExamSession({
 	const scheduledWindowTotalMs = examConfig ? Math.max(examConfig.endUtc - examConfig.startUtc, 0) : 0;
 	const scheduledRemainingMs = examConfig ? Math.max(examConfig.endUtc - nowUtcForWindow, 0) : 0;
 	const timerMode = 'perModule' as const;
+	const perQuestionTimers = usesPerQuestionTimers(moduleData);
 	// Prefer a positive stored timerState duration; otherwise fall back to configuredExpectedDurationMs,
 	// but clamp by the scheduled exam window so that remaining time is aligned with wall clock.
 	const baseExpectedDurationMs =
@@ -834,12 +914,45 @@ function ExamSession({
 	const reviewExpired = moduleData.settings.allowReview && reviewDurationSecondsForReview > 0 && 
 		currentTimeForReview >= reviewEndTimeForReview;
 	
-	const { user } = useAuth();
+	const { user, suspendIdleLock } = useAuth();
 	const [phase, setPhase] = useState<'exam' | 'review'>(initialPhase);
 	const phaseRef = useRef<'exam' | 'review'>(initialPhase);
 	useEffect(() => {
 		phaseRef.current = phase;
 	}, [phase]);
+	// A running exam must never be interrupted by the session idle lock.
+	useEffect(() => {
+		if (phase !== 'exam' || attempt.completed) return;
+		return suspendIdleLock();
+	}, [phase, attempt.completed, suspendIdleLock]);
+	// Desktop app: the main process keeps the window in kiosk mode, swallows escape shortcuts and
+	// refuses to close until the attempt is submitted. Each blocked attempt becomes an integrity event.
+	useEffect(() => {
+		if (phase !== 'exam' || attempt.completed) return;
+		const api = typeof window !== 'undefined' ? window.examLockdown : undefined;
+		if (!api) return;
+		const attemptId = attempt.id;
+		let cancelled = false;
+		const unsubscribe = api.onBlocked((blocked) => {
+			if (blocked.attemptId !== attemptId) return;
+			const type = blocked.kind === 'close' ? 'window_close_blocked' : 'keyboard_shortcut';
+			void logIntegrityEvent(attemptId, type, `lockdown: ${blocked.detail}`);
+		});
+		void (async () => {
+			const appSettings = await db.settings.get('1');
+			if (cancelled) return;
+			await api.enter({
+				attemptId,
+				kiosk: moduleData.settings.requireFullscreen ?? appSettings?.examIntegrity?.requireFullscreen ?? true,
+				blockShortcuts: appSettings?.examIntegrity?.blockKeyboardShortcuts ?? true,
+			});
+		})().catch((err) => console.error('Failed to enter exam lockdown', err));
+		return () => {
+			cancelled = true;
+			unsubscribe();
+			api.exit({ attemptId }).catch((err) => console.error('Failed to leave exam lockdown', err));
+		};
+	}, [phase, attempt.completed, attempt.id, moduleData.settings.requireFullscreen]);
 	const [showPerfectScoreCelebration, setShowPerfectScoreCelebration] = useState(false);
 	const [reviewedQuestionIds, setReviewedQuestionIds] = useState<Set<string>>(new Set());
 	const [reviewTimeRemaining, setReviewTimeRemainingState] = useState<number | null>(null);
@@ -1003,6 +1116,9 @@ function ExamSession({
 	// Ensure currentIndex is within bounds
 	const safeCurrentIndex = Math.min(Math.max(0, currentIndex), questions.length - 1);
 	const currentQuestion = questions[safeCurrentIndex];
+	const sectionPlan = attempt.sectionPlan;
+	const currentSectionRange = sectionPlan ? getSectionAt(sectionPlan, safeCurrentIndex) : null;
+	const currentSection = currentSectionRange ? sectionPlan![currentSectionRange.index] : null;
 	const canReportIssue = moduleData.type === 'practice' || phase === 'review';
 	const examContentRef = useRef<HTMLDivElement | null>(null);
 	const [reportDialogOpen, setReportDialogOpen] = useState(false);
@@ -1127,46 +1243,75 @@ function ExamSession({
     return true;
   }, [leaderKey]);
 
+	// Proctoring screenshots: periodic at random intervals, plus on integrity events when the policy asks.
+	const proctoringPolicy = useMemo(() => getProctoringPolicy(moduleData), [moduleData]);
+	const proctoringQuestionIdRef = useRef<string | undefined>(undefined);
+	proctoringQuestionIdRef.current = questions[safeCurrentIndex]?.id;
+
 	useEffect(() => {
 		if (phase !== 'exam') return;
 		if (!isLeader) return;
 		if (attempt.completed) return;
+		if (!proctoringPolicy.enabled) return;
 		if (typeof window === 'undefined' || !window.examProctor?.captureAppScreenshot) return;
 
 		let stopped = false;
-		const intervalId = window.setInterval(() => {
+		let timeoutId: number | undefined;
+		let lastEventCaptureAt = 0;
+
+		const capture = async () => {
 			if (stopped || attemptRef.current.completed || isFinalizingRef.current) return;
-			void (async () => {
-				try {
-					const rectEl = examContentRef.current;
-					const rect = rectEl
-						? (() => {
-							const b = rectEl.getBoundingClientRect();
-							return {
-								x: b.left + window.scrollX,
-								y: b.top + window.scrollY,
-								width: b.width,
-								height: b.height,
-							};
-						})()
-						: undefined;
-					const result = await window.examProctor!.captureAppScreenshot({
-						attemptId: attemptRef.current.id,
-						questionId: questionsRef.current[safeCurrentIndex]?.id,
-						rect,
-					});
+			try {
+				const rectEl = examContentRef.current;
+				const rect = rectEl
+					? (() => {
+						const b = rectEl.getBoundingClientRect();
+						return {
+							x: b.left + window.scrollX,
+							y: b.top + window.scrollY,
+							width: b.width,
+							height: b.height,
+						};
+					})()
+					: undefined;
+				const result = await window.examProctor!.captureAppScreenshot({
+					attemptId: attemptRef.current.id,
+					questionId: proctoringQuestionIdRef.current,
+					rect,
+					limits: getCaptureLimits(proctoringPolicy),
+				});
+				if (result.filePath) {
 					await logIntegrityEvent(attemptRef.current.id, 'screenshot_captured', result.filePath);
-				} catch (err) {
-					// Silent failure: do not disturb student during exam
 				}
-			})();
-		}, 60_000);
+			} catch (err) {
+				// Silent failure: do not disturb student during exam
+			}
+		};
+
+		const scheduleNext = () => {
+			timeoutId = window.setTimeout(() => {
+				void capture().finally(() => {
+					if (!stopped) scheduleNext();
+				});
+			}, getNextCaptureDelayMs(proctoringPolicy));
+		};
+
+		void pruneProctoringStorage(attemptRef.current.id);
+		scheduleNext();
+		const unsubscribe = onIntegrityEvent((event) => {
+			if (event.attemptId !== attemptRef.current.id || !shouldCaptureOnEvent(proctoringPolicy, event.type)) return;
+			const now = Date.now();
+			if (now - lastEventCaptureAt < EVENT_CAPTURE_COOLDOWN_MS) return;
+			lastEventCaptureAt = now;
+			void capture();
+		});
 
 		return () => {
 			stopped = true;
-			window.clearInterval(intervalId);
+			window.clearTimeout(timeoutId);
+			unsubscribe();
 		};
-	}, [phase, isLeader, attempt.completed, safeCurrentIndex]);
+	}, [phase, isLeader, attempt.completed, proctoringPolicy]);
 
 	// Keep currentIndex managed locally; initial value comes from attempt.currentQuestionIndex
 
@@ -1179,9 +1324,9 @@ function ExamSession({
 	useEffect(() => {
 		if (attempt.perQuestionAttempts && attempt.perQuestionAttempts.length > 0) {
 			const submitted = new Set(attempt.perQuestionAttempts
-				.filter(pqa => pqa.status === 'attempted')
+				.filter(pqa => pqa.status === 'attempted' || pqa.status === 'autosubmitted')
 				.map(pqa => pqa.questionId));
-			setSubmittedQuestionIds(submitted);
+			setSubmittedQuestionIds(prev => new Set([...prev, ...submitted]));
 		}
 	}, [attempt.perQuestionAttempts]);
 
@@ -1270,6 +1415,8 @@ function ExamSession({
 		if (isFinalizingRef.current) return;
 		isFinalizingRef.current = true;
 		setIsFinalizing(true);
+		// Finishing the last question (by hand or when its question/section timer runs out) keeps the student on the completed screen.
+		const staysOnPage = reason === 'user-submit' || reason === 'question-time-expired' || reason === 'section-time-expired';
 		
 		// Mark timer as expired immediately to prevent further updates
 		hasTimeExpiredRef.current = true;
@@ -1324,14 +1471,14 @@ function ExamSession({
 			if (latest.completed || latest.finalized) {
 				isFinalizingRef.current = false;
 				setIsFinalizing(false);
-				if (reason !== 'user-submit' && phaseRef.current === 'exam') {
+				if (!staysOnPage && phaseRef.current === 'exam') {
 					onExit();
 				}
 				return;
 			}
 
 			// Step 5: Defensive guard - avoid auto-submitting immediately after start
-			if (reason !== 'user-submit') {
+			if (!staysOnPage) {
 				const startedAt = latest.startedAt ?? currentAttempt.startedAt;
 				const elapsedSinceStart = Date.now() - startedAt;
 				if (elapsedSinceStart < 3000) {
@@ -1356,13 +1503,11 @@ function ExamSession({
 			const perQuestionAttempts = questions.map((q, idx) => {
 				const ans = sourceAnswers[q.id];
 				// Check if answer exists and is not empty string
-				const hasAnswer = ans !== undefined && ans !== null && ans !== '' && 
-					(!Array.isArray(ans) || (ans as string[]).length > 0);
-				const scoring = hasAnswer 
-					? evaluateScore(q, ans) 
-					: { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: getTotalPartsForQuestion(q) };
-				// Mark unanswered questions as unattempted/autosubmitted
-				const autosubmitted = !hasAnswer;
+				const hasAnswer = isAnswered(ans);
+				const scoring = hasAnswer ? evaluateScore(q, ans, gradingPolicy) : unansweredScore(q);
+				const existingAttempt = latest.perQuestionAttempts?.find(pqa => pqa.questionId === q.id);
+				// Mark unanswered questions as unattempted/autosubmitted; keep questions whose own timer ran out as autosubmitted
+				const autosubmitted = !hasAnswer || existingAttempt?.status === 'autosubmitted';
 				// For unattempted questions, ensure userAnswer is explicitly set to empty string/array
 				// This ensures the performance modal can properly display "unattempted" status
 				const userAnswer = hasAnswer 
@@ -1373,7 +1518,6 @@ function ExamSession({
 				// 2. Existing perQuestionAttempt (if question was previously submitted)
 				// 3. currentQuestionTimerState (if this is the current question)
 				// 4. Fallback to attempt start time (least accurate)
-				const existingAttempt = latest.perQuestionAttempts?.find(pqa => pqa.questionId === q.id);
 				const questionStartedAt = questionTimeMap.current[q.id] ??
 					existingAttempt?.questionStartedAt ?? 
 					(attempt.currentQuestionTimerState?.questionId === q.id ? attempt.currentQuestionTimerState.startUtc : undefined) ??
@@ -1389,7 +1533,7 @@ function ExamSession({
 					questionIndexInModule: idx,
 					attemptNumberForQuestion: 1,
 					integrityEvents: [],
-					status: (hasAnswer ? 'attempted' : 'unattempted') as 'attempted' | 'unattempted',
+					status: getFinalQuestionStatus(existingAttempt, hasAnswer),
 					autosubmitted: autosubmitted,
 					scorePercent: scoring.scorePercent,
 					correctParts: scoring.correctParts,
@@ -1397,10 +1541,7 @@ function ExamSession({
 				};
 			});
 
-			const scoredQuestions = perQuestionAttempts.filter((a) => typeof a.scorePercent === 'number');
-			const score = scoredQuestions.length > 0
-				? Math.round(scoredQuestions.reduce((sum, a) => sum + (a.scorePercent || 0), 0) / scoredQuestions.length)
-				: 0;
+			const score = computeAttemptScore(perQuestionAttempts, gradingPolicy);
 			
 			// Step 7: Create finalized attempt object
 			const finalizedAttempt = {
@@ -1443,6 +1584,7 @@ function ExamSession({
 
 			// Step 9: Verify the update was successful by reading back
 			if (updateSuccess) {
+				void sealAttemptChain(finalizedAttempt);
 				try {
 					const verified = await db.attempts.get(latest.id);
 					if (verified && verified.finalized) {
@@ -1463,7 +1605,7 @@ function ExamSession({
 
 			// Step 11: Now safe to navigate (for non-user submissions)
 			// For user submissions, stay on page to show completion
-			if (reason !== 'user-submit' && phaseRef.current === 'exam') {
+			if (!staysOnPage && phaseRef.current === 'exam') {
 				isFinalizingRef.current = false;
 				setIsFinalizing(false);
 				onExit();
@@ -1522,11 +1664,11 @@ function ExamSession({
 			isFinalizingRef.current = false;
 			setIsFinalizing(false);
 			// For non-user submissions, still try to exit even on error (exam phase only)
-			if (reason !== 'user-submit' && phaseRef.current === 'exam') {
+			if (!staysOnPage && phaseRef.current === 'exam') {
 				onExit();
 			}
 		}
-	}, [moduleData.id, onExit, setAttempt, questions]);
+	}, [moduleData.id, onExit, setAttempt, questions, gradingPolicy]);
 
 	const handleTimeUp = useCallback(() => {
 		// Prevent multiple calls
@@ -1605,20 +1747,22 @@ function ExamSession({
 
 	useEffect(() => {
 		if (phase === 'exam' && currentQuestion) {
-			const now = Date.now();
-			questionStartRef.current = now;
+			// Keep the stored start when resuming the same question so a reload doesn't reset its countdown
+			const stored = attemptRef.current.currentQuestionTimerState;
+			const startedAt =
+				questionTimeMap.current[currentQuestion.id] ??
+				(stored?.questionId === currentQuestion.id ? stored.startUtc : Date.now());
+			questionStartRef.current = startedAt;
 			setShowFeedback(false);
 			setLastScorePercent(null);
 			// Track question start time in the map (only record once per question)
-			if (!questionTimeMap.current[currentQuestion.id]) {
-				questionTimeMap.current[currentQuestion.id] = now;
-			}
+			questionTimeMap.current[currentQuestion.id] = startedAt;
 			// Record question start time in the attempt's currentQuestionTimerState
 			// This will be used when finalizing to set questionStartedAt for each question
 			db.attempts.update(attempt.id, {
 				currentQuestionTimerState: {
-					startUtc: now,
-					expectedDurationMs: 0,
+					startUtc: startedAt,
+					expectedDurationMs: getQuestionTimeBudgetMs(moduleData, currentQuestion),
 					elapsedMs: 0,
 					paused: false,
 					mode: 'perQuestion',
@@ -1626,8 +1770,111 @@ function ExamSession({
 				},
 				currentQuestionIndex: currentIndex,
 			}).catch(err => console.error('Error recording question start:', err));
+			// Entering a section starts its clock and closes the ones before it
+			const plan = attemptRef.current.sectionPlan;
+			const openedPlan = plan ? openSectionAt(plan, Math.min(currentIndex, questions.length - 1), Date.now()) : null;
+			if (openedPlan) {
+				const updated = { ...attemptRef.current, sectionPlan: openedPlan };
+				attemptRef.current = updated;
+				setAttempt(updated);
+				db.attempts.update(attempt.id, { sectionPlan: openedPlan }).catch(err => console.error('Error recording section start:', err));
+			}
+		}
+	}, [currentIndex, phase, currentQuestion, attempt.id, moduleData, questions.length, setAttempt]);
+
+	// Per-question timer ran out: lock in whatever is selected and move on. The module timer keeps running.
+	const handleQuestionTimeUp = useCallback(async (questionId: string) => {
+		if (isFinalizingRef.current || hasTimeExpiredRef.current || phaseRef.current !== 'exam') return;
+		const currentAttempt = attemptRef.current;
+		if (currentAttempt.completed) return;
+		const index = questions.findIndex(q => q.id === questionId);
+		const question = questions[index];
+		if (!question) return;
+		if (currentAttempt.perQuestionAttempts?.some(pqa => pqa.questionId === questionId)) return;
+
+		const now = Date.now();
+		const ans = answersRef.current[questionId];
+		const startedAt = questionTimeMap.current[questionId] ?? now;
+		const perQuestionAttempts = [
+			...(currentAttempt.perQuestionAttempts ?? []),
+			{
+				questionId,
+				userAnswer: isAnswered(ans) ? ans : (question.type === 'matching' || question.type === 'fill_blanks' ? [] : ''),
+				timeTakenMs: now - startedAt,
+				timestamp: now,
+				questionStartedAt: startedAt,
+				questionIndexInModule: index,
+				attemptNumberForQuestion: 1,
+				integrityEvents: [],
+				status: 'autosubmitted' as const,
+				autosubmitted: true,
+			},
+		];
+		setSubmittedQuestionIds(prev => new Set([...prev, questionId]));
+		setShowFeedback(false);
+
+		if (index >= questions.length - 1) {
+			await db.attempts.update(currentAttempt.id, { perQuestionAttempts });
+			void chainSubmittedAnswers(currentAttempt.id, answersRef.current, [questionId]);
+			const updated = { ...attemptRef.current, perQuestionAttempts, completed: true };
+			attemptRef.current = updated;
+			setAttempt(updated);
+			setCurrentIndex(questions.length); // trigger "No more questions"
+			void autosubmitUnansweredAndFinalize('question-time-expired');
+			return;
+		}
+
+		const nextIndex = index + 1;
+		await db.attempts.update(currentAttempt.id, { perQuestionAttempts, currentQuestionIndex: nextIndex });
+		void chainSubmittedAnswers(currentAttempt.id, answersRef.current, [questionId]);
+		const updated = { ...attemptRef.current, perQuestionAttempts, currentQuestionIndex: nextIndex };
+		attemptRef.current = updated;
+		setAttempt(updated);
+		setCurrentIndex(nextIndex);
+		toast.info('Time is up for that question. Your answer was submitted.');
+	}, [questions, setAttempt, autosubmitUnansweredAndFinalize]);
+
+	// Section timer ran out: close the section and jump to the next one, or finish the exam after the last.
+	const handleSectionTimeUp = useCallback(async (sectionId: string) => {
+		if (isFinalizingRef.current || hasTimeExpiredRef.current || phaseRef.current !== 'exam') return;
+		const currentAttempt = attemptRef.current;
+		const plan = currentAttempt.sectionPlan;
+		if (currentAttempt.completed || !plan) return;
+		const sectionIndex = plan.findIndex(section => section.sectionId === sectionId);
+		if (sectionIndex < 0 || plan[sectionIndex].closedAt) return;
+		const nextIndex = plan.slice(0, sectionIndex + 1).reduce((sum, section) => sum + section.questionIds.length, 0);
+		setShowFeedback(false);
+		void chainSubmittedAnswers(currentAttempt.id, answersRef.current, plan[sectionIndex].questionIds);
+
+		if (sectionIndex >= plan.length - 1 || nextIndex >= questions.length) {
+			const updated = { ...currentAttempt, completed: true };
+			attemptRef.current = updated;
+			setAttempt(updated);
+			setCurrentIndex(questions.length); // trigger "No more questions"
+			void autosubmitUnansweredAndFinalize('section-time-expired');
+			return;
 		}
-	}, [currentIndex, phase, currentQuestion, attempt.id]);
+
+		await db.attempts.update(currentAttempt.id, { currentQuestionIndex: nextIndex, answers: answersRef.current });
+		const updated = { ...attemptRef.current, currentQuestionIndex: nextIndex, answers: answersRef.current };
+		attemptRef.current = updated;
+		setAttempt(updated);
+		setCurrentIndex(nextIndex);
+		toast.info(`Time is up for ${plan[sectionIndex].title}. Moving on to ${plan[sectionIndex + 1].title}.`);
+	}, [questions.length, setAttempt, autosubmitUnansweredAndFinalize]);
+
+	const goToPreviousQuestion = useCallback(async () => {
+		if (!currentSectionRange || !currentSection?.allowBackNavigation) return;
+		if (currentIndex <= currentSectionRange.start || isFinalizingRef.current) return;
+		const prevIndex = currentIndex - 1;
+		setShowFeedback(false);
+		setCurrentIndex(prevIndex);
+		if (currentQuestion) void chainSubmittedAnswers(attempt.id, answersRef.current, [currentQuestion.id]);
+		await db.attempts.update(attempt.id, { currentQuestionIndex: prevIndex, answers: answersRef.current });
+		const updated = { ...attemptRef.current, currentQuestionIndex: prevIndex, answers: answersRef.current };
+		attemptRef.current = updated;
+		setAttempt(updated);
+	}, [attempt.id, currentIndex, currentQuestion, currentSection, currentSectionRange, setAttempt]);
 
 	// Review period features are disabled; no review countdown or auto-finalization.
 
@@ -1740,6 +1987,7 @@ function ExamSession({
 			answers: updatedAnswers,
 			currentQuestionIndex: nextIndex,
 		});
+		void chainSubmittedAnswers(currentAttempt.id, updatedAnswers, [q.id]);
 		
 		// Update local state
 		setAnswers(updatedAnswers);
@@ -1828,7 +2076,11 @@ function ExamSession({
             }
           } else if (msg.type === 'ATTEMPT_FINALIZED') {
             // Only auto-exit for non user-initiated finalizations
-            if (msg.finalizationReason && msg.finalizationReason === 'user-submit') {
+            if (
+              msg.finalizationReason === 'user-submit' ||
+              msg.finalizationReason === 'question-time-expired' ||
+              msg.finalizationReason === 'section-time-expired'
+            ) {
               return;
             }
             if (phase === 'exam') {
@@ -1870,8 +2122,11 @@ function ExamSession({
 		[answers, attempt, currentQuestion]
 	);
 
-	const canGoBack = false;
 	const isLastQuestion = currentIndex === questions.length - 1;
+	// Back navigation only ever stays inside the current section, and never undoes a question timer
+	const canGoBack =
+		!!currentSection?.allowBackNavigation && !perQuestionTimers && !!currentSectionRange && currentIndex > currentSectionRange.start;
+	const closesSection = !!currentSectionRange && !isLastQuestion && currentIndex === currentSectionRange.end - 1;
 
 	return (
 		<div className="relative max-w-7xl mx-auto space-y-4 bg-white select-none" onCopy={(e) => e.preventDefault()} onCut={(e) => e.preventDefault()} onPaste={(e) => e.preventDefault()}>
@@ -1922,6 +2177,43 @@ function ExamSession({
 					</div>
 					<div className="flex flex-col items-end gap-1">
 						<div className="flex items-center gap-3">
+							{perQuestionTimers &&
+								phase === 'exam' &&
+								currentQuestion &&
+								!attempt.completed &&
+								!showFeedback &&
+								!submittedQuestionIds.has(currentQuestion.id) &&
+								getQuestionTimeBudgetMs(moduleData, currentQuestion) > 0 && (
+									<ScopedCountdown
+										key={currentQuestion.id}
+										timerId={`${attempt.id}:${currentQuestion.id}`}
+										moduleId={moduleData.id}
+										mode="perQuestion"
+										budgetMs={getQuestionTimeBudgetMs(moduleData, currentQuestion)}
+										startedAt={
+											questionTimeMap.current[currentQuestion.id] ??
+											(attempt.currentQuestionTimerState?.questionId === currentQuestion.id
+												? attempt.currentQuestionTimerState.startUtc
+												: Date.now())
+										}
+										onTimeUp={() => void handleQuestionTimeUp(currentQuestion.id)}
+									/>
+								)}
+							{phase === 'exam' &&
+								!attempt.completed &&
+								!!currentSection?.timeLimitMinutes &&
+								!!currentSection.startedAt && (
+									<ScopedCountdown
+										key={currentSection.sectionId}
+										timerId={`${attempt.id}:section:${currentSection.sectionId}`}
+										moduleId={moduleData.id}
+										mode="perModule"
+										label={currentSection.title}
+										budgetMs={currentSection.timeLimitMinutes * 60000}
+										startedAt={currentSection.startedAt}
+										onTimeUp={() => void handleSectionTimeUp(currentSection.sectionId)}
+									/>
+								)}
 							{hasTimer && phase === 'exam' && (
 								<ExamTimerDisplay
 									remainingMs={examTimer.remainingTimeMs}
@@ -1951,6 +2243,11 @@ function ExamSession({
 									/>
 								</div>
 								<div className="text-xs text-muted-foreground">
+									{currentSection && currentSectionRange && !attempt.completed && (
+										<span className="font-medium text-foreground">
+											{currentSection.title} · {safeCurrentIndex - currentSectionRange.start + 1} of {currentSection.questionIds.length} ·{' '}
+										</span>
+									)}
 									{answeredCount} of {questions.length} questions done
 								</div>
 							</div>
@@ -2165,41 +2462,56 @@ function ExamSession({
 						{showFeedback ? (
 							<div className="space-y-3 pt-6">
 								<div className="bg-white border border-border rounded-md p-3 flex items-center justify-between">
-									<div className="text-sm font-semibold">Your answer has been recorded</div>
-									<Button
-										variant="outline"
-										disabled={isFinalizing}
-										onClick={async () => {
-											if (isFinalizing) return;
-											// Mark current question as submitted if not already
-											if (currentQuestion && !submittedQuestionIds.has(currentQuestion.id)) {
-												setSubmittedQuestionIds(prev => new Set([...prev, currentQuestion.id]));
-											}
-											setShowFeedback(false);
-											// Move to the next question
-											const nextIndex = Math.min(currentIndex + 1, questions.length - 1);
-											if (nextIndex > currentIndex && nextIndex < questions.length) {
-												const now = Date.now();
-												questionStartRef.current = now;
-												setCurrentIndex(nextIndex);
-												await db.attempts.update(attempt.id, { 
-													currentQuestionIndex: nextIndex 
-												});
-												setAttempt({ ...attempt, currentQuestionIndex: nextIndex });
-											} else {
-												// All questions have been answered. Immediately switch
-												// UI to the completed state and finalize in background.
-												const updated = { ...attemptRef.current, completed: true };
-												attemptRef.current = updated;
-												setAttempt(updated);
-												setCurrentIndex(questions.length); // trigger "No more questions"
-												setIsFinalizing(false);
-												void autosubmitUnansweredAndFinalize('user-submit');
-											}
-										}}
-									>
-										Next
-									</Button>
+									<div>
+										<div className="text-sm font-semibold">Your answer has been recorded</div>
+										{closesSection && currentSection && (
+											<div className="text-xs text-muted-foreground">
+												Moving on closes {currentSection.title}. You can't come back to it.
+											</div>
+										)}
+									</div>
+									<div className="flex gap-2">
+										{canGoBack && (
+											<Button variant="ghost" disabled={isFinalizing} onClick={() => void goToPreviousQuestion()}>
+												Previous
+											</Button>
+										)}
+										<Button
+											variant="outline"
+											disabled={isFinalizing}
+											onClick={async () => {
+												if (isFinalizing) return;
+												// Mark current question as submitted if not already
+												if (currentQuestion && !submittedQuestionIds.has(currentQuestion.id)) {
+													setSubmittedQuestionIds(prev => new Set([...prev, currentQuestion.id]));
+												}
+												if (currentQuestion) void chainSubmittedAnswers(attempt.id, answersRef.current, [currentQuestion.id]);
+												setShowFeedback(false);
+												// Move to the next question
+												const nextIndex = Math.min(currentIndex + 1, questions.length - 1);
+												if (nextIndex > currentIndex && nextIndex < questions.length) {
+													const now = Date.now();
+													questionStartRef.current = now;
+													setCurrentIndex(nextIndex);
+													await db.attempts.update(attempt.id, { 
+														currentQuestionIndex: nextIndex 
+													});
+													setAttempt({ ...attempt, currentQuestionIndex: nextIndex });
+												} else {
+													// All questions have been answered. Immediately switch
+													// UI to the completed state and finalize in background.
+													const updated = { ...attemptRef.current, completed: true };
+													attemptRef.current = updated;
+													setAttempt(updated);
+													setCurrentIndex(questions.length); // trigger "No more questions"
+													setIsFinalizing(false);
+													void autosubmitUnansweredAndFinalize('user-submit');
+												}
+											}}
+										>
+											Next
+										</Button>
+									</div>
 								</div>
 								{phase !== 'exam' && currentQuestion.type === 'mcq' && currentQuestion.correctAnswers && currentQuestion.correctAnswers.length > 0 && (
 									<div className="bg-white border border-border rounded-md p-3">
@@ -2246,6 +2558,11 @@ function ExamSession({
 						) : (
 							<div className="flex items-center justify-between pt-6">
 								<div className="flex gap-2">
+									{canGoBack && (
+										<Button variant="ghost" disabled={isFinalizing} onClick={() => void goToPreviousQuestion()}>
+											Previous
+										</Button>
+									)}
 									<Button
 										disabled={isFinalizing || !currentQuestion || !answers[currentQuestion.id] || showFeedback}
 										onClick={async () => {
@@ -2254,6 +2571,7 @@ function ExamSession({
 											
 											// Mark this question as submitted
 											setSubmittedQuestionIds(prev => new Set([...prev, currentQuestion.id]));
+											void chainSubmittedAnswers(attempt.id, answers, [currentQuestion.id]);
 											
 											if (isLastQuestion) {
 												// For last question, immediately move UI to completed state
@@ -2299,6 +2617,22 @@ function ExamSession({
 							<div className="text-sm font-semibold text-green-900">Review complete</div>
 						</div>
 					)}
+
+					{sectionPlan && attempt.finalized && (
+						<div className="bg-white border rounded-md p-4 space-y-2">
+							<div className="text-sm font-semibold">Results by section</div>
+							<div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+								{getSectionResults(sectionPlan, attempt.perQuestionAttempts ?? [], gradingPolicy).map((result) => (
+									<div key={result.sectionId} className="rounded-md border p-3">
+										<div className="text-sm font-medium">{result.title}</div>
+										<div className="text-xs text-muted-foreground">
+											{result.answered} of {result.questionCount} answered · {result.score}%
+										</div>
+									</div>
+								))}
+							</div>
+						</div>
+					)}
 					
 					{questions.length === 0 ? (
 						<div>No questions available.</div>
@@ -2325,7 +2659,7 @@ function ExamSession({
 							const finalStatus = (hasAnswer && status === 'unattempted') ? 'attempted' : status;
 							
 							// Use the isCorrect and scorePercent from perQuestionAttempts if available
-							const evaluated = hasAnswer ? evaluateScore(q, userAns) : { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 1 };
+							const evaluated = hasAnswer ? evaluateScore(q, userAns, gradingPolicy) : unansweredScore(q);
 							const scorePercent = perQuestionAttempt?.scorePercent ?? evaluated.scorePercent;
 							const isCorrect = perQuestionAttempt?.isCorrect ?? (hasAnswer && evaluated.isCorrect);
 							
@@ -2333,7 +2667,13 @@ function ExamSession({
 								<div key={q.id} className="space-y-4">
 									<div className="rounded-md border p-4 space-y-4 bg-white">
 										<div className="flex items-start justify-between gap-2">
-											<div className="text-sm font-semibold text-muted-foreground">Question {reviewIndex + 1} of {questions.length}</div>
+											<div className="text-sm font-semibold text-muted-foreground">
+												{sectionPlan && (() => {
+													const range = getSectionAt(sectionPlan, safeReviewIndex);
+													return range ? `${sectionPlan[range.index].title} · ` : '';
+												})()}
+												Question {reviewIndex + 1} of {questions.length}
+											</div>
 										</div>
 										<div className="text-xl md:text-2xl font-medium content-html tk-question-text" dangerouslySetInnerHTML={{ __html: prepareContentForDisplay(q.text) }} />
 										
@@ -2572,6 +2912,46 @@ function ExamSession({
 	);
 }
 
+// Countdown for one question or section. Render with a key per question/section so each gets a fresh timer.
+function ScopedCountdown({
+	timerId,
+	moduleId,
+	budgetMs,
+	startedAt,
+	mode,
+	label,
+	onTimeUp,
+}: {
+	timerId: string;
+	moduleId: string;
+	budgetMs: number;
+	startedAt: number;
+	mode: 'perModule' | 'perQuestion';
+	label?: string;
+	onTimeUp: () => void;
+}) {
+	const [initialElapsedMs] = useState(() => Math.min(budgetMs, Math.max(0, Date.now() - startedAt)));
+	const firedRef = useRef(false);
+	const timer = useExamTimer(
+		{
+			attemptId: timerId,
+			moduleId,
+			expectedDurationMs: budgetMs,
+			initialElapsedMs,
+			mode,
+			autoStart: true,
+		},
+		{
+			onTimeUp: () => {
+				if (firedRef.current) return;
+				firedRef.current = true;
+				onTimeUp();
+			},
+		}
+	);
+	return <ExamTimerDisplay remainingMs={timer.remainingTimeMs} mode={mode} label={label} paused={timer.isPaused} />;
+}
+
 function usePrefersReducedMotion() {
 	const [reduced, setReduced] = useState(false);
 	useEffect(() => {
@@ -2814,9 +3194,7 @@ function FillBlanksPassage({
 		if (!revealCorrectness) return null;
 		const blank = blanks[idx];
 		if (!blank) return null;
-		const userAnswer = (values[idx] || '').trim().toLowerCase();
-		const correctAnswer = blank.correct.trim().toLowerCase();
-		return userAnswer === correctAnswer;
+		return matchesAnswer(values[idx], blank.correct, question.answerMatching);
 	};
 
 	// Guard for environments without DOMParser (e.g. SSR)
@@ -2967,36 +3345,26 @@ function FillBlanksPassage({
 	);
 }
 
-function getFillBlanksMetaFromText(q: Question): { id: string; correct: string }[] {
-	if (q.type !== 'fill_blanks') return [];
-	if (typeof window === 'undefined' || typeof DOMParser === 'undefined') return [];
-	const parser = new DOMParser();
-	const doc = parser.parseFromString(q.text || '', 'text/html');
-	const spans = Array.from(doc.querySelectorAll('[data-blank="true"]')) as HTMLElement[];
-	return spans
-		.map((el, index) => {
-			let id = el.getAttribute('data-blank-id') || '';
-			if (!id) {
-				id = `b${index + 1}`;
-			}
-			const correct = (el.innerText || '').trim();
-			return { id, correct };
-		})
-		.filter((b) => b.correct.length > 0);
-}
-
 interface PracticeRunnerProps {
 	moduleData: Module;
 	baseQuestions: Question[];
 	onExit: () => void;
 	glossaryEntries: GlobalGlossaryEntry[];
 	glossaryEnabled: boolean;
+	// Source module per question ID for sessions that mix modules (the review queue).
+	// Answers, grading and daily limits then follow each question's own module.
+	questionModules?: Record<string, Module>;
 }
 
-function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, glossaryEnabled }: PracticeRunnerProps) {
+export function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, glossaryEnabled, questionModules }: PracticeRunnerProps) {
 	const navigate = useNavigate();
 	const location = useLocation();
 	const { user } = useAuth();
+	const gradingPolicy = useMemo(() => getGradingPolicy(moduleData), [moduleData]);
+	const adaptive = moduleData.settings.practiceMode === 'adaptive';
+	const adaptiveCfg = useMemo(() => ({ userId: user?.id, moduleId: moduleData.id }), [user?.id, moduleData.id]);
+	const [adaptiveModel, setAdaptiveModel] = useState<AdaptivePracticeModelV1 | null>(null);
+	const [recentSignals, setRecentSignals] = useState<AttemptSignal[]>([]);
 	const [index, setIndex] = useState(0);
 	const [answers, setAnswers] = useState<Record<string, string | string[]>>({});
 	const [correctMap, setCorrectMap] = useState<Record<string, boolean>>({});
@@ -3008,6 +3376,13 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 	const [history, setHistory] = useState<{ id: string; correct: boolean; difficulty: Question['metadata']['difficulty'] | undefined }[]>([]);
 	const [windowExpired, setWindowExpired] = useState(false);
 	const practiceContentRef = useRef<HTMLDivElement | null>(null);
+	// Tutor conversations opened from this session, keyed by question id so reopening continues the same chat.
+	const [tutorConversations, setTutorConversations] = useState<Record<string, string>>({});
+	const [tutorOpen, setTutorOpen] = useState(false);
+	const tutorAvailable = useLiveQuery(async () => {
+		if (!window.offlineAi?.chat) return false;
+		return (await getTutorChatBlockReason(user?.id, false)) === null;
+	}, [user?.id]) ?? false;
 	const [reportDialogOpen, setReportDialogOpen] = useState(false);
 	const [reportMessage, setReportMessage] = useState('');
 	const [reportScreenshotDataUrl, setReportScreenshotDataUrl] = useState<string | undefined>(undefined);
@@ -3015,7 +3390,40 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 	const [reportScreenshotError, setReportScreenshotError] = useState<string | null>(null);
 	const [isSubmittingReport, setIsSubmittingReport] = useState(false);
 
+	// Adaptive mode: questions are served one at a time, each picked from the learner's model.
+	const pickNextAdaptiveQuestion = useCallback(
+		(model: AdaptivePracticeModelV1, servedIds: Set<string>, recent: AttemptSignal[]): Question | undefined => {
+			const remaining = baseQuestions.filter((q) => !servedIds.has(q.id));
+			const nextId = chooseNextQuestionId({
+				cfg: adaptiveCfg,
+				model,
+				candidates: remaining.map(toAdaptiveCandidate),
+				recent,
+				now: Date.now(),
+			});
+			return remaining.find((q) => q.id === nextId);
+		},
+		[adaptiveCfg, baseQuestions],
+	);
+
 	useEffect(() => {
+		if (!adaptive) return;
+		let active = true;
+		(async () => {
+			const model = await loadAdaptivePracticeModel(adaptiveCfg);
+			if (!active) return;
+			const first = pickNextAdaptiveQuestion(model, new Set(), []);
+			setAdaptiveModel(model);
+			setRecentSignals([]);
+			setOrderedQuestions(first ? [first] : []);
+			setIndex(0);
+			setQuestionStartRef(Date.now());
+		})();
+		return () => { active = false; };
+	}, [adaptive, adaptiveCfg, pickNextAdaptiveQuestion]);
+
+	useEffect(() => {
+		if (adaptive) return;
 		let active = true;
 		(async () => {
 			// Always work from the current set of module questions.
@@ -3094,10 +3502,25 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 			setQuestionStartRef(Date.now());
 		})();
 		return () => { active = false; };
-	}, [baseQuestions, moduleData.id, moduleData.settings.randomizeQuestions]);
+	}, [adaptive, baseQuestions, moduleData.id, moduleData.settings.randomizeQuestions]);
 
 	const current = orderedQuestions[index];
-	const total = orderedQuestions.length;
+	const sourceModule = (current && questionModules?.[current.id]) || moduleData;
+
+	const openTutor = async () => {
+		if (!current) return;
+		try {
+			if (!tutorConversations[current.id]) {
+				const conversation = await createTutorConversation({ userId: user?.id, context: buildQuestionContext(current, sourceModule.id) });
+				setTutorConversations((prev) => ({ ...prev, [current.id]: conversation.id }));
+			}
+			setTutorOpen(true);
+		} catch (e) {
+			console.error(e);
+			toast.error('Could not open the tutor');
+		}
+	};
+	const total = adaptive ? baseQuestions.length : orderedQuestions.length;
 	const showInstant = moduleData.settings.showInstantFeedback;
 	const { handleGlossaryLookup, glossaryModal, closeGlossaryModal } = useQuestionGlossary(
 		current,
@@ -3133,8 +3556,8 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 					createdAt: now,
 					updatedAt: now,
 					route: location.pathname,
-					moduleId: moduleData.id,
-					moduleTitle: moduleData.title,
+					moduleId: sourceModule.id,
+					moduleTitle: sourceModule.title,
 					questionId: current?.id,
 					questionCode: current?.code,
 					questionTags: current?.tags,
@@ -3164,7 +3587,7 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 		} finally {
 			setIsSubmittingReport(false);
 		}
-	}, [current, index, location.pathname, moduleData.id, moduleData.title, reportMessage, reportScreenshotDataUrl, showInstant, total, user?.id, user?.username]);
+	}, [current, index, location.pathname, sourceModule.id, sourceModule.title, reportMessage, reportScreenshotDataUrl, showInstant, total, user?.id, user?.username]);
 
 	const openReportDialogWithCapture = useCallback(async () => {
 		if (isCapturingReportScreenshot) return;
@@ -3198,7 +3621,8 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 		if (!current) return;
 		
 		const answer = answers[current.id];
-		const scoring = evaluateScore(current, answer);
+		const policy = sourceModule === moduleData ? gradingPolicy : getGradingPolicy(sourceModule);
+		const scoring = evaluateScore(current, answer, policy);
 		const isCorrect = scoring.isCorrect;
 		setCorrectMap((prev) => ({ ...prev, [current.id]: isCorrect }));
 		setLastScorePercent(scoring.scorePercent);
@@ -3207,12 +3631,12 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 		const attemptId = uuidv4();
 		await db.attempts.add({
 			id: attemptId,
-			moduleId: moduleData.id,
+			moduleId: sourceModule.id,
 			type: 'practice',
 			startedAt: questionStartRef,
 			endedAt: Date.now(),
 			durationMs: timeTaken,
-			score: scoring.scorePercent,
+			score: computeAttemptScore([{ questionId: current.id, scorePercent: scoring.scorePercent }], policy),
 			perQuestionAttempts: [
 				{
 					questionId: current.id,
@@ -3239,11 +3663,28 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 		try {
 			const updated = await db.attempts.get(attemptId);
 			if (updated) {
-				await recordDailyStats(updated, moduleData);
+				await recordDailyStats(updated, sourceModule);
 			}
 		} catch {
 			void 0;
 		}
+		// Every practice answer reschedules its question so it can come back in the review queue;
+		// only adaptive sessions use the model to pick what comes next.
+		const signal: AttemptSignal = {
+			questionId: current.id,
+			tags: current.tags || [],
+			isCorrect,
+			timeTakenMs: timeTaken,
+			difficulty: current.metadata?.difficulty,
+			difficultyLevel: current.metadata?.difficultyLevel,
+			timestamp: Date.now(),
+		};
+		try {
+			setAdaptiveModel(await applyAttemptToAdaptiveModel(adaptiveCfg, signal));
+		} catch (e) {
+			console.error('Failed to update adaptive practice model', e);
+		}
+		setRecentSignals((prev) => [...prev, signal].slice(-20));
 		setLastWasCorrect(isCorrect);
 		setShowFeedback(true);
 	};
@@ -3253,17 +3694,25 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 			<div className="space-y-2">
 				<div className="flex items-center justify-between gap-4">
 					<div />
-					<Button
-						variant="outline"
-						size="sm"
-						onClick={() => {
-							void openReportDialogWithCapture();
-						}}
-						className="bg-white"
-					>
-						<Bug className="h-4 w-4 mr-2" />
-						Report issue
-					</Button>
+					<div className="flex items-center gap-2">
+						{showFeedback && tutorAvailable && current && (
+							<Button variant="outline" size="sm" onClick={() => void openTutor()} className="bg-white">
+								<MessageCircle className="h-4 w-4 mr-2" />
+								Ask tutor
+							</Button>
+						)}
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => {
+								void openReportDialogWithCapture();
+							}}
+							className="bg-white"
+						>
+							<Bug className="h-4 w-4 mr-2" />
+							Report issue
+						</Button>
+					</div>
 				</div>
 				<div className="border-b border-white" />
 			</div>
@@ -3475,7 +3924,7 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 										variant="outline"
 										onClick={async () => {
 											// Check daily limit before moving to next question
-											if (moduleData.type === 'practice') {
+											if (moduleData.type === 'practice' && !questionModules) {
 												const limitCheck = await checkDailyLimit(moduleData.id, user?.id);
 												if (limitCheck.reached) {
 													onExit();
@@ -3521,6 +3970,38 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 												return;
 											}
 
+											if (adaptive) {
+												const servedIds = new Set(orderedQuestions.map((q) => q.id));
+												// Mixed sessions skip questions whose own module has hit its daily limit.
+												let limitedCount = 0;
+												if (questionModules) {
+													const limited = new Map<string, boolean>();
+													for (const q of baseQuestions) {
+														const source = questionModules[q.id];
+														if (servedIds.has(q.id) || !source) continue;
+														if (!limited.has(source.id)) {
+															limited.set(source.id, (await checkDailyLimit(source.id, user?.id)).reached);
+														}
+														if (limited.get(source.id)) {
+															servedIds.add(q.id);
+															limitedCount++;
+														}
+													}
+												}
+												const next = adaptiveModel ? pickNextAdaptiveQuestion(adaptiveModel, servedIds, recentSignals) : undefined;
+												if (!next) {
+													if (limitedCount > 0) {
+														toast.info('Daily limit reached for the remaining questions. Come back tomorrow for more.');
+													}
+													onExit();
+													return;
+												}
+												setOrderedQuestions((prev) => [...prev, next]);
+												setIndex(nextIdx);
+												setQuestionStartRef(Date.now());
+												return;
+											}
+
 											// Save progress before moving to next question
 											if (nextIdx < total) {
 												const questionOrder = orderedQuestions.map(q => q.id);
@@ -3590,6 +4071,17 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 					<div>No questions available.</div>
 				)}
 			</div>
+			<Sheet open={tutorOpen} onOpenChange={setTutorOpen}>
+				<SheetContent className="w-full sm:max-w-lg select-text">
+					<SheetHeader>
+						<SheetTitle>Tutor</SheetTitle>
+						<SheetDescription>Ask about this question. The chat is saved under Chat.</SheetDescription>
+					</SheetHeader>
+					{current && tutorConversations[current.id] && (
+						<TutorChatPanel key={tutorConversations[current.id]} conversationId={tutorConversations[current.id]} className="mt-4" />
+					)}
+				</SheetContent>
+			</Sheet>
 			<Dialog open={!!glossaryModal} onOpenChange={(open) => { if (!open) closeGlossaryModal(); }}>
 				<DialogContent className="max-w-md">
 					<DialogHeader>
@@ -3614,94 +4106,6 @@ function PracticeRunner({ moduleData, baseQuestions, onExit, glossaryEntries, gl
 	);
 }
 
-function evaluateScore(q: Question, answer: unknown): { isCorrect: boolean; scorePercent: number; correctParts: number; totalParts: number } {
-	// Multiple choice uses option IDs; require exact set match
-	if (q.type === 'mcq') {
-		if (!q.correctAnswers || q.correctAnswers.length === 0) {
-			return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 0 };
-		}
-		const expected = new Set(q.correctAnswers);
-		const givenValues = Array.isArray(answer) ? answer : [answer];
-		const given = new Set(givenValues.filter((v): v is string => typeof v === 'string' && v.length > 0));
-		let isCorrect = expected.size === given.size;
-		if (isCorrect) {
-			for (const v of expected) {
-				if (!given.has(v)) {
-					isCorrect = false;
-					break;
-				}
-			}
-		}
-		const scorePercent = isCorrect ? 100 : 0;
-		return { isCorrect, scorePercent, correctParts: isCorrect ? 1 : 0, totalParts: 1 };
-	}
-
-	// Fill in the blanks: compare each blank against metadata
-	if (q.type === 'fill_blanks') {
-		let blanks = q.fillBlanks?.blanks ?? [];
-		if (!blanks.length) {
-			blanks = getFillBlanksMetaFromText(q);
-		}
-		if (!blanks.length) {
-			return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 0 };
-		}
-		const values: string[] = Array.isArray(answer) ? answer : [];
-		let correctParts = 0;
-		for (let i = 0; i < blanks.length; i++) {
-			const expected = blanks[i].correct.trim().toLowerCase();
-			const given = (values[i] || '').toString().trim().toLowerCase();
-			if (expected && expected === given) {
-				correctParts++;
-			}
-		}
-		const totalParts = blanks.length;
-		const scorePercent = totalParts > 0 ? Math.round((correctParts / totalParts) * 100) : 0;
-		const isCorrect = scorePercent === 100;
-		return { isCorrect, scorePercent, correctParts, totalParts };
-	}
-
-	// Matching: answer is array of rightIds aligned with pairs
-	if (q.type === 'matching' && q.matching && q.matching.pairs.length > 0) {
-		const pairs = q.matching.pairs;
-		const values: string[] = Array.isArray(answer) ? answer : [];
-		let correctParts = 0;
-		for (let i = 0; i < pairs.length; i++) {
-			const expectedId = pairs[i].rightId;
-			if (expectedId && values[i] === expectedId) {
-				correctParts++;
-			}
-		}
-		const totalParts = pairs.length;
-		const scorePercent = totalParts > 0 ? Math.round((correctParts / totalParts) * 100) : 0;
-		const isCorrect = scorePercent === 100;
-		return { isCorrect, scorePercent, correctParts, totalParts };
-	}
-
-	// Free text: compare against list of acceptable answers
-	if (!q.correctAnswers || q.correctAnswers.length === 0) {
-		return { isCorrect: false, scorePercent: 0, correctParts: 0, totalParts: 0 };
-	}
-	const ans = (typeof answer === 'string' ? answer : '').toString().trim().toLowerCase();
-	const isCorrect = q.correctAnswers.some((c) => c.trim().toLowerCase() === ans);
-	const scorePercent = isCorrect ? 100 : 0;
-	return { isCorrect, scorePercent, correctParts: isCorrect ? 1 : 0, totalParts: 1 };
-}
-
-function getTotalPartsForQuestion(q: Question): number {
-	if (q.type === 'fill_blanks' && q.fillBlanks) {
-		return q.fillBlanks.blanks.length;
-	}
-	if (q.type === 'matching' && q.matching) {
-		return q.matching.pairs.length;
-	}
-	return 1;
-}
-
-function evaluateCorrect(q: Question, answer: unknown): boolean {
-	const scoring = evaluateScore(q, answer);
-	return scoring.isCorrect;
-}
-
 type GlossaryModalState = { word: string; meanings: string[] };
 
 function useQuestionGlossary(
@@ -25,7 +25,7 @@ import { areAllQuestionsCompleted } from '@/lib/completedQuestions';
 
 export default function ModulesPage() {
 	const modules = useLiveQuery(() => db.modules.toArray(), []);
-	const users = useLiveQuery(() => db.users.toArray(), []) as User[] | undefined;
+	const users = useLiveQuery(() => db.users.where('role').equals('student').toArray(), []) as User[] | undefined;
 	const navigate = useNavigate();
 
 	const getQuestionPreview = (html: string, maxLen = 90) => {
@@ -489,6 +489,7 @@ export default function ModulesPage() {
 									{openStatDetail.moduleType && (
 										<Badge variant="outline" className="text-[10px] uppercase">{openStatDetail.moduleType}</Badge>
 									)}
+									{openStatDetail.sectionTitle && <span>{openStatDetail.sectionTitle}</span>}
 								</div>
 								<div className="flex flex-wrap items-center gap-3">
 									{openStatDetail.username && (
@@ -628,6 +629,9 @@ export default function ModulesPage() {
 									<span className={openStatDetail.isCorrect ? 'text-green-600 font-semibold' : 'text-red-600 font-semibold'}>
 										{openStatDetail.isCorrect ? 'Correct' : 'Incorrect'}
 									</span>
+									{!openStatDetail.isCorrect && typeof openStatDetail.scorePercent === 'number' && openStatDetail.scorePercent !== 0 && (
+										<span className="text-muted-foreground"> ({openStatDetail.scorePercent}% credit)</span>
+									)}
 								</div>
 							)}
 							{openStatDetail.explanationHtml && (
@@ -966,6 +970,9 @@ export default function ModulesPage() {
 																</div>
 																<div className="col-span-3 truncate" title={d.moduleTitle}>
 																	{d.moduleTitle}
+																	{d.sectionTitle && (
+																		<div className="text-xs text-muted-foreground truncate">{d.sectionTitle}</div>
+																	)}
 																</div>
 																<div className="col-span-2 text-xs text-muted-foreground truncate">
 																	{d.username || '—'}
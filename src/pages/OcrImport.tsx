@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FileScan, Plus, X } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { OcrDraft, draftsFromOcrItems, getOcrDraftProblem, saveOcrDrafts } from '@/lib/ocrImport';
+
+export default function OcrImport() {
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<{ available: boolean; reason: string } | null>(null);
+  const [drafts, setDrafts] = useState<OcrDraft[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const api = window.ocrImport;
+    if (!api) {
+      setStatus({ available: false, reason: 'electron_only' });
+      return;
+    }
+    api
+      .status()
+      .then(setStatus)
+      .catch(() => setStatus({ available: false, reason: 'error' }));
+    return api.onProgress?.(setProgress);
+  }, []);
+
+  const included = drafts.filter((d) => d.include);
+  const problems = included.filter((d) => getOcrDraftProblem(d)).length;
+
+  const updateDraft = (key: string, patch: Partial<OcrDraft>) => {
+    setDrafts((prev) => prev.map((d) => (d.key === key ? { ...d, ...patch } : d)));
+  };
+
+  const runImport = async () => {
+    const api = window.ocrImport;
+    if (!api) return;
+    setRunning(true);
+    setProgress(null);
+    try {
+      const result = await api.chooseAndImport();
+      if (result.canceled) return;
+      const items = result.items ?? [];
+      const pages = result.pages ?? 0;
+      setDrafts((prev) => [...prev, ...draftsFromOcrItems(items)]);
+      setWarnings(result.warnings ?? []);
+      toast.success(`Found ${items.length} question${items.length === 1 ? '' : 's'} on ${pages} page${pages === 1 ? '' : 's'}`);
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : 'OCR import failed');
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const save = async () => {
+    if (!included.length || problems > 0) return;
+    setSaving(true);
+    try {
+      const ids = await saveOcrDrafts(included);
+      toast.success(`Imported ${ids.length} question${ids.length === 1 ? '' : 's'}`);
+      navigate('/questions');
+    } catch (e) {
+      console.error(e);
+      toast.error('Failed to save questions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Import from PDF/image</h1>
+          <p className="text-muted-foreground mt-2">
+            Scan past papers into draft questions, check each one against the original, then save.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => navigate('/questions')}>
+            Back to questions
+          </Button>
+          <Button onClick={() => void runImport()} disabled={!status?.available || running}>
+            <FileScan className="h-4 w-4 mr-2" />
+            {running
+              ? progress
+                ? `Reading page ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...`
+                : 'Reading...'
+              : 'Choose files'}
+          </Button>
+        </div>
+      </div>
+
+      {status && !status.available && (
+        <Card className="p-4 text-sm text-muted-foreground">
+          {status.reason === 'electron_only'
+            ? 'OCR import is only available in the desktop app.'
+            : `OCR is not available on this computer (${status.reason}). The OCR tools are missing from native/offline-ai.`}
+        </Card>
+      )}
+
+      {warnings.length > 0 && (
+        <Card className="p-4 text-sm text-amber-800 bg-amber-50 border-amber-200 space-y-1">
+          {warnings.map((w, i) => (
+            <div key={i}>{w}</div>
+          ))}
+        </Card>
+      )}
+
+      {drafts.length > 0 && (
+        <Card className="p-4 flex items-center justify-between gap-4 sticky top-2 z-10">
+          <div className="text-sm text-muted-foreground">
+            {included.length} of {drafts.length} selected
+            {problems > 0 && <span className="text-destructive"> · {problems} need{problems === 1 ? 's' : ''} fixing</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => setDrafts([])} disabled={saving}>
+              Discard all
+            </Button>
+            <Button onClick={() => void save()} disabled={saving || !included.length || problems > 0}>
+              {saving ? 'Saving...' : `Save ${included.length} question${included.length === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      <div className="space-y-4">
+        {drafts.map((draft) => {
+          const problem = draft.include ? getOcrDraftProblem(draft) : null;
+          return (
+            <Card key={draft.key} className={`p-4 ${draft.include ? '' : 'opacity-60'}`}>
+              <div className="flex items-center justify-between gap-4 mb-3">
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    checked={draft.include}
+                    onCheckedChange={(v) => updateDraft(draft.key, { include: v === true })}
+                    aria-label="Include question"
+                  />
+                  <span className="font-medium">Question {draft.source.number}</span>
+                  <Badge variant="secondary">
+                    {draft.source.fileName} · page {draft.source.page}
+                  </Badge>
+                  {problem && <span className="text-sm text-destructive">{problem}</span>}
+                </div>
+                <RadioGroup
+                  value={draft.type}
+                  onValueChange={(v) => updateDraft(draft.key, { type: v as OcrDraft['type'] })}
+                  className="flex items-center gap-4"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="mcq" id={`${draft.key}-mcq`} />
+                    <Label htmlFor={`${draft.key}-mcq`}>Multiple choice</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="text" id={`${draft.key}-text`} />
+                    <Label htmlFor={`${draft.key}-text`}>Text answer</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="rounded-md border bg-muted/30 p-2 flex flex-col items-center gap-2">
+                  {draft.imageDataUrl ? (
+                    <>
+                      <img src={draft.imageDataUrl} alt={`Scan of question ${draft.source.number}`} className="max-w-full" />
+                      {draft.continuationImageDataUrls?.map((url, i) => (
+                        <img key={i} src={url} alt={`Scan of question ${draft.source.number}, continued`} className="max-w-full" />
+                      ))}
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground p-4">No scan available</span>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <Textarea
+                    value={draft.text}
+                    onChange={(e) => updateDraft(draft.key, { text: e.target.value })}
+                    rows={Math.min(8, Math.max(3, draft.text.split('\n').length + 1))}
+                    placeholder="Question text"
+                  />
+                  {draft.type === 'mcq' ? (
+                    <div className="space-y-2">
+                      <RadioGroup
+                        value={draft.correctOptionId ?? ''}
+                        onValueChange={(v) => updateDraft(draft.key, { correctOptionId: v })}
+                        className="space-y-2"
+                      >
+                        {draft.options.map((option, index) => (
+                          <div key={option.id} className="flex items-center gap-2">
+                            <RadioGroupItem value={option.id} aria-label={`Mark option ${String.fromCharCode(65 + index)} correct`} />
+                            <span className="w-5 text-sm text-muted-foreground">{String.fromCharCode(65 + index)}</span>
+                            <Input
+                              value={option.text}
+                              onChange={(e) =>
+                                updateDraft(draft.key, {
+                                  options: draft.options.map((o) => (o.id === option.id ? { ...o, text: e.target.value } : o)),
+                                })
+                              }
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              aria-label="Remove option"
+                              onClick={() =>
+                                updateDraft(draft.key, {
+                                  options: draft.options.filter((o) => o.id !== option.id),
+                                  correctOptionId: draft.correctOptionId === option.id ? undefined : draft.correctOptionId,
+                                })
+                              }
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                      {draft.options.length < 5 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => updateDraft(draft.key, { options: [...draft.options, { id: uuidv4(), text: '' }] })}
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add option
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <Input
+                      value={draft.answer}
+                      onChange={(e) => updateDraft(draft.key, { answer: e.target.value })}
+                      placeholder="Accepted answer"
+                    />
+                  )}
+                </div>
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+
+      {!drafts.length && status?.available && !running && (
+        <Card className="p-8 text-center text-muted-foreground">
+          Choose one or more PDFs or photos of a paper. Numbered questions and A–E options are picked up automatically.
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAuth } from '@/contexts/AuthContext';
+import { HOME_ROUTE } from '@/constants/routes';
+import { MIN_ATTEMPTS_FOR_WEAKEST, SkillProgress, SkillWeekCell, loadSkillProgress } from '@/lib/skillProgress';
+
+// Heatmap rows beyond this are hidden behind "Show all".
+const HEATMAP_ROWS = 12;
+
+const trendConfig = {
+  accuracy: { label: 'Accuracy', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatSeconds(ms: number): string {
+  return `${Math.round(ms / 1000)}s`;
+}
+
+function heatColor(cell: SkillWeekCell | null): string {
+  if (!cell) return 'bg-muted';
+  if (cell.accuracy >= 0.85) return 'bg-emerald-500';
+  if (cell.accuracy >= 0.7) return 'bg-emerald-300';
+  if (cell.accuracy >= 0.5) return 'bg-amber-300';
+  if (cell.accuracy >= 0.3) return 'bg-orange-400';
+  return 'bg-red-500';
+}
+
+export default function Progress() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<SkillProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showAllSkills, setShowAllSkills] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!user?.id) return;
+    loadSkillProgress(user.id)
+      .then((result) => {
+        if (!cancelled) setProgress(result);
+      })
+      .catch((e) => {
+        console.error('Failed to load skill progress', e);
+        if (!cancelled) setError('Could not load your progress.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const startTargetedPractice = (skills: string[]) => {
+    const params = new URLSearchParams();
+    skills.forEach((skill) => params.append('skill', skill));
+    navigate(`/review?${params.toString()}`);
+  };
+
+  if (error) {
+    return <div className="p-8 text-destructive">{error}</div>;
+  }
+
+  if (!progress) {
+    return <div className="p-8 text-muted-foreground">Loading your progress...</div>;
+  }
+
+  const heatmapSkills = [...progress.skills].sort((a, b) => b.attempts - a.attempts);
+  const visibleSkills = showAllSkills ? heatmapSkills : heatmapSkills.slice(0, HEATMAP_ROWS);
+  const trendData = progress.weeks.map((w) => ({
+    week: w.label,
+    accuracy: w.accuracy === null ? null : Math.round(w.accuracy * 100),
+    attempts: w.attempts,
+  }));
+  const hasAnswers = progress.weeks.some((w) => w.attempts > 0) || progress.skills.length > 0;
+
+  return (
+    <div className="w-full py-10 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-semibold">My progress</h1>
+        <Button variant="outline" onClick={() => navigate(HOME_ROUTE)}>
+          Back to home
+        </Button>
+      </div>
+
+      {!hasAnswers && (
+        <Card className="p-8 text-center text-muted-foreground">
+          Answer some practice questions and your skills will show up here.
+        </Card>
+      )}
+
+      {progress.weakest.length > 0 && (
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold">Weakest skills</h2>
+              <p className="text-sm text-muted-foreground">
+                Based on accuracy and speed, from skills with at least {MIN_ATTEMPTS_FOR_WEAKEST} answers.
+              </p>
+            </div>
+            <Button onClick={() => startTargetedPractice(progress.weakest.map((s) => s.tag))}>
+              Practice these
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {progress.weakest.map((skill) => (
+              <div key={skill.tag} className="flex items-center justify-between gap-4 rounded-md border px-4 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium truncate">{skill.tag}</span>
+                  {skill.source === 'topic' && <Badge variant="secondary">Topic</Badge>}
+                </div>
+                <div className="flex items-center gap-4 text-sm text-muted-foreground shrink-0">
+                  <span>{percent(skill.accuracy)} correct</span>
+                  <span>{formatSeconds(skill.avgTimeMs)} avg</span>
+                  <span>{skill.attempts} answered</span>
+                  <Button size="sm" variant="outline" onClick={() => startTargetedPractice([skill.tag])}>
+                    Practice
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {hasAnswers && (
+        <Card className="p-6 space-y-4">
+          <h2 className="text-xl font-semibold">Accuracy by week</h2>
+          <ChartContainer config={trendConfig} className="h-64 w-full">
+            <LineChart data={trendData} margin={{ left: 8, right: 16, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line
+                dataKey="accuracy"
+                type="monotone"
+                stroke="var(--color-accuracy)"
+                strokeWidth={2}
+                dot
+                connectNulls
+              />
+            </LineChart>
+          </ChartContainer>
+        </Card>
+      )}
+
+      {heatmapSkills.length > 0 && (
+        <Card className="p-6 space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Mastery by skill</h2>
+            <p className="text-sm text-muted-foreground">Share of correct answers per week. Grey means no answers that week.</p>
+          </div>
+          <TooltipProvider>
+            <div className="overflow-x-auto">
+              <table className="text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left font-medium pr-4 pb-2">Skill</th>
+                    {progress.weeks.map((w) => (
+                      <th key={w.start} className="px-1 pb-2 font-normal text-muted-foreground whitespace-nowrap">
+                        {w.label}
+                      </th>
+                    ))}
+                    <th className="pl-4 pb-2 text-right font-medium">Mastery</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleSkills.map((skill) => (
+                    <tr key={skill.tag}>
+                      <td className="pr-4 py-1 max-w-[16rem] truncate">
+                        {skill.tag}
+                        {skill.source === 'topic' && <span className="ml-1 text-xs text-muted-foreground">(topic)</span>}
+                      </td>
+                      {(progress.heatmap[skill.tag] ?? []).map((cell, i) => (
+                        <td key={progress.weeks[i].start} className="px-1 py-1">
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <div className={`h-6 w-10 rounded ${heatColor(cell)}`} />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              {cell ? `${percent(cell.accuracy)} of ${cell.attempts} correct` : 'No answers'}
+                            </TooltipContent>
+                          </Tooltip>
+                        </td>
+                      ))}
+                      <td className="pl-4 py-1 text-right font-medium">{percent(skill.score)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </TooltipProvider>
+          {heatmapSkills.length > HEATMAP_ROWS && (
+            <Button variant="ghost" size="sm" onClick={() => setShowAllSkills((v) => !v)}>
+              {showAllSkills ? 'Show fewer' : `Show all ${heatmapSkills.length} skills`}
+            </Button>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Plus, Search, Edit, Eye, Tag as TagIcon, FileQuestion, Trash2 } from 'lucide-react';
+import { Plus, Search, Edit, Eye, Tag as TagIcon, FileQuestion, Trash2, FileScan } from 'lucide-react';
 import { db, Question, GlobalGlossaryEntry, normalizeGlossaryMeaning, normalizeGlossaryWord } from '@/lib/db';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -172,6 +172,12 @@ export default function Questions() {
               <Trash2 className="h-4 w-4 mr-2" /> Delete Selected ({selectedIds.length})
             </Button>
           )}
+          <Link to="/questions/import-ocr">
+            <Button variant="outline">
+              <FileScan className="h-4 w-4 mr-2" />
+              Import from PDF/image
+            </Button>
+          </Link>
           <Link to="/questions/create">
             <Button>
               <Plus className="h-4 w-4 mr-2" />
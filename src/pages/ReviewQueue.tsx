@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { CalendarCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { db, GlobalGlossaryEntry, Module, Question } from '@/lib/db';
+import { buildAdHocPracticeModule, getDueReviewItems } from '@/lib/reviewQueue';
+import { TARGETED_PRACTICE_MODULE_ID, getTargetedPracticeItems } from '@/lib/skillProgress';
+import { useAuth } from '@/contexts/AuthContext';
+import { HOME_ROUTE } from '@/constants/routes';
+import { PracticeRunner } from './ModuleRunner';
+
+type SessionItem = { question: Question; module: Module };
+
+// `/review` runs the due review queue; `/review?skill=a&skill=b` runs targeted practice on those skills.
+export default function ReviewQueue() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const skillsKey = searchParams.getAll('skill').join('\n');
+  const skills = useMemo(() => skillsKey.split('\n').map((s) => s.trim()).filter(Boolean), [skillsKey]);
+  const targeted = skills.length > 0;
+  const [items, setItems] = useState<SessionItem[] | null>(null);
+  const globalGlossaryEntries = useLiveQuery(
+    () => db.globalGlossary.toArray(),
+    [],
+    [] as GlobalGlossaryEntry[]
+  ) ?? [];
+
+  // The queue is collected once so the session doesn't change under the student while they answer.
+  useEffect(() => {
+    let cancelled = false;
+    if (!user?.id) {
+      setItems([]);
+      return;
+    }
+    setItems(null);
+    (targeted ? getTargetedPracticeItems(user.id, skills) : getDueReviewItems(user.id))
+      .then((due) => {
+        if (!cancelled) setItems(due);
+      })
+      .catch((error) => {
+        console.error('Failed to load review queue', error);
+        if (!cancelled) setItems([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, targeted, skills]);
+
+  const session = useMemo(() => {
+    if (!items?.length) return null;
+    const questionModules: Record<string, Module> = {};
+    for (const item of items) {
+      questionModules[item.question.id] = item.module;
+    }
+    return {
+      moduleData: targeted
+        ? buildAdHocPracticeModule(items, { id: TARGETED_PRACTICE_MODULE_ID, title: 'Targeted practice' })
+        : buildAdHocPracticeModule(items),
+      questions: items.map((item) => item.question),
+      questionModules,
+      glossaryEnabled: items.every((item) => item.module.settings?.glossaryHints !== false),
+    };
+  }, [items, targeted]);
+
+  if (items === null) {
+    return (
+      <div className="bg-white">
+        <div className="p-8 text-muted-foreground">{targeted ? 'Preparing practice...' : 'Preparing review...'}</div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="flex items-center justify-center p-4 bg-muted/30">
+        <Card className="max-w-md w-full p-8 text-center space-y-6">
+          <div className="mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center">
+            <CalendarCheck className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-foreground">
+              {targeted ? 'No questions available' : 'Nothing to review'}
+            </h1>
+            <p className="text-muted-foreground">
+              {targeted
+                ? 'None of your open practice modules has questions for these skills right now.'
+                : "You're all caught up. Questions come back here when they are due for another look."}
+            </p>
+          </div>
+          <Button onClick={() => navigate(HOME_ROUTE)} className="w-full" size="lg">
+            Back to home
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white">
+      <PracticeRunner
+        moduleData={session.moduleData}
+        baseQuestions={session.questions}
+        questionModules={session.questionModules}
+        glossaryEntries={globalGlossaryEntries}
+        glossaryEnabled={session.glossaryEnabled}
+        onExit={() => navigate(HOME_ROUTE)}
+      />
+    </div>
+  );
+}
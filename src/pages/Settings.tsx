@@ -22,8 +22,21 @@ import {
 	ScrollText,
 	Settings as SettingsIcon,
 } from 'lucide-react';
-import { db, AppSettings, ErrorReport, initializeSettings, LyricsSourceEntry, User } from '@/lib/db';
+import { db, AppSettings, ErrorReport, initializeSettings, LyricsSourceEntry, User, UserSession } from '@/lib/db';
 import { v4 as uuidv4 } from 'uuid';
+import { hashPassword, UserRole } from '@/lib/credentials';
+import {
+  decryptBackup,
+  EncryptedBackup,
+  encryptBackup,
+  isBackupDecryptionError,
+  isEncryptedBackup,
+  MIN_BACKUP_PASSPHRASE_LENGTH,
+} from '@/lib/backupCrypto';
+import { importBackup, isBackupTooLargeError, readBackup, saveBackupFile, streamBackup } from '@/lib/backup';
+import { BackupData, parseBackup } from '@/lib/backupFormat';
+import { DEFAULT_SESSION_POLICY, endSession } from '@/lib/sessions';
+import { getTutorChatSettings } from '@/lib/tutorChat';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -64,6 +77,11 @@ import {
 export default function Settings() {
   const settings = useLiveQuery(() => db.settings.get('1'), [], null as any);
   const users = useLiveQuery(() => db.users.toArray());
+  const recentSessions = useLiveQuery(
+    () => db.sessions.orderBy('createdAt').reverse().limit(50).toArray(),
+    [],
+    [] as UserSession[]
+  );
   const lyricsSourceCount = useLiveQuery(() => db.lyricsSource.count(), [], 0);
   const errorReports = useLiveQuery(
     () => db.errorReports.orderBy('createdAt').reverse().toArray(),
@@ -80,12 +98,19 @@ export default function Settings() {
   const [clearIntegrityEvents, setClearIntegrityEvents] = useState(true);
   const [clearTags, setClearTags] = useState(true);
   const [pendingImport, setPendingImport] = useState<{
-    rawData: any;
+    rawData: BackupData;
     newQuestions: any[];
     duplicateQuestions: any[];
     existingQuestionsSnapshot: any[];
   } | null>(null);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+  const [encryptedImport, setEncryptedImport] = useState<EncryptedBackup | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [importPassphraseError, setImportPassphraseError] = useState('');
+  const [decryptingImport, setDecryptingImport] = useState(false);
 
   const [lyricsImporting, setLyricsImporting] = useState(false);
   const [lyricsSourceWriterName, setLyricsSourceWriterName] = useState('');
@@ -217,9 +242,11 @@ export default function Settings() {
   const [showUserDialog, setShowUserDialog] = useState(false);
   const [newUsername, setNewUsername] = useState('');
   const [newPassword, setNewPassword] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>('student');
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [editUsername, setEditUsername] = useState('');
   const [editPassword, setEditPassword] = useState('');
+  const [editRole, setEditRole] = useState<UserRole>('student');
   const [deleteUserId, setDeleteUserId] = useState<string | null>(null);
 
   const [questionPrompts, setQuestionPrompts] = useState<{ id: string; title: string; content: string }[]>([]);
@@ -300,103 +327,37 @@ export default function Settings() {
     }
   };
 
+  const backupTimestamp = () => {
+    const now = new Date();
+    const yyyy = now.getFullYear();
+    const mm = String(now.getMonth() + 1).padStart(2, '0');
+    const dd = String(now.getDate()).padStart(2, '0');
+    const hh = String(now.getHours()).padStart(2, '0');
+    const min = String(now.getMinutes()).padStart(2, '0');
+    return `${yyyy}${mm}${dd}-${hh}${min}`;
+  };
+
   const handleExportData = async () => {
+    if (encryptExport) {
+      if (exportPassphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+        toast.error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (exportPassphrase !== exportPassphraseConfirm) {
+        toast.error('Passphrases do not match');
+        return;
+      }
+    }
     try {
-      const questions = await db.questions.toArray();
-      const modules = await db.modules.toArray();
-      const attempts = await db.attempts.toArray();
-      const tags = await db.tags.toArray();
-      const settingsArray = await db.settings.toArray();
-      const integrityEvents = await db.integrityEvents.toArray();
-      const dailyStats = await db.dailyStats.toArray();
-      const users = await db.users.toArray();
-      const globalGlossary = await db.globalGlossary.toArray();
-      const intelligenceSignals = await db.intelligenceSignals.toArray();
-      const errorReports = await db.errorReports.toArray();
-      const songsRaw = await db.songs.toArray();
-      const songModules = await db.songModules.toArray();
-      const lyricsSource = await db.lyricsSource.toArray();
-      const binaryAssetsRaw = await db.binaryAssets.toArray();
-
-      const songs = await Promise.all(
-        songsRaw.map(async (s) => {
-          const audioFilePath = (s as any).audioFilePath as string;
-          const audioFileUrl = (s as any).audioFileUrl as string;
-          // If the song is stored as a local file, include bytes for offline backup.
-          if (window.songs?.readAudioFile && audioFilePath && audioFileUrl && audioFileUrl.startsWith('file:')) {
-            try {
-              const res = await window.songs.readAudioFile({ filePath: audioFilePath });
-              return { ...s, audioDataBase64: res.dataBase64 } as any;
-            } catch {
-              return s as any;
-            }
-          }
-          // If already a data URL, it can be restored as-is.
-          if (typeof audioFileUrl === 'string' && audioFileUrl.startsWith('data:')) {
-            return { ...s, audioDataUrl: audioFileUrl } as any;
-          }
-          return s as any;
-        }),
-      );
-
-      const binaryAssets = await Promise.all(
-        binaryAssetsRaw.map(async (a) => {
-          try {
-            const blob = (a as any).data as Blob;
-            const readerRes = await new Promise<string>((resolve, reject) => {
-              const reader = new FileReader();
-              reader.onerror = () => reject(new Error('Failed to read asset blob'));
-              reader.onload = () => {
-                const res = reader.result;
-                if (typeof res !== 'string') {
-                  reject(new Error('Unexpected FileReader result'));
-                  return;
-                }
-                const commaIdx = res.indexOf(',');
-                resolve(commaIdx >= 0 ? res.slice(commaIdx + 1) : res);
-              };
-              reader.readAsDataURL(blob);
-            });
-            return {
-              ...a,
-              dataBase64: readerRes,
-              data: undefined,
-            } as any;
-          } catch {
-            return { ...a, data: undefined } as any;
-          }
-        }),
-      );
-
-      const data = {
-        questions,
-        modules,
-        attempts,
-        tags,
-        settings: settingsArray,
-        integrityEvents,
-        dailyStats,
-        users,
-        globalGlossary,
-        intelligenceSignals,
-        errorReports,
-        songs,
-        songModules,
-        lyricsSource,
-        binaryAssets,
-        exportedAt: new Date().toISOString(),
-        schemaVersion: 23,
-      };
-
       // Derive top tags from question usage to include in filename
       const tagFrequency = new Map<string, number>();
-      for (const q of questions as any[]) {
-        if (!Array.isArray(q.tags)) continue;
+      await db.questions.each((q) => {
+        if (!Array.isArray(q.tags)) return;
         for (const tag of q.tags) {
           if (typeof tag !== 'string') continue;
           tagFrequency.set(tag, (tagFrequency.get(tag) ?? 0) + 1);
         }
-      }
+      });
 
       const sortedTags = Array.from(tagFrequency.entries())
         .sort((a, b) => b[1] - a[1])
@@ -415,69 +376,24 @@ export default function Settings() {
               .join('_')
           : 'all-tags';
 
-      const now = new Date();
-      const yyyy = now.getFullYear();
-      const mm = String(now.getMonth() + 1).padStart(2, '0');
-      const dd = String(now.getDate()).padStart(2, '0');
-      const hh = String(now.getHours()).padStart(2, '0');
-      const min = String(now.getMinutes()).padStart(2, '0');
-      const timestampPart = `${yyyy}${mm}${dd}-${hh}${min}`;
-
-      const fileName = `Limit-backup-${tagsPart}-${timestampPart}.json`;
-
-      const dataText = JSON.stringify(data, null, 2);
-      if (window.data?.exportJsonToFile) {
-        const res = await window.data.exportJsonToFile({ defaultFileName: fileName, dataText });
-        if (res?.canceled) {
-          return;
-        }
-      } else {
-        const blob = new Blob([dataText], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = fileName;
-        a.click();
-        URL.revokeObjectURL(url);
+      const fileName = `Limit-backup-${tagsPart}-${backupTimestamp()}${encryptExport ? '.encrypted' : ''}.json`;
+      const res = await saveBackupFile(fileName, streamBackup('full'), encryptExport ? exportPassphrase : undefined);
+      if (res.canceled) {
+        return;
       }
 
-      toast.success('Data exported successfully');
+      toast.success(encryptExport ? 'Encrypted backup exported' : 'Data exported successfully');
     } catch (error) {
-      toast.error('Failed to export data');
+      toast.error(isBackupTooLargeError(error) ? error.message : 'Failed to export data');
       console.error(error);
     }
   };
 
   const handleExportQuestionsOnly = async () => {
     try {
-      const questions = await db.questions.toArray();
-      const data = {
-        questions,
-        exportedAt: new Date().toISOString(),
-        kind: 'questions_only',
-        schemaVersion: 22,
-      };
-      const now = new Date();
-      const yyyy = now.getFullYear();
-      const mm = String(now.getMonth() + 1).padStart(2, '0');
-      const dd = String(now.getDate()).padStart(2, '0');
-      const hh = String(now.getHours()).padStart(2, '0');
-      const min = String(now.getMinutes()).padStart(2, '0');
-      const timestampPart = `${yyyy}${mm}${dd}-${hh}${min}`;
-      const fileName = `Limit-questions-${timestampPart}.json`;
-      const dataText = JSON.stringify(data, null, 2);
-      if (window.data?.exportJsonToFile) {
-        const res = await window.data.exportJsonToFile({ defaultFileName: fileName, dataText });
-        if (res?.canceled) return;
-      } else {
-        const blob = new Blob([dataText], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = fileName;
-        a.click();
-        URL.revokeObjectURL(url);
-      }
+      const fileName = `Limit-questions-${backupTimestamp()}.json`;
+      const res = await saveBackupFile(fileName, streamBackup('questions_only'));
+      if (res.canceled) return;
       toast.success('Questions exported successfully');
     } catch (error) {
       toast.error('Failed to export questions');
@@ -560,145 +476,42 @@ export default function Settings() {
     const { rawData, newQuestions, duplicateQuestions, existingQuestionsSnapshot } = dataToImport;
 
     try {
-      await db.transaction(
-        'rw',
-        [
-          db.questions,
-          db.modules,
-          db.attempts,
-          db.tags,
-          db.settings,
-          db.integrityEvents,
-          db.dailyStats,
-          db.users,
-          db.globalGlossary,
-          db.intelligenceSignals,
-          db.errorReports,
-          db.lyricsSource,
-        ],
-        async () => {
-          const existingCodes = new Set<string>();
-          const existingIds = new Set<string>();
-          for (const q of existingQuestionsSnapshot as any[]) {
-            if (q.code) existingCodes.add(String(q.code));
-            if (q.id) existingIds.add(String(q.id));
-          }
-
-          const questionsToImport: any[] = [...newQuestions];
-
-          if (keepDuplicateQuestions) {
-            for (const q of duplicateQuestions) {
-              const clone = { ...q };
-              // Ensure unique id and code so we keep both copies
-              let newId = uuidv4();
-              while (existingIds.has(newId)) {
-                newId = uuidv4();
-              }
-              clone.id = newId;
-              existingIds.add(newId);
-
-              let newCode = `Q-${newId.slice(0, 8)}`;
-              while (existingCodes.has(newCode)) {
-                const extra = uuidv4().slice(0, 4);
-                newCode = `Q-${newId.slice(0, 4)}${extra}`;
-              }
-              clone.code = newCode;
-              existingCodes.add(newCode);
+      const existingCodes = new Set<string>();
+      const existingIds = new Set<string>();
+      for (const q of existingQuestionsSnapshot as any[]) {
+        if (q.code) existingCodes.add(String(q.code));
+        if (q.id) existingIds.add(String(q.id));
+      }
 
-              questionsToImport.push(clone);
-            }
-          }
+      const questionsToImport: any[] = [...newQuestions];
 
-          if (questionsToImport.length > 0) {
-            await db.questions.bulkPut(questionsToImport);
+      if (keepDuplicateQuestions) {
+        for (const q of duplicateQuestions) {
+          const clone = { ...q };
+          // Ensure unique id and code so we keep both copies
+          let newId = uuidv4();
+          while (existingIds.has(newId)) {
+            newId = uuidv4();
           }
+          clone.id = newId;
+          existingIds.add(newId);
 
-          if (Array.isArray(rawData.modules) && rawData.modules.length > 0) {
-            await db.modules.bulkPut(rawData.modules);
-          }
-          if (Array.isArray(rawData.attempts) && rawData.attempts.length > 0) {
-            await db.attempts.bulkPut(rawData.attempts);
-          }
-          if (Array.isArray(rawData.tags) && rawData.tags.length > 0) {
-            await db.tags.bulkPut(rawData.tags);
-          }
-          if (Array.isArray(rawData.settings) && rawData.settings.length > 0) {
-            await db.settings.put(rawData.settings[0]);
-          }
-          if (Array.isArray(rawData.integrityEvents) && rawData.integrityEvents.length > 0) {
-            await db.integrityEvents.bulkPut(rawData.integrityEvents);
-          }
-          if (Array.isArray(rawData.dailyStats) && rawData.dailyStats.length > 0) {
-            await db.dailyStats.bulkPut(rawData.dailyStats);
+          let newCode = `Q-${newId.slice(0, 8)}`;
+          while (existingCodes.has(newCode)) {
+            const extra = uuidv4().slice(0, 4);
+            newCode = `Q-${newId.slice(0, 4)}${extra}`;
           }
-          if (Array.isArray(rawData.users) && rawData.users.length > 0) {
-            await db.users.bulkPut(rawData.users);
-          }
-          if (Array.isArray(rawData.globalGlossary) && rawData.globalGlossary.length > 0) {
-            await db.globalGlossary.bulkPut(rawData.globalGlossary);
-          }
-          if (Array.isArray(rawData.intelligenceSignals) && rawData.intelligenceSignals.length > 0) {
-            await db.intelligenceSignals.bulkPut(rawData.intelligenceSignals);
-          }
-          if (Array.isArray(rawData.errorReports) && rawData.errorReports.length > 0) {
-            await db.errorReports.bulkPut(rawData.errorReports);
-          }
-          if (Array.isArray(rawData.songs) && rawData.songs.length > 0) {
-            const mappedSongs = await Promise.all(
-              rawData.songs.map(async (s: any) => {
-                const now = Date.now();
-                const fileName = typeof s?.title === 'string' && s.title.trim() ? `${s.title}.audio` : 'song.audio';
-
-                // If audio bytes exist in backup, reconstruct to a real file (Electron) or data URL (browser).
-                if (typeof s?.audioDataBase64 === 'string' && s.audioDataBase64.length > 0) {
-                  if (window.songs?.saveAudioFile) {
-                    try {
-                      const saved = await window.songs.saveAudioFile({ fileName, dataBase64: s.audioDataBase64 });
-                      return {
-                        ...s,
-                        audioFilePath: saved.filePath,
-                        audioFileUrl: saved.fileUrl,
-                        updatedAt: typeof s.updatedAt === 'number' ? s.updatedAt : now,
-                      };
-                    } catch {
-                      return {
-                        ...s,
-                        audioFilePath: '',
-                        audioFileUrl: `data:audio/*;base64,${s.audioDataBase64}`,
-                        updatedAt: typeof s.updatedAt === 'number' ? s.updatedAt : now,
-                      };
-                    }
-                  }
-                  return {
-                    ...s,
-                    audioFilePath: '',
-                    audioFileUrl: `data:audio/*;base64,${s.audioDataBase64}`,
-                    updatedAt: typeof s.updatedAt === 'number' ? s.updatedAt : now,
-                  };
-                }
-
-                if (typeof s?.audioDataUrl === 'string' && s.audioDataUrl.startsWith('data:')) {
-                  return {
-                    ...s,
-                    audioFilePath: '',
-                    audioFileUrl: s.audioDataUrl,
-                    updatedAt: typeof s.updatedAt === 'number' ? s.updatedAt : now,
-                  };
-                }
+          clone.code = newCode;
+          existingCodes.add(newCode);
 
-                return s;
-              }),
-            );
-            await db.songs.bulkPut(mappedSongs);
-          }
-          if (Array.isArray(rawData.songModules) && rawData.songModules.length > 0) {
-            await db.songModules.bulkPut(rawData.songModules);
-          }
-          if (Array.isArray(rawData.lyricsSource) && rawData.lyricsSource.length > 0) {
-            await db.lyricsSource.bulkPut(rawData.lyricsSource);
-          }
+          questionsToImport.push(clone);
         }
-      );
+      }
+
+      const { skipped } = await importBackup(rawData, { questions: questionsToImport });
+      if (skipped.length > 0) {
+        console.warn('Backup tables not present in this version were skipped:', skipped);
+      }
 
       toast.success('Data imported successfully');
       setPendingImport(null);
@@ -715,16 +528,49 @@ export default function Settings() {
     if (!file) return;
 
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
+      const data = JSON.parse(await file.text());
+      if (isEncryptedBackup(data)) {
+        // Ask for the passphrase; the import continues in handleDecryptImport.
+        setImportPassphrase('');
+        setImportPassphraseError('');
+        setEncryptedImport(data);
+      } else {
+        await startImport(parseBackup(data));
+      }
+    } catch (error) {
+      toast.error(error instanceof SyntaxError ? 'Not a valid backup file' : error instanceof Error ? error.message : 'Failed to import data');
+      console.error(error);
+    }
+
+    // Reset input
+    event.target.value = '';
+  };
 
-      // Validate data structure
-      if (!data.questions || !data.modules || !data.tags) {
-        throw new Error('Invalid backup file format');
+  const handleDecryptImport = async () => {
+    if (!encryptedImport) return;
+    setDecryptingImport(true);
+    setImportPassphraseError('');
+    try {
+      const data = readBackup(await decryptBackup(encryptedImport, importPassphrase));
+      setEncryptedImport(null);
+      await startImport(data);
+    } catch (error) {
+      if (isBackupDecryptionError(error) && error.reason === 'wrong_passphrase') {
+        setImportPassphraseError(error.message);
+      } else {
+        setEncryptedImport(null);
+        toast.error(error instanceof Error ? error.message : 'Failed to import data');
+        console.error(error);
       }
+    } finally {
+      setDecryptingImport(false);
+    }
+  };
 
+  const startImport = async (data: BackupData) => {
+    try {
       const existingQuestions = await db.questions.toArray();
-      const importedQuestions: any[] = Array.isArray(data.questions) ? data.questions : [];
+      const importedQuestions: any[] = data.tables.questions ?? [];
 
       const newQuestions: any[] = [];
       const duplicateQuestions: any[] = [];
@@ -762,9 +608,6 @@ export default function Settings() {
       toast.error('Failed to import data');
       console.error(error);
     }
-
-    // Reset input
-    event.target.value = '';
   };
 
   const handleClearAllData = async () => {
@@ -777,14 +620,17 @@ export default function Settings() {
       const tables: any[] = [];
       if (clearQuestions) tables.push(db.questions);
       if (clearModules) tables.push(db.modules);
-      if (clearAttempts) tables.push(db.attempts);
+      if (clearAttempts) tables.push(db.attempts, db.attemptChain);
       if (clearIntegrityEvents) tables.push(db.integrityEvents);
       if (clearTags) tables.push(db.tags);
 
       await db.transaction('rw', tables, async () => {
         if (clearQuestions) await db.questions.clear();
         if (clearModules) await db.modules.clear();
-        if (clearAttempts) await db.attempts.clear();
+        if (clearAttempts) {
+          await db.attempts.clear();
+          await db.attemptChain.clear();
+        }
         if (clearIntegrityEvents) await db.integrityEvents.clear();
         if (clearTags) await db.tags.clear();
       });
@@ -823,16 +669,20 @@ export default function Settings() {
     }
 
     try {
+      const now = Date.now();
       const newUser: User = {
         id: uuidv4(),
         username: newUsername.trim(),
-        password: newPassword.trim(),
-        createdAt: Date.now(),
+        role: newRole,
+        passwordHash: await hashPassword(newPassword.trim()),
+        createdAt: now,
+        updatedAt: now,
       };
       await db.users.add(newUser);
       toast.success('User created successfully');
       setNewUsername('');
       setNewPassword('');
+      setNewRole('student');
       setShowUserDialog(false);
     } catch (error) {
       console.error('Error creating user:', error);
@@ -840,8 +690,18 @@ export default function Settings() {
     }
   };
 
+  const isLastAdmin = (userId: string) => {
+    const admins = (users ?? []).filter((u) => u.role === 'admin');
+    return admins.length === 1 && admins[0].id === userId;
+  };
+
   const handleDeleteUser = async () => {
     if (!deleteUserId) return;
+    if (isLastAdmin(deleteUserId)) {
+      toast.error('Cannot delete the last admin account');
+      setDeleteUserId(null);
+      return;
+    }
     try {
       await db.users.delete(deleteUserId);
       toast.success('User deleted successfully');
@@ -855,21 +715,35 @@ export default function Settings() {
   const handleStartEditUser = (user: User) => {
     setEditingUser(user);
     setEditUsername(user.username);
-    setEditPassword(user.password ?? '');
+    setEditPassword('');
+    setEditRole(user.role);
   };
 
   const handleUpdateUser = async () => {
     if (!editingUser) return;
-    if (!editUsername.trim() || !editPassword.trim()) {
-      toast.error('Please enter both username and password');
+    if (!editUsername.trim()) {
+      toast.error('Please enter a username');
+      return;
+    }
+    if (editRole !== 'admin' && isLastAdmin(editingUser.id)) {
+      toast.error('At least one admin account is required');
+      return;
+    }
+
+    const existing = await db.users.where('username').equals(editUsername.trim()).first();
+    if (existing && existing.id !== editingUser.id) {
+      toast.error('Username already exists');
       return;
     }
 
     try {
+      // A blank password keeps the current one.
       const updatedUser: User = {
         ...editingUser,
         username: editUsername.trim(),
-        password: editPassword.trim(),
+        role: editRole,
+        passwordHash: editPassword.trim() ? await hashPassword(editPassword.trim()) : editingUser.passwordHash,
+        updatedAt: Date.now(),
       };
       await db.users.put(updatedUser);
       toast.success('User updated successfully');
@@ -910,13 +784,48 @@ export default function Settings() {
           </div>
         </Card>
 
+        <Card className="p-6 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h2 className="text-xl font-semibold text-foreground">Tutor chat</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Let students ask the offline tutor about questions. Requires the Electron app.
+              </p>
+            </div>
+            <div className="shrink-0 flex items-center gap-3">
+              <Label className="text-sm">Enabled</Label>
+              <Switch
+                checked={getTutorChatSettings(localSettings).enabled}
+                onCheckedChange={(v) =>
+                  void handleUpdateSettings({ tutorChat: { ...getTutorChatSettings(localSettings), enabled: v === true } })
+                }
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <Label className="text-sm">Disable during exams</Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                Hide the tutor from students while one of their exams is scheduled or in progress.
+              </p>
+            </div>
+            <Switch
+              checked={getTutorChatSettings(localSettings).disableDuringExams}
+              disabled={!getTutorChatSettings(localSettings).enabled}
+              onCheckedChange={(v) =>
+                void handleUpdateSettings({ tutorChat: { ...getTutorChatSettings(localSettings), disableDuringExams: v === true } })
+              }
+            />
+          </div>
+        </Card>
+
         {/* User Management */}
         <Card className="p-6 space-y-6">
           <div className="flex items-center justify-between">
             <div>
               <h2 className="text-xl font-semibold text-foreground">User Management</h2>
               <p className="text-sm text-muted-foreground mt-1">
-                Create and manage student accounts
+                Create and manage student and admin accounts
               </p>
             </div>
             <Tooltip>
@@ -926,14 +835,14 @@ export default function Settings() {
                   Create User
                 </Button>
               </TooltipTrigger>
-              <TooltipContent>Create a new student account</TooltipContent>
+              <TooltipContent>Create a new student or admin account</TooltipContent>
             </Tooltip>
           </div>
 
           <Separator />
 
           <div className="space-y-2">
-            <div className="text-sm font-semibold">Student Users</div>
+            <div className="text-sm font-semibold">Users</div>
             {users && users.length > 0 ? (
               <div className="space-y-2">
                 {users.map((user) => (
@@ -944,8 +853,8 @@ export default function Settings() {
                     <div className="flex items-center gap-2">
                       <Users className="h-4 w-4 text-muted-foreground" />
                       <span className="font-medium">{user.username}</span>
-                      <Badge variant="outline" className="text-xs">
-                        Student
+                      <Badge variant={user.role === 'admin' ? 'default' : 'outline'} className="text-xs">
+                        {user.role === 'admin' ? 'Admin' : 'Student'}
                       </Badge>
                     </div>
                     <div className="flex items-center gap-2">
@@ -959,6 +868,7 @@ export default function Settings() {
                       <Button
                         variant="destructive"
                         size="sm"
+                        disabled={isLastAdmin(user.id)}
                         onClick={() => setDeleteUserId(user.id)}
                       >
                         <Trash2 className="h-4 w-4 mr-2" />
@@ -972,6 +882,95 @@ export default function Settings() {
               <p className="text-sm text-muted-foreground">No users created yet</p>
             )}
           </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div>
+              <div className="text-sm font-semibold">Sessions</div>
+              <div className="text-xs text-muted-foreground">
+                Inactive sessions lock and return to the login screen. Running exams are never locked.
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="idle-timeout">Idle timeout (minutes, 0 = never)</Label>
+                <Input
+                  id="idle-timeout"
+                  type="number"
+                  min={0}
+                  value={localSettings.session?.idleTimeoutMinutes ?? DEFAULT_SESSION_POLICY.idleTimeoutMinutes}
+                  onChange={(e) => {
+                    const value = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                    void handleUpdateSettings({
+                      session: { ...DEFAULT_SESSION_POLICY, ...localSettings.session, idleTimeoutMinutes: value },
+                    });
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-session-hours">Maximum session length (hours)</Label>
+                <Input
+                  id="max-session-hours"
+                  type="number"
+                  min={1}
+                  value={localSettings.session?.maxSessionHours ?? DEFAULT_SESSION_POLICY.maxSessionHours}
+                  onChange={(e) => {
+                    const value = Math.max(1, Math.floor(Number(e.target.value) || 1));
+                    void handleUpdateSettings({
+                      session: { ...DEFAULT_SESSION_POLICY, ...localSettings.session, maxSessionHours: value },
+                    });
+                  }}
+                />
+              </div>
+            </div>
+
+            <ScrollArea className="h-64 rounded-md border bg-background">
+              <div className="divide-y">
+                {(recentSessions || []).map((session) => (
+                  <div key={session.id} className="p-3 flex items-start justify-between gap-3 text-sm">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{session.username}</span>
+                        {session.endedAt ? (
+                          <Badge variant="outline" className="text-[10px] uppercase">
+                            {session.endReason?.replace('_', ' ') ?? 'ended'}
+                          </Badge>
+                        ) : (
+                          <Badge className="text-[10px] uppercase">active</Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Signed in {new Date(session.createdAt).toLocaleString()}
+                        {' · '}last active {new Date(session.lastActiveAt).toLocaleString()}
+                        {session.endedAt ? ` · ended ${new Date(session.endedAt).toLocaleString()}` : ''}
+                      </div>
+                    </div>
+                    {!session.endedAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={async () => {
+                          try {
+                            await endSession(session.id, 'revoked', 'Ended by admin');
+                            toast.success('Session ended');
+                          } catch (e) {
+                            console.error(e);
+                            toast.error('Failed to end session');
+                          }
+                        }}
+                      >
+                        End session
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {(!recentSessions || recentSessions.length === 0) && (
+                  <div className="p-6 text-sm text-muted-foreground text-center">No sessions recorded yet.</div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
         </Card>
 
         <Card className="p-6 space-y-4">
@@ -1302,6 +1301,43 @@ export default function Settings() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={!!encryptedImport} onOpenChange={(open) => !open && !decryptingImport && setEncryptedImport(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Encrypted backup</DialogTitle>
+            <DialogDescription>
+              {encryptedImport && `Exported ${new Date(encryptedImport.createdAt).toLocaleString()}. `}
+              Enter the passphrase it was exported with.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void handleDecryptImport();
+            }}
+          >
+            <Input
+              type="password"
+              value={importPassphrase}
+              onChange={(e) => setImportPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoFocus
+              disabled={decryptingImport}
+            />
+            {importPassphraseError && <p className="text-sm text-destructive">{importPassphraseError}</p>}
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEncryptedImport(null)} disabled={decryptingImport}>
+              Cancel
+            </Button>
+            <Button onClick={() => void handleDecryptImport()} disabled={!importPassphrase || decryptingImport}>
+              {decryptingImport ? 'Decrypting...' : 'Decrypt & Import'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Data Management */}
       <Card className="p-6 space-y-6">
         <div>
@@ -1311,6 +1347,34 @@ export default function Settings() {
           </p>
         </div>
 
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={encryptExport} onCheckedChange={(v) => setEncryptExport(v === true)} />
+            <span>Encrypt exported backups with a passphrase</span>
+          </label>
+          {encryptExport && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                type="password"
+                value={exportPassphrase}
+                onChange={(e) => setExportPassphrase(e.target.value)}
+                placeholder={`Passphrase (at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters)`}
+                autoComplete="new-password"
+              />
+              <Input
+                type="password"
+                value={exportPassphraseConfirm}
+                onChange={(e) => setExportPassphraseConfirm(e.target.value)}
+                placeholder="Confirm passphrase"
+                autoComplete="new-password"
+              />
+              <p className="text-xs text-muted-foreground md:col-span-2">
+                The passphrase can't be recovered. Without it the backup can't be imported.
+              </p>
+            </div>
+          )}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <Button onClick={handleExportData} variant="outline" className="w-full">
             <Download className="h-4 w-4 mr-2" />
@@ -1556,7 +1620,7 @@ export default function Settings() {
           <DialogHeader>
             <DialogTitle>Create New User</DialogTitle>
             <DialogDescription>
-              Create a new student account. The student will be able to access the Home page with this username and password.
+              Create a new account. Students can access the Home page with this username and password; admins can also manage content and settings.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -1589,6 +1653,18 @@ export default function Settings() {
                 }}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="role">Role</Label>
+              <Select value={newRole} onValueChange={(v) => setNewRole(v as UserRole)}>
+                <SelectTrigger id="role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="student">Student</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowUserDialog(false)}>
@@ -1613,7 +1689,7 @@ export default function Settings() {
           <DialogHeader>
             <DialogTitle>Edit User</DialogTitle>
             <DialogDescription>
-              Update the student's username and password.
+              Update the username, role or password. Leave the password blank to keep the current one.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -1636,7 +1712,7 @@ export default function Settings() {
               <Input
                 id="edit-password"
                 type="password"
-                placeholder="Enter password"
+                placeholder="Leave blank to keep current password"
                 value={editPassword}
                 onChange={(e) => setEditPassword(e.target.value)}
                 onKeyDown={(e) => {
@@ -1646,6 +1722,18 @@ export default function Settings() {
                 }}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-role">Role</Label>
+              <Select value={editRole} onValueChange={(v) => setEditRole(v as UserRole)}>
+                <SelectTrigger id="edit-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="student">Student</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <DialogFooter>
             <Button
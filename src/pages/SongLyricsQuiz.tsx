@@ -0,0 +1,304 @@
+import { useMemo, useRef, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useNavigate, useParams } from 'react-router-dom';
+import { db, Song, SongModule, SongSrtCue } from '@/lib/db';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import AudioPlayer from '@/components/AudioPlayer';
+import { FillBlanksAttemptView } from '@/components/FillBlanksAttemptView';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { QuestionScore } from '@/lib/grading';
+import type { DayQuestionDetail } from '@/lib/statsHelpers';
+import {
+	buildWordFrequencies,
+	collectLyricQuizLines,
+	gradeLyricQuizItem,
+	LYRIC_QUIZ_DIFFICULTIES,
+	LyricQuizDifficulty,
+	LyricQuizItem,
+	nextLyricQuizItem,
+	recordLyricQuizEvent,
+} from '@/lib/lyricQuiz';
+
+// Lines asked recently are skipped while others are left.
+const RECENT_LINES = 20;
+
+const DIFFICULTY_LABELS: Record<LyricQuizDifficulty, string> = {
+	easy: 'Easy — one common word',
+	medium: 'Medium — two words',
+	hard: 'Hard — rare words',
+};
+
+export default function SongLyricsQuiz() {
+	const navigate = useNavigate();
+	const { user } = useAuth();
+	const { id } = useParams();
+	const moduleId = id || '';
+
+	const module = useLiveQuery<SongModule | undefined>(() => (moduleId ? db.songModules.get(moduleId) : undefined), [moduleId]);
+	const songs = useLiveQuery<Song[]>(() => db.songs.toArray(), []);
+	const srtCues = useLiveQuery<SongSrtCue[]>(async () => {
+		try {
+			return await db.songSrtCues.toArray();
+		} catch {
+			return [] as SongSrtCue[];
+		}
+	}, []);
+
+	const [songFilter, setSongFilter] = useState<string>('all');
+	const [difficulty, setDifficulty] = useState<LyricQuizDifficulty>('easy');
+	const [item, setItem] = useState<LyricQuizItem | null>(null);
+	const [answers, setAnswers] = useState<string[]>([]);
+	const [score, setScore] = useState<QuestionScore | null>(null);
+	const [recentKeys, setRecentKeys] = useState<string[]>([]);
+	const [tally, setTally] = useState({ answered: 0, correct: 0 });
+	const shownAtRef = useRef(0);
+	const playsRef = useRef(0);
+	const inputRefs = useRef<Array<HTMLInputElement | null>>([]);
+
+	const moduleSongs = useMemo(() => {
+		if (!module) return [] as Song[];
+		const map = new Map((songs ?? []).map((s) => [s.id, s]));
+		return (module.songIds || [])
+			.map((sid) => map.get(sid))
+			.filter((s): s is Song => !!s && s.visible !== false)
+			.sort((a, b) => (a.title || '').localeCompare(b.title || ''));
+	}, [module, songs]);
+
+	const cuesBySongId = useMemo(() => {
+		const map = new Map<string, SongSrtCue[]>();
+		for (const cue of srtCues ?? []) {
+			if (!map.has(cue.songId)) map.set(cue.songId, []);
+			map.get(cue.songId)!.push(cue);
+		}
+		for (const list of map.values()) list.sort((a, b) => (a.cueIndex ?? 0) - (b.cueIndex ?? 0));
+		return map;
+	}, [srtCues]);
+
+	// Rarity is judged against every song's lyrics, not just this module's.
+	const wordFrequencies = useMemo(() => {
+		const texts = (songs ?? []).map((s) => s.lyrics || '');
+		for (const cue of srtCues ?? []) texts.push(cue.text || '');
+		return buildWordFrequencies(texts);
+	}, [songs, srtCues]);
+
+	const quizLines = useMemo(() => {
+		const scope = songFilter === 'all' ? moduleSongs : moduleSongs.filter((s) => s.id === songFilter);
+		return scope.flatMap((s) => collectLyricQuizLines(s, cuesBySongId.get(s.id) || []));
+	}, [cuesBySongId, moduleSongs, songFilter]);
+
+	const itemSong = item ? moduleSongs.find((s) => s.id === item.line.songId) : undefined;
+
+	const showNext = (nextDifficulty = difficulty, lines = quizLines) => {
+		const next = nextLyricQuizItem(lines, wordFrequencies, nextDifficulty, recentKeys);
+		setItem(next);
+		setAnswers(next ? next.blanks.map(() => '') : []);
+		setScore(null);
+		shownAtRef.current = Date.now();
+		playsRef.current = 0;
+		inputRefs.current = [];
+		if (!next) {
+			toast.error('No lyric lines to practise in this selection');
+			return;
+		}
+		setRecentKeys((prev) => [...prev, next.line.key].slice(-RECENT_LINES));
+		window.setTimeout(() => inputRefs.current[0]?.focus(), 0);
+	};
+
+	const check = () => {
+		if (!item || !module || score) return;
+		const result = gradeLyricQuizItem(item, answers);
+		setScore(result);
+		setTally((t) => ({ answered: t.answered + 1, correct: t.correct + (result.isCorrect ? 1 : 0) }));
+		void recordLyricQuizEvent(item, answers, result, {
+			songModuleId: module.id,
+			userId: user?.id,
+			username: user?.username,
+			songTitle: itemSong?.title,
+			responseMs: Math.max(0, Date.now() - shownAtRef.current),
+			replays: Math.max(0, playsRef.current - 1),
+		}).catch((e) => console.error('Failed to save lyric quiz answer', e));
+	};
+
+	const reviewDetail = useMemo<DayQuestionDetail | null>(() => {
+		if (!item || !score || !module) return null;
+		return {
+			questionId: item.question.id,
+			questionText: item.question.text,
+			questionType: 'fill_blanks',
+			moduleId: module.id,
+			moduleTitle: module.title,
+			userAnswer: answers.join(', '),
+			correctAnswer: item.blanks.map((b) => b.correct).join(', '),
+			isCorrect: score.isCorrect,
+			scorePercent: score.scorePercent,
+			startedAt: shownAtRef.current,
+			submittedAt: Date.now(),
+			questionFillBlanks: { blanks: item.blanks, userAnswers: answers },
+		};
+	}, [answers, item, module, score]);
+
+	if (!module) {
+		return (
+			<div className="max-w-4xl mx-auto space-y-4">
+				<div className="flex items-center justify-between">
+					<div>
+						<h1 className="text-2xl font-semibold">Lyrics Quiz</h1>
+						<p className="text-sm text-muted-foreground">Loading...</p>
+					</div>
+					<Button variant="outline" onClick={() => navigate('/songs')}>Back</Button>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="max-w-4xl mx-auto space-y-6">
+			<div className="flex items-start justify-between gap-4">
+				<div className="min-w-0">
+					<h1 className="text-3xl font-bold text-foreground truncate">Lyrics Quiz</h1>
+					<p className="text-muted-foreground mt-2">
+						{module.title}: listen to the line and type the missing words.
+					</p>
+				</div>
+				<Button variant="outline" onClick={() => navigate(`/song-module/${module.id}`)}>Back</Button>
+			</div>
+
+			<Card className="p-4">
+				<div className="flex flex-wrap items-end gap-3">
+					<div className="space-y-1">
+						<div className="text-xs text-muted-foreground">Song</div>
+						<Select
+							value={songFilter}
+							onValueChange={(v) => {
+								setSongFilter(v);
+								setItem(null);
+								setScore(null);
+							}}
+						>
+							<SelectTrigger className="w-64">
+								<SelectValue placeholder="All songs" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="all">All songs in this module</SelectItem>
+								{moduleSongs.map((s) => (
+									<SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-1">
+						<div className="text-xs text-muted-foreground">Difficulty</div>
+						<Select
+							value={difficulty}
+							onValueChange={(v) => {
+								const next = v as LyricQuizDifficulty;
+								setDifficulty(next);
+								if (item && !score) showNext(next);
+							}}
+						>
+							<SelectTrigger className="w-56">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{LYRIC_QUIZ_DIFFICULTIES.map((d) => (
+									<SelectItem key={d} value={d}>{DIFFICULTY_LABELS[d]}</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="ml-auto text-sm text-muted-foreground">
+						{tally.answered ? `${tally.correct} of ${tally.answered} lines correct` : `${quizLines.length} lines available`}
+					</div>
+				</div>
+			</Card>
+
+			{item ? (
+				<Card className="p-4 space-y-4">
+					{itemSong ? (
+						item.line.cue ? (
+							<AudioPlayer
+								src={itemSong.audioFileUrl}
+								title={itemSong.title}
+								showVolumeControls={false}
+								hideSeekBar
+								clipStartMs={item.line.cue.startMs}
+								clipEndMs={item.line.cue.endMs}
+								onPlay={() => {
+									playsRef.current += 1;
+								}}
+							/>
+						) : (
+							<div className="rounded-md border p-3 bg-muted/30 text-sm">
+								<span className="font-medium">{itemSong.title}</span>: this song has no timed lyrics, so the line can't be played.
+							</div>
+						)
+					) : null}
+
+					{score && reviewDetail ? (
+						<div className="space-y-3">
+							<FillBlanksAttemptView detail={reviewDetail} />
+							<div className={score.isCorrect ? 'text-sm font-semibold text-green-700 dark:text-green-300' : 'text-sm font-semibold text-red-700 dark:text-red-300'}>
+								{score.isCorrect ? 'All correct!' : `${score.correctParts} of ${score.totalParts} correct. The line was: ${item.line.text}`}
+							</div>
+						</div>
+					) : (
+						<div className="text-lg leading-loose">
+							{item.segments.map((seg, i) =>
+								typeof seg === 'string' ? (
+									<span key={i} className="whitespace-pre-wrap">{seg}</span>
+								) : (
+									<Input
+										key={i}
+										ref={(el) => {
+											inputRefs.current[seg.blank] = el;
+										}}
+										value={answers[seg.blank] ?? ''}
+										onChange={(e) => {
+											const value = e.target.value;
+											setAnswers((prev) => prev.map((a, j) => (j === seg.blank ? value : a)));
+										}}
+										onKeyDown={(e) => {
+											if (e.key !== 'Enter') return;
+											e.preventDefault();
+											const nextInput = inputRefs.current[seg.blank + 1];
+											if (nextInput) nextInput.focus();
+											else check();
+										}}
+										aria-label={`Missing word ${seg.blank + 1}`}
+										className="inline-block mx-1 h-8 w-32 align-baseline text-base"
+										autoComplete="off"
+										spellCheck={false}
+									/>
+								),
+							)}
+						</div>
+					)}
+
+					<div className="flex items-center justify-end gap-2">
+						{score ? (
+							<Button onClick={() => showNext()}>Next line</Button>
+						) : (
+							<>
+								<Button variant="outline" onClick={() => showNext()}>Skip</Button>
+								<Button onClick={check}>Check</Button>
+							</>
+						)}
+					</div>
+				</Card>
+			) : (
+				<Card className="p-8 text-center space-y-3">
+					<div className="text-muted-foreground">
+						{quizLines.length
+							? 'A line from a song is played with some words missing. Type what you hear.'
+							: 'None of these songs have lyrics to practise yet.'}
+					</div>
+					<Button disabled={!quizLines.length} onClick={() => showNext()}>Start</Button>
+				</Card>
+			)}
+		</div>
+	);
+}
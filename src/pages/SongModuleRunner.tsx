@@ -9,11 +9,16 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
-import AudioPlayer from '@/components/AudioPlayer';
+import AudioPlayer, { AudioPlayerHandle } from '@/components/AudioPlayer';
+import { findActiveCueIndex, getCueRangeMs } from '@/lib/songLyrics';
+import { Repeat } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
+// After the student scrolls the lyrics themselves, auto-follow waits this long.
+const USER_SCROLL_HOLD_MS = 4000;
+
 export default function SongModuleRunner() {
 	const navigate = useNavigate();
 	const { user } = useAuth();
@@ -64,6 +69,14 @@ export default function SongModuleRunner() {
 	const [lyricsScrollable, setLyricsScrollable] = useState<boolean>(false);
 	const [didScrollLyrics, setDidScrollLyrics] = useState<boolean>(false);
 	const lyricsRef = useRef<HTMLDivElement | null>(null);
+	const audioPlayerRef = useRef<AudioPlayerHandle | null>(null);
+	const cueRefs = useRef<Array<HTMLButtonElement | null>>([]);
+	const lastUserScrollAtRef = useRef(0);
+	const autoScrollUntilRef = useRef(0);
+	// A-B loop over lyric lines: pick the first and last line, then playback repeats that range.
+	const [loopSelecting, setLoopSelecting] = useState(false);
+	const [loopAnchor, setLoopAnchor] = useState<number | null>(null);
+	const [loopRange, setLoopRange] = useState<{ from: number; to: number } | null>(null);
 
 	useEffect(() => {
 		setSelectedSongId(null);
@@ -126,6 +139,46 @@ export default function SongModuleRunner() {
 		return filteredSongs.find((s) => s.id === selectedSongId) ?? null;
 	}, [filteredSongs, selectedSongId]);
 
+	const selectedCues = useMemo(
+		() => (selectedSong ? songSrtBySongId.get(selectedSong.id) ?? [] : []),
+		[selectedSong, songSrtBySongId],
+	);
+	const activeCueIndex = findActiveCueIndex(selectedCues, knownPositionSec * 1000);
+	const loopMs = loopRange ? getCueRangeMs(selectedCues, loopRange.from, loopRange.to) : null;
+
+	useEffect(() => {
+		if (activeCueIndex < 0) return;
+		const container = lyricsRef.current;
+		const line = cueRefs.current[activeCueIndex];
+		if (!container || !line) return;
+		if (Date.now() - lastUserScrollAtRef.current < USER_SCROLL_HOLD_MS) return;
+		autoScrollUntilRef.current = Date.now() + 800;
+		container.scrollTo({ top: line.offsetTop - container.clientHeight / 2 + line.offsetHeight / 2, behavior: 'smooth' });
+	}, [activeCueIndex]);
+
+	const handleCueClick = (index: number) => {
+		const player = audioPlayerRef.current;
+		if (loopSelecting) {
+			if (loopAnchor === null) {
+				setLoopAnchor(index);
+				return;
+			}
+			const range = { from: Math.min(loopAnchor, index), to: Math.max(loopAnchor, index) };
+			setLoopRange(range);
+			setLoopAnchor(null);
+			setLoopSelecting(false);
+			player?.seekTo(selectedCues[range.from].startMs / 1000, { play: true });
+			return;
+		}
+		player?.seekTo(selectedCues[index].startMs / 1000, { play: true });
+	};
+
+	const clearLoop = () => {
+		setLoopSelecting(false);
+		setLoopAnchor(null);
+		setLoopRange(null);
+	};
+
 	const openReportDialogWithCapture = async () => {
 		setReportDialogOpen(true);
 		setReportMessage('');
@@ -270,6 +323,9 @@ export default function SongModuleRunner() {
 		setSegmentSongId(selectedSong.id);
 		setKnownPositionSec(0);
 		setKnownSongDurationSec(undefined);
+		clearLoop();
+		cueRefs.current = [];
+		lastUserScrollAtRef.current = 0;
 	}, [selectedSong?.id]);
 
 	useEffect(() => {
@@ -363,6 +419,9 @@ export default function SongModuleRunner() {
 					{module.description ? <p className="text-muted-foreground mt-2">{module.description}</p> : null}
 				</div>
 				<div className="flex items-center gap-2">
+					<Button variant="outline" onClick={() => navigate(`/song-module/${module.id}/lyrics-quiz`)}>
+						Lyrics quiz
+					</Button>
 					{songRecognitionEnabled ? (
 						<Button
 							variant="outline"
@@ -428,10 +487,16 @@ export default function SongModuleRunner() {
 							</div>
 
 							<AudioPlayer
+								ref={audioPlayerRef}
 								src={selectedSong.audioFileUrl}
 								showVolumeControls={false}
 								onLoadedMetadata={({ duration }) => setKnownSongDurationSec(duration)}
-								onTimeUpdate={({ currentTime }) => setKnownPositionSec(currentTime)}
+								onTimeUpdate={({ currentTime }) => {
+									setKnownPositionSec(currentTime);
+									if (loopMs && currentTime * 1000 >= loopMs.endMs) {
+										audioPlayerRef.current?.seekTo(loopMs.startMs / 1000);
+									}
+								}}
 								onPlay={() => {
 									if (!module || !selectedSong) return;
 									segmentSongIdRef.current = selectedSong.id;
@@ -450,13 +515,66 @@ export default function SongModuleRunner() {
 							/>
 
 							<div>
-								<div className="text-sm font-semibold mb-2">Lyrics</div>
+								<div className="flex items-center justify-between gap-3 mb-2">
+									<div className="text-sm font-semibold">Lyrics</div>
+									{selectedCues.length > 0 ? (
+										<div className="flex items-center gap-2 text-xs text-muted-foreground">
+											{loopRange ? (
+												<span>Looping lines {loopRange.from + 1}–{loopRange.to + 1}</span>
+											) : loopSelecting ? (
+												<span>{loopAnchor === null ? 'Click the first line to loop' : 'Now click the last line'}</span>
+											) : (
+												<span>Click a line to jump to it</span>
+											)}
+											{loopRange || loopSelecting ? (
+												<Button size="sm" variant="outline" onClick={clearLoop}>
+													{loopRange ? 'Stop loop' : 'Cancel'}
+												</Button>
+											) : (
+												<Button size="sm" variant="outline" onClick={() => setLoopSelecting(true)}>
+													<Repeat className="h-4 w-4 mr-1" />
+													A-B loop
+												</Button>
+											)}
+										</div>
+									) : null}
+								</div>
 								<div
 									ref={lyricsRef}
-									className="whitespace-pre-wrap border rounded-md bg-muted/30 p-4 text-lg md:text-xl leading-relaxed max-h-[340px] overflow-y-auto overflow-x-hidden"
-									onScroll={() => setDidScrollLyrics(true)}
+									className={cn(
+										"relative border rounded-md bg-muted/30 text-lg md:text-xl leading-relaxed max-h-[340px] overflow-y-auto overflow-x-hidden",
+										selectedCues.length > 0 ? 'p-2' : 'whitespace-pre-wrap p-4',
+									)}
+									onScroll={() => {
+										// Ignore the scrolling done to follow the active line.
+										if (Date.now() < autoScrollUntilRef.current) return;
+										lastUserScrollAtRef.current = Date.now();
+										setDidScrollLyrics(true);
+									}}
 								>
-									{selectedSong.lyrics}
+									{selectedCues.length > 0
+										? selectedCues.map((cue, i) => {
+												const inLoop = !!loopRange && i >= loopRange.from && i <= loopRange.to;
+												return (
+													<button
+														key={cue.id}
+														type="button"
+														ref={(el) => {
+															cueRefs.current[i] = el;
+														}}
+														className={cn(
+															"block w-full text-left whitespace-pre-wrap rounded px-2 py-1 border-l-4 border-transparent transition-colors hover:bg-muted",
+															i === activeCueIndex ? 'bg-primary/15 text-foreground font-semibold' : 'text-muted-foreground',
+															inLoop && 'border-primary',
+															loopAnchor === i && 'ring-2 ring-primary',
+														)}
+														onClick={() => handleCueClick(i)}
+													>
+														{cue.text}
+													</button>
+												);
+											})
+										: selectedSong.lyrics}
 								</div>
 							</div>
 						</div>
@@ -5,6 +5,21 @@ import { db, SongModule } from '@/lib/db';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { HOME_ROUTE } from '@/constants/routes';
+import { cn } from '@/lib/utils';
+import {
+	describeSongModuleProgress,
+	getUserSongModuleProgress,
+	SONG_MODULE_STATE_LABELS,
+	SongModuleCompletionState,
+	SongModuleProgress,
+} from '@/lib/songModuleGoals';
+
+const STATE_BADGE_CLASSES: Record<SongModuleCompletionState, string> = {
+	not_started: 'bg-muted text-muted-foreground',
+	in_progress: 'bg-amber-100 text-amber-800',
+	complete: 'bg-green-700 text-white',
+	overdue: 'bg-red-100 text-red-800',
+};
 
 export default function SongModules() {
 	const navigate = useNavigate();
@@ -25,6 +40,12 @@ export default function SongModules() {
 			.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
 	}, [user?.id, user?.username, isAdmin], [] as SongModule[]);
 
+	// Admins see every module, so goal progress is only shown to students.
+	const progressByModuleId = useLiveQuery(async () => {
+		if (isAdmin || !user) return {} as Record<string, SongModuleProgress>;
+		return getUserSongModuleProgress(modules ?? [], { id: user.id, username: user.username });
+	}, [modules, user?.id, user?.username, isAdmin], {} as Record<string, SongModuleProgress>);
+
 	return (
 		<div className="max-w-7xl mx-auto space-y-6">
 			<div className="flex items-start justify-between gap-4">
@@ -47,23 +68,34 @@ export default function SongModules() {
 			</div>
 
 			<div className="space-y-4">
-				{(modules ?? []).map((m) => (
-					<Card key={m.id} className="flex items-stretch justify-between px-6 py-4 rounded-xl shadow-sm hover:shadow-md transition-shadow bg-green-50 border border-green-200">
-						<div className="flex-1 pr-6 min-w-0">
-							<h3 className="text-4xl font-semibold text-foreground truncate">{m.title}</h3>
-							{m.description ? <p className="mt-2 text-sm text-foreground line-clamp-2">{m.description}</p> : null}
-							<div className="mt-2 text-xs text-muted-foreground">{m.songIds.length} songs</div>
-						</div>
-						<div className="flex items-center justify-end gap-2">
-							<Button
-								className="bg-green-700 hover:bg-green-800 text-white px-6"
-								onClick={() => navigate(`/song-module/${m.id}`)}
-							>
-								START
-							</Button>
-						</div>
-					</Card>
-				))}
+				{(modules ?? []).map((m) => {
+					const progress = progressByModuleId?.[m.id];
+					return (
+						<Card key={m.id} className="flex items-stretch justify-between px-6 py-4 rounded-xl shadow-sm hover:shadow-md transition-shadow bg-green-50 border border-green-200">
+							<div className="flex-1 pr-6 min-w-0">
+								<h3 className="text-4xl font-semibold text-foreground truncate">{m.title}</h3>
+								{m.description ? <p className="mt-2 text-sm text-foreground line-clamp-2">{m.description}</p> : null}
+								<div className="mt-2 text-xs text-muted-foreground">{m.songIds.length} songs</div>
+								{progress && m.goals ? (
+									<div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+										<span className={cn('rounded-full px-2 py-0.5 font-semibold', STATE_BADGE_CLASSES[progress.state])}>
+											{SONG_MODULE_STATE_LABELS[progress.state]}
+										</span>
+										<span className="text-muted-foreground">{describeSongModuleProgress(m.goals, progress)}</span>
+									</div>
+								) : null}
+							</div>
+							<div className="flex items-center justify-end gap-2">
+								<Button
+									className="bg-green-700 hover:bg-green-800 text-white px-6"
+									onClick={() => navigate(`/song-module/${m.id}`)}
+								>
+									START
+								</Button>
+							</div>
+						</Card>
+					);
+				})}
 				{(modules ?? []).length === 0 && (
 					<Card className="p-8 text-center text-muted-foreground">No song modules to show</Card>
 				)}
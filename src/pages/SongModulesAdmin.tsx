@@ -1,7 +1,7 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { v4 as uuidv4 } from 'uuid';
-import { db, Song, SongListeningEvent, SongModule, User } from '@/lib/db';
+import { db, Song, SongListeningEvent, SongLyricQuizEvent, SongModule, SongRecognitionRound, User } from '@/lib/db';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,16 +11,18 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import type { CheckedState } from '@radix-ui/react-checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Pencil, Trash2, BarChart3, Eye, Play, Pause } from 'lucide-react';
+import { Pencil, Trash2, BarChart3, Eye, Play, Pause, Ear } from 'lucide-react';
 import { toast } from 'sonner';
 import AudioPlayer from '@/components/AudioPlayer';
+import { describeSongModuleProgress, findOverdueAssignments, goalDayKey, normalizeSongModuleGoals } from '@/lib/songModuleGoals';
+import { MIN_ROUNDS_FOR_VERDICT, summarizeRoundsBySong, summarizeRoundsByStudent, WEAK_SONG_ACCURACY } from '@/lib/songRecognition';
 
 export default function SongModulesAdmin() {
 	const songs = useLiveQuery(async () => {
 		const all = await db.songs.toArray();
 		return all.slice().sort((a, b) => (a.title || '').localeCompare(b.title || ''));
 	}, [], [] as Song[]);
-	const users = useLiveQuery(() => db.users.toArray(), [], [] as User[]);
+	const users = useLiveQuery(() => db.users.where('role').equals('student').toArray(), [], [] as User[]);
 	const modules = useLiveQuery(() => db.songModules.orderBy('createdAt').reverse().toArray(), [], [] as SongModule[]);
 
 	const [title, setTitle] = useState('');
@@ -37,6 +39,10 @@ export default function SongModulesAdmin() {
 	const [editVisible, setEditVisible] = useState(true);
 	const [editSelectedSongIds, setEditSelectedSongIds] = useState<string[]>([]);
 	const [editSongSearch, setEditSongSearch] = useState('');
+	const [editMinSongPercent, setEditMinSongPercent] = useState('');
+	const [editMinMinutesPerDay, setEditMinMinutesPerDay] = useState('');
+	const [editRequireLyricsScroll, setEditRequireLyricsScroll] = useState(false);
+	const [editDueDate, setEditDueDate] = useState('');
 	const [editSaving, setEditSaving] = useState(false);
 
 	const [listeningOpen, setListeningOpen] = useState(false);
@@ -62,6 +68,10 @@ export default function SongModulesAdmin() {
 		}
 	>(null);
 
+	const [recognitionOpen, setRecognitionOpen] = useState(false);
+	const [recognitionModuleId, setRecognitionModuleId] = useState<string | 'all'>('all');
+	const [recognitionUserId, setRecognitionUserId] = useState<string | 'all'>('all');
+
 	const [deleteId, setDeleteId] = useState<string | null>(null);
 	const [previewSong, setPreviewSong] = useState<Song | null>(null);
 	const [playingSongId, setPlayingSongId] = useState<string | null>(null);
@@ -113,6 +123,16 @@ export default function SongModulesAdmin() {
 	}, [filteredEditSongs]);
 
 	const usersById = useMemo(() => new Map((users ?? []).map((u) => [u.id, u])), [users]);
+	const modulesById = useMemo(() => new Map((modules ?? []).map((m) => [m.id, m])), [modules]);
+
+	// Only modules already past their due date can have overdue students, so only their events are read.
+	const overdueAssignments = useLiveQuery(async () => {
+		const today = goalDayKey();
+		const pastDue = (modules ?? []).filter((m) => m.visible !== false && m.goals?.dueDate && today > m.goals.dueDate);
+		if (!pastDue.length) return [];
+		const events = await db.songListeningEvents.where('songModuleId').anyOf(pastDue.map((m) => m.id)).toArray();
+		return findOverdueAssignments(pastDue, events, today);
+	}, [modules], []);
 	const songsById = useMemo(() => new Map((songs ?? []).map((s) => [s.id, s])), [songs]);
 
 	const listeningEvents = useLiveQuery(
@@ -124,9 +144,18 @@ export default function SongModulesAdmin() {
 		[] as SongListeningEvent[],
 	);
 
+	const quizEvents = useLiveQuery(
+		async () => {
+			if (!listeningOpen || !listeningModuleId) return [] as SongLyricQuizEvent[];
+			return db.songLyricQuizEvents.where('songModuleId').equals(listeningModuleId).toArray();
+		},
+		[listeningOpen, listeningModuleId],
+		[] as SongLyricQuizEvent[],
+	);
+
 	const listeningUserOptions = useMemo(() => {
 		if (!listeningEvents || !listeningSelectedDate) return [] as Array<{ value: string; label: string }>;
-		const inDay = listeningEvents.filter((e) => e.date === listeningSelectedDate);
+		const inDay = [...listeningEvents, ...(quizEvents ?? [])].filter((e) => e.date === listeningSelectedDate);
 		const optionsMap = new Map<string, string>();
 		for (const e of inDay) {
 			const id = e.userId;
@@ -143,7 +172,7 @@ export default function SongModulesAdmin() {
 		return Array.from(optionsMap.entries())
 			.map(([value, label]) => ({ value, label }))
 			.sort((a, b) => a.label.localeCompare(b.label));
-	}, [listeningEvents, listeningSelectedDate, usersById]);
+	}, [listeningEvents, listeningSelectedDate, quizEvents, usersById]);
 
 	useEffect(() => {
 		if (listeningUserIdFilter === 'all') return;
@@ -156,9 +185,27 @@ export default function SongModulesAdmin() {
 
 	useEffect(() => {
 		if (!listeningEvents) return;
-		const unique = Array.from(new Set(listeningEvents.map((e) => e.date))).sort();
+		const unique = Array.from(new Set([...listeningEvents, ...(quizEvents ?? [])].map((e) => e.date))).sort();
 		setListeningDates(unique.slice(-60));
-	}, [listeningEvents]);
+	}, [listeningEvents, quizEvents]);
+
+	const recognitionRounds = useLiveQuery(
+		async () => {
+			if (!recognitionOpen) return [] as SongRecognitionRound[];
+			return db.songRecognitionRounds.orderBy('createdAt').toArray();
+		},
+		[recognitionOpen],
+		[] as SongRecognitionRound[],
+	);
+
+	const recognitionReport = useMemo(() => {
+		const moduleSongIds = recognitionModuleId === 'all'
+			? null
+			: new Set((modules ?? []).find((m) => m.id === recognitionModuleId)?.songIds || []);
+		const inScope = (recognitionRounds ?? []).filter((r) => !moduleSongIds || moduleSongIds.has(r.songId));
+		const forSongs = recognitionUserId === 'all' ? inScope : inScope.filter((r) => r.userId === recognitionUserId);
+		return { songs: summarizeRoundsBySong(forSongs), students: summarizeRoundsByStudent(inScope) };
+	}, [modules, recognitionModuleId, recognitionRounds, recognitionUserId]);
 
 	const formatMs = (ms: number) => {
 		const sec = Math.max(0, Math.floor(ms / 1000));
@@ -205,15 +252,19 @@ export default function SongModulesAdmin() {
 				songDurationSec?: number;
 				lyricsScrollable: boolean;
 				didScrollLyrics: boolean;
+				quizLines: number;
+				quizLinesCorrect: number;
 			}>;
 		}
-		const filtered = listeningEvents.filter((e) => e.date === listeningSelectedDate);
-		const scoped =
-			listeningUserIdFilter === 'all'
+		const inScope = <T extends { date: string; userId?: string; username?: string }>(events: T[]) => {
+			const filtered = events.filter((e) => e.date === listeningSelectedDate);
+			return listeningUserIdFilter === 'all'
 				? filtered
 				: listeningUserIdFilter.startsWith('username:')
 					? filtered.filter((e) => e.username === listeningUserIdFilter.slice('username:'.length))
 					: filtered.filter((e) => e.userId === listeningUserIdFilter);
+		};
+		const scoped = inScope(listeningEvents);
 		const map = new Map<
 			string,
 			{
@@ -228,6 +279,8 @@ export default function SongModulesAdmin() {
 				songDurationSec?: number;
 				lyricsScrollable: boolean;
 				didScrollLyrics: boolean;
+				quizLines: number;
+				quizLinesCorrect: number;
 			}
 		>();
 		for (const e of scoped) {
@@ -271,17 +324,56 @@ export default function SongModulesAdmin() {
 					songDurationSec: typeof durationSec === 'number' ? durationSec : undefined,
 					lyricsScrollable,
 					didScrollLyrics,
+					quizLines: 0,
+					quizLinesCorrect: 0,
 				});
 			}
 		}
+		// Lyrics quiz answers join the same student/song rows; a quiz alone still gets a row.
+		for (const q of inScope(quizEvents ?? [])) {
+			const userId = q.userId || 'unknown';
+			const key = `${userId}__${q.songId}`;
+			let row = map.get(key);
+			if (!row) {
+				row = {
+					userId,
+					username: q.username || usersById.get(userId)?.username || 'Unknown',
+					songId: q.songId,
+					songTitle: q.songTitle || songsById.get(q.songId)?.title || 'Unknown',
+					listenedMs: 0,
+					timeInSongMs: 0,
+					lyricsScrollable: false,
+					didScrollLyrics: false,
+					quizLines: 0,
+					quizLinesCorrect: 0,
+				};
+				map.set(key, row);
+			}
+			row.quizLines += 1;
+			if (q.isCorrect) row.quizLinesCorrect += 1;
+		}
 		return Array.from(map.values()).sort((a, b) => a.username.localeCompare(b.username) || a.songTitle.localeCompare(b.songTitle));
-	}, [listeningEvents, listeningModuleId, listeningSelectedDate, listeningUserIdFilter, songsById, usersById]);
+	}, [listeningEvents, listeningModuleId, listeningSelectedDate, listeningUserIdFilter, quizEvents, songsById, usersById]);
 
 	return (
 		<div className="max-w-7xl mx-auto space-y-6">
-			<div>
-				<h1 className="text-3xl font-bold text-foreground">Song Modules</h1>
-				<p className="text-muted-foreground mt-2">Create modules, select songs, and assign them to users.</p>
+			<div className="flex items-start justify-between gap-4">
+				<div>
+					<h1 className="text-3xl font-bold text-foreground">Song Modules</h1>
+					<p className="text-muted-foreground mt-2">Create modules, select songs, and assign them to users.</p>
+				</div>
+				<Button
+					variant="outline"
+					className="shrink-0"
+					onClick={() => {
+						setRecognitionModuleId('all');
+						setRecognitionUserId('all');
+						setRecognitionOpen(true);
+					}}
+				>
+					<Ear className="h-4 w-4 mr-2" />
+					Recognition report
+				</Button>
 			</div>
 
 			<Card className="p-6 space-y-4">
@@ -391,6 +483,26 @@ export default function SongModulesAdmin() {
 				</div>
 			</Card>
 
+			{(overdueAssignments ?? []).length > 0 && (
+				<Card className="p-4 space-y-2 border-red-200 bg-red-50">
+					<div className="font-semibold">Overdue ({overdueAssignments.length})</div>
+					<div className="text-xs text-muted-foreground">Assigned students who had not finished a module's songs by its due date.</div>
+					<div className="rounded-md border bg-background divide-y">
+						{overdueAssignments.map((o) => {
+							const m = modulesById.get(o.moduleId);
+							if (!m) return null;
+							return (
+								<div key={`${o.moduleId}__${o.userId}`} className="grid grid-cols-12 gap-2 px-3 py-2 text-sm">
+									<div className="col-span-3 truncate">{usersById.get(o.userId)?.username || o.userId}</div>
+									<div className="col-span-4 truncate" title={m.title}>{m.title}</div>
+									<div className="col-span-5 text-xs text-muted-foreground">{describeSongModuleProgress(m.goals!, o.progress)}</div>
+								</div>
+							);
+						})}
+					</div>
+				</Card>
+			)}
+
 			<div className="space-y-3">
 				{(modules ?? []).map((m) => {
 					const assignedUsers = (m.assignedUserIds || []).map((id) => usersById.get(id)).filter(Boolean) as User[];
@@ -400,6 +512,19 @@ export default function SongModulesAdmin() {
 								<div className="text-lg font-semibold truncate">{m.title}</div>
 								{m.description ? <div className="text-sm text-muted-foreground">{m.description}</div> : null}
 								<div className="text-sm text-muted-foreground mt-1">Songs: {m.songIds.length}</div>
+								{m.goals ? (
+									<div className="text-xs text-muted-foreground mt-1">
+										Goals:{' '}
+										{[
+											m.goals.minSongPercent ? `each song ${m.goals.minSongPercent}%` : '',
+											m.goals.minMinutesPerDay ? `${m.goals.minMinutesPerDay} min/day` : '',
+											m.goals.requireLyricsScroll ? 'lyrics scrolled' : '',
+											m.goals.dueDate ? `due ${m.goals.dueDate}` : '',
+										]
+											.filter(Boolean)
+											.join(', ')}
+									</div>
+								) : null}
 								<div className="text-xs text-muted-foreground mt-2">
 									Assigned users: {assignedUsers.length ? assignedUsers.map((u) => u.username).join(', ') : 'None'}
 								</div>
@@ -414,6 +539,10 @@ export default function SongModulesAdmin() {
 										setEditDescription(m.description || '');
 										setEditVisible(m.visible !== false);
 										setEditSelectedSongIds(m.songIds || []);
+										setEditMinSongPercent(m.goals?.minSongPercent ? String(m.goals.minSongPercent) : '');
+										setEditMinMinutesPerDay(m.goals?.minMinutesPerDay ? String(m.goals.minMinutesPerDay) : '');
+										setEditRequireLyricsScroll(m.goals?.requireLyricsScroll === true);
+										setEditDueDate(m.goals?.dueDate || '');
 									}}
 								>
 									<Pencil className="h-4 w-4 mr-2" />
@@ -461,13 +590,17 @@ export default function SongModulesAdmin() {
 						setEditVisible(true);
 						setEditSelectedSongIds([]);
 						setEditSongSearch('');
+						setEditMinSongPercent('');
+						setEditMinMinutesPerDay('');
+						setEditRequireLyricsScroll(false);
+						setEditDueDate('');
 					}
 				}}
 			>
 				<DialogContent className="max-w-6xl">
 					<DialogHeader>
 						<DialogTitle>Edit module</DialogTitle>
-						<DialogDescription>Update title/description, choose songs, and toggle visibility.</DialogDescription>
+						<DialogDescription>Update title/description, choose songs, set listening goals, and toggle visibility.</DialogDescription>
 					</DialogHeader>
 					<div className="space-y-4">
 						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -484,6 +617,27 @@ export default function SongModulesAdmin() {
 							<Checkbox checked={editVisible} onCheckedChange={(v: CheckedState) => setEditVisible(v === true)} />
 							<span>Visible to students</span>
 						</label>
+						<div className="space-y-2">
+							<Label>Listening goals (optional)</Label>
+							<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+								<div className="space-y-1">
+									<div className="text-xs text-muted-foreground">Listen to each song at least (% of its length)</div>
+									<Input type="number" min={1} max={100} value={editMinSongPercent} onChange={(e) => setEditMinSongPercent(e.target.value)} />
+								</div>
+								<div className="space-y-1">
+									<div className="text-xs text-muted-foreground">Minutes of listening per day</div>
+									<Input type="number" min={1} value={editMinMinutesPerDay} onChange={(e) => setEditMinMinutesPerDay(e.target.value)} />
+								</div>
+								<div className="space-y-1">
+									<div className="text-xs text-muted-foreground">Due date (unfinished students become overdue)</div>
+									<Input type="date" value={editDueDate} onChange={(e) => setEditDueDate(e.target.value)} />
+								</div>
+							</div>
+							<label className="flex items-center gap-2 text-sm">
+								<Checkbox checked={editRequireLyricsScroll} onCheckedChange={(v: CheckedState) => setEditRequireLyricsScroll(v === true)} />
+								<span>Lyrics must be scrolled through on each song</span>
+							</label>
+						</div>
 						<div className="space-y-2">
 							<Label>Select songs for this module</Label>
 							<Input value={editSongSearch} onChange={(e) => setEditSongSearch(e.target.value)} placeholder="Search songs..." />
@@ -554,6 +708,12 @@ export default function SongModulesAdmin() {
 									description: editDescription.trim() || undefined,
 									visible: editVisible,
 									songIds: editSelectedSongIds.slice(),
+									goals: normalizeSongModuleGoals({
+										minSongPercent: Number(editMinSongPercent) || undefined,
+										minMinutesPerDay: Number(editMinMinutesPerDay) || undefined,
+										requireLyricsScroll: editRequireLyricsScroll,
+										dueDate: editDueDate || undefined,
+									}),
 									updatedAt: Date.now(),
 								});
 								toast.success('Module updated');
@@ -664,10 +824,11 @@ export default function SongModulesAdmin() {
 									{listeningRows.length ? (
 										<div className="rounded-md border overflow-hidden">
 											<div className="grid grid-cols-12 bg-muted px-3 py-2 text-xs font-medium">
-												<div className="col-span-4">Student</div>
-												<div className="col-span-5">Song</div>
+												<div className="col-span-3">Student</div>
+												<div className="col-span-4">Song</div>
 												<div className="col-span-1 text-right" title="Time spent on the song screen (even if audio was not playing)">On screen</div>
 												<div className="col-span-2 text-right" title="Estimated time the audio was actually playing">Audio played</div>
+												<div className="col-span-2 text-right" title="Lyrics quiz lines answered fully correctly">Recall</div>
 											</div>
 											<div className="divide-y">
 												{listeningRows.map((r) => (
@@ -680,10 +841,13 @@ export default function SongModulesAdmin() {
 															setListeningDetailsOpen(true);
 														}}
 													>
-														<div className="col-span-4 truncate" title={r.username}>{r.username}</div>
-														<div className="col-span-5 truncate" title={r.songTitle}>{r.songTitle}</div>
+														<div className="col-span-3 truncate" title={r.username}>{r.username}</div>
+														<div className="col-span-4 truncate" title={r.songTitle}>{r.songTitle}</div>
 														<div className="col-span-1 text-right text-xs text-muted-foreground tabular-nums">{formatMs(r.timeInSongMs)}</div>
 														<div className="col-span-2 text-right text-xs text-muted-foreground tabular-nums">{formatMs(r.listenedMs)}</div>
+														<div className="col-span-2 text-right text-xs text-muted-foreground tabular-nums">
+															{r.quizLines ? `${r.quizLinesCorrect}/${r.quizLines}` : '—'}
+														</div>
 													</button>
 												))}
 											</div>
@@ -701,6 +865,126 @@ export default function SongModulesAdmin() {
 				</DialogContent>
 			</Dialog>
 
+			{/* Song Recognition Report */}
+			<Dialog open={recognitionOpen} onOpenChange={setRecognitionOpen}>
+				<DialogContent className="max-w-6xl">
+					<DialogHeader>
+						<DialogTitle>Song Recognition</DialogTitle>
+						<DialogDescription>
+							Which songs students identify in the recognition test, least recognised first. A song needs {MIN_ROUNDS_FOR_VERDICT} rounds before it is marked.
+						</DialogDescription>
+					</DialogHeader>
+					<div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+						<div className="flex items-center gap-2">
+							<span>Module:</span>
+							<Select value={recognitionModuleId} onValueChange={(v) => setRecognitionModuleId(v)}>
+								<SelectTrigger className="h-8 w-52 text-xs">
+									<SelectValue placeholder="All songs" />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="all">All songs</SelectItem>
+									{(modules ?? []).map((m) => (
+										<SelectItem key={m.id} value={m.id}>{m.title}</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="flex items-center gap-2">
+							<span>Student:</span>
+							<Select value={recognitionUserId} onValueChange={(v) => setRecognitionUserId(v)}>
+								<SelectTrigger className="h-8 w-44 text-xs" disabled={recognitionReport.students.length === 0}>
+									<SelectValue placeholder="All students" />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="all">All students</SelectItem>
+									{recognitionReport.students.map((st) => (
+										<SelectItem key={st.userId} value={st.userId}>
+											{usersById.get(st.userId)?.username || st.username || st.userId}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+					<div className="grid grid-cols-12 gap-4">
+						<div className="col-span-8">
+							<Card className="p-3 h-[60vh] overflow-hidden">
+								<div className="text-sm font-medium mb-2">Songs</div>
+								<ScrollArea className="h-[54vh] rounded-md">
+									{recognitionReport.songs.length ? (
+										<div className="rounded-md border overflow-hidden">
+											<div className="grid grid-cols-12 bg-muted px-3 py-2 text-xs font-medium">
+												<div className="col-span-4">Song</div>
+												<div className="col-span-2 text-right">Correct</div>
+												<div className="col-span-2 text-right" title="Average time from the snippet appearing to the answer">Avg. answer</div>
+												<div className="col-span-4">Mistaken for</div>
+											</div>
+											<div className="divide-y">
+												{recognitionReport.songs.map((row) => {
+													const decided = row.rounds >= MIN_ROUNDS_FOR_VERDICT;
+													const weak = decided && row.accuracy < WEAK_SONG_ACCURACY;
+													const confused = row.mostConfusedWith ? songsById.get(row.mostConfusedWith.songId)?.title || 'Deleted song' : null;
+													return (
+														<div key={row.songId} className="grid grid-cols-12 gap-2 px-3 py-2 text-sm">
+															<div className="col-span-4 min-w-0">
+																<div className="truncate">{songsById.get(row.songId)?.title || 'Deleted song'}</div>
+																<div className={`text-xs ${weak ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}`}>
+																	{!decided ? 'Too few rounds' : weak ? 'Not recognised' : 'Recognised'} · {row.students} student{row.students === 1 ? '' : 's'}
+																</div>
+															</div>
+															<div className="col-span-2 text-right tabular-nums">
+																{Math.round(row.accuracy * 100)}%
+																<div className="text-xs text-muted-foreground">{row.correct}/{row.rounds}</div>
+															</div>
+															<div className="col-span-2 text-right text-xs text-muted-foreground tabular-nums">{formatMs(row.avgResponseMs)}</div>
+															<div className="col-span-4 truncate text-xs text-muted-foreground" title={confused || undefined}>
+																{confused ? `${confused} (${row.mostConfusedWith?.count}×)` : '—'}
+															</div>
+														</div>
+													);
+												})}
+											</div>
+										</div>
+									) : (
+										<div className="p-8 text-center text-muted-foreground">No recognition rounds yet.</div>
+									)}
+								</ScrollArea>
+							</Card>
+						</div>
+						<div className="col-span-4">
+							<Card className="p-3 h-[60vh] overflow-hidden">
+								<div className="text-sm font-medium mb-2">Students</div>
+								<ScrollArea className="h-[54vh] rounded-md">
+									<div className="divide-y">
+										{recognitionReport.students.length ? recognitionReport.students.map((st) => (
+											<button
+												type="button"
+												key={st.userId}
+												className={`w-full p-3 text-left text-sm hover:bg-muted/60 ${recognitionUserId === st.userId ? 'bg-muted' : ''}`}
+												onClick={() => setRecognitionUserId(recognitionUserId === st.userId ? 'all' : st.userId)}
+											>
+												<div className="flex items-center justify-between gap-2">
+													<span className="font-medium truncate">{usersById.get(st.userId)?.username || st.username || st.userId}</span>
+													<span className="tabular-nums">{Math.round(st.accuracy * 100)}%</span>
+												</div>
+												<div className="text-xs text-muted-foreground">
+													{st.rounds} rounds · streak {st.streaks.current} (best {st.streaks.best}) · level {st.difficultyLevel + 1}
+												</div>
+											</button>
+										)) : (
+											<div className="p-6 text-center text-muted-foreground">No students yet.</div>
+										)}
+									</div>
+								</ScrollArea>
+							</Card>
+						</div>
+					</div>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setRecognitionOpen(false)}>Close</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+
 			<Dialog
 				open={listeningDetailsOpen}
 				onOpenChange={(open) => {
@@ -1,7 +1,8 @@
-import { useMemo, useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { useLiveQuery } from "dexie-react-hooks";
 import { useNavigate } from "react-router-dom";
-import { AppSettings, db, Song, SongListeningEvent, SongSrtCue } from "@/lib/db";
+import { v4 as uuidv4 } from "uuid";
+import { AppSettings, db, Song, SongListeningEvent, SongRecognitionRound, SongSrtCue } from "@/lib/db";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -11,6 +12,7 @@ import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
 import { Check, ChevronsUpDown } from "lucide-react";
+import { getUserRecognitionRounds, nextDifficulty, recordRecognitionRound, resumeRecognitionState } from "@/lib/songRecognition";
 
 export default function SongRecognition() {
 	const navigate = useNavigate();
@@ -75,6 +77,16 @@ export default function SongRecognition() {
 		return map;
 	}, [listeningEvents]);
 
+	const myRounds = useLiveQuery<SongRecognitionRound[]>(async () => {
+		if (!user) return [] as SongRecognitionRound[];
+		try {
+			return await getUserRecognitionRounds(user.id);
+		} catch {
+			return [] as SongRecognitionRound[];
+		}
+	}, [user?.id]);
+	const history = useMemo(() => resumeRecognitionState(myRounds ?? []), [myRounds]);
+
 	const normalizeCueText = (value: string) =>
 		(value || '')
 			.toLowerCase()
@@ -183,9 +195,12 @@ export default function SongRecognition() {
 			songId: string;
 			clipStartMs?: number;
 			clipEndMs?: number;
+			snippetKey?: string;
 			requiresSrt: boolean;
 		}
 	>(null);
+	const sessionIdRef = useRef<string>("");
+	const challengeShownAtRef = useRef<number>(0);
 
 	const makeChallenge = (prevUsedSongIds: string[], prevUsedSnippetKeys: string[], nextDifficultyLevel: number) => {
 		const pool = (songs ?? []).filter((s) => s.visible !== false);
@@ -284,6 +299,7 @@ export default function SongRecognition() {
 					requiresSrt: true,
 				},
 				nextUsedSongIds,
+				nextUsedSnippetKeys,
 			};
 		}
 
@@ -311,6 +327,7 @@ export default function SongRecognition() {
 		};
 
 		let pickedBlock: SongSrtCue[] | null = null;
+		let snippetKey: string | undefined;
 		for (const len of lineOptions) {
 			const candidates: number[] = [];
 			for (let i = 0; i + (len - 1) < trimmed.length; i += 1) {
@@ -351,7 +368,8 @@ export default function SongRecognition() {
 				pickedBlock = trimmed.slice(start, start + len);
 				const base = trimmed[start];
 				const cueIdx = base?.cueIndex ?? start;
-				nextUsedSnippetKeys = [...nextUsedSnippetKeys, `${picked.id}:${cueIdx}:${len}`].slice(-200);
+				snippetKey = `${picked.id}:${cueIdx}:${len}`;
+				nextUsedSnippetKeys = [...nextUsedSnippetKeys, snippetKey].slice(-200);
 				break;
 			}
 		}
@@ -378,6 +396,7 @@ export default function SongRecognition() {
 				songId: picked.id,
 				clipStartMs,
 				clipEndMs,
+				snippetKey,
 				requiresSrt: false,
 			},
 			nextUsedSongIds,
@@ -385,6 +404,50 @@ export default function SongRecognition() {
 		};
 	};
 
+	const showChallenge = (next: NonNullable<ReturnType<typeof makeChallenge>>) => {
+		setChallenge(next.challenge);
+		setUsedSongIds(next.nextUsedSongIds);
+		setUsedSnippetKeys(next.nextUsedSnippetKeys);
+		setGuessSongId("");
+		setGuessQuery("");
+		setResult("idle");
+		challengeShownAtRef.current = Date.now();
+	};
+
+	const checkAnswer = () => {
+		if (!challenge || !guessSongId) return;
+		const isCorrect = guessSongId === challenge.songId;
+		setResult(isCorrect ? "correct" : "wrong");
+		const step = nextDifficulty(difficultyLevel, recentOutcomes, isCorrect);
+		setRecentOutcomes(step.outcomes);
+		setDifficultyLevel(step.level);
+		if (step.leveledUp) toast.message("Difficulty increased");
+		if (!user) return;
+		void recordRecognitionRound({
+			userId: user.id,
+			username: user.username,
+			songId: challenge.songId,
+			guessSongId,
+			correct: isCorrect,
+			clipStartMs: challenge.requiresSrt ? undefined : challenge.clipStartMs,
+			clipEndMs: challenge.requiresSrt ? undefined : challenge.clipEndMs,
+			snippetKey: challenge.snippetKey,
+			difficultyLevel,
+			responseMs: Math.max(0, Date.now() - challengeShownAtRef.current),
+			sessionId: sessionIdRef.current,
+		}).catch((e) => {
+			console.error(e);
+			toast.error("Failed to save your answer");
+		});
+	};
+
+	const currentSongStats = useMemo(() => {
+		if (!challenge || result === "idle") return null;
+		const rounds = (myRounds ?? []).filter((r) => r.songId === challenge.songId);
+		if (!rounds.length) return null;
+		return { rounds: rounds.length, correct: rounds.filter((r) => r.correct).length };
+	}, [challenge, myRounds, result]);
+
 	const guessOptions = useMemo(() => {
 		const list = (songs ?? []).filter((s) => s.visible !== false);
 		const q = guessQuery.trim().toLowerCase();
@@ -434,18 +497,17 @@ export default function SongRecognition() {
 								setResult("idle");
 								return;
 							}
-							const next = makeChallenge([], [], 0);
+							// Pick up where the last session left off: same level, no recently heard snippets.
+							const next = makeChallenge([], history.usedSnippetKeys, history.difficultyLevel);
 							if (!next) {
 								toast.error("No songs available");
 								return;
 							}
-							setChallenge(next.challenge);
-							setUsedSongIds(next.nextUsedSongIds);
-							setUsedSnippetKeys(next.nextUsedSnippetKeys);
+							sessionIdRef.current = uuidv4();
+							setDifficultyLevel(history.difficultyLevel);
+							setRecentOutcomes(history.recentOutcomes);
+							showChallenge(next);
 							setActive(true);
-							setGuessSongId("");
-							setGuessQuery("");
-							setResult("idle");
 						}}
 					>
 						{active ? "Close test" : "Start test"}
@@ -453,6 +515,21 @@ export default function SongRecognition() {
 				</div>
 			</div>
 
+			{user && history.rounds > 0 ? (
+				<div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+					<span>
+						Streak: <span className="font-semibold text-foreground">{history.streaks.current}</span> (best {history.streaks.best})
+					</span>
+					<span>
+						Accuracy: <span className="font-semibold text-foreground">{Math.round((history.correct / history.rounds) * 100)}%</span> over{" "}
+						{history.rounds} rounds
+					</span>
+					<span>
+						Level: <span className="font-semibold text-foreground">{(active ? difficultyLevel : history.difficultyLevel) + 1}</span>
+					</span>
+				</div>
+			) : null}
+
 			{active && challenge ? (
 				<Card className="p-4">
 					<div className="space-y-3">
@@ -542,6 +619,11 @@ export default function SongRecognition() {
 								{result === "idle" ? "Pick an answer, then check." : null}
 								{result === "correct" ? "Correct!" : null}
 								{result === "wrong" ? "Wrong." : null}
+								{currentSongStats ? (
+									<span className="ml-2 font-normal">
+										You have recognised this song {currentSongStats.correct} of {currentSongStats.rounds} times.
+									</span>
+								) : null}
 							</div>
 
 							<div className="flex items-center gap-2">
@@ -550,39 +632,12 @@ export default function SongRecognition() {
 									onClick={() => {
 										const next = makeChallenge(usedSongIds, usedSnippetKeys, difficultyLevel);
 										if (!next) return;
-										setChallenge(next.challenge);
-										setUsedSongIds(next.nextUsedSongIds);
-										setUsedSnippetKeys(next.nextUsedSnippetKeys);
-										setGuessSongId("");
-										setGuessQuery("");
-										setResult("idle");
+										showChallenge(next);
 									}}
 								>
 									New snippet
 								</Button>
-								<Button
-									disabled={!guessSongId || !challenge}
-									onClick={() => {
-										if (!challenge) return;
-										const isCorrect = guessSongId === challenge.songId;
-										setResult(isCorrect ? "correct" : "wrong");
-										setRecentOutcomes((prev) => {
-											const next = [...prev, isCorrect].slice(-10);
-											if (next.length >= 8) {
-												const correctCount = next.filter(Boolean).length;
-												if (correctCount >= 8) {
-													setDifficultyLevel((d) => {
-														if (d >= 2) return d;
-														toast.message("Difficulty increased");
-														return d + 1;
-													});
-													return [];
-												}
-											}
-											return next;
-										});
-									}}
-								>
+								<Button disabled={!guessSongId || !challenge || result !== "idle"} onClick={checkAnswer}>
 									Check
 								</Button>
 							</div>
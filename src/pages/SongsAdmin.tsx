@@ -11,9 +11,11 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
-import { Check, ChevronsUpDown, Eye, Pencil, Play, Pause, RefreshCcw, Trash2 } from "lucide-react";
+import { Check, ChevronsUpDown, Eye, Pencil, Play, Pause, RefreshCcw, Timer, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import AudioPlayer from "@/components/AudioPlayer";
+import { LyricsAlignmentEditor } from "@/components/LyricsAlignmentEditor";
+import type { TimedLyricCue } from "@/lib/songLyrics";
 
 async function fileToBase64(file: File): Promise<string> {
 	return new Promise((resolve, reject) => {
@@ -175,15 +177,14 @@ async function persistSongSrtCues(songId: string, srtText: string) {
 	});
 }
 
-async function persistSongTimedLyricsCues(songId: string, timedText: string, format: 'srt' | 'lrc') {
-	const parsed = format === 'lrc' ? parseLrc(timedText) : parseSrt(timedText);
+async function persistSongCues(songId: string, cues: Array<TimedLyricCue & { cueIndex?: number }>) {
 	const now = Date.now();
 	await db.transaction('rw', [db.songSrtCues], async () => {
 		await db.songSrtCues.where('songId').equals(songId).delete();
-		if (!parsed.length) return;
-		const rows: SongSrtCue[] = parsed
+		if (!cues.length) return;
+		const rows: SongSrtCue[] = cues
 			.map((c, i) => ({
-				id: `${songId}:${i}:${c.cueIndex}:${uuidv4()}`,
+				id: `${songId}:${i}:${c.cueIndex ?? i}:${uuidv4()}`,
 				songId,
 				cueIndex: i,
 				startMs: c.startMs,
@@ -195,6 +196,11 @@ async function persistSongTimedLyricsCues(songId: string, timedText: string, for
 	});
 }
 
+async function persistSongTimedLyricsCues(songId: string, timedText: string, format: 'srt' | 'lrc') {
+	const parsed = format === 'lrc' ? parseLrc(timedText) : parseSrt(timedText);
+	await persistSongCues(songId, parsed);
+}
+
 function ComboBox({
 	value,
 	onChange,
@@ -320,6 +326,7 @@ export default function SongsAdmin() {
 	const [deleteTarget, setDeleteTarget] = useState<Song | null>(null);
 	const [deleting, setDeleting] = useState(false);
 	const [viewTarget, setViewTarget] = useState<Song | null>(null);
+	const [alignTarget, setAlignTarget] = useState<Song | null>(null);
 	const [editTarget, setEditTarget] = useState<Song | null>(null);
 	const [editTitle, setEditTitle] = useState("");
 	const [editSinger, setEditSinger] = useState("");
@@ -981,6 +988,17 @@ export default function SongsAdmin() {
 								>
 									<RefreshCcw className="h-4 w-4" />
 								</Button>
+								<Button
+									variant="outline"
+									size="icon"
+									className="h-8 w-8"
+									aria-label="Align lyrics"
+									title={srtCountBySongId.get(s.id) ? 'Adjust lyric timing' : 'Time lyrics by tapping'}
+									disabled={!s.audioFileUrl || (!srtCountBySongId.get(s.id) && !(s.lyrics || '').trim())}
+									onClick={() => setAlignTarget(s)}
+								>
+									<Timer className="h-4 w-4" />
+								</Button>
 								<Button
 									variant="outline"
 									size="icon"
@@ -1268,6 +1286,45 @@ export default function SongsAdmin() {
 				</DialogContent>
 			</Dialog>
 
+			<Dialog
+				open={!!alignTarget}
+				onOpenChange={(open) => {
+					if (!open) setAlignTarget(null);
+				}}
+			>
+				<DialogContent className="max-w-3xl max-h-[92vh] overflow-y-auto">
+					<DialogHeader>
+						<DialogTitle>Align lyrics</DialogTitle>
+						<DialogDescription>
+							Stamp the start of each lyric line while the song plays. Saved cues replace the song's timed lyrics and are used for song recognition.
+						</DialogDescription>
+					</DialogHeader>
+					{alignTarget ? (
+						<LyricsAlignmentEditor
+							key={alignTarget.id}
+							song={alignTarget}
+							cues={songSrtBySongId.get(alignTarget.id) || []}
+							onSave={async (cues) => {
+								try {
+									await persistSongCues(alignTarget.id, cues);
+									toast.success(`Saved ${cues.length} timed lines`);
+									return true;
+								} catch (e) {
+									console.error(e);
+									toast.error('Failed to save timed lyrics');
+									return false;
+								}
+							}}
+						/>
+					) : null}
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setAlignTarget(null)}>
+							Close
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+
 			<Dialog
 				open={!!editTarget}
 				onOpenChange={(open) => {
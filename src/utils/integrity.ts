@@ -1,7 +1,10 @@
 import { v4 as uuidv4 } from 'uuid';
 import { db, IntegrityEvent, IntegrityEventType } from '@/lib/db';
+import { chainIntegrityEvent } from '@/lib/attemptChain';
 
 let integrityChannel: BroadcastChannel | null = null;
+// In-window subscribers; the BroadcastChannel only reaches other tabs.
+const localListeners = new Set<(event: IntegrityEvent) => void>();
 
 function getChannel() {
   if (typeof window === 'undefined') return null;
@@ -35,12 +38,14 @@ export async function logIntegrityEvent(
         attempt.integrityEvents = [...(attempt.integrityEvents || []), event];
       });
     });
+    void chainIntegrityEvent(event);
     try {
       const channel = getChannel();
       channel?.postMessage({ type: 'integrity-event', event });
     } catch (err) {
       // Silently handle BroadcastChannel errors (channel may be closed)
     }
+    localListeners.forEach((listener) => listener(event));
     return event;
   } catch (error) {
     console.error('Failed to log integrity event', error);
@@ -48,6 +53,14 @@ export async function logIntegrityEvent(
   }
 }
 
+/** Calls listener for every event logged in this window. Returns an unsubscribe function. */
+export function onIntegrityEvent(listener: (event: IntegrityEvent) => void): () => void {
+  localListeners.add(listener);
+  return () => {
+    localListeners.delete(listener);
+  };
+}
+
 export async function incrementVisibilityLoss(attemptId: string): Promise<number | null> {
   try {
     let nextValue: number | null = null;
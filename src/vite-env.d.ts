@@ -1,20 +1,81 @@
 /// <reference types="vite/client" />
 
+type OfflineAiBridgeStatus = (
+	| { available: true; reason: 'ok'; exePath?: string; modelPath?: string }
+	| { available: false; reason: string }
+) & {
+	queue?: { running: { requestId: string; kind: 'embed' | 'chat' } | null; pending: number };
+};
+
 declare global {
+	// A question parsed by the OCR import in the Electron main process (electron/ocrImport.cjs).
+	interface OcrImportItem {
+		number: number;
+		text: string;
+		options: Array<{ label: string; text: string }>;
+		fileName: string;
+		page: number;
+		// PNG crop of the question's region on the page, when it could be cut out.
+		imageDataUrl?: string;
+		// Crops of the same question on the following pages, when it runs over a page break.
+		continuationImageDataUrls?: string[];
+	}
+
+
+	// A proctoring screenshot saved under userData/proctoring/<attemptId>.
+	interface ProctoringScreenshot {
+		fileName: string;
+		filePath: string;
+		ts: number;
+		questionId?: string;
+	}
+
+	// Sent by the main process (electron/lockdown.cjs) for every key or close it swallowed.
+	interface LockdownBlockedEvent {
+		attemptId: string;
+		kind: 'shortcut' | 'close';
+		detail: string;
+		ts: number;
+	}
+
 	interface Window {
+		// Attempt hash chains; the device secret and each attempt's chain head stay in the main process.
+		attemptChain?: {
+			append: (payload: { attemptId: string; payloads: string[] }) => Promise<{ keyId: string; prevHash: string; hashes: string[] }>;
+			verify: (payload: {
+				attemptId: string;
+				links: Array<{ payload: string; hash: string }>;
+			}) => Promise<{ keyId: string; verdict: 'valid' | 'broken' | 'mismatch' | 'unknown'; brokenAt: number; recordedLinks: number }>;
+		};
+		examLockdown?: {
+			enter: (payload: { attemptId: string; kiosk?: boolean; blockShortcuts?: boolean }) => Promise<{ active: boolean }>;
+			exit: (payload?: { attemptId?: string }) => Promise<{ active: boolean }>;
+			onBlocked: (callback: (blocked: LockdownBlockedEvent) => void) => () => void;
+		};
 		examProctor?: {
 			captureAppScreenshot: (payload?: {
 				attemptId?: string;
 				questionId?: string;
 				rect?: { x: number; y: number; width: number; height: number };
+				limits?: { maxPerAttempt?: number; maxTotalMb?: number; retentionDays?: number };
 			}) => Promise<{
-				filePath: string;
+				// Missing when skipped because the attempt or the disk quota is full.
+				filePath?: string;
+				skipped?: boolean;
 				ts: number;
 				attemptId: string;
 				questionId?: string;
 			}>;
 			captureFullPageScreenshot?: () => Promise<{ dataUrl: string }>;
 			captureViewportScreenshot?: () => Promise<{ dataUrl: string }>;
+			listScreenshots?: (payload: { attemptId: string }) => Promise<ProctoringScreenshot[]>;
+			readScreenshot?: (payload: { attemptId: string; fileName: string }) => Promise<{ dataUrl: string }>;
+			// Limits come from each attempt's own record in the main process; the page can only hold attempts back.
+			pruneScreenshots?: (payload: { holdAttemptIds?: string[] }) => Promise<{ removedFiles: number; freedBytes: number }>;
+			exportEvidenceBundle?: (payload: {
+				attemptId: string;
+				files: Array<{ name: string; content: string }>;
+			}) => Promise<{ canceled: boolean; filePath?: string; manifestSha256?: string; fileCount?: number }>;
 		};
 		songs?: {
 			saveAudioFile: (payload: { fileName: string; dataBase64: string }) => Promise<{ filePath: string; fileUrl: string }>;
@@ -23,6 +84,41 @@ declare global {
 		};
 		data?: {
 			exportJsonToFile: (payload: { defaultFileName: string; dataText: string }) => Promise<{ canceled: boolean; filePath?: string }>;
+			openExportFile?: (payload: { defaultFileName: string }) => Promise<{ canceled: boolean; token?: string; filePath?: string }>;
+			appendExportFile: (payload: { token: string; chunk: string }) => Promise<{ ok: boolean }>;
+			closeExportFile: (payload: { token: string; abort?: boolean }) => Promise<{ ok: boolean; aborted?: boolean; filePath?: string }>;
+		};
+		offlineAi?: {
+			status: () => Promise<OfflineAiBridgeStatus>;
+			reasoningStatus: () => Promise<OfflineAiBridgeStatus>;
+			embedText: (payload: {
+				text: string;
+				modelId: string;
+				seed?: number;
+				threads?: number;
+				requestId?: string;
+			}) => Promise<{ modelId: string; dims: number; vector: number[] }>;
+			chat: (payload: {
+				system?: string;
+				messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+				maxTokens?: number;
+				temperature?: number;
+				seed?: number;
+				threads?: number;
+				requestId?: string;
+			}) => Promise<{ text: string }>;
+			// Drops a queued request or stops the running one; its promise rejects with "offline_ai_cancelled".
+			cancel?: (payload: { requestId: string }) => Promise<{ cancelled: boolean }>;
+		};
+		ocrImport?: {
+			status: () => Promise<{ available: boolean; reason: 'ok' | 'missing_binary' | 'missing_tessdata' }>;
+			chooseAndImport: (payload?: { dpi?: number }) => Promise<{
+				canceled: boolean;
+				pages?: number;
+				warnings?: string[];
+				items?: OcrImportItem[];
+			}>;
+			onProgress?: (callback: (progress: { done: number; total: number }) => void) => () => void;
 		};
 	}
 }